@@ -1,5 +1,7 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import type { ComponentState } from '../../utils/types';
 
 const CHOICE_STYLES = `
   :host {
@@ -41,7 +43,7 @@ const CHOICE_STYLES = `
     font-family: inherit;
     font-size: 14px;
     color: inherit;
-    text-align: left;
+    text-align: start;
     width: 100%;
     box-sizing: border-box;
   }
@@ -64,7 +66,7 @@ const CHOICE_STYLES = `
     height: 18px;
     border: 2px solid var(--livellm-border, #e0e0e0);
     border-radius: 50%;
-    margin-right: 10px;
+    margin-inline-end: 10px;
     flex-shrink: 0;
     position: relative;
     transition: var(--livellm-transition, 0.2s ease);
@@ -119,10 +121,12 @@ export class LiveLLMChoice extends LiveLLMComponent {
 
     this.setStyles(CHOICE_STYLES);
 
+    // Options can't be picked until the full list has streamed in
+    const locked = this.submitted || this.streaming;
     const optionsHtml = options
       .map(
         (opt, i) => `
-        <button class="choice-option${i === this.selectedIndex ? ' selected' : ''}${this.submitted ? ' disabled' : ''}" data-index="${i}">
+        <button class="choice-option${i === this.selectedIndex ? ' selected' : ''}${locked ? ' disabled' : ''}" data-index="${i}">
           <div class="choice-radio"></div>
           <div>
             <div class="choice-label">${this.escapeHtml(opt.label)}</div>
@@ -139,7 +143,7 @@ export class LiveLLMChoice extends LiveLLMComponent {
       </div>
     `);
 
-    if (!this.submitted) {
+    if (!locked) {
       this.shadowRoot?.querySelectorAll('.choice-option').forEach((btn) => {
         btn.addEventListener('click', (e) => {
           const target = (e.currentTarget as HTMLElement);
@@ -150,8 +154,17 @@ export class LiveLLMChoice extends LiveLLMComponent {
     }
   }
 
+  getState(): ComponentState {
+    return { selectedIndex: this.selectedIndex, submitted: this.submitted };
+  }
+
+  protected applyState(state: ComponentState): void {
+    if (typeof state.selectedIndex === 'number') this.selectedIndex = state.selectedIndex;
+    if (typeof state.submitted === 'boolean') this.submitted = state.submitted;
+  }
+
   private selectOption(index: number): void {
-    if (this.submitted) return;
+    if (this.submitted || this.streaming) return;
 
     const rawOptions: (ChoiceOption | string)[] = this._props.options || this._props.choices || this._props.items || [];
     const options: ChoiceOption[] = rawOptions.map(o => this.normalizeOption(o));
@@ -182,7 +195,16 @@ export const CHOICE_REGISTRATION: RegisterOptions = {
     choices: { type: 'array' },
     items: { type: 'array' },
   },
+  actions: {
+    'choice-select': {
+      value: { type: 'string' },
+      data: { index: { type: 'number', min: 0 }, option: { type: 'object' } },
+      label: 'Selected: {value}',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.choice,
   category: 'action',
+  progressive: true,
   skeleton: {
     html: '<div style="height:120px;border-radius:8px;background:#e0e0e0;"></div>',
     height: '120px',
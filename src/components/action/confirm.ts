@@ -1,5 +1,7 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import type { ComponentState } from '../../utils/types';
 
 const CONFIRM_STYLES = `
   :host {
@@ -77,16 +79,16 @@ export class LiveLLMConfirm extends LiveLLMComponent {
   private answer: boolean | null = null;
 
   render(): void {
-    const text: string = this._props.text || 'Are you sure?';
-    const confirmLabel: string = this._props.confirmLabel || 'Yes';
-    const cancelLabel: string = this._props.cancelLabel || 'No';
+    const text: string = this._props.text || this.t('confirm.text');
+    const confirmLabel: string = this._props.confirmLabel || this.t('confirm.yes');
+    const cancelLabel: string = this._props.cancelLabel || this.t('confirm.no');
 
     this.setStyles(CONFIRM_STYLES);
 
     let resultHtml = '';
     if (this.answered) {
       const label = this.answer ? confirmLabel : cancelLabel;
-      resultHtml = `<div class="confirm-result">You selected: ${this.escapeHtml(label)}</div>`;
+      resultHtml = `<div class="confirm-result">${this.escapeHtml(this.t('confirm.result', { value: label }))}</div>`;
     }
 
     this.setContent(`
@@ -110,6 +112,15 @@ export class LiveLLMConfirm extends LiveLLMComponent {
     }
   }
 
+  getState(): ComponentState {
+    return { answered: this.answered, answer: this.answer };
+  }
+
+  protected applyState(state: ComponentState): void {
+    if (typeof state.answered === 'boolean') this.answered = state.answered;
+    if (typeof state.answer === 'boolean' || state.answer === null) this.answer = state.answer;
+  }
+
   private handleAction(confirmed: boolean): void {
     if (this.answered) return;
 
@@ -118,8 +129,8 @@ export class LiveLLMConfirm extends LiveLLMComponent {
     this.render();
 
     const label = confirmed
-      ? (this._props.confirmLabel || 'Yes')
-      : (this._props.cancelLabel || 'No');
+      ? (this._props.confirmLabel || this.t('confirm.yes'))
+      : (this._props.cancelLabel || this.t('confirm.no'));
 
     this.emitAction('confirm-response', {
       value: confirmed,
@@ -135,10 +146,17 @@ export class LiveLLMConfirm extends LiveLLMComponent {
 
 export const CONFIRM_REGISTRATION: RegisterOptions = {
   schema: {
-    text: { type: 'string', default: 'Are you sure?' },
-    confirmLabel: { type: 'string', default: 'Yes' },
-    cancelLabel: { type: 'string', default: 'No' },
+    text: { type: 'string' },
+    confirmLabel: { type: 'string' },
+    cancelLabel: { type: 'string' },
+  },
+  actions: {
+    'confirm-response': {
+      value: { type: 'boolean' },
+      data: { confirmed: { type: 'boolean' } },
+    },
   },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.confirm,
   category: 'action',
   skeleton: {
     html: '<div style="height:90px;border-radius:8px;background:#e0e0e0;"></div>',
@@ -1,5 +1,7 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import type { ComponentState } from '../../utils/types';
 
 const DATE_PICKER_STYLES = `
   :host {
@@ -79,7 +81,7 @@ export class LiveLLMDatePicker extends LiveLLMComponent {
   private submitted: boolean = false;
 
   render(): void {
-    const label: string = this._props.label || 'Select a date';
+    const label: string = this._props.label || this.t('datePicker.label');
     const min: string = this._props.min || '';
     const max: string = this._props.max || '';
     const includeTime: boolean = this._props.includeTime ?? false;
@@ -88,7 +90,7 @@ export class LiveLLMDatePicker extends LiveLLMComponent {
     this.setStyles(DATE_PICKER_STYLES);
 
     const resultHtml = this.submitted && this.selectedDate
-      ? `<div class="dp-result">Selected: ${this.escapeHtml(this.formatDate(this.selectedDate, includeTime))}</div>`
+      ? `<div class="dp-result">${this.escapeHtml(this.t('common.selected', { value: this.formatDate(this.selectedDate, includeTime) }))}</div>`
       : '';
 
     this.setContent(`
@@ -101,7 +103,7 @@ export class LiveLLMDatePicker extends LiveLLMComponent {
             ${this.selectedDate ? `value="${this.escapeHtml(this.selectedDate)}"` : ''}
             ${this.submitted ? 'disabled' : ''}
           />
-          <button class="dp-submit"${this.submitted ? ' disabled' : ''}>Submit</button>
+          <button class="dp-submit"${this.submitted ? ' disabled' : ''}>${this.escapeHtml(this.t('common.submit'))}</button>
         </div>
         ${resultHtml}
       </div>
@@ -123,6 +125,15 @@ export class LiveLLMDatePicker extends LiveLLMComponent {
     }
   }
 
+  getState(): ComponentState {
+    return { selectedDate: this.selectedDate, submitted: this.submitted };
+  }
+
+  protected applyState(state: ComponentState): void {
+    if (typeof state.selectedDate === 'string') this.selectedDate = state.selectedDate;
+    if (typeof state.submitted === 'boolean') this.submitted = state.submitted;
+  }
+
   private submitDate(): void {
     if (this.submitted || !this.selectedDate) return;
 
@@ -138,15 +149,11 @@ export class LiveLLMDatePicker extends LiveLLMComponent {
   }
 
   private formatDate(dateStr: string, includeTime: boolean): string {
-    try {
-      const d = new Date(dateStr);
-      if (includeTime) {
-        return d.toLocaleString();
-      }
-      return d.toLocaleDateString();
-    } catch {
-      return dateStr;
+    if (includeTime) {
+      return this.i18n.formatDate(dateStr, { dateStyle: 'medium', timeStyle: 'short' });
     }
+    // Date-only ISO strings parse as UTC midnight; format them in UTC so the day never shifts
+    return this.i18n.formatDate(dateStr, { dateStyle: 'medium', timeZone: 'UTC' });
   }
 
   private escapeHtml(str: string): string {
@@ -156,11 +163,19 @@ export class LiveLLMDatePicker extends LiveLLMComponent {
 
 export const DATE_PICKER_REGISTRATION: RegisterOptions = {
   schema: {
-    label: { type: 'string', default: 'Select a date' },
+    label: { type: 'string' },
     min: { type: 'string', default: '' },
     max: { type: 'string', default: '' },
     includeTime: { type: 'boolean', default: false },
   },
+  actions: {
+    'date-select': {
+      value: { type: 'string' },
+      data: { iso: { type: 'string' } },
+      label: 'Selected date: {value}',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS['date-picker'],
   category: 'action',
   skeleton: {
     html: '<div style="height:70px;border-radius:8px;background:#e0e0e0;"></div>',
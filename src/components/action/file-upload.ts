@@ -1,5 +1,7 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import type { ComponentState } from '../../utils/types';
 
 const FILE_UPLOAD_STYLES = `
   :host {
@@ -99,20 +101,27 @@ const FILE_UPLOAD_STYLES = `
   }
 `;
 
+/** What the component keeps of a file; restored state has no File object. */
+interface FileInfo {
+  name: string;
+  size: number;
+  type: string;
+}
+
 export class LiveLLMFileUpload extends LiveLLMComponent {
-  private selectedFile: File | null = null;
+  private selectedFile: FileInfo | null = null;
   private submitted: boolean = false;
 
   render(): void {
-    const label: string = this._props.label || 'Upload a file';
+    const label: string = this._props.label || this.t('fileUpload.label');
     const accept: string = this._props.accept || '';
     const maxSizeMB: number = this._props.maxSizeMB ?? 10;
     const multiple: boolean = this._props.multiple ?? false;
 
     this.setStyles(FILE_UPLOAD_STYLES);
 
-    const acceptHint = accept ? `Accepted: ${accept}` : '';
-    const sizeHint = `Max size: ${maxSizeMB}MB`;
+    const acceptHint = accept ? this.t('fileUpload.accepted', { types: accept }) : '';
+    const sizeHint = this.t('fileUpload.maxSize', { size: maxSizeMB });
 
     let fileInfoHtml = '';
     if (this.selectedFile) {
@@ -124,7 +133,7 @@ export class LiveLLMFileUpload extends LiveLLMComponent {
             <div class="fu-file-size">${this.formatSize(this.selectedFile.size)}</div>
           </div>
         </div>
-        ${!this.submitted ? '<button class="fu-submit">Upload</button>' : ''}
+        ${!this.submitted ? `<button class="fu-submit">${this.escapeHtml(this.t('fileUpload.upload'))}</button>` : ''}
       `;
     }
 
@@ -133,8 +142,8 @@ export class LiveLLMFileUpload extends LiveLLMComponent {
         <div class="fu-label">${this.escapeHtml(label)}</div>
         <div class="fu-dropzone${this.submitted ? ' disabled' : ''}">
           <div class="fu-icon">\u2B06\uFE0F</div>
-          <div class="fu-text"><strong>Click to browse</strong> or drag & drop</div>
-          <div class="fu-hint">${[acceptHint, sizeHint].filter(Boolean).join(' \u2022 ')}</div>
+          <div class="fu-text"><strong>${this.escapeHtml(this.t('fileUpload.browse'))}</strong> ${this.escapeHtml(this.t('fileUpload.drop'))}</div>
+          <div class="fu-hint">${this.escapeHtml([acceptHint, sizeHint].filter(Boolean).join(' \u2022 '))}</div>
           <input type="file" class="fu-file-input"
             ${accept ? `accept="${this.escapeHtml(accept)}"` : ''}
             ${multiple ? 'multiple' : ''}
@@ -184,6 +193,22 @@ export class LiveLLMFileUpload extends LiveLLMComponent {
     }
   }
 
+  getState(): ComponentState {
+    const file = this.selectedFile;
+    return {
+      file: file ? { name: file.name, size: file.size, type: file.type } : null,
+      submitted: this.submitted,
+    };
+  }
+
+  protected applyState(state: ComponentState): void {
+    const file = state.file;
+    if (file && typeof file.name === 'string') {
+      this.selectedFile = { name: file.name, size: Number(file.size) || 0, type: String(file.type ?? '') };
+    }
+    if (typeof state.submitted === 'boolean') this.submitted = state.submitted;
+  }
+
   private handleFile(file: File, maxSizeMB: number): void {
     if (file.size > maxSizeMB * 1024 * 1024) {
       return; // File too large
@@ -222,11 +247,19 @@ export class LiveLLMFileUpload extends LiveLLMComponent {
 
 export const FILE_UPLOAD_REGISTRATION: RegisterOptions = {
   schema: {
-    label: { type: 'string', default: 'Upload a file' },
+    label: { type: 'string' },
     accept: { type: 'string', default: '' },
     maxSizeMB: { type: 'number', default: 10 },
     multiple: { type: 'boolean', default: false },
   },
+  actions: {
+    'file-upload': {
+      value: { type: 'string' },
+      data: { file: { type: 'object' } },
+      label: 'Uploaded: {value}',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS['file-upload'],
   category: 'action',
   skeleton: {
     html: '<div style="height:120px;border-radius:8px;background:#e0e0e0;"></div>',
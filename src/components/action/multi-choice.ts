@@ -1,5 +1,7 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import type { ComponentState } from '../../utils/types';
 
 const MULTI_CHOICE_STYLES = `
   :host {
@@ -46,7 +48,7 @@ const MULTI_CHOICE_STYLES = `
     font-family: inherit;
     font-size: 14px;
     color: inherit;
-    text-align: left;
+    text-align: start;
     width: 100%;
     box-sizing: border-box;
   }
@@ -68,7 +70,7 @@ const MULTI_CHOICE_STYLES = `
     height: 18px;
     border: 2px solid var(--livellm-border, #e0e0e0);
     border-radius: 4px;
-    margin-right: 10px;
+    margin-inline-end: 10px;
     flex-shrink: 0;
     display: flex;
     align-items: center;
@@ -116,19 +118,19 @@ export class LiveLLMMultiChoice extends LiveLLMComponent {
   private selectedIndices: Set<number> = new Set();
   private submitted: boolean = false;
 
-  private normalizeOption(opt: MultiChoiceOption | string): MultiChoiceOption {
-    if (typeof opt === 'string') {
-      return { label: opt, value: opt };
+  private normalizeOption(opt: MultiChoiceOption | string | number): MultiChoiceOption {
+    if (typeof opt !== 'object' || !opt) {
+      return { label: String(opt ?? ''), value: String(opt ?? '') };
     }
     return {
-      label: opt.label || opt.value || '',
-      value: opt.value || opt.label || '',
+      label: String(opt.label || opt.value || ''),
+      value: String(opt.value || opt.label || ''),
     };
   }
 
   render(): void {
     const question: string = this._props.question || '';
-    const rawOptions: (MultiChoiceOption | string)[] = this._props.options || this._props.choices || this._props.items || [];
+    const rawOptions: (MultiChoiceOption | string | number)[] = this._props.options || this._props.choices || this._props.items || [];
     const options: MultiChoiceOption[] = rawOptions.map(o => this.normalizeOption(o));
     const min: number = this._props.min ?? 1;
     const max: number = this._props.max ?? options.length;
@@ -145,14 +147,14 @@ export class LiveLLMMultiChoice extends LiveLLMComponent {
       )
       .join('');
 
-    const canSubmit = this.selectedIndices.size >= min && this.selectedIndices.size <= max;
+    const canSubmit = !this.streaming && this.selectedIndices.size >= min && this.selectedIndices.size <= max;
 
     this.setContent(`
       <div class="mc-container">
         ${question ? `<div class="mc-question">${this.escapeHtml(question)}</div>` : ''}
-        <div class="mc-hint">Select ${min === max ? min : `${min}-${max}`} option${max > 1 ? 's' : ''}</div>
+        <div class="mc-hint">${this.escapeHtml(min === max ? this.t('multiChoice.hint', { count: min }) : this.t('multiChoice.hintRange', { min, max }))}</div>
         <div class="mc-options">${optionsHtml}</div>
-        ${!this.submitted ? `<button class="mc-submit"${!canSubmit ? ' disabled' : ''}>Submit</button>` : ''}
+        ${!this.submitted ? `<button class="mc-submit"${!canSubmit ? ' disabled' : ''}>${this.escapeHtml(this.t('common.submit'))}</button>` : ''}
       </div>
     `);
 
@@ -171,6 +173,17 @@ export class LiveLLMMultiChoice extends LiveLLMComponent {
     }
   }
 
+  getState(): ComponentState {
+    return { selected: Array.from(this.selectedIndices).sort(), submitted: this.submitted };
+  }
+
+  protected applyState(state: ComponentState): void {
+    if (Array.isArray(state.selected)) {
+      this.selectedIndices = new Set(state.selected.filter((i: unknown) => typeof i === 'number'));
+    }
+    if (typeof state.submitted === 'boolean') this.submitted = state.submitted;
+  }
+
   private toggleOption(index: number, max: number): void {
     if (this.submitted) return;
 
@@ -183,9 +196,9 @@ export class LiveLLMMultiChoice extends LiveLLMComponent {
   }
 
   private submitSelection(): void {
-    if (this.submitted) return;
+    if (this.submitted || this.streaming) return;
 
-    const rawOptions: (MultiChoiceOption | string)[] = this._props.options || this._props.choices || this._props.items || [];
+    const rawOptions: (MultiChoiceOption | string | number)[] = this._props.options || this._props.choices || this._props.items || [];
     const options: MultiChoiceOption[] = rawOptions.map(o => this.normalizeOption(o));
     const selected = Array.from(this.selectedIndices)
       .sort()
@@ -217,7 +230,16 @@ export const MULTI_CHOICE_REGISTRATION: RegisterOptions = {
     min: { type: 'number', default: 1, min: 0 },
     max: { type: 'number', default: 10, min: 1 },
   },
+  actions: {
+    'multi-choice-submit': {
+      value: { type: 'array', items: { type: 'string' } },
+      data: { selected: { type: 'array' }, indices: { type: 'array' } },
+      label: 'Selected: {value}',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS['multi-choice'],
   category: 'action',
+  progressive: true,
   skeleton: {
     html: '<div style="height:140px;border-radius:8px;background:#e0e0e0;"></div>',
     height: '140px',
@@ -1,5 +1,7 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import type { ComponentState } from '../../utils/types';
 
 const RATING_STYLES = `
   :host {
@@ -68,7 +70,7 @@ export class LiveLLMRatingInput extends LiveLLMComponent {
   private submitted: boolean = false;
 
   render(): void {
-    const label: string = this._props.label || 'Rate this response';
+    const label: string = this._props.label || this.t('ratingInput.label');
     const max: number = this._props.max ?? 5;
     const lowLabel: string = this._props.lowLabel || '';
     const highLabel: string = this._props.highLabel || '';
@@ -111,6 +113,15 @@ export class LiveLLMRatingInput extends LiveLLMComponent {
     }
   }
 
+  getState(): ComponentState {
+    return { rating: this.rating, submitted: this.submitted };
+  }
+
+  protected applyState(state: ComponentState): void {
+    if (typeof state.rating === 'number') this.rating = state.rating;
+    if (typeof state.submitted === 'boolean') this.submitted = state.submitted;
+  }
+
   private setRating(value: number): void {
     if (this.submitted) return;
 
@@ -133,11 +144,19 @@ export class LiveLLMRatingInput extends LiveLLMComponent {
 
 export const RATING_INPUT_REGISTRATION: RegisterOptions = {
   schema: {
-    label: { type: 'string', default: 'Rate this response' },
+    label: { type: 'string' },
     max: { type: 'number', default: 5, min: 1, max: 10 },
     lowLabel: { type: 'string', default: '' },
     highLabel: { type: 'string', default: '' },
   },
+  actions: {
+    'rating-submit': {
+      value: { type: 'number', min: 1 },
+      data: { max: { type: 'number', min: 1 } },
+      label: 'Rated: {value} / {max}',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS['rating-input'],
   category: 'action',
   skeleton: {
     html: '<div style="height:80px;border-radius:8px;background:#e0e0e0;"></div>',
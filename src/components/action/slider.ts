@@ -1,5 +1,7 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import type { ComponentState } from '../../utils/types';
 
 const SLIDER_STYLES = `
   :host {
@@ -98,7 +100,7 @@ export class LiveLLMSlider extends LiveLLMComponent {
   private submitted: boolean = false;
 
   render(): void {
-    const label: string = this._props.label || 'Select a value';
+    const label: string = this._props.label || this.t('slider.label');
     const min: number = this._props.min ?? 0;
     const max: number = this._props.max ?? 100;
     const step: number = this._props.step ?? 1;
@@ -113,7 +115,7 @@ export class LiveLLMSlider extends LiveLLMComponent {
     this.setStyles(SLIDER_STYLES);
 
     const resultHtml = this.submitted
-      ? `<div class="slider-result">Submitted: ${this.value}${suffix}</div>`
+      ? `<div class="slider-result">${this.escapeHtml(this.t('common.submitted', { value: this.formatValue(this.value, suffix) }))}</div>`
       : '';
 
     this.setContent(`
@@ -121,10 +123,10 @@ export class LiveLLMSlider extends LiveLLMComponent {
         <div class="slider-label">${this.escapeHtml(label)}</div>
         <div class="slider-row">
           <input type="range" class="slider-input" min="${min}" max="${max}" step="${step}" value="${this.value}" ${this.submitted ? 'disabled' : ''} />
-          <span class="slider-value">${this.value}${this.escapeHtml(suffix)}</span>
-          ${!this.submitted ? '<button class="slider-submit">Submit</button>' : ''}
+          <span class="slider-value">${this.escapeHtml(this.formatValue(this.value, suffix))}</span>
+          ${!this.submitted ? `<button class="slider-submit">${this.escapeHtml(this.t('common.submit'))}</button>` : ''}
         </div>
-        ${showRange ? `<div class="slider-range"><span>${min}${this.escapeHtml(suffix)}</span><span>${max}${this.escapeHtml(suffix)}</span></div>` : ''}
+        ${showRange ? `<div class="slider-range"><span>${this.escapeHtml(this.formatValue(min, suffix))}</span><span>${this.escapeHtml(this.formatValue(max, suffix))}</span></div>` : ''}
         ${resultHtml}
       </div>
     `);
@@ -137,7 +139,7 @@ export class LiveLLMSlider extends LiveLLMComponent {
       input?.addEventListener('input', (e) => {
         this.value = parseFloat((e.target as HTMLInputElement).value);
         if (valueEl) {
-          valueEl.textContent = `${this.value}${suffix}`;
+          valueEl.textContent = this.formatValue(this.value, suffix);
         }
       });
 
@@ -147,6 +149,15 @@ export class LiveLLMSlider extends LiveLLMComponent {
     }
   }
 
+  getState(): ComponentState {
+    return { value: this.value, submitted: this.submitted };
+  }
+
+  protected applyState(state: ComponentState): void {
+    if (typeof state.value === 'number') this.value = state.value;
+    if (typeof state.submitted === 'boolean') this.submitted = state.submitted;
+  }
+
   private submitValue(): void {
     if (this.submitted) return;
 
@@ -162,6 +173,10 @@ export class LiveLLMSlider extends LiveLLMComponent {
     });
   }
 
+  private formatValue(value: number, suffix: string): string {
+    return `${this.i18n.formatNumber(value)}${suffix}`;
+  }
+
   private escapeHtml(str: string): string {
     return String(str ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
   }
@@ -169,7 +184,7 @@ export class LiveLLMSlider extends LiveLLMComponent {
 
 export const SLIDER_REGISTRATION: RegisterOptions = {
   schema: {
-    label: { type: 'string', default: 'Select a value' },
+    label: { type: 'string' },
     min: { type: 'number', default: 0 },
     max: { type: 'number', default: 100 },
     step: { type: 'number', default: 1 },
@@ -177,6 +192,14 @@ export const SLIDER_REGISTRATION: RegisterOptions = {
     suffix: { type: 'string', default: '' },
     showRange: { type: 'boolean', default: true },
   },
+  actions: {
+    'slider-submit': {
+      value: { type: 'number' },
+      data: { min: { type: 'number' }, max: { type: 'number' } },
+      label: 'Selected: {value}',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.slider,
   category: 'action',
   skeleton: {
     html: '<div style="height:80px;border-radius:8px;background:#e0e0e0;"></div>',
@@ -1,5 +1,7 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import type { ComponentState } from '../../utils/types';
 
 const TEXT_INPUT_STYLES = `
   :host {
@@ -79,7 +81,7 @@ const TEXT_INPUT_STYLES = `
   .ti-char-count {
     font-size: 11px;
     color: var(--livellm-text-secondary, #6c757d);
-    text-align: right;
+    text-align: end;
     margin-top: 4px;
   }
   .ti-char-count.over { color: #e74c3c; }
@@ -96,7 +98,7 @@ export class LiveLLMTextInput extends LiveLLMComponent {
   private submitted: boolean = false;
 
   render(): void {
-    const label: string = this._props.label || 'Enter your response';
+    const label: string = this._props.label || this.t('textInput.label');
     const placeholder: string = this._props.placeholder || '';
     const hint: string = this._props.hint || '';
     const multiline: boolean = this._props.multiline ?? false;
@@ -113,7 +115,7 @@ export class LiveLLMTextInput extends LiveLLMComponent {
       : '';
 
     const resultHtml = this.submitted
-      ? `<div class="ti-result">Submitted: ${this.escapeHtml(this.text.length > 60 ? this.text.substring(0, 60) + '...' : this.text)}</div>`
+      ? `<div class="ti-result">${this.escapeHtml(this.t('common.submitted', { value: this.text.length > 60 ? this.text.substring(0, 60) + '...' : this.text }))}</div>`
       : '';
 
     this.setContent(`
@@ -122,7 +124,7 @@ export class LiveLLMTextInput extends LiveLLMComponent {
         ${hint ? `<div class="ti-hint">${this.escapeHtml(hint)}</div>` : ''}
         <div class="ti-input-row">
           ${inputEl}
-          <button class="ti-submit"${this.submitted ? ' disabled' : ''}>Submit</button>
+          <button class="ti-submit"${this.submitted ? ' disabled' : ''}>${this.escapeHtml(this.t('common.submit'))}</button>
         </div>
         ${charCount}
         ${resultHtml}
@@ -161,6 +163,15 @@ export class LiveLLMTextInput extends LiveLLMComponent {
     }
   }
 
+  getState(): ComponentState {
+    return { text: this.text, submitted: this.submitted };
+  }
+
+  protected applyState(state: ComponentState): void {
+    if (typeof state.text === 'string') this.text = state.text;
+    if (typeof state.submitted === 'boolean') this.submitted = state.submitted;
+  }
+
   private submitText(): void {
     if (this.submitted || !this.text.trim()) return;
 
@@ -185,12 +196,20 @@ export class LiveLLMTextInput extends LiveLLMComponent {
 
 export const TEXT_INPUT_REGISTRATION: RegisterOptions = {
   schema: {
-    label: { type: 'string', default: 'Enter your response' },
+    label: { type: 'string' },
     placeholder: { type: 'string', default: '' },
     hint: { type: 'string', default: '' },
     multiline: { type: 'boolean', default: false },
     maxLength: { type: 'number', default: 0 },
   },
+  actions: {
+    'text-submit': {
+      value: { type: 'string' },
+      data: { length: { type: 'number', min: 0 } },
+      label: '{value}',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS['text-input'],
   category: 'action',
   skeleton: {
     html: '<div style="height:70px;border-radius:8px;background:#e0e0e0;"></div>',
@@ -1,3 +1,44 @@
+import { findRenderContext, setRenderContext } from '../utils/dom';
+import { I18n } from '../core/i18n';
+import { mergePatch } from '../utils/json';
+import type { ComponentState } from '../utils/types';
+
+/** Used by components mounted outside a LiveLLM renderer. */
+const DEFAULT_I18N = new I18n();
+
+/**
+ * Styles for Markdown rendered inside a component's Shadow DOM
+ * (tab panels, accordion bodies, carousel slides).
+ */
+export const NESTED_CONTENT_STYLES = `
+  .livellm-nested > :first-child { margin-top: 0; }
+  .livellm-nested > :last-child { margin-bottom: 0; }
+  .livellm-nested p { margin: 0 0 0.75em; }
+  .livellm-nested ul, .livellm-nested ol { margin: 0 0 0.75em; padding-inline-start: 1.5em; }
+  .livellm-nested code {
+    font-family: var(--livellm-font-mono, monospace);
+    font-size: 0.9em;
+    padding: 1px 5px;
+    border-radius: 4px;
+    background: var(--livellm-code-bg, #f4f2ff);
+    color: var(--livellm-code-text, #5a4bd1);
+  }
+  .livellm-nested pre {
+    margin: 0 0 0.75em;
+    padding: 12px 14px;
+    border-radius: 6px;
+    overflow-x: auto;
+    background: var(--livellm-code-block-bg, #1e1e2e);
+    color: var(--livellm-code-block-text, #cdd6f4);
+  }
+  .livellm-nested pre code { padding: 0; background: none; color: inherit; }
+  .livellm-nested table { border-collapse: collapse; margin: 0 0 0.75em; }
+  .livellm-nested th, .livellm-nested td {
+    border: 1px solid var(--livellm-border, #e0e0e0);
+    padding: 6px 10px;
+  }
+`;
+
 /**
  * LiveLLMComponent — Base class for all LiveLLM Web Components.
  * All built-in and custom components should extend this class.
@@ -5,6 +46,7 @@
 export abstract class LiveLLMComponent extends HTMLElement {
   protected _props: Record<string, any> = {};
   private _componentId: string = '';
+  private _pendingState: ComponentState | null = null;
 
   constructor() {
     super();
@@ -12,7 +54,7 @@ export abstract class LiveLLMComponent extends HTMLElement {
   }
 
   static get observedAttributes(): string[] {
-    return ['data-props', 'data-livellm'];
+    return ['data-props', 'data-livellm', 'data-component-id'];
   }
 
   attributeChangedCallback(name: string, oldVal: string | null, newVal: string | null): void {
@@ -25,6 +67,8 @@ export abstract class LiveLLMComponent extends HTMLElement {
       } catch {
         console.error('[LiveLLM] Invalid JSON in data-props:', newVal);
       }
+    } else if (name === 'data-component-id' && newVal) {
+      this._componentId = newVal;
     }
   }
 
@@ -39,6 +83,18 @@ export abstract class LiveLLMComponent extends HTMLElement {
     }
     this._componentId =
       this.getAttribute('data-component-id') || this._generateId();
+
+    // Pick up the active runtime theme (see ThemeManager)
+    const theme = document.documentElement.getAttribute('data-livellm-theme');
+    if (theme && !this.hasAttribute('data-livellm-theme')) {
+      this.setAttribute('data-livellm-theme', theme);
+    }
+
+    if (this._pendingState) {
+      this.applyState(this._pendingState);
+      this._pendingState = null;
+    }
+
     this.render();
   }
 
@@ -53,6 +109,14 @@ export abstract class LiveLLMComponent extends HTMLElement {
     return this._props;
   }
 
+  /**
+   * Whether the props are still streaming in (progressive components).
+   * Partial props skip validation; hold back submissions until this is false.
+   */
+  get streaming(): boolean {
+    return this.hasAttribute('data-streaming');
+  }
+
   /**
    * Get the component's unique instance ID.
    */
@@ -60,8 +124,46 @@ export abstract class LiveLLMComponent extends HTMLElement {
     return this._componentId;
   }
 
+  /**
+   * Serializable interaction state (selection, entered values, submitted).
+   * Null for components without interaction state.
+   */
+  getState(): ComponentState | null {
+    return null;
+  }
+
+  /**
+   * Bring the component back to a state returned by getState(), e.g. an
+   * answered question after the conversation is rendered again. Applied on
+   * connect when the element is not in the document yet.
+   */
+  restoreState(state: ComponentState): void {
+    if (!this.isConnected) {
+      this._pendingState = state;
+      return;
+    }
+    this.applyState(state);
+    this.render();
+  }
+
+  /**
+   * Merge a JSON merge patch (RFC 7386) into the props and update the
+   * component, e.g. a server advancing a progress bar. Instance fields
+   * (selection, sort order, page, ...) are untouched; focus, typed-in field
+   * values and scroll positions in the Shadow DOM survive the re-render.
+   */
+  applyPatch(patch: Record<string, any>): void {
+    const props = mergePatch(this._props, patch);
+    const snapshot = this.isConnected && this.shadowRoot ? captureUIState(this.shadowRoot) : null;
+    this.setAttribute('data-props', JSON.stringify(props));
+    if (snapshot) {
+      restoreUIState(this.shadowRoot!, snapshot);
+    }
+  }
+
   /**
    * Emit a LiveLLM action event that bubbles through Shadow DOM.
+   * The detail carries the state after the interaction for action logs.
    */
   protected emitAction(action: string, data: Record<string, any>): void {
     this.dispatchEvent(
@@ -74,6 +176,7 @@ export abstract class LiveLLMComponent extends HTMLElement {
           data,
           timestamp: Date.now(),
           componentId: this._componentId,
+          state: this.getState() ?? undefined,
         },
       })
     );
@@ -127,11 +230,52 @@ export abstract class LiveLLMComponent extends HTMLElement {
     this.shadowRoot.appendChild(wrapper);
   }
 
+  /**
+   * Render nested Markdown (including livellm blocks) with the parser of the
+   * LiveLLM instance that mounted this component. Falls back to escaped
+   * plain text outside a renderer or past the configured nesting depth.
+   */
+  protected renderMarkdown(markdown: string): string {
+    const context = findRenderContext(this);
+    if (!context || context.depth >= context.maxDepth) {
+      return String(markdown ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+
+    // Components mounted inside our Shadow DOM resolve the next depth level
+    if (this.shadowRoot) {
+      setRenderContext(this.shadowRoot, { ...context, depth: context.depth + 1 });
+    }
+    return context.renderMarkdown(String(markdown ?? ''));
+  }
+
+  /**
+   * Localization of the LiveLLM instance that mounted this component
+   * (English outside a renderer).
+   */
+  protected get i18n(): I18n {
+    return findRenderContext(this)?.i18n ?? DEFAULT_I18N;
+  }
+
+  /**
+   * Translate a built-in UI string. See I18n.t().
+   */
+  protected t(key: string, params?: Record<string, string | number>): string {
+    return this.i18n.t(key, params);
+  }
+
   /**
    * Abstract: Render the component for the first time.
    */
   abstract render(): void;
 
+  /**
+   * Override with getState() to restore state. Called before the next render;
+   * ignore fields of the wrong type (states come from storage).
+   */
+  protected applyState(_state: ComponentState): void {
+    // Override in subclasses with interaction state
+  }
+
   /**
    * Update the component when props change.
    * Default implementation re-renders.
@@ -145,3 +289,117 @@ export abstract class LiveLLMComponent extends HTMLElement {
     return `livellm-${type}-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`;
   }
 }
+
+type FormField = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+/**
+ * UI state that lives only in the DOM, addressed by child-index paths from
+ * the shadow root (a re-render with new props keeps the structure).
+ */
+interface UISnapshot {
+  focus: { path: number[]; selection: [number, number] | null } | null;
+  fields: Array<{ path: number[]; tag: string; value: string; checked: boolean }>;
+  scroll: Array<{ path: number[]; top: number; left: number }>;
+}
+
+function captureUIState(root: ShadowRoot): UISnapshot {
+  const snapshot: UISnapshot = { focus: null, fields: [], scroll: [] };
+
+  const active = root.activeElement;
+  if (active) {
+    snapshot.focus = { path: elementPath(root, active), selection: null };
+    try {
+      const { selectionStart, selectionEnd } = active as HTMLInputElement;
+      if (typeof selectionStart === 'number' && typeof selectionEnd === 'number') {
+        snapshot.focus.selection = [selectionStart, selectionEnd];
+      }
+    } catch {
+      // Input types without a text selection throw
+    }
+  }
+
+  root.querySelectorAll<FormField>('input, textarea, select').forEach((field) => {
+    if (isEdited(field)) {
+      snapshot.fields.push({
+        path: elementPath(root, field),
+        tag: field.tagName,
+        value: field.value,
+        checked: field instanceof HTMLInputElement && field.checked,
+      });
+    }
+  });
+
+  root.querySelectorAll('*').forEach((el) => {
+    if (el.scrollTop || el.scrollLeft) {
+      snapshot.scroll.push({ path: elementPath(root, el), top: el.scrollTop, left: el.scrollLeft });
+    }
+  });
+
+  return snapshot;
+}
+
+function restoreUIState(root: ShadowRoot, snapshot: UISnapshot): void {
+  for (const { path, tag, value, checked } of snapshot.fields) {
+    const field = resolvePath(root, path) as FormField | null;
+    if (!field || field.tagName !== tag) continue;
+    if (field instanceof HTMLInputElement && (field.type === 'checkbox' || field.type === 'radio')) {
+      field.checked = checked;
+    } else {
+      field.value = value;
+    }
+  }
+
+  for (const { path, top, left } of snapshot.scroll) {
+    const el = resolvePath(root, path);
+    if (el) {
+      el.scrollTop = top;
+      el.scrollLeft = left;
+    }
+  }
+
+  const focus = snapshot.focus;
+  const el = focus ? resolvePath(root, focus.path) as HTMLElement | null : null;
+  if (focus && el && typeof el.focus === 'function') {
+    el.focus();
+    if (focus.selection) {
+      try {
+        (el as HTMLInputElement).setSelectionRange(...focus.selection);
+      } catch {
+        // Not a text field anymore
+      }
+    }
+  }
+}
+
+/**
+ * Whether the user changed a field from the value it was rendered with.
+ */
+function isEdited(field: FormField): boolean {
+  if (field instanceof HTMLSelectElement) {
+    const initial = Array.from(field.options).find((option) => option.defaultSelected) ?? field.options[0];
+    return field.value !== (initial?.value ?? '');
+  }
+  if (field instanceof HTMLInputElement && (field.type === 'checkbox' || field.type === 'radio')) {
+    return field.checked !== field.defaultChecked;
+  }
+  return field.value !== field.defaultValue;
+}
+
+function elementPath(root: ShadowRoot, el: Element): number[] {
+  const path: number[] = [];
+  let node: Element = el;
+  while (node.parentNode && node.parentNode !== root) {
+    path.unshift(Array.prototype.indexOf.call(node.parentNode.children, node));
+    node = node.parentNode as Element;
+  }
+  path.unshift(Array.prototype.indexOf.call(root.children, node));
+  return path;
+}
+
+function resolvePath(root: ShadowRoot, path: number[]): Element | null {
+  let node: ParentNode | null = root;
+  for (const index of path) {
+    node = node?.children[index] ?? null;
+  }
+  return node as Element | null;
+}
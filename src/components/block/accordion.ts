@@ -1,5 +1,6 @@
-import { LiveLLMComponent } from '../base';
+import { LiveLLMComponent, NESTED_CONTENT_STYLES } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
 
 const ACCORDION_STYLES = `
   :host {
@@ -44,7 +45,7 @@ const ACCORDION_STYLES = `
   }
   .accordion-header-text {
     flex: 1;
-    margin-right: 8px;
+    margin-inline-end: 8px;
   }
   .accordion-arrow {
     transition: transform 0.2s;
@@ -66,7 +67,7 @@ const ACCORDION_STYLES = `
   .accordion-item.open .accordion-body {
     display: block;
   }
-`;
+${NESTED_CONTENT_STYLES}`;
 
 interface AccordionItem {
   title: string;
@@ -98,7 +99,7 @@ export class LiveLLMAccordion extends LiveLLMComponent {
             <span class="accordion-header-text">${this.escapeHtml(item.title)}</span>
             <span class="accordion-arrow">▶</span>
           </div>
-          <div class="accordion-body">${this.escapeHtml(item.content)}</div>
+          <div class="accordion-body livellm-nested">${this.renderMarkdown(item.content)}</div>
         </div>`;
     }).join('');
 
@@ -151,6 +152,10 @@ export const ACCORDION_REGISTRATION: RegisterOptions = {
     exclusive: { type: 'boolean', default: true },
     defaultOpen: { type: 'number', default: 0 },
   },
+  actions: {
+    toggle: { value: { type: 'object' }, label: 'Toggled a section' },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.accordion,
   category: 'block',
   skeleton: {
     html: '<div class="livellm-skeleton" style="height:150px;border-radius:8px;background:#f0f0f0;"><div class="shimmer"></div></div>',
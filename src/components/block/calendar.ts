@@ -100,8 +100,8 @@ interface CalendarEvent {
   time?: string;
 }
 
-const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+/** A Sunday, used to derive localized weekday names. */
+const REFERENCE_SUNDAY = new Date(2024, 0, 7);
 
 export class LiveLLMCalendar extends LiveLLMComponent {
   private viewYear: number = 0;
@@ -129,7 +129,11 @@ export class LiveLLMCalendar extends LiveLLMComponent {
     }));
 
     // Day headers
-    const dayHeaders = DAYS.map(d => `<div class="cal-day-header">${d}</div>`).join('');
+    const dayHeaders = Array.from({ length: 7 }, (_, i) => {
+      const day = new Date(REFERENCE_SUNDAY);
+      day.setDate(REFERENCE_SUNDAY.getDate() + i);
+      return `<div class="cal-day-header">${this.escapeHtml(this.i18n.formatDate(day, { weekday: 'short' }))}</div>`;
+    }).join('');
 
     // Calendar cells
     const cells: string[] = [];
@@ -164,19 +168,22 @@ export class LiveLLMCalendar extends LiveLLMComponent {
       <div class="cal-events">
         ${monthEvents.map(e => `
           <div class="cal-event">
-            <span class="cal-event-time">${e.time || new Date(e.date).getDate() + ''}</span>
+            <span class="cal-event-time">${this.escapeHtml(e.time || this.i18n.formatDate(e.date, { day: 'numeric' }))}</span>
             <span class="cal-event-title">${this.escapeHtml(e.title)}</span>
           </div>
         `).join('')}
       </div>
     ` : '';
 
+    const title = this.i18n.formatDate(firstDay, { month: 'long', year: 'numeric' });
+    const rtl = this.i18n.isRTL;
+
     this.setContent(`
       <div class="cal-container">
         <div class="cal-header">
-          <button class="cal-nav-btn" data-dir="prev">\u2190</button>
-          <span class="cal-title">${MONTHS[this.viewMonth]} ${this.viewYear}</span>
-          <button class="cal-nav-btn" data-dir="next">\u2192</button>
+          <button class="cal-nav-btn" data-dir="prev">${rtl ? '\u2192' : '\u2190'}</button>
+          <span class="cal-title">${this.escapeHtml(title)}</span>
+          <button class="cal-nav-btn" data-dir="next">${rtl ? '\u2190' : '\u2192'}</button>
         </div>
         <div class="cal-grid">
           ${dayHeaders}
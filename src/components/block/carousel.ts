@@ -1,5 +1,6 @@
-import { LiveLLMComponent } from '../base';
+import { LiveLLMComponent, NESTED_CONTENT_STYLES } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
 
 const CAROUSEL_STYLES = `
   :host {
@@ -79,7 +80,7 @@ const CAROUSEL_STYLES = `
     transition: var(--livellm-transition, 0.2s ease);
   }
   .carousel-dot.active { background: var(--livellm-primary, #6c5ce7); }
-`;
+${NESTED_CONTENT_STYLES}`;
 
 interface Slide {
   title?: string;
@@ -99,11 +100,11 @@ export class LiveLLMCarousel extends LiveLLMComponent {
 
     this.setStyles(CAROUSEL_STYLES);
 
-    const slidesHtml = slides.map(slide => `
-      <div class="carousel-slide">
+    const slidesHtml = slides.map((slide, i) => `
+      <div class="carousel-slide${i === this.currentSlide ? ' active' : ''}">
         ${slide.image ? `<img src="${this.escapeAttr(slide.image)}" alt="${this.escapeAttr(slide.title || '')}" loading="lazy" />` : ''}
         ${slide.title ? `<div class="carousel-slide-title">${this.escapeHtml(slide.title)}</div>` : ''}
-        <div class="carousel-slide-content">${this.escapeHtml(slide.content)}</div>
+        <div class="carousel-slide-content livellm-nested">${this.renderMarkdown(slide.content)}</div>
       </div>
     `).join('');
 
@@ -111,32 +112,58 @@ export class LiveLLMCarousel extends LiveLLMComponent {
       `<button class="carousel-dot${i === this.currentSlide ? ' active' : ''}" data-slide="${i}"></button>`
     ).join('');
 
-    const canPrev = loop || this.currentSlide > 0;
-    const canNext = loop || this.currentSlide < slides.length - 1;
+    const [prevArrow, nextArrow] = this.i18n.isRTL ? ['\u2192', '\u2190'] : ['\u2190', '\u2192'];
 
     this.setContent(`
       <div class="carousel-container">
-        <div class="carousel-track" style="transform:translateX(-${this.currentSlide * 100}%)">
+        <div class="carousel-track">
           ${slidesHtml}
         </div>
         <div class="carousel-nav">
-          <button class="carousel-btn" data-dir="prev" ${!canPrev ? 'disabled' : ''}>\u2190 Prev</button>
+          <button class="carousel-btn" data-dir="prev">${prevArrow} ${this.escapeHtml(this.t('common.prev'))}</button>
           <div class="carousel-dots">${dotsHtml}</div>
-          <button class="carousel-btn" data-dir="next" ${!canNext ? 'disabled' : ''}>Next \u2192</button>
+          <button class="carousel-btn" data-dir="next">${this.escapeHtml(this.t('common.next'))} ${nextArrow}</button>
         </div>
       </div>
     `);
+    this.showSlide(this.currentSlide, slides.length, loop);
 
     this.shadowRoot?.querySelector('[data-dir="prev"]')?.addEventListener('click', () => this.navigate(-1, slides.length, loop));
     this.shadowRoot?.querySelector('[data-dir="next"]')?.addEventListener('click', () => this.navigate(1, slides.length, loop));
     this.shadowRoot?.querySelectorAll('.carousel-dot').forEach(dot => {
       dot.addEventListener('click', (e) => {
-        this.currentSlide = parseInt((e.currentTarget as HTMLElement).getAttribute('data-slide') || '0', 10);
-        this.render();
+        const index = parseInt((e.currentTarget as HTMLElement).getAttribute('data-slide') || '0', 10);
+        this.showSlide(index, slides.length, loop);
       });
     });
   }
 
+  /**
+   * Move to a slide without re-rendering, so components inside the slides
+   * keep their state (e.g. an answered choice).
+   */
+  private showSlide(index: number, total: number, loop: boolean): void {
+    this.currentSlide = index;
+    const root = this.shadowRoot;
+    if (!root) return;
+
+    // Slides flow from the right in RTL layouts, so the track moves the other way
+    const offset = this.i18n.isRTL ? index * 100 : -index * 100;
+    const track = root.querySelector<HTMLElement>('.carousel-track');
+    if (track) track.style.transform = `translateX(${offset}%)`;
+
+    root.querySelectorAll('.carousel-slide').forEach((slide, i) => {
+      slide.classList.toggle('active', i === index);
+    });
+    root.querySelectorAll('.carousel-dot').forEach((dot, i) => {
+      dot.classList.toggle('active', i === index);
+    });
+    const prev = root.querySelector<HTMLButtonElement>('[data-dir="prev"]');
+    const next = root.querySelector<HTMLButtonElement>('[data-dir="next"]');
+    if (prev) prev.disabled = !(loop || index > 0);
+    if (next) next.disabled = !(loop || index < total - 1);
+  }
+
   private navigate(dir: number, total: number, loop: boolean): void {
     let next = this.currentSlide + dir;
     if (loop) {
@@ -144,8 +171,7 @@ export class LiveLLMCarousel extends LiveLLMComponent {
     } else {
       next = Math.max(0, Math.min(total - 1, next));
     }
-    this.currentSlide = next;
-    this.render();
+    this.showSlide(next, total, loop);
 
     this.emitAction('carousel-navigate', {
       value: this.currentSlide,
@@ -183,6 +209,10 @@ export const CAROUSEL_REGISTRATION: RegisterOptions = {
     pages: { type: 'array' },
     loop: { type: 'boolean', default: false },
   },
+  actions: {
+    'carousel-navigate': { value: { type: 'number', min: 0 }, label: 'Changed slide' },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.carousel,
   category: 'block',
   skeleton: {
     html: '<div style="height:200px;border-radius:8px;background:#e0e0e0;"></div>',
@@ -1,5 +1,6 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
 
 const CHART_STYLES = `
   :host {
@@ -115,7 +116,7 @@ export class LiveLLMChart extends LiveLLMComponent {
   }
 
   private renderBarChart(labels: string[], datasets: Dataset[]): string {
-    if (!datasets.length || !labels.length) return '<p>No data</p>';
+    if (!datasets.length || !labels.length) return this.renderEmpty();
 
     const width = 400;
     const height = 200;
@@ -135,7 +136,7 @@ export class LiveLLMChart extends LiveLLMComponent {
     let xLabels = '';
 
     labels.forEach((label, i) => {
-      const x = padding.left + i * groupWidth;
+      const x = padding.left + this.axisIndex(i, labels.length) * groupWidth;
 
       datasets.forEach((ds, di) => {
         const val = ds.data[i] || 0;
@@ -169,11 +170,11 @@ export class LiveLLMChart extends LiveLLMComponent {
   }
 
   private renderPieChart(labels: string[], datasets: Dataset[], doughnut: boolean): string {
-    if (!datasets.length || !datasets[0].data.length) return '<p>No data</p>';
+    if (!datasets.length || !datasets[0].data.length) return this.renderEmpty();
 
     const data = datasets[0].data;
     const total = data.reduce((s, v) => s + v, 0);
-    if (total === 0) return '<p>No data</p>';
+    if (total === 0) return this.renderEmpty();
 
     const cx = 150;
     const cy = 100;
@@ -205,7 +206,7 @@ export class LiveLLMChart extends LiveLLMComponent {
       }
 
       const color = DEFAULT_COLORS[i % DEFAULT_COLORS.length];
-      const label = labels[i] || `Item ${i + 1}`;
+      const label = labels[i] || this.t('chart.item', { index: i + 1 });
       slices += `<path class="pie-slice" d="${d}" fill="${color}" data-index="${i}" data-value="${val}" data-label="${this.escapeAttr(label)}"/>`;
 
       startAngle = endAngle;
@@ -218,7 +219,7 @@ export class LiveLLMChart extends LiveLLMComponent {
   }
 
   private renderLineChart(labels: string[], datasets: Dataset[]): string {
-    if (!datasets.length || !labels.length) return '<p>No data</p>';
+    if (!datasets.length || !labels.length) return this.renderEmpty();
 
     const width = 400;
     const height = 200;
@@ -238,7 +239,7 @@ export class LiveLLMChart extends LiveLLMComponent {
       const points: string[] = [];
 
       ds.data.forEach((val, i) => {
-        const x = padding.left + (i / (labels.length - 1 || 1)) * chartW;
+        const x = padding.left + (this.axisIndex(i, labels.length) / (labels.length - 1 || 1)) * chartW;
         const y = padding.top + chartH - (val / maxVal) * chartH;
         points.push(`${x},${y}`);
         dots += `<circle cx="${x}" cy="${y}" r="3" fill="${color}" data-index="${i}" data-dataset="${di}" data-value="${val}"/>`;
@@ -248,7 +249,7 @@ export class LiveLLMChart extends LiveLLMComponent {
     });
 
     labels.forEach((label, i) => {
-      const x = padding.left + (i / (labels.length - 1 || 1)) * chartW;
+      const x = padding.left + (this.axisIndex(i, labels.length) / (labels.length - 1 || 1)) * chartW;
       xLabels += `<text class="chart-label" x="${x}" y="${height - 8}">${this.escapeHtml(this.truncate(label, 10))}</text>`;
     });
 
@@ -291,9 +292,18 @@ export class LiveLLMChart extends LiveLLMComponent {
   }
 
   private formatNumber(n: number): string {
-    if (n >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M';
-    if (n >= 1_000) return (n / 1_000).toFixed(1) + 'K';
-    return n.toString();
+    return Math.abs(n) >= 1_000 ? this.i18n.formatCompact(n) : this.i18n.formatNumber(n);
+  }
+
+  /**
+   * Position of a category along the x axis; RTL locales read right to left.
+   */
+  private axisIndex(i: number, count: number): number {
+    return this.i18n.isRTL ? count - 1 - i : i;
+  }
+
+  private renderEmpty(): string {
+    return `<p>${this.escapeHtml(this.t('chart.noData'))}</p>`;
   }
 
   private truncate(str: string, max: number): string {
@@ -336,7 +346,12 @@ export const CHART_REGISTRATION: RegisterOptions = {
     legend: { type: 'boolean', default: true },
     responsive: { type: 'boolean', default: true },
   },
+  actions: {
+    'segment-click': { value: { type: 'object' }, label: 'Selected a chart segment' },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.chart,
   category: 'block',
+  progressive: true,
   skeleton: {
     html: '<div class="livellm-skeleton" style="height:250px;border-radius:8px;background:#e8e8ff;"><div class="shimmer"></div></div>',
     height: '250px',
@@ -1,5 +1,9 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import { findRenderContext } from '../../utils/dom';
+import { runInSandbox } from '../../utils/sandbox';
+import type { SandboxOutput, SandboxRun, SandboxStatus } from '../../utils/sandbox';
 
 const CODE_RUNNER_STYLES = `
   :host {
@@ -110,11 +114,44 @@ const CODE_RUNNER_STYLES = `
     margin-bottom: 4px;
   }
   .cr-output-error { color: #e74c3c; }
+  .cr-output-warn { color: #e67e22; }
+  .cr-output-status {
+    margin-top: 6px;
+    font-size: 11px;
+    color: var(--livellm-text-secondary, #6c757d);
+  }
+  .cr-btn.kill {
+    background: #e74c3c;
+    color: #fff;
+    border-color: #e74c3c;
+  }
+  .cr-btn:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+  .cr-disabled {
+    border-top: 1px solid var(--livellm-border, #e0e0e0);
+    padding: 8px 16px;
+    font-size: 12px;
+    color: var(--livellm-text-secondary, #6c757d);
+    background: var(--livellm-bg-secondary, #f8f9fa);
+  }
 `;
 
+/** Message keys for statuses that end a run early. */
+const STATUS_MESSAGES: Partial<Record<SandboxStatus, string>> = {
+  timeout: 'codeRunner.timeout',
+  killed: 'codeRunner.killed',
+  'output-limit': 'codeRunner.outputLimit',
+};
+
+const RUNNABLE_LANGUAGES = ['javascript', 'js'];
+
 export class LiveLLMCodeRunner extends LiveLLMComponent {
-  private output: string = '';
-  private hasError: boolean = false;
+  private output: SandboxOutput[] = [];
+  private status: SandboxStatus | null = null;
+  private errorMessage: string = '';
+  private activeRun: SandboxRun | null = null;
 
   render(): void {
     const code: string = this._props.code || '';
@@ -122,6 +159,8 @@ export class LiveLLMCodeRunner extends LiveLLMComponent {
     const showLineNumbers: boolean = this._props.showLineNumbers ?? true;
     const copyable: boolean = this._props.copyable ?? true;
     const runnable: boolean = this._props.runnable ?? false;
+    const enabled = this.isExecutionEnabled();
+    const running = this.activeRun !== null;
 
     this.setStyles(CODE_RUNNER_STYLES);
 
@@ -129,24 +168,29 @@ export class LiveLLMCodeRunner extends LiveLLMComponent {
       `<span class="cr-line">${this.escapeHtml(l)}</span>`
     ).join('\n');
 
-    const outputHtml = this.output ? `
-      <div class="cr-output">
-        <div class="cr-output-header">Output</div>
-        <div class="${this.hasError ? 'cr-output-error' : ''}">${this.escapeHtml(this.output)}</div>
-      </div>
-    ` : '';
+    let runButton = '';
+    if (runnable && running) {
+      runButton = `<button class="cr-btn kill">\u25A0 ${this.escapeHtml(this.t('codeRunner.stop'))}</button>`;
+    } else if (runnable) {
+      runButton = `<button class="cr-btn run"${enabled ? '' : ' disabled'}>\u25B6 ${this.escapeHtml(this.t('codeRunner.run'))}</button>`;
+    }
+
+    const disabledHtml = runnable && !enabled
+      ? `<div class="cr-disabled">${this.escapeHtml(this.t('codeRunner.disabled'))}</div>`
+      : '';
 
     this.setContent(`
       <div class="cr-container">
         <div class="cr-header">
           <span class="cr-lang">${this.escapeHtml(language)}</span>
           <div class="cr-actions">
-            ${copyable ? '<button class="cr-btn copy">\uD83D\uDCCB Copy</button>' : ''}
-            ${runnable ? '<button class="cr-btn run">\u25B6 Run</button>' : ''}
+            ${copyable ? `<button class="cr-btn copy">\uD83D\uDCCB ${this.escapeHtml(this.t('codeRunner.copy'))}</button>` : ''}
+            ${runButton}
           </div>
         </div>
-        <pre class="cr-code${showLineNumbers ? ' show-lines' : ''}">${lines}</pre>
-        ${outputHtml}
+        <pre class="cr-code${showLineNumbers ? ' show-lines' : ''}" dir="ltr">${lines}</pre>
+        ${disabledHtml}
+        ${this.renderOutput(running)}
       </div>
     `);
 
@@ -156,22 +200,63 @@ export class LiveLLMCodeRunner extends LiveLLMComponent {
       });
     }
 
-    if (runnable) {
+    if (runnable && enabled) {
       this.shadowRoot?.querySelector('.cr-btn.run')?.addEventListener('click', () => {
         this.runCode(code, language);
       });
+      this.shadowRoot?.querySelector('.cr-btn.kill')?.addEventListener('click', () => {
+        this.activeRun?.kill();
+      });
     }
   }
 
+  disconnectedCallback(): void {
+    this.activeRun?.kill();
+  }
+
+  private renderOutput(running: boolean): string {
+    if (!running && this.status === null) return '';
+
+    const lines = this.output.map((entry) => {
+      const cls = entry.stream === 'error' ? 'cr-output-error' : entry.stream === 'warn' ? 'cr-output-warn' : '';
+      return `<div class="${cls}">${this.escapeHtml(entry.text)}</div>`;
+    }).join('');
+
+    const errorHtml = this.status === 'error'
+      ? `<div class="cr-output-error">${this.escapeHtml(this.errorMessage)}</div>`
+      : '';
+
+    let statusText = '';
+    if (running) {
+      statusText = this.t('codeRunner.running');
+    } else if (this.status && STATUS_MESSAGES[this.status]) {
+      statusText = this.t(STATUS_MESSAGES[this.status]!);
+    } else if (this.status === 'success' && this.output.length === 0) {
+      statusText = this.t('codeRunner.noOutput');
+    }
+
+    return `
+      <div class="cr-output">
+        <div class="cr-output-header">${this.escapeHtml(this.t('codeRunner.output'))}</div>
+        ${lines}${errorHtml}
+        ${statusText ? `<div class="cr-output-status">${this.escapeHtml(statusText)}</div>` : ''}
+      </div>
+    `;
+  }
+
+  private isExecutionEnabled(): boolean {
+    return findRenderContext(this)?.security.enableCodeRunner ?? false;
+  }
+
   private copyCode(code: string, btn: HTMLElement): void {
     try {
       if (typeof navigator !== 'undefined' && navigator.clipboard) {
         navigator.clipboard.writeText(code);
       }
-      btn.textContent = '\u2713 Copied';
+      btn.textContent = `\u2713 ${this.t('codeRunner.copied')}`;
       btn.classList.add('copied');
       setTimeout(() => {
-        btn.textContent = '\uD83D\uDCCB Copy';
+        btn.textContent = `\uD83D\uDCCB ${this.t('codeRunner.copy')}`;
         btn.classList.remove('copied');
       }, 2000);
     } catch {}
@@ -183,24 +268,35 @@ export class LiveLLMCodeRunner extends LiveLLMComponent {
   }
 
   private runCode(code: string, language: string): void {
-    if (['javascript', 'js'].includes(language.toLowerCase())) {
-      try {
-        const logs: string[] = [];
-        const mockConsole = {
-          log: (...args: any[]) => logs.push(args.map(String).join(' ')),
-          error: (...args: any[]) => logs.push('Error: ' + args.map(String).join(' ')),
-          warn: (...args: any[]) => logs.push('Warning: ' + args.map(String).join(' ')),
-        };
-        const fn = new Function('console', code);
-        const result = fn(mockConsole);
-        if (result !== undefined) logs.push(String(result));
-        this.output = logs.join('\n') || 'No output';
-        this.hasError = false;
-      } catch (e: any) {
-        this.output = e.message || String(e);
-        this.hasError = true;
-      }
+    const security = findRenderContext(this)?.security;
+    if (!security?.enableCodeRunner || this.activeRun) return;
+
+    if (RUNNABLE_LANGUAGES.includes(language.toLowerCase())) {
+      this.output = [];
+      this.status = null;
+      this.errorMessage = '';
+
+      const run = runInSandbox(code, {
+        timeout: security.codeRunnerTimeout,
+        maxOutput: security.codeRunnerMaxOutput,
+        onOutput: (entry) => {
+          if (this.activeRun !== run) return;
+          this.output.push(entry);
+          this.render();
+        },
+      });
+      this.activeRun = run;
       this.render();
+
+      run.result.then((result) => {
+        this.activeRun = null;
+        this.output = result.result !== undefined
+          ? [...result.output, { stream: 'log', text: result.result }]
+          : result.output;
+        this.status = result.status;
+        this.errorMessage = result.error || '';
+        this.render();
+      });
     }
 
     this.emitAction('code-run', {
@@ -223,6 +319,15 @@ export const CODE_RUNNER_REGISTRATION: RegisterOptions = {
     copyable: { type: 'boolean', default: true },
     runnable: { type: 'boolean', default: false },
   },
+  actions: {
+    'code-copy': { value: { type: 'string' }, label: 'Copied code to clipboard' },
+    'code-run': {
+      value: { type: 'string' },
+      data: { language: { type: 'string' } },
+      label: 'Ran {language} code',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS['code-runner'],
   category: 'block',
   skeleton: {
     html: '<div style="height:150px;border-radius:8px;background:#1e1e2e;"></div>',
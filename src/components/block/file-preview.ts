@@ -119,7 +119,7 @@ export class LiveLLMFilePreview extends LiveLLMComponent {
             <div class="fp-filename">${this.escapeHtml(filename)}</div>
             <div class="fp-meta">${metaParts.join(' \u2022 ')}</div>
           </div>
-          ${url ? `<a class="fp-download" href="${this.escapeAttr(url)}" target="_blank" rel="noopener">Download</a>` : ''}
+          ${url ? `<a class="fp-download" href="${this.escapeAttr(url)}" target="_blank" rel="noopener">${this.escapeHtml(this.t('filePreview.download'))}</a>` : ''}
         </div>
         ${previewHtml}
       </div>
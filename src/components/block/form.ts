@@ -1,5 +1,7 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
+import type { ComponentState } from '../../utils/types';
 
 const FORM_STYLES = `
   :host {
@@ -39,7 +41,7 @@ const FORM_STYLES = `
   }
   .field-label .required {
     color: var(--livellm-danger, #ff6b6b);
-    margin-left: 2px;
+    margin-inline-start: 2px;
   }
   input, select, textarea {
     width: 100%;
@@ -84,6 +86,13 @@ const FORM_STYLES = `
   }
   .submit-btn:hover { background: var(--livellm-primary-dark, #5a4bd1); }
   .submit-btn:active { transform: translateY(1px); }
+  .form-fields {
+    border: none;
+    margin: 0;
+    padding: 0;
+    min-width: 0;
+  }
+  .form-fields:disabled { opacity: 0.7; }
 `;
 
 interface FormField {
@@ -97,12 +106,16 @@ interface FormField {
 }
 
 export class LiveLLMForm extends LiveLLMComponent {
+  private values: Record<string, any> | null = null;
+  private submitted: boolean = false;
+
   render(): void {
     const title = this._props.title || '';
     const rawFields = this._props.fields || this._props.inputs || this._props.items || [];
     const fields: FormField[] = Array.isArray(rawFields) ? rawFields : [];
-    const submitLabel = this._props.submitLabel || this._props.buttonText || this._props.submit || 'Submit';
-    const prefill: Record<string, any> = this._props.prefill || this._props.defaults || this._props.values || {};
+    const submitLabel = this._props.submitLabel || this._props.buttonText || this._props.submit || this.t('common.submit');
+    const prefill: Record<string, any> =
+      this.values || this._props.prefill || this._props.defaults || this._props.values || {};
 
     this.setStyles(FORM_STYLES);
 
@@ -113,8 +126,10 @@ export class LiveLLMForm extends LiveLLMComponent {
         ${title ? `<div class="form-title">${this.escapeHtml(title)}</div>` : ''}
         <div class="form-body">
           <form>
-            ${fieldsHtml}
-            <button type="submit" class="submit-btn">${this.escapeHtml(submitLabel)}</button>
+            <fieldset class="form-fields"${this.submitted ? ' disabled' : ''}>
+              ${fieldsHtml}
+            </fieldset>
+            ${!this.submitted ? `<button type="submit" class="submit-btn">${this.escapeHtml(submitLabel)}</button>` : ''}
           </form>
         </div>
       </div>
@@ -141,7 +156,7 @@ export class LiveLLMForm extends LiveLLMComponent {
           const sel = o === val ? ' selected' : '';
           return `<option value="${this.escapeAttr(o)}"${sel}>${this.escapeHtml(o)}</option>`;
         }).join('');
-        return `<div class="field">${label}<select name="${this.escapeAttr(field.name)}" ${field.required ? 'required' : ''}><option value="">-- Select --</option>${opts}</select></div>`;
+        return `<div class="field">${label}<select name="${this.escapeAttr(field.name)}" ${field.required ? 'required' : ''}><option value="">${this.escapeHtml(this.t('form.selectPlaceholder'))}</option>${opts}</select></div>`;
 
       case 'checkbox':
         const checked = prefillValue ? ' checked' : '';
@@ -159,9 +174,18 @@ export class LiveLLMForm extends LiveLLMComponent {
     }
   }
 
+  getState(): ComponentState {
+    return { values: this.values, submitted: this.submitted };
+  }
+
+  protected applyState(state: ComponentState): void {
+    if (state.values && typeof state.values === 'object') this.values = state.values;
+    if (typeof state.submitted === 'boolean') this.submitted = state.submitted;
+  }
+
   private handleSubmit(fields: FormField[]): void {
     const form = this.shadowRoot?.querySelector('form');
-    if (!form) return;
+    if (!form || this.submitted) return;
 
     const data: Record<string, any> = {};
     fields.forEach((f) => {
@@ -179,6 +203,10 @@ export class LiveLLMForm extends LiveLLMComponent {
       .map((f) => `${f.label}: ${data[f.name]}`)
       .join(', ');
 
+    this.values = data;
+    this.submitted = true;
+    this.render();
+
     this.emitAction('submit', {
       value: data,
       label: `Form submitted: ${summary}`,
@@ -200,13 +228,17 @@ export const FORM_REGISTRATION: RegisterOptions = {
     fields: { type: 'array' },
     inputs: { type: 'array' },
     items: { type: 'array' },
-    submitLabel: { type: 'string', default: 'Submit' },
+    submitLabel: { type: 'string' },
     buttonText: { type: 'string' },
     submit: { type: 'string' },
     prefill: { type: 'object' },
     defaults: { type: 'object' },
     values: { type: 'object' },
   },
+  actions: {
+    submit: { value: { type: 'object' }, label: 'Form submitted' },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.form,
   category: 'block',
   skeleton: {
     html: '<div class="livellm-skeleton" style="height:200px;border-radius:8px;background:#f0f0f0;"><div class="shimmer"></div></div>',
@@ -1,5 +1,6 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
 
 const MAP_STYLES = `
   :host {
@@ -139,6 +140,10 @@ export const MAP_REGISTRATION: RegisterOptions = {
     height: { type: 'string', default: '300px' },
     markers: { type: 'array', default: [] },
   },
+  actions: {
+    'open-map': { value: { type: 'object' }, label: 'Opened map' },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.map,
   category: 'block',
   skeleton: {
     html: '<div class="livellm-skeleton" style="height:300px;border-radius:8px;background:#d5e8d4;"><div class="shimmer"></div></div>',
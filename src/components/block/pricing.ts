@@ -1,5 +1,6 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
 
 const PRICING_STYLES = `
   :host {
@@ -126,7 +127,7 @@ export class LiveLLMPricing extends LiveLLMComponent {
       const currency = tier.currency || '$';
       const period = tier.period || '/month';
       const highlighted = tier.highlighted ?? false;
-      const cta = tier.cta || 'Select';
+      const cta = tier.cta || this.t('pricing.select');
 
       const featuresHtml = (tier.features || []).map(f =>
         `<li class="pricing-feature"><span class="pricing-check">\u2713</span>${this.escapeHtml(f)}</li>`
@@ -194,6 +195,14 @@ export const PRICING_REGISTRATION: RegisterOptions = {
     items: { type: 'array' },
     pricing: { type: 'array' },
   },
+  actions: {
+    'pricing-select': {
+      value: { type: 'string' },
+      data: { tier: { type: 'object' } },
+      label: 'Selected plan: {value}',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.pricing,
   category: 'block',
   skeleton: {
     html: '<div style="height:300px;border-radius:8px;background:#e0e0e0;"></div>',
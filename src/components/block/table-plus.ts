@@ -1,5 +1,6 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
 
 const TABLE_STYLES = `
   :host {
@@ -52,7 +53,7 @@ const TABLE_STYLES = `
   }
   th {
     padding: 10px 16px;
-    text-align: left;
+    text-align: start;
     font-weight: 600;
     color: var(--livellm-text-secondary, #6c757d);
     background: var(--livellm-bg-secondary, #f8f9fa);
@@ -65,7 +66,7 @@ const TABLE_STYLES = `
   }
   th.sortable:hover { color: var(--livellm-primary, #6c5ce7); }
   th .sort-arrow {
-    margin-left: 4px;
+    margin-inline-start: 4px;
     opacity: 0.3;
     font-size: 10px;
   }
@@ -112,8 +113,11 @@ interface Column {
   label: string;
   sortable?: boolean;
   type?: string;
+  currency?: string;
 }
 
+const NUMERIC_TYPES = ['number', 'currency', 'percent'];
+
 export class LiveLLMTablePlus extends LiveLLMComponent {
   private sortKey: string = '';
   private sortDir: 'asc' | 'desc' = 'asc';
@@ -156,9 +160,14 @@ export class LiveLLMTablePlus extends LiveLLMComponent {
       filteredRows = [...filteredRows].sort((a, b) => {
         const av = a[this.sortKey] ?? '';
         const bv = b[this.sortKey] ?? '';
-        const cmp = col?.type === 'number'
-          ? (parseFloat(av) || 0) - (parseFloat(bv) || 0)
-          : String(av).localeCompare(String(bv));
+        let cmp: number;
+        if (col?.type && NUMERIC_TYPES.includes(col.type)) {
+          cmp = (parseFloat(av) || 0) - (parseFloat(bv) || 0);
+        } else if (col?.type === 'date') {
+          cmp = (new Date(av).getTime() || 0) - (new Date(bv).getTime() || 0);
+        } else {
+          cmp = String(av).localeCompare(String(bv), this.i18n.locale);
+        }
         return this.sortDir === 'asc' ? cmp : -cmp;
       });
     }
@@ -173,8 +182,8 @@ export class LiveLLMTablePlus extends LiveLLMComponent {
     // Build HTML
     const toolbarHtml = searchable ? `
       <div class="table-toolbar">
-        <input class="search-input" type="text" placeholder="Search..." value="${this.escapeAttr(this.searchQuery)}"/>
-        <span class="row-count">${filteredRows.length} row${filteredRows.length !== 1 ? 's' : ''}</span>
+        <input class="search-input" type="text" placeholder="${this.escapeAttr(this.t('table.search'))}" value="${this.escapeAttr(this.searchQuery)}"/>
+        <span class="row-count">${this.escapeHtml(this.t('table.rows', { count: filteredRows.length }))}</span>
       </div>` : '';
 
     const headCells = columns.map((col) => {
@@ -191,7 +200,7 @@ export class LiveLLMTablePlus extends LiveLLMComponent {
 
     let bodyHtml = '';
     if (displayRows.length === 0) {
-      bodyHtml = `<tr><td colspan="${columns.length}" class="no-results">No results found</td></tr>`;
+      bodyHtml = `<tr><td colspan="${columns.length}" class="no-results">${this.escapeHtml(this.t('table.noResults'))}</td></tr>`;
     } else {
       bodyHtml = displayRows.map((row, i) => {
         const origIdx = filteredRows.indexOf(row);
@@ -200,7 +209,7 @@ export class LiveLLMTablePlus extends LiveLLMComponent {
           this.selectedRows.has(origIdx) ? 'selected' : '',
         ].filter(Boolean).join(' ');
         const cells = columns.map((col) =>
-          `<td>${this.escapeHtml(String(row[col.key] ?? ''))}</td>`
+          `<td>${this.escapeHtml(this.formatCell(row[col.key], col))}</td>`
         ).join('');
         return `<tr class="${cls}" data-row-index="${origIdx}">${cells}</tr>`;
       }).join('');
@@ -208,10 +217,10 @@ export class LiveLLMTablePlus extends LiveLLMComponent {
 
     const paginationHtml = pageSize > 0 && totalPages > 1 ? `
       <div class="pagination">
-        <span>Page ${this.currentPage + 1} of ${totalPages}</span>
+        <span>${this.escapeHtml(this.t('table.page', { page: this.currentPage + 1, total: totalPages }))}</span>
         <div class="page-btns">
-          <button class="page-btn page-prev" ${this.currentPage === 0 ? 'disabled' : ''}>Prev</button>
-          <button class="page-btn page-next" ${this.currentPage >= totalPages - 1 ? 'disabled' : ''}>Next</button>
+          <button class="page-btn page-prev" ${this.currentPage === 0 ? 'disabled' : ''}>${this.escapeHtml(this.t('common.prev'))}</button>
+          <button class="page-btn page-next" ${this.currentPage >= totalPages - 1 ? 'disabled' : ''}>${this.escapeHtml(this.t('common.next'))}</button>
         </div>
       </div>` : '';
 
@@ -291,9 +300,34 @@ export class LiveLLMTablePlus extends LiveLLMComponent {
       label: String(col.label ?? col.title ?? col.header ?? col.name ?? col.key ?? ''),
       sortable: col.sortable,
       type: col.type,
+      currency: col.currency,
     };
   }
 
+  /**
+   * Format a cell value for display using the column type and the locale.
+   * Untyped columns are shown as-is (years, IDs and codes stay ungrouped).
+   */
+  private formatCell(value: any, col: Column): string {
+    if (value === null || value === undefined || value === '') return '';
+    const num = typeof value === 'number' ? value : parseFloat(value);
+
+    switch (col.type) {
+      case 'number':
+        return isFinite(num) ? this.i18n.formatNumber(num) : String(value);
+      case 'currency':
+        return isFinite(num)
+          ? this.i18n.formatCurrency(num, col.currency || this._props.currency || 'USD')
+          : String(value);
+      case 'percent':
+        return isFinite(num) ? this.i18n.formatPercent(num) : String(value);
+      case 'date':
+        return this.i18n.formatDate(value);
+      default:
+        return String(value);
+    }
+  }
+
   private escapeHtml(str: string): string {
     return String(str ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
   }
@@ -314,8 +348,14 @@ export const TABLE_PLUS_REGISTRATION: RegisterOptions = {
     sortable: { type: 'boolean', default: true },
     pageSize: { type: 'number', default: 0 },
     selectable: { type: 'boolean', default: false },
+    currency: { type: 'string' },
+  },
+  actions: {
+    'row-click': { value: { type: 'object' }, label: 'Selected a row' },
   },
+  formatAction: BUILT_IN_ACTION_FORMATTERS['table-plus'],
   category: 'block',
+  progressive: true,
   skeleton: {
     html: '<div class="livellm-skeleton" style="height:200px;border-radius:8px;background:#f0f0f0;"><div class="shimmer"></div></div>',
     height: '200px',
@@ -1,5 +1,6 @@
-import { LiveLLMComponent } from '../base';
+import { LiveLLMComponent, NESTED_CONTENT_STYLES } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
 
 const TABS_STYLES = `
   :host {
@@ -55,7 +56,7 @@ const TABS_STYLES = `
   .tab-panel.active {
     display: block;
   }
-`;
+${NESTED_CONTENT_STYLES}`;
 
 interface TabData {
   label: string;
@@ -85,7 +86,7 @@ export class LiveLLMTabs extends LiveLLMComponent {
     const panels = tabs
       .map(
         (tab, i) =>
-          `<div class="tab-panel${i === this.activeTab ? ' active' : ''}" data-tab-panel="${i}">${this.escapeHtml(tab.content)}</div>`
+          `<div class="tab-panel livellm-nested${i === this.activeTab ? ' active' : ''}" data-tab-panel="${i}">${this.renderMarkdown(tab.content)}</div>`
       )
       .join('');
 
@@ -158,6 +159,10 @@ export const TABS_REGISTRATION: RegisterOptions = {
     panels: { type: 'array' },
     defaultTab: { type: 'number', default: 0, min: 0 },
   },
+  actions: {
+    'tab-switch': { value: { type: 'object' }, label: 'Switched tab' },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.tabs,
   category: 'block',
   skeleton: {
     html: '<div style="height:150px;border-radius:8px;background:#e0e0e0;"></div>',
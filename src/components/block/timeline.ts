@@ -143,6 +143,7 @@ export const TIMELINE_REGISTRATION: RegisterOptions = {
     entries: { type: 'array' },
   },
   category: 'block',
+  progressive: true,
   skeleton: {
     html: '<div style="height:200px;border-radius:8px;background:#e0e0e0;"></div>',
     height: '200px',
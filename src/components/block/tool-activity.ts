@@ -0,0 +1,157 @@
+import { LiveLLMComponent } from '../base';
+import type { RegisterOptions } from '../../core/registry';
+
+const TOOL_ACTIVITY_STYLES = `
+  :host {
+    display: block;
+    margin: 8px 0;
+  }
+  .livellm-component {
+    font-family: var(--livellm-font, system-ui, -apple-system, sans-serif);
+    font-size: var(--livellm-font-size, 14px);
+    color: var(--livellm-text, #1a1a1a);
+  }
+  .tool {
+    border: 1px solid var(--livellm-border, #e0e0e0);
+    border-radius: var(--livellm-border-radius, 8px);
+    background: var(--livellm-bg-secondary, #f8f9fa);
+    overflow: hidden;
+  }
+  .tool-header {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    width: 100%;
+    padding: 8px 12px;
+    border: none;
+    background: none;
+    font: inherit;
+    color: inherit;
+    text-align: start;
+    cursor: pointer;
+  }
+  .tool-header:hover {
+    background: var(--livellm-bg-component, #ffffff);
+  }
+  .tool-icon {
+    width: 16px;
+    flex-shrink: 0;
+    text-align: center;
+    font-weight: 700;
+  }
+  .tool.running .tool-icon {
+    color: var(--livellm-primary, #6c5ce7);
+    animation: livellm-tool-spin 1s linear infinite;
+  }
+  .tool.success .tool-icon { color: var(--livellm-success, #00b894); }
+  .tool.error .tool-icon { color: var(--livellm-danger, #ff6b6b); }
+  .tool-label {
+    flex: 1;
+    color: var(--livellm-text-secondary, #6c757d);
+  }
+  .tool-arrow {
+    font-size: 10px;
+    color: var(--livellm-text-secondary, #6c757d);
+    transition: transform 0.2s;
+  }
+  .tool.expanded .tool-arrow {
+    transform: rotate(90deg);
+  }
+  .tool-body {
+    display: none;
+    padding: 8px 12px 12px;
+    border-top: 1px solid var(--livellm-border, #e0e0e0);
+  }
+  .tool.expanded .tool-body {
+    display: block;
+  }
+  .tool-section-title {
+    font-size: 12px;
+    font-weight: 600;
+    margin: 4px 0;
+    color: var(--livellm-text-secondary, #6c757d);
+  }
+  .tool-body pre {
+    margin: 0 0 8px;
+    padding: 8px;
+    border-radius: 4px;
+    background: var(--livellm-bg-component, #ffffff);
+    font-family: var(--livellm-font-mono, ui-monospace, monospace);
+    font-size: 12px;
+    white-space: pre-wrap;
+    word-break: break-word;
+  }
+  @keyframes livellm-tool-spin {
+    to { transform: rotate(360deg); }
+  }
+`;
+
+const STATUS_ICONS: Record<string, string> = {
+  running: '◌',
+  success: '✓',
+  error: '✕',
+};
+
+/**
+ * A tool call of an agentic backend (search, code execution, a database
+ * query, ...), from `tool_call` / `tool_result` stream events. Collapsed to
+ * one status line; expanding it shows the arguments and the result.
+ */
+export class LiveLLMToolActivity extends LiveLLMComponent {
+  private expanded = false;
+
+  render(): void {
+    const name = String(this._props.name ?? '');
+    const status = STATUS_ICONS[this._props.status] ? this._props.status : 'running';
+    const args = this._props.arguments;
+    const output = this._props.output;
+
+    this.setStyles(TOOL_ACTIVITY_STYLES);
+
+    const argsHtml = args && typeof args === 'object' && Object.keys(args).length
+      ? `<div class="tool-section-title">${this.escapeHtml(this.t('toolActivity.arguments'))}</div>` +
+        `<pre class="tool-arguments">${this.escapeHtml(formatValue(args))}</pre>`
+      : '';
+    const outputHtml = output !== undefined && output !== ''
+      ? `<div class="tool-section-title">${this.escapeHtml(this.t('toolActivity.output'))}</div>` +
+        `<pre class="tool-output">${this.escapeHtml(formatValue(output))}</pre>`
+      : '';
+
+    this.setContent(`
+      <div class="tool ${status}${this.expanded ? ' expanded' : ''}">
+        <button class="tool-header" type="button" aria-expanded="${this.expanded}">
+          <span class="tool-icon" aria-hidden="true">${STATUS_ICONS[status]}</span>
+          <span class="tool-label" role="status">${this.escapeHtml(this.t(`toolActivity.${status}`, { name }))}</span>
+          <span class="tool-arrow" aria-hidden="true">▶</span>
+        </button>
+        <div class="tool-body">${argsHtml}${outputHtml}</div>
+      </div>`);
+
+    this.shadowRoot?.querySelector('.tool-header')?.addEventListener('click', () => {
+      this.expanded = !this.expanded;
+      this.render();
+    });
+  }
+
+  private escapeHtml(str: string): string {
+    return String(str ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+export const TOOL_ACTIVITY_REGISTRATION: RegisterOptions = {
+  schema: {
+    name: { type: 'string', required: true },
+    arguments: { type: 'object' },
+    status: { type: 'enum', enum: ['running', 'success', 'error'], default: 'running' },
+    output: { type: 'string' },
+  },
+  category: 'block',
+  skeleton: {
+    html: '<div class="livellm-skeleton" style="height:38px;border-radius:8px;background:#f0f0f0;"><div class="shimmer"></div></div>',
+    height: '38px',
+  },
+};
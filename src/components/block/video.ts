@@ -71,12 +71,12 @@ export class LiveLLMVideo extends LiveLLMComponent {
         <div class="video-wrapper">
           <video controls ${autoplay ? 'autoplay muted' : ''} preload="metadata">
             <source src="${this.escapeAttr(url)}">
-            Your browser does not support the video tag.
+            ${this.escapeHtml(this.t('video.unsupported'))}
           </video>
         </div>
       `;
     } else {
-      videoHtml = `<div class="video-error">Unable to embed video: ${this.escapeHtml(url || 'No URL provided')}</div>`;
+      videoHtml = `<div class="video-error">${this.escapeHtml(this.t('video.error', { url: url || this.t('video.noUrl') }))}</div>`;
     }
 
     this.setContent(`
@@ -16,6 +16,7 @@ export { LiveLLMFilePreview } from './block/file-preview';
 export { LiveLLMCalendar } from './block/calendar';
 export { LiveLLMLinkPreview } from './block/link-preview';
 export { LiveLLMCodeRunner } from './block/code-runner';
+export { LiveLLMToolActivity } from './block/tool-activity';
 
 // Inline components
 export { LiveLLMAlert } from './inline/alert';
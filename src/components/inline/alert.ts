@@ -13,7 +13,7 @@ const ALERT_STYLES = `
   .alert {
     padding: 12px 16px;
     border-radius: var(--livellm-border-radius, 8px);
-    border-left: 4px solid;
+    border-inline-start: 4px solid;
     display: flex;
     align-items: flex-start;
     gap: 8px;
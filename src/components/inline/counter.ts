@@ -41,20 +41,24 @@ export class LiveLLMCounter extends LiveLLMComponent {
     const label: string = this._props.label || '';
     const prefix: string = this._props.prefix || '';
     const suffix: string = this._props.suffix || '';
-    const format: string = this._props.format || 'number'; // number, compact, percent
+    const format: string = this._props.format || 'number'; // number, compact, percent, currency
+    const currency: string = this._props.currency || 'USD';
 
     this.setStyles(COUNTER_STYLES);
 
     let displayValue: string;
     switch (format) {
       case 'compact':
-        displayValue = this.formatCompact(value);
+        displayValue = this.i18n.formatCompact(value);
         break;
       case 'percent':
-        displayValue = `${value}`;
+        displayValue = this.i18n.formatNumber(value);
+        break;
+      case 'currency':
+        displayValue = this.i18n.formatCurrency(value, currency);
         break;
       default:
-        displayValue = value.toLocaleString();
+        displayValue = this.i18n.formatNumber(value);
     }
 
     const displaySuffix = format === 'percent' ? '%' : suffix;
@@ -69,13 +73,6 @@ export class LiveLLMCounter extends LiveLLMComponent {
     `);
   }
 
-  private formatCompact(n: number): string {
-    if (n >= 1_000_000_000) return (n / 1_000_000_000).toFixed(1) + 'B';
-    if (n >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M';
-    if (n >= 1_000) return (n / 1_000).toFixed(1) + 'K';
-    return String(n);
-  }
-
   private escapeHtml(str: string): string {
     return String(str ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
   }
@@ -88,6 +85,7 @@ export const COUNTER_REGISTRATION: RegisterOptions = {
     prefix: { type: 'string', default: '' },
     suffix: { type: 'string', default: '' },
     format: { type: 'string', default: 'number' },
+    currency: { type: 'string', default: 'USD' },
   },
   category: 'inline',
   skeleton: {
@@ -24,7 +24,7 @@ const RATING_STYLES = `
     width: 50%;
   }
   .rating-value {
-    margin-left: 4px;
+    margin-inline-start: 4px;
     font-size: 13px;
     font-weight: 600;
     color: var(--livellm-text-secondary, #6c757d);
@@ -1,5 +1,6 @@
 import { LiveLLMComponent } from '../base';
 import type { RegisterOptions } from '../../core/registry';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../protocol/formatters';
 
 const TAG_STYLES = `
   :host {
@@ -22,7 +23,7 @@ const TAG_STYLES = `
     line-height: 1.4;
     transition: var(--livellm-transition, 0.2s ease);
   }
-  .tag-icon { margin-right: 4px; }
+  .tag-icon { margin-inline-end: 4px; }
   .tag.clickable { cursor: pointer; }
   .tag.clickable:hover { opacity: 0.8; transform: scale(1.02); }
   /* Colors */
@@ -98,6 +99,14 @@ export const TAG_REGISTRATION: RegisterOptions = {
     variant: { type: 'string', default: 'solid' },
     clickable: { type: 'boolean', default: false },
   },
+  actions: {
+    'tag-click': {
+      value: { type: 'string' },
+      data: { index: { type: 'number', min: 0 } },
+      label: 'Clicked tag: {value}',
+    },
+  },
+  formatAction: BUILT_IN_ACTION_FORMATTERS.tag,
   category: 'inline',
   skeleton: {
     html: '<span style="display:inline-block;width:80px;height:20px;background:#e0e0e0;border-radius:12px;"></span>',
@@ -0,0 +1,351 @@
+import type { LiveLLMAction } from '../utils/types';
+import { resolveContainer } from '../utils/dom';
+import { I18n } from './i18n';
+
+const PREVIEW_STYLES = `
+  :host {
+    position: fixed;
+    inset-inline: 0;
+    bottom: 16px;
+    display: flex;
+    justify-content: center;
+    padding: 0 16px;
+    pointer-events: none;
+    z-index: var(--livellm-preview-z-index, 1000);
+  }
+  :host([data-inline]) {
+    position: static;
+    padding: 0;
+    margin: 12px 0;
+  }
+  .preview-bar {
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    width: 100%;
+    max-width: 640px;
+    box-sizing: border-box;
+    padding: 10px 14px;
+    border: 1px solid var(--livellm-border, #e0e0e0);
+    border-radius: var(--livellm-border-radius, 8px);
+    background: var(--livellm-bg-component, #ffffff);
+    box-shadow: var(--livellm-shadow, 0 2px 8px rgba(0, 0, 0, 0.08));
+    font-family: var(--livellm-font, system-ui, -apple-system, sans-serif);
+    font-size: var(--livellm-font-size, 14px);
+    color: var(--livellm-text, #1a1a1a);
+    pointer-events: auto;
+  }
+  .preview-body {
+    flex: 1;
+    min-width: 0;
+  }
+  .preview-title {
+    font-size: 12px;
+    color: var(--livellm-text-secondary, #6c757d);
+  }
+  .preview-label {
+    font-weight: 500;
+    overflow-wrap: anywhere;
+  }
+  .preview-input {
+    width: 100%;
+    box-sizing: border-box;
+    padding: 6px 8px;
+    border: 1px solid var(--livellm-border, #e0e0e0);
+    border-radius: 6px;
+    font-family: inherit;
+    font-size: inherit;
+    color: inherit;
+    background: var(--livellm-bg, #ffffff);
+  }
+  .preview-queue {
+    font-size: 12px;
+    color: var(--livellm-text-secondary, #6c757d);
+    white-space: nowrap;
+  }
+  .preview-buttons {
+    display: flex;
+    gap: 6px;
+  }
+  .preview-btn {
+    padding: 6px 12px;
+    border: 1px solid var(--livellm-border, #e0e0e0);
+    border-radius: 6px;
+    background: var(--livellm-bg, #ffffff);
+    color: inherit;
+    font-family: inherit;
+    font-size: 13px;
+    cursor: pointer;
+    transition: var(--livellm-transition, 0.2s ease);
+  }
+  .preview-btn.primary {
+    border-color: var(--livellm-primary, #6c5ce7);
+    background: var(--livellm-primary, #6c5ce7);
+    color: #ffffff;
+    font-weight: 600;
+  }
+  .preview-btn:hover { border-color: var(--livellm-primary, #6c5ce7); }
+  .preview-btn:focus-visible,
+  .preview-input:focus-visible {
+    outline: 2px solid var(--livellm-primary, #6c5ce7);
+    outline-offset: 2px;
+  }
+`;
+
+export interface ActionPreviewOptions {
+  /** Container for the bar. Defaults to a bar fixed to the bottom of the page. */
+  target?: string | HTMLElement;
+  i18n?: I18n;
+  onSend: (action: LiveLLMAction) => void;
+  onCancel: (action: LiveLLMAction) => void;
+  onEdit?: (action: LiveLLMAction) => void;
+}
+
+/**
+ * ActionPreview — built-in confirmation bar for pending actions.
+ *
+ * Shows the label of the oldest pending action with Send / Edit / Cancel.
+ * Further actions queue behind it ("1 of 3"). Keyboard: the bar takes focus
+ * when it opens, Escape cancels (or leaves editing), Ctrl/Cmd+Enter sends,
+ * Enter in the edit field saves. Focus returns where it was once the queue
+ * is empty.
+ */
+export class ActionPreview {
+  private options: ActionPreviewOptions;
+  private i18n: I18n;
+  private queue: LiveLLMAction[] = [];
+  private host: HTMLElement | null = null;
+  private editing: boolean = false;
+  private returnFocus: HTMLElement | null = null;
+
+  constructor(options: ActionPreviewOptions) {
+    this.options = options;
+    this.i18n = options.i18n ?? new I18n();
+  }
+
+  /**
+   * Actions waiting for confirmation, oldest first.
+   */
+  get pending(): readonly LiveLLMAction[] {
+    return [...this.queue];
+  }
+
+  /**
+   * The action shown in the bar.
+   */
+  get current(): LiveLLMAction | null {
+    return this.queue[0] ?? null;
+  }
+
+  /**
+   * Queue an action for confirmation.
+   */
+  enqueue(action: LiveLLMAction): void {
+    if (this.queue.includes(action)) return;
+    this.queue.push(action);
+
+    if (this.queue.length === 1) {
+      this.returnFocus = activeElement();
+      this.render(true);
+    } else {
+      this.render(false);
+    }
+  }
+
+  /**
+   * Drop an action that was sent or cancelled elsewhere.
+   */
+  remove(action: LiveLLMAction): boolean {
+    const index = this.queue.indexOf(action);
+    if (index === -1) return false;
+
+    this.queue.splice(index, 1);
+    if (index === 0) this.editing = false;
+    this.render(index === 0);
+    return true;
+  }
+
+  /**
+   * Send the current action (saving an edit in progress).
+   */
+  send(): void {
+    const action = this.current;
+    if (!action) return;
+    if (this.editing) this.saveEdit();
+    this.options.onSend(action);
+    this.remove(action);
+  }
+
+  /**
+   * Cancel the current action.
+   */
+  cancel(): void {
+    const action = this.current;
+    if (!action) return;
+    this.options.onCancel(action);
+    this.remove(action);
+  }
+
+  /**
+   * Edit the label of the current action before sending.
+   */
+  edit(): void {
+    if (!this.current || this.editing) return;
+    this.editing = true;
+    this.render(false);
+    const input = this.shadow?.querySelector<HTMLInputElement>('.preview-input');
+    input?.focus();
+    input?.select();
+  }
+
+  /**
+   * Remove the bar and forget pending actions.
+   */
+  destroy(): void {
+    this.queue = [];
+    this.editing = false;
+    this.unmount();
+  }
+
+  // ═══ Rendering ════════════════════════════════════════════
+
+  private get shadow(): ShadowRoot | null {
+    return this.host?.shadowRoot ?? null;
+  }
+
+  /**
+   * Re-render the bar. `focus` moves focus to Send (a new action is shown).
+   */
+  private render(focus: boolean): void {
+    const action = this.current;
+    if (!action) {
+      this.unmount();
+      return;
+    }
+
+    const shadow = this.mount();
+    const count = this.queue.length;
+    const label = this.escape(action.label);
+    const body = this.editing
+      ? `<input class="preview-input" type="text" value="${label}" aria-label="${this.escape(this.i18n.t('actionPreview.input'))}" />`
+      : `<div class="preview-label">${label}</div>`;
+    const queue = count > 1
+      ? `<span class="preview-queue">${this.escape(this.i18n.t('actionPreview.queue', { index: 1, count }))}</span>`
+      : '';
+
+    shadow.innerHTML = `
+      <style>${PREVIEW_STYLES}</style>
+      <div class="preview-bar">
+        <div class="preview-body" aria-live="polite">
+          <div class="preview-title">${this.escape(this.i18n.t('actionPreview.title'))}</div>
+          ${body}
+        </div>
+        ${queue}
+        <div class="preview-buttons">
+          <button type="button" class="preview-btn primary" data-action="send">${this.escape(this.i18n.t('actionPreview.send'))}</button>
+          <button type="button" class="preview-btn" data-action="edit">${this.escape(this.i18n.t(this.editing ? 'actionPreview.save' : 'actionPreview.edit'))}</button>
+          <button type="button" class="preview-btn" data-action="cancel">${this.escape(this.i18n.t('actionPreview.cancel'))}</button>
+        </div>
+      </div>
+    `;
+
+    shadow.querySelector('[data-action="send"]')?.addEventListener('click', () => this.send());
+    shadow.querySelector('[data-action="cancel"]')?.addEventListener('click', () => this.cancel());
+    shadow.querySelector('[data-action="edit"]')?.addEventListener('click', () => {
+      if (this.editing) {
+        this.saveEdit();
+        this.render(true);
+      } else {
+        this.edit();
+      }
+    });
+
+    if (focus) {
+      shadow.querySelector<HTMLElement>('[data-action="send"]')?.focus();
+    }
+  }
+
+  private mount(): ShadowRoot {
+    if (!this.host || !this.host.isConnected) {
+      const container = this.options.target ? resolveContainer(this.options.target) : null;
+      const host = document.createElement('div');
+      host.className = 'livellm-action-preview';
+      host.setAttribute('role', 'region');
+      host.setAttribute('aria-label', this.i18n.t('actionPreview.title'));
+      host.setAttribute('lang', this.i18n.locale);
+      host.setAttribute('dir', this.i18n.dir);
+      if (container) host.setAttribute('data-inline', '');
+      host.attachShadow({ mode: 'open' });
+      host.addEventListener('keydown', this.onKeydown);
+      (container ?? document.body).appendChild(host);
+      this.host = host;
+    }
+    return this.host.shadowRoot!;
+  }
+
+  private unmount(): void {
+    if (!this.host) return;
+    // Focus inside the bar's shadow root shows up as the host
+    const hadFocus = document.activeElement === this.host;
+    this.host.removeEventListener('keydown', this.onKeydown);
+    this.host.remove();
+    this.host = null;
+
+    if (hadFocus && this.returnFocus?.isConnected) {
+      this.returnFocus.focus();
+    }
+    this.returnFocus = null;
+  }
+
+  private saveEdit(): void {
+    const action = this.current;
+    const input = this.shadow?.querySelector<HTMLInputElement>('.preview-input');
+    this.editing = false;
+    if (!action || !input) return;
+
+    const label = input.value.trim();
+    if (label && label !== action.label) {
+      action.label = label;
+      action.metadata.edited = true;
+      this.options.onEdit?.(action);
+    }
+  }
+
+  private readonly onKeydown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      if (this.editing) {
+        this.editing = false;
+        this.render(true);
+      } else {
+        this.cancel();
+      }
+    } else if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      this.send();
+    } else if (event.key === 'Enter' && this.editing) {
+      event.preventDefault();
+      this.saveEdit();
+      this.render(true);
+    }
+  };
+
+  private escape(str: string): string {
+    return String(str ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
+
+/**
+ * The focused element, looking through open shadow roots.
+ */
+function activeElement(): HTMLElement | null {
+  let active = document.activeElement as HTMLElement | null;
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement as HTMLElement;
+  }
+  return active;
+}
@@ -1,25 +1,52 @@
 import type { EventBus } from './events';
-import type { ActionsConfig, LiveLLMAction } from '../utils/types';
+import type {
+  ActionsConfig,
+  ActionGroup,
+  ActionGroupProgress,
+  ActionPayloadOf,
+  BuiltInActionName,
+  LiveLLMAction,
+} from '../utils/types';
+import { ActionPreview } from './action-preview';
+import { I18n } from './i18n';
 
 /**
  * @livellm/actions — Bidirectional action system.
  * Captures user interactions from components and routes them back to the chat platform.
+ * Without `autoSend`, pending actions wait in the built-in preview bar
+ * (`showPreview`) or for the host's own UI (`action:previewing`).
+ * With `groupActions`, actions of a group are held until every member is
+ * answered and continue as one combined action.
  */
 export class Actions {
   private events: EventBus;
   private config: ActionsConfig;
+  private i18n: I18n;
+  private preview: ActionPreview | null = null;
+  private groups: Map<string, Map<string, LiveLLMAction>> = new Map();
+  private readonly onTriggered = (action: LiveLLMAction): void => this.handleAction(action);
 
-  constructor(events: EventBus, config: Partial<ActionsConfig> = {}) {
+  constructor(events: EventBus, config: Partial<ActionsConfig> = {}, i18n: I18n = new I18n()) {
     this.events = events;
     this.config = {
       onAction: config.onAction || (() => {}),
       autoSend: config.autoSend ?? false,
-      showPreview: config.showPreview ?? true,
+      showPreview: config.showPreview ?? false,
+      previewTarget: config.previewTarget,
+      groupActions: config.groupActions ?? false,
       labelTemplates: config.labelTemplates || {},
     };
+    this.i18n = i18n;
 
     // Listen for action events from the renderer
-    this.events.on('action:triggered', this.handleAction.bind(this));
+    this.events.on('action:triggered', this.onTriggered);
+  }
+
+  /**
+   * Actions waiting in the preview bar, oldest first.
+   */
+  get pending(): readonly LiveLLMAction[] {
+    return this.preview?.pending ?? [];
   }
 
   /**
@@ -32,10 +59,46 @@ export class Actions {
       action.label = template(action.value, action.metadata);
     }
 
+    const group = action.metadata.group;
+    if (this.config.groupActions && group && group.size > 1) {
+      this.collect(action, group);
+      return;
+    }
+
+    this.dispatch(action);
+  }
+
+  /**
+   * Hold a grouped action; once the whole group is answered, continue
+   * with the combined action.
+   */
+  private collect(action: LiveLLMAction, group: ActionGroup): void {
+    let answered = this.groups.get(group.id);
+    if (!answered) {
+      answered = new Map();
+      this.groups.set(group.id, answered);
+    }
+    answered.set(action.metadata.componentId, action);
+
+    const progress: ActionGroupProgress = { id: group.id, answered: answered.size, total: group.size };
+    this.events.emit('action:group:progress', progress);
+    if (answered.size < group.size) return;
+
+    this.groups.delete(group.id);
+    this.dispatch(combineActions(group.id, Array.from(answered.values())));
+  }
+
+  /**
+   * Send an action right away or hold it for confirmation.
+   */
+  private dispatch(action: LiveLLMAction): void {
     if (this.config.autoSend) {
       // Send immediately without confirmation
       this.send(action);
     } else {
+      if (this.config.showPreview) {
+        this.getPreview().enqueue(action);
+      }
       // Emit preview event — let the host UI show confirmation
       this.events.emit('action:previewing', action);
     }
@@ -45,6 +108,7 @@ export class Actions {
    * Send an action (called directly or after user confirmation).
    */
   send(action: LiveLLMAction): void {
+    this.preview?.remove(action);
     this.events.emit('action:confirmed', action);
 
     try {
@@ -59,6 +123,7 @@ export class Actions {
    * Cancel a pending action.
    */
   cancel(action: LiveLLMAction): void {
+    this.preview?.remove(action);
     this.events.emit('action:cancelled', action);
   }
 
@@ -67,5 +132,61 @@ export class Actions {
    */
   updateConfig(config: Partial<ActionsConfig>): void {
     Object.assign(this.config, config);
+    if (this.preview && ('showPreview' in config || 'previewTarget' in config)) {
+      this.preview.destroy();
+      this.preview = null;
+    }
+  }
+
+  /**
+   * Stop handling actions and remove the preview bar.
+   */
+  destroy(): void {
+    this.events.off('action:triggered', this.onTriggered);
+    this.preview?.destroy();
+    this.preview = null;
+  }
+
+  private getPreview(): ActionPreview {
+    if (!this.preview) {
+      this.preview = new ActionPreview({
+        target: this.config.previewTarget,
+        i18n: this.i18n,
+        onSend: (action) => this.send(action),
+        onCancel: (action) => this.cancel(action),
+        onEdit: (action) => this.events.emit('action:edited', action),
+      });
+    }
+    return this.preview;
   }
 }
+
+/**
+ * Narrow an action to a built-in action's payload by action name:
+ * `if (isAction(action, 'slider-submit')) action.value // number`.
+ */
+export function isAction<A extends BuiltInActionName>(
+  action: LiveLLMAction,
+  name: A
+): action is LiveLLMAction & ActionPayloadOf<A> {
+  return action.action === name;
+}
+
+/**
+ * One action for a whole group. Members keep their own payloads in `actions`.
+ */
+function combineActions(groupId: string, members: LiveLLMAction[]): LiveLLMAction {
+  const actions = [...members].sort((a, b) => (a.metadata.group?.index ?? 0) - (b.metadata.group?.index ?? 0));
+  return {
+    type: 'livellm:action',
+    component: 'group',
+    action: 'submit-all',
+    value: actions.map((action) => action.value),
+    label: actions.map((action) => action.label).join('; '),
+    actions,
+    metadata: {
+      componentId: groupId,
+      timestamp: Date.now(),
+    },
+  };
+}
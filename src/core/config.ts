@@ -27,6 +27,7 @@ export const DEFAULT_CONFIG: LiveLLMConfig = {
     shadowDom: true,
     sanitize: true,
     proseStyles: true,
+    maxNestingDepth: 3,
   },
 
   streaming: {
@@ -40,17 +41,21 @@ export const DEFAULT_CONFIG: LiveLLMConfig = {
   actions: {
     onAction: () => {},
     autoSend: false,
-    showPreview: true,
+    showPreview: false,
+    groupActions: false,
     labelTemplates: {},
   },
 
   security: {
     enableCodeRunner: false,
+    codeRunnerTimeout: 5000,
+    codeRunnerMaxOutput: 10000,
     allowedOrigins: ['*'],
     maxJsonSize: 50000,
   },
 
   themeVars: {},
+  messages: {},
 };
 
 /**
@@ -0,0 +1,134 @@
+import { MESSAGE_CATALOGS } from '../i18n/index';
+import type { MessageCatalog } from '../i18n/index';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/** Languages laid out right-to-left. */
+const RTL_LANGUAGES = ['ar', 'he', 'iw', 'fa', 'ur', 'yi', 'ps'];
+
+const FALLBACK_LOCALE = 'en';
+
+/**
+ * I18n — UI strings and Intl formatting for one locale.
+ *
+ * Messages resolve through the per-instance overrides, then the bundled
+ * catalog for the full tag (`pt-BR`), its language (`pt`) and finally English.
+ * Placeholders use `{name}`; a numeric `count` param selects a plural form
+ * (`key.one`, `key.other`, ...) when the catalog defines one.
+ */
+export class I18n {
+  readonly locale: string;
+  readonly dir: TextDirection;
+  private messages: MessageCatalog;
+  private plurals: Intl.PluralRules;
+  private formatters: Map<string, Intl.NumberFormat | Intl.DateTimeFormat> = new Map();
+
+  constructor(locale: string = FALLBACK_LOCALE, overrides: MessageCatalog = {}) {
+    this.locale = normalizeLocale(locale);
+    const language = this.locale.split('-')[0].toLowerCase();
+
+    this.dir = RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr';
+    this.messages = {
+      ...MESSAGE_CATALOGS[FALLBACK_LOCALE],
+      ...MESSAGE_CATALOGS[language],
+      ...MESSAGE_CATALOGS[this.locale],
+      ...overrides,
+    };
+    this.plurals = new Intl.PluralRules(this.locale);
+  }
+
+  /**
+   * Whether the locale is laid out right-to-left.
+   */
+  get isRTL(): boolean {
+    return this.dir === 'rtl';
+  }
+
+  /**
+   * Translate a message key, interpolating `{name}` placeholders.
+   * Unknown keys are returned as-is.
+   */
+  t(key: string, params: Record<string, string | number> = {}): string {
+    let message: string | undefined;
+    if (typeof params.count === 'number') {
+      message = this.messages[`${key}.${this.plurals.select(params.count)}`]
+        ?? this.messages[`${key}.other`];
+    }
+    message = message ?? this.messages[key] ?? key;
+
+    return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? this.formatNumber(value) : value;
+    });
+  }
+
+  // ═══ Formatting ══════════════════════════════════════════
+
+  /**
+   * Format a number with the locale's grouping and decimal separators.
+   */
+  formatNumber(value: number, options: Intl.NumberFormatOptions = {}): string {
+    return (this.getFormatter('number', options) as Intl.NumberFormat).format(value);
+  }
+
+  /**
+   * Format a number in short form (1.5K, 2.3M, 1,5 M, ...).
+   */
+  formatCompact(value: number): string {
+    return this.formatNumber(value, { notation: 'compact', maximumFractionDigits: 1 });
+  }
+
+  /**
+   * Format a monetary amount. Falls back to a plain number for unknown currency codes.
+   */
+  formatCurrency(value: number, currency: string, options: Intl.NumberFormatOptions = {}): string {
+    try {
+      return this.formatNumber(value, { ...options, style: 'currency', currency });
+    } catch {
+      return `${this.formatNumber(value, options)} ${currency}`;
+    }
+  }
+
+  /**
+   * Format a ratio as a percentage (0.25 → 25%).
+   */
+  formatPercent(value: number, options: Intl.NumberFormatOptions = {}): string {
+    return this.formatNumber(value, { maximumFractionDigits: 1, ...options, style: 'percent' });
+  }
+
+  /**
+   * Format a date (Date, ISO string or timestamp). Invalid input is returned as a string.
+   */
+  formatDate(value: Date | string | number, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) return String(value);
+    return (this.getFormatter('date', options) as Intl.DateTimeFormat).format(date);
+  }
+
+  private getFormatter(
+    kind: 'number' | 'date',
+    options: Intl.NumberFormatOptions | Intl.DateTimeFormatOptions
+  ): Intl.NumberFormat | Intl.DateTimeFormat {
+    const cacheKey = `${kind}:${JSON.stringify(options)}`;
+    let formatter = this.formatters.get(cacheKey);
+    if (!formatter) {
+      formatter = kind === 'number'
+        ? new Intl.NumberFormat(this.locale, options as Intl.NumberFormatOptions)
+        : new Intl.DateTimeFormat(this.locale, options as Intl.DateTimeFormatOptions);
+      this.formatters.set(cacheKey, formatter);
+    }
+    return formatter;
+  }
+}
+
+/**
+ * Canonicalize a BCP 47 tag, falling back to English for invalid input.
+ */
+function normalizeLocale(locale: string): string {
+  try {
+    return Intl.getCanonicalLocales(locale)[0] || FALLBACK_LOCALE;
+  } catch {
+    return FALLBACK_LOCALE;
+  }
+}
@@ -7,6 +7,8 @@ import type {
   ComponentSchema,
   ComponentCategory,
   SkeletonConfig,
+  ThemeName,
+  ComponentStateSource,
 } from '../utils/types';
 import { DEFAULT_CONFIG, mergeConfig } from './config';
 import { EventBus } from './events';
@@ -17,6 +19,12 @@ import { Transformer } from './transformer';
 import { Actions } from './actions';
 import { StreamRenderer } from './stream-renderer';
 import { Observer, ObserverOptions } from './observer';
+import { ThemeManager } from './theme';
+import { I18n } from './i18n';
+import { ChatSession, ChatSessionOptions } from './session';
+import { formatActionAsMessage } from '../protocol/server';
+import type { LiveLLMActionPayload } from '../protocol/types';
+import type { FormatActionOptions } from '../protocol/formatters';
 
 /**
  * LiveLLM — Main facade class.
@@ -31,6 +39,8 @@ export class LiveLLMInstance {
   private _transformer: Transformer;
   private actions: Actions;
   private _observer: Observer;
+  private themes: ThemeManager;
+  private _i18n: I18n;
   private initialized: boolean = false;
 
   readonly version: string = '0.1.0';
@@ -40,11 +50,21 @@ export class LiveLLMInstance {
     this.events = new EventBus();
     this._registry = new Registry(this.events);
     this.parser = new Parser(this.events, this._registry, this.config.markdown);
-    this._renderer = new Renderer(this.events, this._registry, this.parser, this.config.renderer);
+    this._i18n = new I18n(this.config.locale, this.config.messages);
+    this._renderer = new Renderer(
+      this.events,
+      this._registry,
+      this.parser,
+      this.config.renderer,
+      this.config.security,
+      this._i18n,
+      this.config.actions
+    );
     this._transformer = new Transformer(this.events, this.config.transformer);
     this._transformer.registerBuiltIns();
-    this.actions = new Actions(this.events, this.config.actions);
+    this.actions = new Actions(this.events, this.config.actions, this._i18n);
     this._observer = new Observer(this.events, this._registry, this.parser, this._renderer);
+    this.themes = new ThemeManager(this.events);
   }
 
   /**
@@ -57,17 +77,28 @@ export class LiveLLMInstance {
     // Reinitialize modules with updated config, preserving the existing registry
     // (built-in components are registered on the singleton at import time)
     this.parser = new Parser(this.events, this._registry, this.config.markdown);
+    this._i18n = new I18n(this.config.locale, this.config.messages);
     this._renderer = new Renderer(
       this.events,
       this._registry,
       this.parser,
-      this.config.renderer
+      this.config.renderer,
+      this.config.security,
+      this._i18n,
+      this.config.actions
     );
     this._transformer = new Transformer(this.events, this.config.transformer);
     this._transformer.registerBuiltIns();
-    this.actions = new Actions(this.events, this.config.actions);
+    // The previous Actions would otherwise keep handling (and previewing) actions
+    this.actions.destroy();
+    this.actions = new Actions(this.events, this.config.actions, this._i18n);
     this._observer = new Observer(this.events, this._registry, this.parser, this._renderer);
 
+    // Only take over theming when asked to, so hand-imported theme CSS keeps working
+    if (userConfig.theme !== undefined || userConfig.themeVars !== undefined) {
+      this.themes.apply(this.config.theme, this.config.themeVars);
+    }
+
     this.initialized = true;
   }
 
@@ -97,6 +128,61 @@ export class LiveLLMInstance {
     return this._renderer.renderToString(enriched);
   }
 
+  /**
+   * Restore saved component states (a map keyed by component id, or a log
+   * of actions) into a rendered container — e.g. mark questions that were
+   * already answered after re-rendering a conversation from history.
+   */
+  restoreComponentStates(target: string | HTMLElement, source: ComponentStateSource): number {
+    return this._renderer.restoreComponentStates(target, source);
+  }
+
+  /**
+   * Find a mounted component by its stream id or component id.
+   */
+  getComponent(target: string | HTMLElement, id: string): HTMLElement | null {
+    return this._renderer.getComponent(target, id);
+  }
+
+  /**
+   * Apply a JSON merge patch to a mounted component's props, keeping its
+   * local UI state. Returns false for unknown ids and invalid patches.
+   */
+  updateComponent(target: string | HTMLElement, id: string, patch: Record<string, any>): boolean {
+    return this._renderer.updateComponent(target, id, patch);
+  }
+
+  // ═══ Theming ════════════════════════════════════════════
+
+  /**
+   * Switch the theme at runtime. Updates every mounted component,
+   * including those nested inside other components' Shadow DOM.
+   */
+  setTheme(theme: ThemeName, themeVars?: Record<string, string>): void {
+    this.config.theme = theme;
+    if (themeVars) {
+      this.config.themeVars = { ...themeVars };
+    }
+    this.themes.apply(this.config.theme, this.config.themeVars);
+  }
+
+  /**
+   * The theme currently in effect (`auto` resolved against the color scheme).
+   */
+  get theme(): ThemeName {
+    return this.themes.resolve();
+  }
+
+  // ═══ Localization ══════════════════════════════════════
+
+  /**
+   * UI strings and Intl formatting for the configured `locale`
+   * (with per-instance `messages` overrides applied).
+   */
+  get i18n(): I18n {
+    return this._i18n;
+  }
+
   // ═══ Streaming ═══════════════════════════════════════════
 
   /**
@@ -112,10 +198,31 @@ export class LiveLLMInstance {
       this.parser,
       this._renderer,
       target,
-      options
+      options,
+      this._transformer
     );
   }
 
+  /**
+   * Start a chat session: history, requests, streaming and actions
+   * for one conversation rendered into `options.target`.
+   */
+  createSession(options: ChatSessionOptions): ChatSession {
+    return new ChatSession(this, options);
+  }
+
+  /**
+   * Format an action as a user turn with the registered components'
+   * formatters, in the instance's locale. `options` override both.
+   */
+  formatActionAsMessage(action: LiveLLMActionPayload, options: FormatActionOptions = {}): string {
+    return formatActionAsMessage(action, {
+      ...options,
+      locale: options.locale ?? this._i18n.locale,
+      formatters: { ...this._registry.getActionFormatters(), ...options.formatters },
+    });
+  }
+
   // ═══ Transformer ════════════════════════════════════════
 
   /**
@@ -205,6 +312,8 @@ export class LiveLLMInstance {
    */
   destroy(): void {
     this._observer.disconnect();
+    this.actions.destroy();
+    this.themes.destroy();
     this.events.removeAll();
     this._registry.clear();
     this.initialized = false;
@@ -219,10 +328,20 @@ export class LiveLLMInstance {
     this.events = new EventBus();
     this._registry = new Registry(this.events);
     this.parser = new Parser(this.events, this._registry, this.config.markdown);
-    this._renderer = new Renderer(this.events, this._registry, this.parser, this.config.renderer);
+    this._i18n = new I18n(this.config.locale, this.config.messages);
+    this._renderer = new Renderer(
+      this.events,
+      this._registry,
+      this.parser,
+      this.config.renderer,
+      this.config.security,
+      this._i18n,
+      this.config.actions
+    );
     this._transformer = new Transformer(this.events, this.config.transformer);
     this._transformer.registerBuiltIns();
-    this.actions = new Actions(this.events, this.config.actions);
+    this.actions = new Actions(this.events, this.config.actions, this._i18n);
     this._observer = new Observer(this.events, this._registry, this.parser, this._renderer);
+    this.themes = new ThemeManager(this.events);
   }
 }
@@ -2,6 +2,7 @@ import type { EventBus } from './events';
 import type { Registry } from './registry';
 import type { Parser } from './parser';
 import type { Renderer } from './renderer';
+import { setRenderContext } from '../utils/dom';
 
 /**
  * @livellm/observer — MutationObserver-based observe mode.
@@ -182,6 +183,8 @@ export class Observer {
       const componentEl = document.createElement(tagName);
       componentEl.setAttribute('data-livellm', componentName);
       componentEl.setAttribute('data-props', JSON.stringify(props));
+      // The context the renderer gives its components (nested Markdown, security)
+      setRenderContext(componentEl, this.renderer.createRenderContext());
 
       // Replace the <pre> with the component
       preEl.replaceWith(componentEl);
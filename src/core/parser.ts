@@ -1,8 +1,34 @@
 import MarkdownIt from 'markdown-it';
+import type Token from 'markdown-it/lib/token.mjs';
 import type { EventBus } from './events';
 import type { Registry } from './registry';
 import type { MarkdownConfig } from '../utils/types';
 import { parseLiveLLMBlock, parseLiveLLMInline, safeParseJSON } from '../utils/json';
+import { stableComponentId } from '../utils/dom';
+
+/**
+ * Link reference definitions (`[label]: url "title"`) by normalized label,
+ * as markdown-it collects them.
+ */
+export type MarkdownReferences = Record<string, { href: string; title: string }>;
+
+/** markdown-it env of one parse() call. */
+interface ParseEnv {
+  /** Occurrences of each component id, to number identical blocks. */
+  componentIds?: Map<string, number>;
+  /** Reference definitions; markdown-it adds the ones it parses. */
+  references?: MarkdownReferences;
+}
+
+/** A line that may define a link reference. */
+const REFERENCE_DEFINITION = /^ {0,3}\[[^\]\n]+\]:/m;
+
+/**
+ * A full (`[text][label]`) or collapsed (`[label][]`) reference link left as
+ * text. Shortcut links (`[label]`) look like citations and task boxes, so
+ * they don't count.
+ */
+const REFERENCE_LINK = /\[([^\]\n]*)\]\[([^\]\n]*)\]/g;
 
 /**
  * @livellm/parser — Markdown parser with LiveLLM component support.
@@ -37,13 +63,110 @@ export class Parser {
   /**
    * Parse markdown string to HTML with LiveLLM components.
    */
-  parse(markdown: string): string {
+  parse(markdown: string, references?: MarkdownReferences): string {
     this.events.emit('parser:start');
-    const result = this.md.render(markdown);
+    const env: ParseEnv = { componentIds: new Map() };
+    // A copy: markdown-it adds the definitions of this parse to it
+    if (references) env.references = { ...references };
+    const result = this.md.render(markdown, env);
     this.events.emit('parser:complete', result);
     return result;
   }
 
+  /**
+   * The link reference definitions of `markdown`, for parsing parts of it
+   * with `parse(part, references)`. Empty without definition lines.
+   */
+  references(markdown: string): MarkdownReferences {
+    if (!REFERENCE_DEFINITION.test(markdown)) return {};
+    const env: ParseEnv = {};
+    this.md.parse(markdown, env);
+    return env.references ?? {};
+  }
+
+  /**
+   * Length of the leading top-level blocks that more input can no longer
+   * change. The stream renderer commits this prefix and only re-renders the
+   * rest. The last block is always open; a list stays open until a block
+   * that is not its last follows it (a later item would join it, making it
+   * loose), and a block with a reference link whose label is not in
+   * `references` stays open until its definition is complete. Definitions
+   * ahead of the last block are added to `references`.
+   */
+  closedBlocksLength(markdown: string, references: MarkdownReferences = {}): number {
+    const env: ParseEnv = {};
+    const blocks: Array<{ type: string; start: number; end: number; labels: string[]; hrefs: string[] }> = [];
+    for (const token of this.md.parse(markdown, env)) {
+      if (token.level === 0 && token.nesting !== -1 && token.map) {
+        blocks.push({ type: token.type, start: token.map[0], end: token.map[1], labels: [], hrefs: [] });
+      } else if (token.type === 'inline' && blocks.length) {
+        const block = blocks[blocks.length - 1];
+        const children = token.children ?? [];
+        block.labels.push(...this.referenceLabels(children));
+        children.forEach((child) => {
+          const href = child.attrGet('href') ?? child.attrGet('src');
+          if (href !== null) block.hrefs.push(href);
+        });
+      }
+    }
+    if (blocks.length < 2) return 0;
+
+    // Character offset of every line start
+    const lineStarts = [0];
+    const lineBreak = /\r\n|\r|\n/g;
+    let match: RegExpExecArray | null;
+    while ((match = lineBreak.exec(markdown))) lineStarts.push(match.index + match[0].length);
+    const offsetOf = (line: number): number => lineStarts[Math.min(line, lineStarts.length - 1)];
+
+    // Definitions before the last block are complete; the last may still grow
+    const finished = markdown.slice(0, offsetOf(blocks[blocks.length - 1].start));
+    for (const [label, reference] of Object.entries(this.references(finished))) {
+      if (!references[label]) references[label] = reference;
+    }
+    // Links this parse resolved with a definition that is still growing
+    const partial = new Set(
+      Object.entries(env.references ?? {})
+        .filter(([label]) => !references[label])
+        .map(([, reference]) => reference.href)
+    );
+
+    let closed = 0;
+    for (let i = 0; i < blocks.length - 1; i++) {
+      const block = blocks[i];
+      if (block.labels.some((label) => !references[label]) || block.hrefs.some((href) => partial.has(href))) break;
+      const isList = block.type === 'bullet_list_open' || block.type === 'ordered_list_open';
+      if (isList && i + 1 >= blocks.length - 1) break;
+      closed = offsetOf(blocks[i + 1].start);
+    }
+    return closed;
+  }
+
+  /**
+   * Normalized labels of the reference links an inline token's children
+   * leave as text (their definitions were not known to the parse).
+   */
+  private referenceLabels(children: Token[]): string[] {
+    // Text runs only: no code spans, with markup in between kept apart
+    const text = children.map((child) => (child.type === 'text' ? child.content : '\0')).join('');
+    return Array.from(text.matchAll(REFERENCE_LINK), (match) =>
+      this.md.utils.normalizeReference(match[2] || match[1])
+    );
+  }
+
+  /**
+   * Whether the last line of `markdown` opens a fenced code block at the top
+   * level — not inside a list item, a blockquote or another code block.
+   * The stream renderer only lifts such fences out as components; nested
+   * ones stay in the Markdown flow, as they do in a one-shot parse.
+   */
+  opensTopLevelFence(markdown: string): boolean {
+    const lines = markdown.split(/\r\n|\r|\n/);
+    const lastLine = lines[lines.length - 1] === '' ? lines.length - 2 : lines.length - 1;
+    return this.md.parse(markdown, {}).some(
+      (token) => token.type === 'fence' && token.level === 0 && token.map?.[0] === lastLine
+    );
+  }
+
   /**
    * Get the markdown-it instance for advanced configuration.
    */
@@ -63,7 +186,7 @@ export class Parser {
       const info = token.info.trim();
 
       if (info.startsWith('livellm:')) {
-        return this.renderLiveLLMBlock(info, token.content);
+        return this.renderLiveLLMBlock(info, token.content, env);
       }
 
       // Default fence rendering
@@ -81,7 +204,7 @@ export class Parser {
       const content = token.content;
 
       if (content.startsWith('livellm:')) {
-        return this.renderLiveLLMInline(content);
+        return this.renderLiveLLMInline(content, env);
       }
 
       // Default code inline rendering
@@ -95,7 +218,7 @@ export class Parser {
   /**
    * Render a livellm: code fence block as a Web Component placeholder.
    */
-  private renderLiveLLMBlock(info: string, content: string): string {
+  private renderLiveLLMBlock(info: string, content: string, env: ParseEnv): string {
     const parsed = parseLiveLLMBlock(info, content);
 
     if (!parsed) {
@@ -126,9 +249,11 @@ export class Parser {
 
     // Return the Web Component HTML
     const escapedProps = this.escapeAttr(JSON.stringify(finalProps));
+    const componentId = stableComponentId(type, finalProps, env.componentIds);
     return (
       `<${registration.tagName} ` +
       `data-livellm="${type}" ` +
+      `data-component-id="${componentId}" ` +
       `data-props="${escapedProps}">` +
       `</${registration.tagName}>\n`
     );
@@ -137,7 +262,7 @@ export class Parser {
   /**
    * Render a livellm: inline code as an inline Web Component.
    */
-  private renderLiveLLMInline(content: string): string {
+  private renderLiveLLMInline(content: string, env: ParseEnv): string {
     const parsed = parseLiveLLMInline(content);
 
     if (!parsed) {
@@ -160,10 +285,12 @@ export class Parser {
     const finalProps = this.registry.applyDefaults(type, props);
     const registration = this.registry.get(type)!;
     const escapedProps = this.escapeAttr(JSON.stringify(finalProps));
+    const componentId = stableComponentId(type, finalProps, env.componentIds);
 
     return (
       `<${registration.tagName} ` +
       `data-livellm="${type}" ` +
+      `data-component-id="${componentId}" ` +
       `data-props="${escapedProps}">` +
       `</${registration.tagName}>`
     );
@@ -1,12 +1,14 @@
 import type {
+  ActionCatalog,
   ComponentRegistration,
   ComponentSchema,
   ComponentCategory,
   SkeletonConfig,
   ValidationResult,
 } from '../utils/types';
-import { validateProps, applyDefaults } from '../utils/validate';
+import { validateProps, validateAction, applyDefaults } from '../utils/validate';
 import { EventBus } from './events';
+import type { ActionFormatter } from '../protocol/formatters';
 
 export interface RegisterOptions {
   schema?: ComponentSchema;
@@ -14,6 +16,12 @@ export interface RegisterOptions {
   category?: ComponentCategory;
   lazy?: boolean;
   moduleUrl?: string | null;
+  /** Mount the component while its JSON streams in, fed with partial props */
+  progressive?: boolean;
+  /** Actions the component emits; action events are validated against them */
+  actions?: ActionCatalog;
+  /** Server-safe formatter turning the component's actions into a user turn */
+  formatAction?: ActionFormatter;
 }
 
 const DEFAULT_SKELETON: SkeletonConfig = {
@@ -51,6 +59,9 @@ export class Registry {
       category: options.category || 'block',
       lazy: options.lazy ?? (component === null),
       moduleUrl: options.moduleUrl || null,
+      progressive: options.progressive ?? false,
+      actions: options.actions || {},
+      formatAction: options.formatAction || null,
     };
 
     this.components.set(name, registration);
@@ -116,6 +127,49 @@ export class Registry {
     return validateProps(registration.schema, props);
   }
 
+  /**
+   * Validate the data of an action event against the component's action catalog.
+   * Components that declare no actions accept any action.
+   */
+  validateAction(name: string, action: string, data: unknown): ValidationResult {
+    const actions = this.components.get(name)?.actions;
+    if (!actions || Object.keys(actions).length === 0) {
+      return { valid: true, errors: [] };
+    }
+
+    const definition = actions[action];
+    if (!definition) {
+      return {
+        valid: false,
+        errors: [{ prop: '_action', message: `Component "${name}" has no action "${action}"` }],
+      };
+    }
+
+    return validateAction(definition, data);
+  }
+
+  /**
+   * Label of an action from its label template, or '' when none is declared.
+   */
+  formatActionLabel(name: string, action: string, data: Record<string, any>): string {
+    const template = this.components.get(name)?.actions[action]?.label;
+    if (!template) return '';
+    return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+      data[key] === undefined || data[key] === null ? match : String(data[key])
+    );
+  }
+
+  /**
+   * Action formatters of the registered components, by component name.
+   */
+  getActionFormatters(): Record<string, ActionFormatter> {
+    const formatters: Record<string, ActionFormatter> = {};
+    this.components.forEach((registration, name) => {
+      if (registration.formatAction) formatters[name] = registration.formatAction;
+    });
+    return formatters;
+  }
+
   /**
    * Apply defaults from schema and return completed props.
    */
@@ -1,9 +1,22 @@
 import type { EventBus } from './events';
 import type { Registry } from './registry';
 import type { Parser } from './parser';
-import type { RendererConfig, LiveLLMAction } from '../utils/types';
-import { resolveContainer } from '../utils/dom';
+import type {
+  RendererConfig,
+  SecurityConfig,
+  ActionsConfig,
+  LiveLLMAction,
+  RenderContext,
+  ComponentStateSource,
+  ActionGroup,
+  ActionGroupProgress,
+  ValidationError,
+} from '../utils/types';
+import type { LiveLLMComponent } from '../components/base';
+import { resolveContainer, setRenderContext, restoreComponentStates, queryAllDeep } from '../utils/dom';
 import { sanitizeHTML } from '../utils/sanitize';
+import { mergePatch } from '../utils/json';
+import { I18n } from './i18n';
 
 /**
  * @livellm/renderer — DOM renderer.
@@ -15,12 +28,23 @@ export class Renderer {
   private registry: Registry;
   private parser: Parser;
   private config: RendererConfig;
+  private security: SecurityConfig;
+  private i18n: I18n;
+  private boundContainers: WeakSet<HTMLElement> = new WeakSet();
+  private groupIds: WeakMap<HTMLElement, string> = new WeakMap();
+  private groupCount: number = 0;
+  private groupActions: boolean;
+  private groupContainers: Map<string, HTMLElement> = new Map();
+  private readonly onGroupProgress = (progress: ActionGroupProgress): void => this.showGroupProgress(progress);
 
   constructor(
     events: EventBus,
     registry: Registry,
     parser: Parser,
-    config: Partial<RendererConfig> = {}
+    config: Partial<RendererConfig> = {},
+    security: Partial<SecurityConfig> = {},
+    i18n: I18n = new I18n(),
+    actions: Partial<Pick<ActionsConfig, 'groupActions'>> = {}
   ) {
     this.events = events;
     this.registry = registry;
@@ -29,7 +53,17 @@ export class Renderer {
       shadowDom: config.shadowDom ?? true,
       sanitize: config.sanitize ?? true,
       proseStyles: config.proseStyles ?? true,
+      maxNestingDepth: config.maxNestingDepth ?? 3,
     };
+    this.security = {
+      enableCodeRunner: security.enableCodeRunner ?? false,
+      codeRunnerTimeout: security.codeRunnerTimeout ?? 5000,
+      codeRunnerMaxOutput: security.codeRunnerMaxOutput ?? 10000,
+      allowedOrigins: security.allowedOrigins ?? ['*'],
+      maxJsonSize: security.maxJsonSize ?? 50000,
+    };
+    this.i18n = i18n;
+    this.groupActions = actions.groupActions ?? false;
   }
 
   /**
@@ -54,9 +88,14 @@ export class Renderer {
 
     // Wrap in prose container for typography styles
     if (this.config.proseStyles) {
-      html = `<div class="livellm-prose">${html}</div>`;
+      html = this.wrapProse(html);
+    } else {
+      this.applyLocale(container);
     }
 
+    // Expose the parser to container components before they mount
+    setRenderContext(container, this.createRenderContext());
+
     // Set HTML content
     container.innerHTML = html;
 
@@ -77,36 +116,157 @@ export class Renderer {
       html = sanitizeHTML(html);
     }
     if (this.config.proseStyles) {
-      html = `<div class="livellm-prose">${html}</div>`;
+      html = this.wrapProse(html);
     }
     return html;
   }
 
+  /**
+   * Create the render context handed to mounted components.
+   * Container components use it to render nested Markdown and livellm blocks.
+   */
+  createRenderContext(depth: number = 0): RenderContext {
+    return {
+      renderMarkdown: (markdown: string): string => {
+        const html = this.parser.parse(markdown);
+        return this.config.sanitize ? sanitizeHTML(html) : html;
+      },
+      depth,
+      maxDepth: this.config.maxNestingDepth,
+      security: this.security,
+      i18n: this.i18n,
+    };
+  }
+
+  /**
+   * Mark a container with the locale's language and text direction.
+   */
+  applyLocale(container: HTMLElement): void {
+    container.setAttribute('lang', this.i18n.locale);
+    container.setAttribute('dir', this.i18n.dir);
+  }
+
   /**
    * Bind livellm:action event listeners to all LiveLLM components in a container.
+   * Events that don't match the component's action catalog are reported as
+   * 'action:invalid' and dropped. Binding the same container again is a no-op.
    */
   bindActions(container: HTMLElement): void {
+    if (this.boundContainers.has(container)) return;
+    this.boundContainers.add(container);
+
     container.addEventListener('livellm:action', ((event: CustomEvent) => {
       const detail = event.detail;
       if (!detail) return;
 
+      const errors = this.validateActionEvent(detail);
+      if (errors.length) {
+        this.events.emit('action:invalid', {
+          component: String(detail.component ?? ''),
+          action: String(detail.action ?? ''),
+          data: detail.data,
+          componentId: detail.componentId || '',
+          errors,
+        });
+        return;
+      }
+
       const action: LiveLLMAction = {
         type: 'livellm:action',
         component: detail.component,
         action: detail.action,
         value: detail.data?.value ?? detail.data,
-        label: detail.data?.label ?? '',
+        label: detail.data?.label ?? this.registry.formatActionLabel(detail.component, detail.action, detail.data ?? {}),
         metadata: {
           componentId: detail.componentId || '',
           timestamp: detail.timestamp || Date.now(),
           questionContext: detail.data?.questionContext,
         },
       };
+      const data = extraActionData(detail.data);
+      if (data) {
+        action.data = data;
+      }
+      if (detail.state) {
+        action.metadata.state = detail.state;
+      }
+      const group = this.resolveGroup(container, event.composedPath()[0] as Element);
+      if (group) {
+        action.metadata.group = group;
+      }
 
       this.events.emit('action:triggered', action);
     }) as EventListener);
   }
 
+  /**
+   * Restore saved component states (a map keyed by component id, or an
+   * action log) into the components rendered in a container.
+   * Returns how many components were restored.
+   */
+  restoreComponentStates(target: string | HTMLElement, source: ComponentStateSource): number {
+    const container = resolveContainer(target);
+    if (!container) return 0;
+    const restored = restoreComponentStates(container, source);
+    this.events.emit('renderer:state:restored', container, restored);
+    return restored;
+  }
+
+  /**
+   * Find a mounted component by its stream id (`data-stream-id`, from a
+   * protocol `component` event) or its component id, looking through
+   * nested Shadow DOM.
+   */
+  getComponent(target: string | HTMLElement, id: string): HTMLElement | null {
+    const container = resolveContainer(target);
+    if (!container || !id) return null;
+    const escaped = id.replace(/["\\]/g, '\\$&');
+    const [el] = queryAllDeep(container, `[data-stream-id="${escaped}"], [data-component-id="${escaped}"]`);
+    return (el as HTMLElement | undefined) ?? null;
+  }
+
+  /**
+   * Apply a JSON merge patch to the props of a mounted component (see
+   * LiveLLMComponent.applyPatch). The patched props are validated against
+   * the component's schema first; invalid patches are rejected with a
+   * 'renderer:component:update:invalid' event. Returns whether it applied.
+   */
+  updateComponent(target: string | HTMLElement, id: string, patch: Record<string, any>): boolean {
+    const el = this.getComponent(target, id);
+    if (!el || !el.hasAttribute('data-livellm')) return false;
+
+    const name = el.getAttribute('data-livellm')!;
+    let current: Record<string, any> = {};
+    try {
+      current = JSON.parse(el.getAttribute('data-props') || '{}');
+    } catch {
+      // Replaced wholesale by the patch below
+    }
+
+    const merged = mergePatch(current, patch);
+    const validation = this.registry.validate(name, merged);
+    if (!validation.valid) {
+      this.events.emit('renderer:component:update:invalid', id, el, validation.errors);
+      return false;
+    }
+
+    // Removed keys fall back to their defaults
+    const props = this.registry.applyDefaults(name, merged);
+    const effective: Record<string, any> = { ...patch };
+    for (const key of Object.keys(patch)) {
+      if (patch[key] === null && key in props) effective[key] = props[key];
+    }
+
+    const component = el as HTMLElement & { applyPatch?: (patch: Record<string, any>) => void };
+    if (typeof component.applyPatch === 'function') {
+      component.applyPatch(effective);
+    } else {
+      el.setAttribute('data-props', JSON.stringify(props));
+    }
+    this.events.emit('renderer:component:updated', id, el, patch);
+    return true;
+  }
+
   /**
    * Clear a container's content.
    */
@@ -116,4 +276,107 @@ export class Renderer {
       container.innerHTML = '';
     }
   }
+
+  /**
+   * Problems with a livellm:action event detail: a missing component or
+   * action name, or data that doesn't match the declared action.
+   */
+  private validateActionEvent(detail: Record<string, any>): ValidationError[] {
+    if (typeof detail.component !== 'string' || !detail.component) {
+      return [{ prop: 'component', message: 'component must be a non-empty string' }];
+    }
+    if (typeof detail.action !== 'string' || !detail.action) {
+      return [{ prop: 'action', message: 'action must be a non-empty string' }];
+    }
+    return this.registry.validateAction(detail.component, detail.action, detail.data).errors;
+  }
+
+  /**
+   * The group of action components an action belongs to: the container's
+   * action components sharing the source's `group` prop (none = the message).
+   * Single action components are not grouped, nor is anything with
+   * `groupActions` off.
+   */
+  private resolveGroup(container: HTMLElement, source: Element): ActionGroup | null {
+    if (!this.groupActions) return null;
+    const groupOf = (el: Element): string => String((el as Partial<LiveLLMComponent>).props?.group ?? '');
+    const name = groupOf(source);
+    const members = queryAllDeep(container, '[data-livellm]').filter((el) =>
+      this.registry.get(el.getAttribute('data-livellm') || '')?.category === 'action' && groupOf(el) === name
+    );
+    const index = members.indexOf(source);
+    if (members.length < 2 || index === -1) return null;
+
+    let messageId = this.groupIds.get(container);
+    if (!messageId) {
+      messageId = `livellm-group-${++this.groupCount}`;
+      this.groupIds.set(container, messageId);
+    }
+    const id = name ? `${messageId}:${name}` : messageId;
+    // Messages removed from the page never complete their groups
+    this.groupContainers.forEach((open, openId) => {
+      if (!open.isConnected) this.closeGroup(openId);
+    });
+    if (!this.groupContainers.size) {
+      // Listen only while groups are open (progress comes from Actions)
+      this.events.on('action:group:progress', this.onGroupProgress);
+    }
+    this.groupContainers.set(id, container);
+    return { id, size: members.length, index };
+  }
+
+  private closeGroup(id: string): void {
+    this.groupContainers.delete(id);
+    if (!this.groupContainers.size) this.events.off('action:group:progress', this.onGroupProgress);
+  }
+
+  /**
+   * Show "2 of 3 answered" below a message whose actions are grouped.
+   */
+  private showGroupProgress(progress: ActionGroupProgress): void {
+    const container = this.groupContainers.get(progress.id);
+    if (!container) return;
+    if (!container.isConnected) {
+      this.closeGroup(progress.id);
+      return;
+    }
+
+    let el = Array.from(container.querySelectorAll<HTMLElement>('.livellm-action-progress'))
+      .find((candidate) => candidate.getAttribute('data-group') === progress.id);
+    if (!el) {
+      el = document.createElement('div');
+      el.className = 'livellm-action-progress';
+      el.setAttribute('data-group', progress.id);
+      el.setAttribute('role', 'status');
+      el.setAttribute('aria-live', 'polite');
+      container.appendChild(el);
+    }
+    el.textContent = this.i18n.t('actionGroup.progress', { answered: progress.answered, total: progress.total });
+    el.classList.toggle('complete', progress.answered >= progress.total);
+
+    if (progress.answered >= progress.total) {
+      this.closeGroup(progress.id);
+    }
+  }
+
+  /**
+   * Wrap rendered HTML in the prose container, carrying the locale's
+   * language and text direction (right-to-left for Arabic, Hebrew, ...).
+   */
+  private wrapProse(html: string): string {
+    return `<div class="livellm-prose" lang="${this.i18n.locale}" dir="${this.i18n.dir}">${html}</div>`;
+  }
+}
+
+/**
+ * Fields of an action's event data besides value, label and questionContext.
+ * Data without a `value` is the value itself and has no extra fields.
+ */
+function extraActionData(data: unknown): Record<string, any> | null {
+  if (!data || typeof data !== 'object' || !('value' in data)) return null;
+  const extra: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key !== 'value' && key !== 'label' && key !== 'questionContext') extra[key] = value;
+  }
+  return Object.keys(extra).length ? extra : null;
 }
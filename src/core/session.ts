@@ -0,0 +1,433 @@
+import type { LiveLLMAction, StreamRendererOptions, ComponentState } from '../utils/types';
+import type { LiveLLMInstance } from './livellm';
+import type { StreamRenderer } from './stream-renderer';
+import type {
+  LiveLLMActionPayload,
+  LiveLLMChatRequest,
+  LiveLLMCancelRequest,
+  MetadataEvent,
+  ErrorEvent,
+} from '../protocol/types';
+import type { FormatActionOptions } from '../protocol/formatters';
+import { connectLiveLLMStream, createRequestId } from '../protocol/client';
+import { resolveContainer } from '../utils/dom';
+import { createStoppedMarker } from './stream-renderer';
+
+/**
+ * One turn of the conversation. User turns created from a component
+ * interaction carry the action payload they were formatted from, and the
+ * component's state so a restored conversation shows it answered.
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  action?: LiveLLMActionPayload;
+  components?: Array<{ id: string; state: ComponentState }>;
+  /** The assistant answer was stopped before it ended. */
+  stopped?: boolean;
+}
+
+/**
+ * Sends a chat request and returns the server's SSE response
+ * (LiveLLM protocol events).
+ */
+export interface ChatTransport {
+  send(request: LiveLLMChatRequest, signal: AbortSignal): Promise<Response>;
+  /** Ask the server to stop generating. Requests then carry a `requestId`. */
+  cancel?(request: LiveLLMCancelRequest): Promise<unknown>;
+}
+
+/**
+ * Persists the message history between page loads.
+ */
+export interface ChatStorage {
+  load(): ChatMessage[] | null;
+  save(messages: ChatMessage[]): void;
+}
+
+export interface ChatSessionOptions {
+  /** Container the conversation is rendered into. */
+  target: string | HTMLElement;
+  /** Endpoint for the default fetch transport (POST, JSON body). */
+  endpoint?: string;
+  /** Endpoint the default transport POSTs cancel requests to when a turn is aborted. */
+  cancelEndpoint?: string;
+  /** Custom transport; takes precedence over `endpoint`. */
+  transport?: ChatTransport;
+  /** History persistence. Defaults to in-memory only. */
+  storage?: ChatStorage;
+  /** Initial history (e.g. a system prompt) when storage holds none. */
+  history?: ChatMessage[];
+  /** Options for each assistant turn's StreamRenderer. */
+  streamOptions?: Partial<StreamRendererOptions>;
+  /** Send actions from components in this conversation once they are sent (default true). */
+  sendActions?: boolean;
+  /** Render user turns as plain-text bubbles (default true). */
+  renderUserMessages?: boolean;
+  /** Per-component and per-locale overrides for the text of action turns. */
+  formatOptions?: FormatActionOptions;
+  onMessage?: (message: ChatMessage) => void;
+  onMetadata?: (event: MetadataEvent) => void;
+  onError?: (error: Error) => void;
+}
+
+/** An assistant answer being streamed. */
+interface ChatTurn {
+  controller: AbortController;
+  requestId?: string;
+  streamRenderer: StreamRenderer;
+  element: HTMLElement;
+  settled: boolean;
+}
+
+/**
+ * POST the request as JSON with fetch. With `cancelEndpoint`, aborted
+ * turns POST a LiveLLMCancelRequest there.
+ */
+export function createFetchTransport(
+  endpoint: string,
+  init: RequestInit = {},
+  cancelEndpoint?: string
+): ChatTransport {
+  const post = (url: string, body: unknown, signal?: AbortSignal): Promise<Response> =>
+    fetch(url, {
+      ...init,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(init.headers as Record<string, string>) },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+  const transport: ChatTransport = {
+    send(request: LiveLLMChatRequest, signal: AbortSignal): Promise<Response> {
+      return post(endpoint, request, signal);
+    },
+  };
+  if (cancelEndpoint) {
+    transport.cancel = (request: LiveLLMCancelRequest) => post(cancelEndpoint, request);
+  }
+  return transport;
+}
+
+/**
+ * Keep the history in `localStorage` under `key`.
+ */
+export function createLocalStorage(key: string): ChatStorage {
+  return {
+    load(): ChatMessage[] | null {
+      try {
+        const stored = localStorage.getItem(key);
+        return stored ? JSON.parse(stored) : null;
+      } catch {
+        return null;
+      }
+    },
+    save(messages: ChatMessage[]): void {
+      try {
+        localStorage.setItem(key, JSON.stringify(messages));
+      } catch (err) {
+        console.error('[LiveLLM ChatSession] Failed to save history:', err);
+      }
+    },
+  };
+}
+
+/**
+ * ChatSession — the send / stream / act loop of a chat UI.
+ *
+ * Keeps the message history, builds a `LiveLLMChatRequest` for every turn,
+ * renders each assistant answer with its own StreamRenderer and turns
+ * component actions into user turns via `formatActionAsMessage`.
+ */
+export class ChatSession {
+  private instance: LiveLLMInstance;
+  private options: ChatSessionOptions;
+  private container: HTMLElement;
+  private transport: ChatTransport;
+  private messages: ChatMessage[] = [];
+  private elements: WeakMap<ChatMessage, HTMLElement> = new WeakMap();
+  private componentIds: Set<string> = new Set();
+  private turn: ChatTurn | null = null;
+
+  private readonly onDomAction = (event: Event): void => {
+    const componentId = (event as CustomEvent).detail?.componentId;
+    if (componentId) this.componentIds.add(componentId);
+  };
+
+  private readonly onActionSent = (action: LiveLLMAction): void => {
+    const sources = action.actions ?? [action];
+    if (!sources.some((source) => this.componentIds.has(source.metadata.componentId))) return;
+    this.sendAction(action).catch(() => {});
+  };
+
+  constructor(instance: LiveLLMInstance, options: ChatSessionOptions) {
+    const container = resolveContainer(options.target);
+    if (!container) {
+      throw new Error('[LiveLLM ChatSession] Container not found');
+    }
+    const transport = options.transport
+      ?? (options.endpoint ? createFetchTransport(options.endpoint, {}, options.cancelEndpoint) : null);
+    if (!transport) {
+      throw new Error('[LiveLLM ChatSession] Provide a transport or an endpoint');
+    }
+
+    this.instance = instance;
+    this.options = options;
+    this.container = container;
+    this.transport = transport;
+
+    // Remember which components live in this conversation. Capture runs
+    // before the message elements' own bindActions listeners emit 'action:sent'.
+    this.container.addEventListener('livellm:action', this.onDomAction, true);
+    if (options.sendActions !== false) {
+      this.instance.on('action:sent', this.onActionSent);
+    }
+
+    const restored = options.storage?.load() ?? options.history ?? [];
+    restored.forEach((message) => this.append(message));
+
+    // Answered components come back answered
+    const states: Record<string, ComponentState> = {};
+    restored.forEach(({ components }) => {
+      components?.forEach(({ id, state }) => {
+        states[id] = state;
+      });
+    });
+    if (Object.keys(states).length) {
+      this.instance.restoreComponentStates(this.container, states);
+    }
+  }
+
+  // ═══ Public API ═══════════════════════════════════════════
+
+  /**
+   * The conversation so far (oldest first).
+   */
+  get history(): readonly ChatMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Whether an assistant turn is streaming.
+   */
+  get busy(): boolean {
+    return this.turn !== null;
+  }
+
+  /**
+   * Send a user message and stream the answer.
+   * Resolves with the assistant message, or null when aborted.
+   */
+  send(message: string): Promise<ChatMessage | null> {
+    return this.startTurn({ role: 'user', content: message });
+  }
+
+  /**
+   * Send a component action as a user turn. The message text comes from
+   * the component's action formatter; the payload travels as `request.action`.
+   */
+  sendAction(action: LiveLLMAction | LiveLLMActionPayload): Promise<ChatMessage | null> {
+    const payload = toActionPayload(action);
+    const content = this.instance.formatActionAsMessage(payload, this.options.formatOptions);
+    const message: ChatMessage = { role: 'user', content, action: payload };
+    if ('metadata' in action) {
+      const components = (action.actions ?? [action])
+        .filter(({ metadata }) => metadata.componentId && metadata.state)
+        .map(({ metadata }) => ({ id: metadata.componentId, state: metadata.state! }));
+      if (components.length) message.components = components;
+    }
+    return this.startTurn(message);
+  }
+
+  /**
+   * Drop the last assistant answer and ask again for the last user turn.
+   */
+  regenerate(): Promise<ChatMessage | null> {
+    this.abort();
+
+    let index = this.messages.length - 1;
+    while (index >= 0 && this.messages[index].role !== 'user') index--;
+    if (index < 0) {
+      return Promise.reject(new Error('[LiveLLM ChatSession] Nothing to regenerate'));
+    }
+
+    const user = this.messages[index];
+    this.messages.splice(index + 1).forEach((message) => this.elements.get(message)?.remove());
+    this.persist();
+    return this.stream(this.buildRequest(user, index));
+  }
+
+  /**
+   * Stop the streaming answer. The text received so far stays in the
+   * history, marked as stopped; the transport's `cancel` tells the server.
+   */
+  abort(): void {
+    const turn = this.turn;
+    if (!turn) return;
+    if (turn.requestId && this.transport.cancel) {
+      this.transport.cancel({ requestId: turn.requestId }).catch(() => {});
+    }
+    turn.controller.abort();
+    turn.streamRenderer.abort();
+    this.finish(turn);
+  }
+
+  /**
+   * Stop listening for actions. The rendered conversation stays in place.
+   */
+  destroy(): void {
+    this.abort();
+    this.container.removeEventListener('livellm:action', this.onDomAction, true);
+    this.instance.off('action:sent', this.onActionSent);
+  }
+
+  // ═══ Turns ════════════════════════════════════════════════
+
+  private startTurn(message: ChatMessage): Promise<ChatMessage | null> {
+    this.abort();
+    const index = this.messages.length;
+    this.append(message);
+    this.persist();
+    return this.stream(this.buildRequest(message, index));
+  }
+
+  /**
+   * Request for the user turn at `index`, with everything before it as history.
+   */
+  private buildRequest(message: ChatMessage, index: number): LiveLLMChatRequest {
+    const request: LiveLLMChatRequest = {
+      message: message.content,
+      history: this.messages.slice(0, index).map(({ role, content }) => ({ role, content })),
+    };
+    if (message.action) {
+      request.action = message.action;
+    }
+    if (this.transport.cancel) {
+      request.requestId = createRequestId();
+    }
+    return request;
+  }
+
+  private stream(request: LiveLLMChatRequest): Promise<ChatMessage | null> {
+    const element = this.createMessageElement('assistant');
+    const turn: ChatTurn = {
+      controller: new AbortController(),
+      requestId: request.requestId,
+      streamRenderer: this.instance.createStreamRenderer(element, this.options.streamOptions),
+      element,
+      settled: false,
+    };
+    this.turn = turn;
+
+    const run = async (): Promise<ChatMessage | null> => {
+      try {
+        const response = await this.transport.send(request, turn.controller.signal);
+        if (!response.ok) {
+          throw new Error(`[LiveLLM ChatSession] Request failed with status ${response.status}`);
+        }
+        await connectLiveLLMStream(response, turn.streamRenderer, {
+          signal: turn.controller.signal,
+          onMetadata: this.options.onMetadata,
+          onError: (event: ErrorEvent) => {
+            if (!event.recoverable) this.options.onError?.(new Error(event.message));
+          },
+        });
+      } catch (err) {
+        if (turn.settled) return null;
+        turn.streamRenderer.end();
+        this.finish(turn);
+        this.options.onError?.(err as Error);
+        throw err;
+      }
+      return turn.settled ? null : this.finish(turn);
+    };
+
+    return run();
+  }
+
+  /**
+   * Record the assistant answer of a turn (once), even if it was cut short.
+   */
+  private finish(turn: ChatTurn): ChatMessage | null {
+    if (turn.settled) return null;
+    turn.settled = true;
+    if (this.turn === turn) this.turn = null;
+
+    const content = turn.streamRenderer.getFullText();
+    if (!content) {
+      turn.element.remove();
+      return null;
+    }
+
+    const message: ChatMessage = { role: 'assistant', content };
+    if (turn.streamRenderer.isStopped()) {
+      message.stopped = true;
+    }
+    this.messages.push(message);
+    this.elements.set(message, turn.element);
+    this.persist();
+    this.options.onMessage?.(message);
+    return message;
+  }
+
+  // ═══ Rendering ════════════════════════════════════════════
+
+  private append(message: ChatMessage): void {
+    this.messages.push(message);
+
+    if (message.role === 'system') return;
+    if (message.role === 'user' && this.options.renderUserMessages === false) return;
+
+    const element = this.createMessageElement(message.role);
+    if (message.role === 'user') {
+      element.textContent = message.content;
+    } else {
+      this.instance.render(message.content, element);
+      if (message.stopped) {
+        element.setAttribute('data-livellm-stopped', '');
+        if (this.options.streamOptions?.showStopped !== false) {
+          element.appendChild(createStoppedMarker(this.instance.i18n));
+        }
+      }
+    }
+    this.elements.set(message, element);
+  }
+
+  private createMessageElement(role: 'user' | 'assistant'): HTMLElement {
+    const element = document.createElement('div');
+    element.className = `livellm-message livellm-message-${role}`;
+    this.container.appendChild(element);
+    return element;
+  }
+
+  private persist(): void {
+    this.options.storage?.save(this.messages);
+  }
+}
+
+/**
+ * Normalize a renderer action into the protocol payload.
+ */
+function toActionPayload(action: LiveLLMAction | LiveLLMActionPayload): LiveLLMActionPayload {
+  if (!('metadata' in action)) return action;
+
+  const payload: LiveLLMActionPayload = {
+    component: action.component,
+    action: action.action,
+    value: action.value,
+    label: action.label,
+  };
+  if (action.metadata.questionContext) {
+    payload.context = action.metadata.questionContext;
+  }
+  if (action.data) {
+    payload.data = action.data;
+  }
+  if (action.actions) {
+    payload.actions = action.actions.map(toActionPayload);
+  }
+  if (action.metadata.edited) {
+    payload.edited = true;
+  }
+  return payload;
+}
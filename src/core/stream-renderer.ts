@@ -1,21 +1,81 @@
 import type { EventBus } from './events';
 import type { Registry } from './registry';
-import type { Parser } from './parser';
+import type { Parser, MarkdownReferences } from './parser';
 import type { Renderer } from './renderer';
-import type { StreamRendererOptions, StreamState } from '../utils/types';
-import { resolveContainer, scrollToBottom } from '../utils/dom';
+import type { Transformer } from './transformer';
+import type { I18n } from './i18n';
+import type {
+  StreamRendererOptions,
+  StreamState,
+  TransformEdit,
+  ComponentState,
+  ComponentStateSource,
+} from '../utils/types';
+import {
+  resolveContainer,
+  scrollToBottom,
+  setRenderContext,
+  stableComponentId,
+  restoreComponentStates,
+  toComponentStates,
+} from '../utils/dom';
+import { IncrementalJSONParser, mergePatch } from '../utils/json';
 
 /**
  * States for the streaming state machine.
  *
  * IDLE         → nothing started yet
  * TEXT         → accumulating normal markdown text
- * FENCE_MAYBE  → saw backticks, might be a livellm fence
+ * FENCE_MAYBE  → saw a fence run (``` or ~~~) at line start, might be a livellm fence
  * COMPONENT    → inside a livellm: block, buffering JSON
  * DONE         → stream ended
+ *
+ * Fences follow CommonMark: they open at the start of a line, with ≥3
+ * backticks or tildes, and close on a line holding at least as many of the
+ * same character. Fences nested in list items or blockquotes stay in the
+ * Markdown flow, so the result matches a one-shot Parser render.
  */
 type InternalState = 'IDLE' | 'TEXT' | 'FENCE_MAYBE' | 'COMPONENT' | 'DONE';
 
+/**
+ * A finished run of Markdown blocks in a text block, with the DOM nodes it
+ * rendered to. `markdown` differs from `source` once the Transformer ran.
+ */
+interface TextChunk {
+  source: string;
+  markdown: string;
+  nodes: ChildNode[];
+}
+
+/**
+ * With tokenDelay, a backlog is released over at most this many ticks, so a
+ * burst is spread out but a growing backlog is caught up quickly.
+ */
+const PACING_CATCH_UP_TICKS = 20;
+
+/** A component inserted with insertComponent(). */
+interface QueuedComponent {
+  name: string;
+  props: Record<string, any>;
+  id?: string;
+  /** Recorded as a fence in the full text (tool calls are not). */
+  recorded: boolean;
+}
+
+/** Where an inserted component is recorded in the full text. */
+interface RecordedComponent {
+  element: HTMLElement;
+  name: string;
+  start: number;
+  length: number;
+}
+
+/** Text rendered between two block components. */
+interface TextSegment {
+  block: HTMLElement;
+  chunks: TextChunk[];
+}
+
 /**
  * @livellm/streaming — Token-by-token stream renderer.
  *
@@ -24,6 +84,16 @@ type InternalState = 'IDLE' | 'TEXT' | 'FENCE_MAYBE' | 'COMPONENT' | 'DONE';
  * 2. When a ```livellm: fence is detected, a skeleton placeholder appears
  * 3. The JSON body is buffered until the closing ```
  * 4. The skeleton is replaced with the real Web Component
+ *
+ * With a Transformer, finished blocks are enriched (tables → table-plus,
+ * ...) as they close (`transformDuringStream`) and/or once the stream ends
+ * (`transformOnComplete`). Only the chunks a detection touches are swapped;
+ * everything else, including mounted components, stays in place.
+ *
+ * Components registered with `progressive: true` replace the skeleton as
+ * soon as their JSON yields props, and are updated with partial props every
+ * frame (table rows, timeline entries, ... appear as they stream). Defaults
+ * and validation still run once, when the fence closes.
  */
 export class StreamRenderer {
   private events: EventBus;
@@ -31,20 +101,43 @@ export class StreamRenderer {
   private parser: Parser;
   private renderer: Renderer;
   private config: StreamRendererOptions;
+  private transformer: Transformer | null;
 
   private container: HTMLElement;
   private fullBuffer: string = '';            // Complete accumulated text
   private textAccum: string = '';             // Current text segment being accumulated
   private fenceAccum: string = '';            // Accumulator for partial fence detection
+  private atLineStart: boolean = true;        // Next text char starts a new line
+  private fenceMarker: string = '';           // Opening run of the livellm fence (``` / ~~~~ ...)
+  private componentLine: string = '';         // Current line of the component body
+  private closingRest: string = '';           // Fence char while the rest of a closing line is skipped
   private componentType: string = '';         // Type of component being buffered
   private componentJson: string = '';         // JSON body being buffered
+  private partialJson: IncrementalJSONParser | null = null; // Partial props of a progressive component
   private internalState: InternalState = 'IDLE';
   private textBlock: HTMLElement | null = null;
+  private committedLength: number = 0;        // Chars of textAccum rendered as finished blocks
+  private committedNodes: number = 0;         // Child nodes of textBlock holding finished blocks
+  private segments: TextSegment[] = [];       // Finished text of every text block, for the Transformer
+  private references: MarkdownReferences = {}; // Link reference definitions of the committed text
   private pendingElement: HTMLElement | null = null;
   private cursorElement: HTMLElement | null = null;
   private aborted: boolean = false;
+  private stopped: boolean = false;           // Aborted before the end: the text is cut short
+  private i18n: I18n;
   private renderRAF: number | null = null;
   private textDirty: boolean = false;
+  private componentDirty: boolean = false;
+  private paceBuffer: string = '';            // Received text not yet released (tokenDelay)
+  private paceTimer: ReturnType<typeof setTimeout> | null = null;
+  private paceRate: number = 0;               // Characters released per tick
+  private componentIds: Map<string, number> = new Map(); // Occurrences of each stable component id
+  private savedStates: Record<string, ComponentState> | null = null; // States to restore on mount
+  private queuedComponents: QueuedComponent[] = []; // Inserted while a fence was open
+  private recordedComponents: RecordedComponent[] = []; // Fences of inserted components in fullBuffer
+  private reasoningBuffer: string = '';       // Thinking received, not part of fullBuffer
+  private reasoningBlock: HTMLDetailsElement | null = null;
+  private reasoningDone: boolean = false;     // The answer started: thoughts collapsed
 
   constructor(
     events: EventBus,
@@ -52,18 +145,24 @@ export class StreamRenderer {
     parser: Parser,
     renderer: Renderer,
     target: string | HTMLElement,
-    options: Partial<StreamRendererOptions> = {}
+    options: Partial<StreamRendererOptions> = {},
+    transformer: Transformer | null = null
   ) {
     this.events = events;
     this.registry = registry;
     this.parser = parser;
     this.renderer = renderer;
+    this.transformer = transformer;
 
     const resolved = resolveContainer(target);
     if (!resolved) {
       throw new Error('[LiveLLM StreamRenderer] Container not found');
     }
     this.container = resolved;
+    const context = this.renderer.createRenderContext();
+    setRenderContext(this.container, context);
+    this.i18n = context.i18n;
+    this.renderer.applyLocale(this.container);
 
     this.config = {
       tokenDelay: options.tokenDelay ?? 0,
@@ -73,6 +172,7 @@ export class StreamRenderer {
       autoScroll: options.autoScroll ?? true,
       showCursor: options.showCursor ?? true,
       cursorChar: options.cursorChar ?? '▊',
+      showStopped: options.showStopped ?? true,
       onStart: options.onStart,
       onToken: options.onToken,
       onComponentStart: options.onComponentStart,
@@ -94,23 +194,119 @@ export class StreamRenderer {
   push(token: string): void {
     if (this.aborted) return;
 
-    if (this.internalState === 'IDLE') {
-      this.internalState = 'TEXT';
-      this.events.emit('stream:connected', 'manual');
-      this.config.onStart?.();
-    }
-
+    this.start();
+    if (token) this.finishReasoning();
     this.fullBuffer += token;
     this.config.onToken?.(token);
     this.events.emit('stream:token', token);
 
-    // Process character by character for precise fence detection
-    for (const ch of token) {
-      this.processChar(ch);
+    if (this.config.tokenDelay > 0) {
+      this.paceBuffer += token;
+      this.paceRate = Math.max(this.paceRate, Math.ceil(this.paceBuffer.length / PACING_CATCH_UP_TICKS));
+      this.schedulePacing();
+      return;
     }
 
-    // Schedule a render if text changed
-    this.scheduleRender();
+    this.release(token);
+  }
+
+  /**
+   * Push a chunk of a reasoning model's thinking (a protocol `reasoning`
+   * event). It streams into a collapsible block above the answer, which
+   * collapses when the first answer token arrives. Not part of
+   * getFullText().
+   */
+  pushReasoning(token: string): void {
+    if (this.aborted || this.internalState === 'DONE') return;
+
+    this.start();
+    this.reasoningBuffer += token;
+    if (!this.reasoningBlock) {
+      this.reasoningBlock = createReasoningBlock(this.i18n);
+      this.container.insertBefore(this.reasoningBlock, this.container.firstChild);
+    }
+    this.reasoningBlock.querySelector('.livellm-reasoning-body')!.append(token);
+    this.events.emit('stream:reasoning', token);
+
+    if (this.config.autoScroll && !this.reasoningDone) {
+      scrollToBottom(this.container);
+    }
+  }
+
+  /**
+   * Get the thinking received so far (see pushReasoning()).
+   */
+  getReasoning(): string {
+    return this.reasoningBuffer;
+  }
+
+  /**
+   * Insert a component from structured data (a protocol `component` event)
+   * at the current position, without a Markdown fence. Props are validated
+   * like a fenced block's. Text received so far is rendered first; a
+   * component arriving while a fenced block is still open follows that block.
+   * `id` is set as `data-stream-id` for later updates.
+   */
+  insertComponent(name: string, props: Record<string, any>, id?: string): void {
+    this.queueComponent({ name, props, id, recorded: true });
+  }
+
+  /**
+   * Find a component of this stream by its stream id or component id.
+   */
+  getComponent(id: string): HTMLElement | null {
+    return this.renderer.getComponent(this.container, id);
+  }
+
+  /**
+   * Apply a JSON merge patch to a component's props (a protocol
+   * `component_update` event), keeping its local UI state. Works during and
+   * after the stream; a component still waiting for an open fenced block is
+   * patched before it mounts. Inserted components are recorded with their
+   * patched props in the full text. Returns whether a component was found
+   * and the patch applied.
+   */
+  updateComponent(id: string, patch: Record<string, any>): boolean {
+    const queued = this.queuedComponents.find((component) => component.id === id);
+    if (queued) {
+      queued.props = mergePatch(queued.props, patch);
+      return true;
+    }
+
+    if (!this.renderer.updateComponent(this.container, id, patch)) return false;
+
+    const el = this.getComponent(id);
+    const recorded = this.recordedComponents.find((component) => component.element === el);
+    if (el && recorded) {
+      const fence = `\`\`\`livellm:${recorded.name}\n${el.getAttribute('data-props')}\n\`\`\`\n\n`;
+      this.fullBuffer =
+        this.fullBuffer.slice(0, recorded.start) + fence + this.fullBuffer.slice(recorded.start + recorded.length);
+      const shift = fence.length - recorded.length;
+      this.recordedComponents.forEach((component) => {
+        if (component.start > recorded.start) component.start += shift;
+      });
+      recorded.length = fence.length;
+    }
+    return true;
+  }
+
+  /**
+   * Show a tool call of an agentic backend (a protocol `tool_call` event)
+   * as a running `tool-activity` component at the current position. Like
+   * reasoning, tool calls are not part of getFullText().
+   */
+  insertToolCall(id: string, name: string, args?: Record<string, any>): void {
+    const props: Record<string, any> = { name, status: 'running' };
+    if (args !== undefined) props.arguments = args;
+    this.queueComponent({ name: 'tool-activity', props, id, recorded: false });
+  }
+
+  /**
+   * Move a tool call to success or error with a summary of its output
+   * (a protocol `tool_result` event). Returns whether the call was found.
+   */
+  updateToolCall(id: string, status: 'success' | 'error', output?: string): boolean {
+    return this.updateComponent(id, output === undefined ? { status } : { status, output });
   }
 
   /**
@@ -119,6 +315,9 @@ export class StreamRenderer {
   end(): void {
     if (this.aborted) return;
 
+    // Release anything still held by the pacing buffer at once
+    this.releasePacedNow();
+
     // Flush any in-progress state
     if (this.internalState === 'FENCE_MAYBE') {
       // The fence never completed — treat as normal text
@@ -128,11 +327,12 @@ export class StreamRenderer {
       // Component never closed — render as fallback
       this.flushComponentAsFallback();
     }
+    this.insertQueuedComponents();
 
-    // Flush any residual backticks held in fenceAccum (TEXT/IDLE state).
-    // processTextChar() holds 1-2 backticks waiting to see if they become ```.
-    // Without this, the closing backtick of inline components like
-    // `livellm:alert{...}` gets lost, preventing parser from forming code_inline tokens.
+    // Flush any residual line start held in fenceAccum (TEXT/IDLE state).
+    // processTextChar() holds a line's indentation and 1-2 backticks or
+    // tildes until it can tell whether they open a fence; without this a
+    // stream ending in `` or trailing spaces would lose them.
     if (this.fenceAccum) {
       this.textAccum += this.fenceAccum;
       this.fenceAccum = '';
@@ -141,6 +341,7 @@ export class StreamRenderer {
     // Final text render
     this.flushText();
     this.removeCursor();
+    this.finishReasoning();
 
     // Cancel any pending RAF
     if (this.renderRAF !== null) {
@@ -148,6 +349,15 @@ export class StreamRenderer {
       this.renderRAF = null;
     }
 
+    if (this.transformer && this.config.transformOnComplete) {
+      this.segments.forEach((segment) => this.transformSegment(segment));
+    }
+
+    // Components from transformed text mount late; give them their saved state too
+    if (this.savedStates) {
+      restoreComponentStates(this.container, this.savedStates);
+    }
+
     // Bind actions to all rendered components
     this.renderer.bindActions(this.container);
 
@@ -157,16 +367,55 @@ export class StreamRenderer {
   }
 
   /**
-   * Abort the stream.
+   * Abort the stream (the user stopped the answer, or the server cancelled
+   * it). Text rendered so far stays and, unless the stream had already
+   * ended, is followed by a "Stopped" marker; the container gets
+   * `data-livellm-stopped`. Text still held back by `tokenDelay` is dropped,
+   * from getFullText() too.
    */
   abort(): void {
+    const truncated = !this.aborted && this.internalState !== 'DONE';
     this.aborted = true;
+    this.stopPacing();
+    // The pacing backlog is always the tail of the full text
+    if (this.paceBuffer) this.fullBuffer = this.fullBuffer.slice(0, -this.paceBuffer.length);
+    this.paceBuffer = '';
+    this.paceRate = 0;
     this.removeCursor();
     if (this.renderRAF !== null) {
       cancelAnimationFrame(this.renderRAF);
       this.renderRAF = null;
     }
+    if (this.textDirty) {
+      this.renderCurrentText();
+      this.textDirty = false;
+    }
     this.internalState = 'DONE';
+
+    if (truncated) {
+      this.stopped = true;
+      this.container.setAttribute('data-livellm-stopped', '');
+      if (this.config.showStopped) {
+        this.container.appendChild(createStoppedMarker(this.i18n));
+      }
+      this.events.emit('stream:abort', this.fullBuffer);
+    }
+  }
+
+  /**
+   * Whether the stream was aborted before it ended.
+   */
+  isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Restore saved component states (a map keyed by component id, or an
+   * action log) into components already rendered and those still to come.
+   */
+  restoreComponentStates(source: ComponentStateSource): void {
+    this.savedStates = { ...this.savedStates, ...toComponentStates(source) };
+    restoreComponentStates(this.container, this.savedStates);
   }
 
   /**
@@ -283,6 +532,95 @@ export class StreamRenderer {
     });
   }
 
+  /**
+   * First token or component: the stream has started.
+   */
+  private start(): void {
+    if (this.internalState !== 'IDLE') return;
+    this.internalState = 'TEXT';
+    this.events.emit('stream:connected', 'manual');
+    this.config.onStart?.();
+  }
+
+  /**
+   * The answer started (or the stream ended): collapse the thoughts.
+   * Once — a block the user opens again stays open.
+   */
+  private finishReasoning(): void {
+    if (!this.reasoningBlock || this.reasoningDone) return;
+    this.reasoningDone = true;
+    this.reasoningBlock.open = false;
+    this.reasoningBlock.removeAttribute('data-streaming');
+    this.reasoningBlock.querySelector('summary')!.textContent = this.i18n.t('stream.thoughts');
+  }
+
+  // ═══ Pacing ══════════════════════════════════════════════
+
+  /**
+   * Feed text into the state machine and schedule a render.
+   */
+  private release(text: string): void {
+    // Process character by character for precise fence detection
+    for (const ch of text) {
+      this.processChar(ch);
+    }
+
+    // Schedule a render if text changed
+    this.scheduleRender();
+  }
+
+  private schedulePacing(): void {
+    if (this.paceTimer !== null) return;
+    this.paceTimer = setTimeout(() => {
+      this.paceTimer = null;
+      this.releasePaced();
+    }, this.config.tokenDelay);
+  }
+
+  /**
+   * Release the next slice of the pacing buffer. The rate starts at one
+   * character per tick and rises whenever the backlog would take longer
+   * than PACING_CATCH_UP_TICKS to drain; it resets once the buffer is empty.
+   */
+  private releasePaced(): void {
+    if (!this.paceBuffer || this.aborted) return;
+
+    let count = this.paceRate;
+    // Don't split a surrogate pair
+    const code = this.paceBuffer.charCodeAt(count - 1);
+    if (code >= 0xd800 && code <= 0xdbff) count++;
+
+    const chunk = this.paceBuffer.slice(0, count);
+    this.paceBuffer = this.paceBuffer.slice(count);
+    this.release(chunk);
+
+    if (this.paceBuffer) {
+      this.schedulePacing();
+    } else {
+      this.paceRate = 0;
+    }
+  }
+
+  /**
+   * Release the whole pacing buffer at once.
+   */
+  private releasePacedNow(): void {
+    this.stopPacing();
+    if (this.paceBuffer) {
+      const rest = this.paceBuffer;
+      this.paceBuffer = '';
+      this.paceRate = 0;
+      this.release(rest);
+    }
+  }
+
+  private stopPacing(): void {
+    if (this.paceTimer !== null) {
+      clearTimeout(this.paceTimer);
+      this.paceTimer = null;
+    }
+  }
+
   // ═══ Character-level state machine ═══════════════════════
 
   private processChar(ch: string): void {
@@ -300,49 +638,61 @@ export class StreamRenderer {
   }
 
   /**
-   * In TEXT state: accumulate normal text, watch for ``` fence start.
+   * In TEXT state: accumulate normal text, watch for a fence at line start.
    */
   private processTextChar(ch: string): void {
-    this.fenceAccum += ch;
+    if (this.closingRest) {
+      // Swallow the remainder of a closing fence line (extra fence chars, spaces, newline)
+      if (ch === '\n') {
+        this.closingRest = '';
+        return;
+      }
+      if (ch === this.closingRest || ch === ' ' || ch === '\t' || ch === '\r') return;
+      this.closingRest = '';
+    }
 
-    // We're looking for: ```livellm:<type>\n
-    // Build up the fence accumulator to detect ``` at line start
-    if (this.fenceAccum === '`' || this.fenceAccum === '``') {
-      // Partial backtick sequence — keep accumulating
+    if (!this.fenceAccum && !(this.atLineStart && /[ \t`~]/.test(ch))) {
+      this.appendText(ch);
       return;
     }
 
-    if (this.fenceAccum === '```') {
-      // Three backticks — might be a fence, switch to FENCE_MAYBE
+    // Hold the line's indentation and leading backticks/tildes
+    this.fenceAccum += ch;
+    if (/^[ \t]*(`{0,2}|~{0,2})$/.test(this.fenceAccum)) {
+      return;
+    }
+
+    if (/^[ \t]*(`{3}|~{3})$/.test(this.fenceAccum)) {
+      // Three backticks or tildes — might be a fence, switch to FENCE_MAYBE
       this.internalState = 'FENCE_MAYBE';
       return;
     }
 
     // Not a fence — flush the fence accumulator to text
-    this.textAccum += this.fenceAccum;
+    const held = this.fenceAccum;
     this.fenceAccum = '';
-    this.textDirty = true;
+    this.appendText(held);
   }
 
   /**
-   * In FENCE_MAYBE state: we have ```, now check if it's livellm: or not.
+   * In FENCE_MAYBE state: we have a fence run, now check if it's livellm: or not.
    */
   private processFenceChar(ch: string): void {
     this.fenceAccum += ch;
 
-    // We need to accumulate until we can determine if this is ```livellm:<type>\n
-    const afterBackticks = this.fenceAccum.substring(3); // Everything after ```
-
     if (ch === '\n') {
-      // End of the info line — check if it's a livellm component
-      const info = afterBackticks.slice(0, -1).trim(); // Remove the \n
-      const livellmMatch = info.match(/^livellm:([\w][\w-]*)$/);
+      // End of the info line — check if it's a top-level livellm fence
+      const line = this.fenceAccum;
+      const match = line.match(/^[ \t]*(`{3,}|~{3,})[ \t]*livellm:([\w][\w-]*)[ \t]*\r?\n$/);
+      const tail = this.textAccum.slice(this.committedLength);
 
-      if (livellmMatch) {
+      if (match && this.parser.opensTopLevelFence(tail + line)) {
         // It's a livellm component! Flush any pending text and start buffering
         this.flushText();
-        this.componentType = livellmMatch[1];
+        this.fenceMarker = match[1];
+        this.componentType = match[2];
         this.componentJson = '';
+        this.componentLine = '';
         this.internalState = 'COMPONENT';
         this.fenceAccum = '';
 
@@ -350,18 +700,17 @@ export class StreamRenderer {
         this.config.onComponentStart?.(this.componentType);
         this.insertSkeleton(this.componentType);
       } else {
-        // Regular code fence — treat as normal text
-        this.textAccum += this.fenceAccum;
+        // Regular or nested code fence — treat as normal text
         this.fenceAccum = '';
         this.internalState = 'TEXT';
-        this.textDirty = true;
+        this.appendText(line);
       }
-    } else if (afterBackticks.length > 50) {
-      // Too long for a fence info string — treat as text
-      this.textAccum += this.fenceAccum;
+    } else if (this.fenceAccum.length > 80) {
+      // Too long for a livellm fence info string — treat as text
+      const held = this.fenceAccum;
       this.fenceAccum = '';
       this.internalState = 'TEXT';
-      this.textDirty = true;
+      this.appendText(held);
     }
     // Otherwise keep accumulating in FENCE_MAYBE
   }
@@ -371,22 +720,60 @@ export class StreamRenderer {
    */
   private processComponentChar(ch: string): void {
     this.componentJson += ch;
+    if (this.partialJson) {
+      this.partialJson.push(ch);
+      this.componentDirty = true;
+    }
 
-    // Look for the closing \n```
-    if (this.componentJson.endsWith('\n```')) {
-      // Component is complete!
-      const jsonStr = this.componentJson.slice(0, -4).trim();
-      const type = this.componentType;
-
-      this.componentJson = '';
-      this.componentType = '';
-      this.fenceAccum = '';
-      this.internalState = 'TEXT';
+    if (ch === '\n') {
+      this.componentLine = '';
+      return;
+    }
+    this.componentLine += ch;
 
-      this.finalizeComponent(type, jsonStr);
+    // JSON lines never start with ``` or ~~~, so close as soon as the run is long enough
+    if (this.isClosingFence(this.componentLine)) {
+      this.closeComponent();
     }
   }
 
+  /**
+   * Whether a line of the component body closes its fence: up to three
+   * spaces, then at least as many of the opening fence character.
+   */
+  private isClosingFence(line: string): boolean {
+    const match = line.match(/^ {0,3}(`{3,}|~{3,})[ \t]*\r?$/);
+    return !!match
+      && match[1][0] === this.fenceMarker[0]
+      && match[1].length >= this.fenceMarker.length;
+  }
+
+  /**
+   * The closing fence is the last line of componentJson — finalize the block.
+   */
+  private closeComponent(): void {
+    const jsonStr = this.componentJson.slice(0, -this.componentLine.length).trim();
+    const type = this.componentType;
+    this.closingRest = this.fenceMarker[0];
+
+    this.componentJson = '';
+    this.componentType = '';
+    this.componentLine = '';
+    this.fenceMarker = '';
+    this.fenceAccum = '';
+    this.internalState = 'TEXT';
+    this.atLineStart = true;
+
+    this.finalizeComponent(type, jsonStr);
+    this.insertQueuedComponents();
+  }
+
+  private appendText(text: string): void {
+    this.textAccum += text;
+    this.atLineStart = text.endsWith('\n');
+    this.textDirty = true;
+  }
+
   // ═══ Rendering ═══════════════════════════════════════════
 
   /**
@@ -394,7 +781,7 @@ export class StreamRenderer {
    */
   private scheduleRender(): void {
     if (this.renderRAF !== null) return;
-    if (!this.textDirty) return;
+    if (!this.textDirty && !this.componentDirty) return;
 
     this.renderRAF = requestAnimationFrame(() => {
       this.renderRAF = null;
@@ -402,24 +789,84 @@ export class StreamRenderer {
         this.renderCurrentText();
         this.textDirty = false;
       }
+      if (this.componentDirty) {
+        this.renderPartialComponent();
+        this.componentDirty = false;
+      }
     });
   }
 
+  /**
+   * Mount or update a progressive component with the props received so far.
+   * The skeleton stays until the partial JSON yields an object with a key.
+   */
+  private renderPartialComponent(): void {
+    const partial = this.partialJson?.value;
+    const registration = this.registry.get(this.componentType);
+    if (!this.pendingElement || !registration || !customElements.get(registration.tagName)) return;
+    if (!partial || typeof partial !== 'object' || Array.isArray(partial) || !Object.keys(partial).length) return;
+
+    const props = this.registry.applyDefaults(this.componentType, partial);
+    const propsJson = JSON.stringify(props);
+
+    if (!this.pendingElement.hasAttribute('data-streaming')) {
+      const componentEl = document.createElement(registration.tagName);
+      componentEl.setAttribute('data-livellm', this.componentType);
+      componentEl.setAttribute('data-streaming', '');
+      componentEl.setAttribute('data-props', propsJson);
+      this.pendingElement.replaceWith(componentEl);
+      this.pendingElement = componentEl;
+    } else if (this.pendingElement.getAttribute('data-props') !== propsJson) {
+      this.pendingElement.setAttribute('data-props', propsJson);
+    } else {
+      return;
+    }
+
+    this.events.emit('stream:component:partial', this.componentType, props);
+
+    if (this.config.autoScroll) {
+      scrollToBottom(this.container);
+    }
+  }
+
   /**
    * Render the current text accumulator as markdown.
+   *
+   * Finished blocks (closed paragraphs, lists, tables, fences) are committed
+   * once and never touched again, so each frame only re-parses and replaces
+   * the trailing open block. This keeps long answers linear and preserves
+   * text selections in earlier blocks. `final` commits the open block too.
    */
-  private renderCurrentText(): void {
+  private renderCurrentText(final: boolean = false): void {
     if (!this.textAccum.trim()) return;
 
-    const html = this.parser.parse(this.textAccum);
-
     if (!this.textBlock) {
       this.textBlock = document.createElement('div');
       this.textBlock.className = 'livellm-stream-block livellm-prose';
       this.container.appendChild(this.textBlock);
+      this.segments.push({ block: this.textBlock, chunks: [] });
+      this.committedLength = 0;
+      this.committedNodes = 0;
+    }
+
+    // Drop the previous render of the open block
+    while (this.textBlock.childNodes.length > this.committedNodes) {
+      this.textBlock.lastChild!.remove();
+    }
+
+    let tail = this.textAccum.slice(this.committedLength);
+    // With the definitions of the finished blocks still ahead in the tail
+    const references = { ...this.references };
+    const closed = final ? tail.length : this.parser.closedBlocksLength(tail, references);
+    if (closed > 0) {
+      this.commitChunk(tail.slice(0, closed), references);
+      this.committedLength += closed;
+      tail = tail.slice(closed);
     }
 
-    this.textBlock.innerHTML = html;
+    if (tail) {
+      this.textBlock.insertAdjacentHTML('beforeend', this.parseText(tail));
+    }
     this.moveCursorToEnd();
 
     if (this.config.autoScroll) {
@@ -427,15 +874,107 @@ export class StreamRenderer {
     }
   }
 
+  /**
+   * Render finished blocks after the committed nodes and record them as a
+   * chunk of the current segment (transformed first with transformDuringStream).
+   * Its reference definitions apply to the rest of the answer.
+   */
+  private commitChunk(source: string, references: MarkdownReferences): void {
+    const textBlock = this.textBlock!;
+    const markdown = this.transformer && this.config.transformDuringStream
+      ? this.transformer.transform(source)
+      : source;
+
+    textBlock.insertAdjacentHTML('beforeend', this.parser.parse(markdown, references));
+    // The first definition of a label wins, as in a one-shot parse
+    this.references = { ...this.parser.references(source), ...references };
+    const nodes = Array.from(textBlock.childNodes).slice(this.committedNodes);
+    this.committedNodes = textBlock.childNodes.length;
+    this.segments[this.segments.length - 1].chunks.push({ source, markdown, nodes });
+  }
+
+  /**
+   * Run the Transformer over a whole text segment and swap only the chunks
+   * whose enriched Markdown differs from what is rendered. Detections that
+   * span several chunks (a question followed by its options) merge them.
+   */
+  private transformSegment(segment: TextSegment): void {
+    const { chunks } = segment;
+    const source = chunks.map((chunk) => chunk.source).join('');
+    const edits = this.transformer!.plan(source);
+
+    const result: TextChunk[] = [];
+    let editIndex = 0;
+    let start = 0;
+    let first = 0;
+    while (first < chunks.length) {
+      // Grow the group until no pending edit crosses its end
+      let last = first;
+      let end = start + chunks[first].source.length;
+      const groupEdits: TransformEdit[] = [];
+      while (editIndex < edits.length && edits[editIndex].start < end) {
+        const edit = edits[editIndex++];
+        groupEdits.push(edit);
+        while (edit.end > end && last < chunks.length - 1) {
+          end += chunks[++last].source.length;
+        }
+      }
+
+      const group = chunks.slice(first, last + 1);
+      let markdown = source.slice(start, end);
+      for (let i = groupEdits.length - 1; i >= 0; i--) {
+        const edit = groupEdits[i];
+        markdown = markdown.slice(0, edit.start - start) + edit.replacement + markdown.slice(edit.end - start);
+      }
+
+      if (markdown === group.map((chunk) => chunk.markdown).join('')) {
+        result.push(...group);
+      } else {
+        result.push(this.replaceChunks(segment, group, source.slice(start, end), markdown));
+      }
+
+      first = last + 1;
+      start = end;
+    }
+    segment.chunks = result;
+  }
+
+  /**
+   * Replace the nodes of consecutive chunks with a render of `markdown`.
+   */
+  private replaceChunks(segment: TextSegment, group: TextChunk[], source: string, markdown: string): TextChunk {
+    const oldNodes = group.flatMap((chunk) => chunk.nodes);
+    const next = segment.chunks[segment.chunks.indexOf(group[group.length - 1]) + 1];
+    const anchor = oldNodes[0] ?? next?.nodes[0] ?? null;
+
+    const template = document.createElement('div');
+    template.innerHTML = this.parseText(markdown);
+    const nodes = Array.from(template.childNodes);
+    nodes.forEach((node) => segment.block.insertBefore(node, anchor));
+    oldNodes.forEach((node) => node.remove());
+
+    return { source, markdown, nodes };
+  }
+
+  /**
+   * Parse part of the answer with the reference definitions committed so
+   * far, so `[docs][1]` resolves after `[1]: url` was committed.
+   */
+  private parseText(markdown: string): string {
+    return this.parser.parse(markdown, this.references);
+  }
+
   /**
    * Flush accumulated text and start a new text block.
    */
   private flushText(): void {
     if (this.textAccum.trim()) {
-      this.renderCurrentText();
+      this.renderCurrentText(true);
     }
     this.textAccum = '';
     this.textBlock = null;
+    this.committedLength = 0;
+    this.committedNodes = 0;
     this.textDirty = false;
   }
 
@@ -453,10 +992,26 @@ export class StreamRenderer {
           const validation = this.registry.validate(type, props);
 
           if (validation.valid) {
-            const componentEl = document.createElement(registration.tagName);
-            componentEl.setAttribute('data-livellm', type);
+            // Same id a one-shot render of the message gives this block
+            const componentId = stableComponentId(type, finalProps, this.componentIds);
+            const savedState = this.savedStates?.[componentId];
+            let componentEl: HTMLElement;
+            if (this.pendingElement.hasAttribute('data-streaming')) {
+              // Mounted progressively — settle it in place so UI state survives
+              componentEl = this.pendingElement;
+              componentEl.removeAttribute('data-streaming');
+              componentEl.setAttribute('data-component-id', componentId);
+            } else {
+              componentEl = document.createElement(registration.tagName);
+              componentEl.setAttribute('data-livellm', type);
+              componentEl.setAttribute('data-component-id', componentId);
+              this.pendingElement.replaceWith(componentEl);
+            }
             componentEl.setAttribute('data-props', JSON.stringify(finalProps));
-            this.pendingElement.replaceWith(componentEl);
+            if (savedState) {
+              (componentEl as HTMLElement & { restoreState?: (state: ComponentState) => void })
+                .restoreState?.(savedState);
+            }
 
             this.events.emit('renderer:component:mounted', type, componentEl);
           } else {
@@ -470,6 +1025,8 @@ export class StreamRenderer {
       }
 
       this.pendingElement = null;
+      this.partialJson = null;
+      this.componentDirty = false;
       this.config.onComponentComplete?.(type, props);
       this.events.emit('stream:component:complete', type, props);
     } catch {
@@ -482,11 +1039,7 @@ export class StreamRenderer {
 
   private replaceWithFallback(type: string, content: string): void {
     if (!this.pendingElement) return;
-    const fallback = document.createElement('div');
-    fallback.className = 'livellm-fallback';
-    fallback.innerHTML =
-      `<pre><code class="language-livellm:${this.escapeHtml(type)}">${this.escapeHtml(content)}</code></pre>`;
-    this.pendingElement.replaceWith(fallback);
+    this.pendingElement.replaceWith(this.createFallback(type, content));
     this.pendingElement = null;
   }
 
@@ -496,6 +1049,23 @@ export class StreamRenderer {
     errors: Array<{ prop: string; message: string }>
   ): void {
     if (!this.pendingElement) return;
+    this.pendingElement.replaceWith(this.createError(type, content, errors));
+    this.pendingElement = null;
+  }
+
+  private createFallback(type: string, content: string): HTMLElement {
+    const fallback = document.createElement('div');
+    fallback.className = 'livellm-fallback';
+    fallback.innerHTML =
+      `<pre><code class="language-livellm:${this.escapeHtml(type)}">${this.escapeHtml(content)}</code></pre>`;
+    return fallback;
+  }
+
+  private createError(
+    type: string,
+    content: string,
+    errors: Array<{ prop: string; message: string }>
+  ): HTMLElement {
     const errorList = errors.map((e) => `<li>${this.escapeHtml(e.message)}</li>`).join('');
     const errorEl = document.createElement('div');
     errorEl.className = 'livellm-error';
@@ -503,8 +1073,91 @@ export class StreamRenderer {
       `<div class="livellm-error-header">Component "${this.escapeHtml(type)}" — validation errors:</div>` +
       `<ul class="livellm-error-list">${errorList}</ul>` +
       `<pre><code>${this.escapeHtml(content)}</code></pre>`;
-    this.pendingElement.replaceWith(errorEl);
-    this.pendingElement = null;
+    return errorEl;
+  }
+
+  private queueComponent(component: QueuedComponent): void {
+    if (this.aborted || this.internalState === 'DONE') return;
+
+    this.start();
+    this.releasePacedNow();
+
+    this.queuedComponents.push(component);
+    if (this.internalState !== 'COMPONENT') {
+      this.insertQueuedComponents();
+    }
+  }
+
+  /**
+   * Mount the components passed to insertComponent(), after the text so far.
+   */
+  private insertQueuedComponents(): void {
+    if (!this.queuedComponents.length) return;
+    const queued = this.queuedComponents;
+    this.queuedComponents = [];
+
+    // A line start held for fence detection is plain text now
+    if (this.internalState === 'FENCE_MAYBE') this.internalState = 'TEXT';
+    if (this.fenceAccum) {
+      this.textAccum += this.fenceAccum;
+      this.fenceAccum = '';
+    }
+    this.flushText();
+    this.atLineStart = true;
+
+    queued.forEach(({ name, props, id, recorded }) => {
+      // Recorded as a fence so the full text renders the same component again;
+      // text around an unrecorded one still gets separate paragraphs
+      const separator = !this.fullBuffer || this.fullBuffer.endsWith('\n\n') ? '' : this.fullBuffer.endsWith('\n') ? '\n' : '\n\n';
+      const fence = recorded ? `\`\`\`livellm:${name}\n${JSON.stringify(props)}\n\`\`\`\n\n` : '';
+      const start = this.fullBuffer.length + separator.length;
+      this.fullBuffer += separator + fence;
+
+      const element = this.mountComponent(name, props, id);
+      if (recorded && element.hasAttribute('data-livellm')) {
+        this.recordedComponents.push({ element, name, start, length: fence.length });
+      }
+    });
+    this.renderer.bindActions(this.container);
+
+    if (this.config.autoScroll) {
+      scrollToBottom(this.container);
+    }
+  }
+
+  private mountComponent(name: string, props: Record<string, any>, id?: string): HTMLElement {
+    const registration = this.registry.get(name);
+    const json = JSON.stringify(props);
+    let el: HTMLElement;
+
+    if (!registration) {
+      el = this.createFallback(name, json);
+    } else {
+      const validation = this.registry.validate(name, props);
+      if (validation.valid) {
+        const finalProps = this.registry.applyDefaults(name, props);
+        const componentId = stableComponentId(name, finalProps, this.componentIds);
+        el = document.createElement(registration.tagName);
+        el.setAttribute('data-livellm', name);
+        el.setAttribute('data-component-id', componentId);
+        if (id) el.setAttribute('data-stream-id', id);
+        el.setAttribute('data-props', JSON.stringify(finalProps));
+        const savedState = this.savedStates?.[componentId];
+        if (savedState) {
+          (el as HTMLElement & { restoreState?: (state: ComponentState) => void }).restoreState?.(savedState);
+        }
+      } else {
+        el = this.createError(name, json, validation.errors);
+      }
+    }
+
+    this.container.appendChild(el);
+    if (el.hasAttribute('data-livellm')) {
+      this.events.emit('renderer:component:mounted', name, el);
+    }
+    this.config.onComponentComplete?.(name, props);
+    this.events.emit('stream:component:complete', name, props);
+    return el;
   }
 
   private flushComponentAsFallback(): void {
@@ -512,6 +1165,8 @@ export class StreamRenderer {
     this.replaceWithFallback(this.componentType, this.componentJson);
     this.componentType = '';
     this.componentJson = '';
+    this.partialJson = null;
+    this.componentDirty = false;
   }
 
   // ═══ Skeleton ════════════════════════════════════════════
@@ -521,6 +1176,8 @@ export class StreamRenderer {
     this.flushText();
 
     const skeleton = this.registry.getSkeleton(type);
+    this.partialJson = this.registry.get(type)?.progressive ? new IncrementalJSONParser() : null;
+    this.componentDirty = false;
     this.pendingElement = document.createElement('div');
     this.pendingElement.className = 'livellm-skeleton-wrapper';
     this.pendingElement.setAttribute('data-pending', type);
@@ -564,3 +1221,30 @@ export class StreamRenderer {
       .replace(/"/g, '&quot;');
   }
 }
+
+/**
+ * The collapsible block of a reasoning model's thinking, open while it streams.
+ */
+function createReasoningBlock(i18n: I18n): HTMLDetailsElement {
+  const block = document.createElement('details');
+  block.className = 'livellm-reasoning';
+  block.open = true;
+  block.setAttribute('data-streaming', '');
+  const summary = document.createElement('summary');
+  summary.textContent = i18n.t('stream.thinking');
+  const body = document.createElement('div');
+  body.className = 'livellm-reasoning-body';
+  block.append(summary, body);
+  return block;
+}
+
+/**
+ * The note after the text of an answer that was stopped before it ended.
+ */
+export function createStoppedMarker(i18n: I18n): HTMLElement {
+  const marker = document.createElement('div');
+  marker.className = 'livellm-stopped';
+  marker.setAttribute('role', 'status');
+  marker.textContent = i18n.t('stream.stopped');
+  return marker;
+}
@@ -0,0 +1,277 @@
+import type { EventBus } from './events';
+import type { ThemeName } from '../utils/types';
+import { queryAllDeep } from '../utils/dom';
+
+/**
+ * CSS custom properties for each built-in theme (without the `--livellm-` prefix).
+ * Mirrors the `:root` blocks of `src/themes/*.css`.
+ */
+const DEFAULT_VARS: Record<string, string> = {
+  'primary': '#6c5ce7',
+  'primary-light': '#a29bfe',
+  'primary-dark': '#5a4bd1',
+  'success': '#00cec9',
+  'warning': '#fdcb6e',
+  'danger': '#ff6b6b',
+  'info': '#74b9ff',
+  'bg': '#ffffff',
+  'bg-secondary': '#f8f9fa',
+  'bg-component': '#ffffff',
+  'text': '#1a1a1a',
+  'text-secondary': '#6c757d',
+  'text-muted': '#adb5bd',
+  'border': '#e0e0e0',
+  'border-radius': '8px',
+  'border-radius-lg': '12px',
+  'font': 'system-ui, -apple-system, sans-serif',
+  'font-heading': 'var(--livellm-font)',
+  'font-mono': "'Fira Code', 'JetBrains Mono', 'Cascadia Code', 'Consolas', monospace",
+  'font-size': '15px',
+  'line-height': '1.6',
+  'prose-line-height': '1.8',
+  'prose-paragraph-spacing': '1.15em',
+  'prose-text-align': 'justify',
+  'prose-max-width': '100%',
+  'heading-color': '#0f0f0f',
+  'heading-letter-spacing': '-0.02em',
+  'heading-line-height': '1.3',
+  'blockquote-border': '3px solid var(--livellm-primary, #6c5ce7)',
+  'blockquote-bg': 'rgba(108, 92, 231, 0.04)',
+  'blockquote-text': 'var(--livellm-text-secondary, #6c757d)',
+  'code-bg': '#f4f2ff',
+  'code-text': '#5a4bd1',
+  'code-block-bg': '#1e1e2e',
+  'code-block-text': '#cdd6f4',
+  'link-color': 'var(--livellm-primary, #6c5ce7)',
+  'link-hover': 'var(--livellm-primary-dark, #5a4bd1)',
+  'link-decoration': 'underline',
+  'link-decoration-color': 'rgba(108, 92, 231, 0.3)',
+  'spacing-xs': '4px',
+  'spacing-sm': '8px',
+  'spacing-md': '16px',
+  'spacing-lg': '24px',
+  'shadow': '0 2px 8px rgba(0, 0, 0, 0.08)',
+  'shadow-lg': '0 4px 16px rgba(0, 0, 0, 0.12)',
+  'transition': '0.2s ease',
+  'skeleton-bg': '#e0e0e0',
+  'skeleton-shimmer': '#f0f0f0',
+};
+
+const DARK_VARS: Record<string, string> = {
+  'primary': '#a29bfe',
+  'primary-light': '#c4b5fd',
+  'primary-dark': '#6c5ce7',
+  'success': '#55efc4',
+  'warning': '#ffeaa7',
+  'danger': '#ff7675',
+  'info': '#74b9ff',
+  'bg': '#1a1a2e',
+  'bg-secondary': '#16213e',
+  'bg-component': '#0f3460',
+  'text': '#e8e8f0',
+  'text-secondary': '#a8a8b8',
+  'text-muted': '#6c6c7c',
+  'border': '#2a2a4a',
+  'shadow': '0 2px 8px rgba(0, 0, 0, 0.3)',
+  'shadow-lg': '0 4px 16px rgba(0, 0, 0, 0.4)',
+  'skeleton-bg': '#2a2a4a',
+  'skeleton-shimmer': '#3a3a5a',
+  'heading-color': '#f0f0f8',
+  'blockquote-bg': 'rgba(162, 155, 254, 0.06)',
+  'blockquote-text': '#a8a8b8',
+  'code-bg': 'rgba(162, 155, 254, 0.1)',
+  'code-text': '#c4b5fd',
+  'code-block-bg': '#0d0d1a',
+  'code-block-text': '#cdd6f4',
+  'link-color': '#a29bfe',
+  'link-hover': '#c4b5fd',
+  'link-decoration-color': 'rgba(162, 155, 254, 0.3)',
+};
+
+const MINIMAL_VARS: Record<string, string> = {
+  'primary': '#333333',
+  'primary-light': '#666666',
+  'primary-dark': '#111111',
+  'success': '#2ecc71',
+  'warning': '#f39c12',
+  'danger': '#e74c3c',
+  'info': '#3498db',
+  'bg': '#ffffff',
+  'bg-secondary': '#fafafa',
+  'bg-component': '#ffffff',
+  'text': '#333333',
+  'text-secondary': '#888888',
+  'text-muted': '#bbbbbb',
+  'border': '#eeeeee',
+  'border-radius': '4px',
+  'border-radius-lg': '6px',
+  'shadow': 'none',
+  'shadow-lg': '0 1px 4px rgba(0, 0, 0, 0.06)',
+  'skeleton-bg': '#f0f0f0',
+  'skeleton-shimmer': '#fafafa',
+  'prose-text-align': 'start',
+  'prose-line-height': '1.7',
+  'prose-paragraph-spacing': '1em',
+  'heading-color': '#222222',
+  'heading-letter-spacing': '-0.01em',
+  'blockquote-border': '2px solid #dddddd',
+  'blockquote-bg': 'transparent',
+  'blockquote-text': '#888888',
+  'code-bg': '#f5f5f5',
+  'code-text': '#333333',
+  'code-block-bg': '#f5f5f5',
+  'code-block-text': '#333333',
+  'link-color': '#333333',
+  'link-hover': '#111111',
+  'link-decoration-color': 'rgba(0, 0, 0, 0.2)',
+};
+
+/**
+ * Prose overrides that ship with each theme stylesheet.
+ */
+const THEME_RULES: Record<string, string> = {
+  dark: `
+  .livellm-prose hr::after { background: var(--livellm-bg, #1a1a2e); }
+  .livellm-prose tbody tr:nth-child(even) { background: rgba(255, 255, 255, 0.02); }
+  .livellm-prose tbody tr:hover { background: rgba(162, 155, 254, 0.05); }
+  .livellm-prose mark, .livellm-prose .highlight { background: linear-gradient(120deg, rgba(162, 155, 254, 0.15) 0%, rgba(162, 155, 254, 0.22) 100%); }
+  .livellm-prose img { box-shadow: 0 2px 12px rgba(0, 0, 0, 0.4); }
+`,
+  minimal: `
+  .livellm-prose blockquote::before { display: none; }
+  .livellm-prose h1 { border-bottom: 1px solid var(--livellm-border, #eeeeee); }
+  .livellm-prose h2 { border-bottom: none; }
+  .livellm-prose ul > li::before { background: var(--livellm-text-muted, #bbbbbb); }
+  .livellm-prose ol > li::before { color: var(--livellm-text-secondary, #888888); }
+  .livellm-prose hr::after { display: none; }
+  .livellm-prose hr { background: var(--livellm-border, #eeeeee); }
+  .livellm-prose pre { box-shadow: none; border: 1px solid var(--livellm-border, #eeeeee); }
+  .livellm-prose img { box-shadow: none; border: 1px solid var(--livellm-border, #eeeeee); }
+  .livellm-prose table { box-shadow: none; }
+`,
+};
+
+export const THEME_PRESETS: Record<'default' | 'dark' | 'minimal', Record<string, string>> = {
+  default: DEFAULT_VARS,
+  dark: { ...DEFAULT_VARS, ...DARK_VARS },
+  minimal: { ...DEFAULT_VARS, ...MINIMAL_VARS },
+};
+
+const STYLE_ID = 'livellm-theme';
+const THEME_ATTR = 'data-livellm-theme';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * @livellm/theme — Runtime theme manager.
+ * Injects the active theme's CSS custom properties into the document,
+ * follows `prefers-color-scheme` in `auto` mode and tags mounted components.
+ */
+export class ThemeManager {
+  private events: EventBus;
+  private theme: ThemeName = 'default';
+  private vars: Record<string, string> = {};
+  private mediaQuery: MediaQueryList | null = null;
+  private mediaListener: (() => void) | null = null;
+
+  constructor(events: EventBus) {
+    this.events = events;
+  }
+
+  /**
+   * Apply a theme and optional variable overrides to the document.
+   */
+  apply(theme: ThemeName, vars: Record<string, string> = this.vars): void {
+    this.theme = theme;
+    this.vars = { ...vars };
+
+    if (typeof document === 'undefined') return;
+
+    this.watchColorScheme(theme === 'auto');
+
+    const resolved = this.resolve();
+    const styleEl = this.getStyleElement();
+    styleEl.textContent = this.buildCSS(resolved);
+
+    document.documentElement.setAttribute(THEME_ATTR, resolved);
+    for (const el of queryAllDeep(document, '[data-livellm]')) {
+      el.setAttribute(THEME_ATTR, resolved);
+    }
+
+    this.events.emit('theme:changed', resolved, this.vars);
+  }
+
+  /**
+   * The configured theme name (may be `auto`).
+   */
+  get current(): ThemeName {
+    return this.theme;
+  }
+
+  /**
+   * The theme actually in effect (`auto` resolved against the color scheme).
+   */
+  resolve(): ThemeName {
+    if (this.theme !== 'auto') return this.theme;
+    return this.mediaQuery?.matches ? 'dark' : 'default';
+  }
+
+  /**
+   * Remove the injected styles and stop following the color scheme.
+   */
+  destroy(): void {
+    this.watchColorScheme(false);
+    if (typeof document === 'undefined') return;
+    document.getElementById(STYLE_ID)?.remove();
+    document.documentElement.removeAttribute(THEME_ATTR);
+  }
+
+  private buildCSS(theme: ThemeName): string {
+    const preset = theme === 'dark' || theme === 'minimal' || theme === 'default'
+      ? THEME_PRESETS[theme]
+      : {};
+    const vars: Record<string, string> = { ...preset };
+    for (const [key, value] of Object.entries(this.vars)) {
+      vars[normalizeVarName(key)] = value;
+    }
+
+    const declarations = Object.entries(vars)
+      .map(([name, value]) => `  --livellm-${name}: ${value};`)
+      .join('\n');
+
+    return `:root {\n${declarations}\n}\n${THEME_RULES[theme] ?? ''}`;
+  }
+
+  private getStyleElement(): HTMLStyleElement {
+    let styleEl = document.getElementById(STYLE_ID) as HTMLStyleElement | null;
+    if (!styleEl) {
+      styleEl = document.createElement('style');
+      styleEl.id = STYLE_ID;
+      document.head.appendChild(styleEl);
+    }
+    return styleEl;
+  }
+
+  private watchColorScheme(enabled: boolean): void {
+    if (!enabled) {
+      if (this.mediaQuery && this.mediaListener) {
+        this.mediaQuery.removeEventListener('change', this.mediaListener);
+      }
+      this.mediaQuery = null;
+      this.mediaListener = null;
+      return;
+    }
+
+    if (this.mediaQuery || typeof window === 'undefined' || !window.matchMedia) return;
+
+    this.mediaQuery = window.matchMedia(DARK_QUERY);
+    this.mediaListener = () => this.apply(this.theme, this.vars);
+    this.mediaQuery.addEventListener('change', this.mediaListener);
+  }
+}
+
+/**
+ * Accept `primary`, `livellm-primary` or `--livellm-primary` as variable names.
+ */
+function normalizeVarName(key: string): string {
+  return key.replace(/^--/, '').replace(/^livellm-/, '');
+}
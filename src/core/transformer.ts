@@ -1,5 +1,5 @@
 import type { EventBus } from './events';
-import type { TransformerConfig, DetectorDefinition, DetectionMatch, Detection } from '../utils/types';
+import type { TransformerConfig, DetectorDefinition, DetectionMatch, Detection, TransformEdit } from '../utils/types';
 import { builtInDetectors } from '../detectors/index';
 
 /**
@@ -68,6 +68,31 @@ export class Transformer {
       return markdown;
     }
 
+    const edits = this.plan(markdown);
+    if (this.config.mode === 'passive') {
+      return markdown;
+    }
+
+    // Apply from the end so earlier offsets stay valid
+    let result = markdown;
+    for (let i = edits.length - 1; i >= 0; i--) {
+      const edit = edits[i];
+      result = result.substring(0, edit.start) + edit.replacement + result.substring(edit.end);
+    }
+
+    this.events.emit('transformer:enriched', result);
+    return result;
+  }
+
+  /**
+   * Detect patterns and return the replacements transform() would apply,
+   * in source order, without applying them. Empty unless mode is 'auto'.
+   */
+  plan(markdown: string): TransformEdit[] {
+    if (this.config.mode === 'off') {
+      return [];
+    }
+
     this.events.emit('transformer:start', markdown);
 
     const activeDetectors = this.getActiveDetectors();
@@ -97,7 +122,7 @@ export class Transformer {
     this.events.emit('transformer:detected', allDetections);
 
     if (this.config.mode === 'passive') {
-      return markdown;
+      return [];
     }
 
     // Auto mode: apply transformations above confidence threshold
@@ -109,20 +134,19 @@ export class Transformer {
     // Remove overlapping detections (keep higher confidence)
     const nonOverlapping = this.resolveOverlaps(applicable);
 
-    let result = markdown;
+    const edits: TransformEdit[] = [];
     for (const { type, match } of nonOverlapping) {
       const detector = this.detectors.get(type);
       if (!detector) continue;
 
-      const transformed = detector.transform(match);
-      result =
-        result.substring(0, match.start) +
-        transformed +
-        result.substring(match.end);
+      edits.unshift({
+        type,
+        start: match.start,
+        end: match.end,
+        replacement: detector.transform(match),
+      });
     }
-
-    this.events.emit('transformer:enriched', result);
-    return result;
+    return edits;
   }
 
   /**
@@ -0,0 +1,72 @@
+import type { MessageCatalog } from './index';
+
+/**
+ * Arabic (right-to-left).
+ */
+export const ar: MessageCatalog = {
+  'common.submit': 'إرسال',
+  'common.submitted': 'تم الإرسال: {value}',
+  'common.selected': 'المحدد: {value}',
+  'common.prev': 'السابق',
+  'common.next': 'التالي',
+
+  'table.search': 'بحث...',
+  'table.rows.one': 'صف واحد',
+  'table.rows.two': 'صفان',
+  'table.rows.few': '{count} صفوف',
+  'table.rows.other': '{count} صف',
+  'table.noResults': 'لم يتم العثور على نتائج',
+  'table.page': 'الصفحة {page} من {total}',
+  'chart.noData': 'لا توجد بيانات',
+  'chart.item': 'العنصر {index}',
+  'codeRunner.copy': 'نسخ',
+  'codeRunner.copied': 'تم النسخ',
+  'codeRunner.run': 'تشغيل',
+  'codeRunner.stop': 'إيقاف',
+  'codeRunner.disabled': 'تنفيذ الشيفرة معطّل',
+  'codeRunner.output': 'المخرجات',
+  'codeRunner.running': 'جارٍ التشغيل…',
+  'codeRunner.noOutput': 'لا توجد مخرجات',
+  'codeRunner.timeout': 'انتهت مهلة التنفيذ',
+  'codeRunner.killed': 'تم إيقاف التنفيذ',
+  'codeRunner.outputLimit': 'تم بلوغ حد المخرجات — تم إيقاف التنفيذ',
+  'filePreview.download': 'تنزيل',
+  'form.selectPlaceholder': '-- اختر --',
+  'pricing.select': 'اختيار',
+  'video.unsupported': 'متصفحك لا يدعم عرض الفيديو.',
+  'video.error': 'تعذّر تضمين الفيديو: {url}',
+  'video.noUrl': 'لم يتم توفير رابط',
+  'toolActivity.running': 'جارٍ تشغيل {name}…',
+  'toolActivity.success': 'تم تشغيل {name}',
+  'toolActivity.error': 'فشل {name}',
+  'toolActivity.arguments': 'المعاملات',
+  'toolActivity.output': 'النتيجة',
+
+  'confirm.text': 'هل أنت متأكد؟',
+  'confirm.yes': 'نعم',
+  'confirm.no': 'لا',
+  'confirm.result': 'اخترت: {value}',
+  'datePicker.label': 'اختر تاريخًا',
+  'fileUpload.label': 'رفع ملف',
+  'fileUpload.browse': 'انقر للتصفح',
+  'fileUpload.drop': 'أو اسحب وأفلت',
+  'fileUpload.accepted': 'الأنواع المقبولة: {types}',
+  'fileUpload.maxSize': 'الحد الأقصى للحجم: {size} ميغابايت',
+  'fileUpload.upload': 'رفع',
+  'multiChoice.hint.other': 'اختر {count} من الخيارات',
+  'multiChoice.hintRange': 'اختر من {min} إلى {max} من الخيارات',
+  'ratingInput.label': 'قيّم هذه الإجابة',
+  'slider.label': 'اختر قيمة',
+  'textInput.label': 'أدخل إجابتك',
+  'actionPreview.title': 'إرسال إجابتك؟',
+  'actionPreview.send': 'إرسال',
+  'actionPreview.edit': 'تعديل',
+  'actionPreview.save': 'حفظ',
+  'actionPreview.cancel': 'إلغاء',
+  'actionPreview.queue': '{index} من {count}',
+  'actionPreview.input': 'الإجابة',
+  'actionGroup.progress': 'تمت الإجابة على {answered} من {total}',
+  'stream.stopped': 'تم الإيقاف',
+  'stream.thinking': 'يفكر…',
+  'stream.thoughts': 'التفكير',
+};
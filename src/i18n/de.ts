@@ -0,0 +1,71 @@
+import type { MessageCatalog } from './index';
+
+/**
+ * German.
+ */
+export const de: MessageCatalog = {
+  'common.submit': 'Senden',
+  'common.submitted': 'Gesendet: {value}',
+  'common.selected': 'Ausgewählt: {value}',
+  'common.prev': 'Zurück',
+  'common.next': 'Weiter',
+
+  'table.search': 'Suchen...',
+  'table.rows.one': '{count} Zeile',
+  'table.rows.other': '{count} Zeilen',
+  'table.noResults': 'Keine Ergebnisse gefunden',
+  'table.page': 'Seite {page} von {total}',
+  'chart.noData': 'Keine Daten',
+  'chart.item': 'Eintrag {index}',
+  'codeRunner.copy': 'Kopieren',
+  'codeRunner.copied': 'Kopiert',
+  'codeRunner.run': 'Ausführen',
+  'codeRunner.stop': 'Stoppen',
+  'codeRunner.disabled': 'Codeausführung ist deaktiviert',
+  'codeRunner.output': 'Ausgabe',
+  'codeRunner.running': 'Wird ausgeführt…',
+  'codeRunner.noOutput': 'Keine Ausgabe',
+  'codeRunner.timeout': 'Zeitlimit der Ausführung überschritten',
+  'codeRunner.killed': 'Ausführung gestoppt',
+  'codeRunner.outputLimit': 'Ausgabelimit erreicht — Ausführung gestoppt',
+  'filePreview.download': 'Herunterladen',
+  'form.selectPlaceholder': '-- Auswählen --',
+  'pricing.select': 'Auswählen',
+  'video.unsupported': 'Ihr Browser unterstützt das Video-Tag nicht.',
+  'video.error': 'Video kann nicht eingebettet werden: {url}',
+  'video.noUrl': 'Keine URL angegeben',
+  'toolActivity.running': '{name} läuft…',
+  'toolActivity.success': '{name} ausgeführt',
+  'toolActivity.error': '{name} fehlgeschlagen',
+  'toolActivity.arguments': 'Argumente',
+  'toolActivity.output': 'Ergebnis',
+
+  'confirm.text': 'Sind Sie sicher?',
+  'confirm.yes': 'Ja',
+  'confirm.no': 'Nein',
+  'confirm.result': 'Ihre Auswahl: {value}',
+  'datePicker.label': 'Datum auswählen',
+  'fileUpload.label': 'Datei hochladen',
+  'fileUpload.browse': 'Zum Durchsuchen klicken',
+  'fileUpload.drop': 'oder per Drag & Drop ablegen',
+  'fileUpload.accepted': 'Erlaubt: {types}',
+  'fileUpload.maxSize': 'Max. Größe: {size} MB',
+  'fileUpload.upload': 'Hochladen',
+  'multiChoice.hint.one': '{count} Option auswählen',
+  'multiChoice.hint.other': '{count} Optionen auswählen',
+  'multiChoice.hintRange': '{min}–{max} Optionen auswählen',
+  'ratingInput.label': 'Diese Antwort bewerten',
+  'slider.label': 'Wert auswählen',
+  'textInput.label': 'Antwort eingeben',
+  'actionPreview.title': 'Antwort senden?',
+  'actionPreview.send': 'Senden',
+  'actionPreview.edit': 'Bearbeiten',
+  'actionPreview.save': 'Speichern',
+  'actionPreview.cancel': 'Abbrechen',
+  'actionPreview.queue': '{index} von {count}',
+  'actionPreview.input': 'Antwort',
+  'actionGroup.progress': '{answered} von {total} beantwortet',
+  'stream.stopped': 'Abgebrochen',
+  'stream.thinking': 'Denkt nach…',
+  'stream.thoughts': 'Gedankengang',
+};
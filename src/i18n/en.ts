@@ -0,0 +1,78 @@
+import type { MessageCatalog } from './index';
+
+/**
+ * English — the reference catalog. Every key used by a built-in component is defined here.
+ */
+export const en: MessageCatalog = {
+  // Shared
+  'common.submit': 'Submit',
+  'common.submitted': 'Submitted: {value}',
+  'common.selected': 'Selected: {value}',
+  'common.prev': 'Prev',
+  'common.next': 'Next',
+
+  // Block components
+  'table.search': 'Search...',
+  'table.rows.one': '{count} row',
+  'table.rows.other': '{count} rows',
+  'table.noResults': 'No results found',
+  'table.page': 'Page {page} of {total}',
+  'chart.noData': 'No data',
+  'chart.item': 'Item {index}',
+  'codeRunner.copy': 'Copy',
+  'codeRunner.copied': 'Copied',
+  'codeRunner.run': 'Run',
+  'codeRunner.stop': 'Stop',
+  'codeRunner.disabled': 'Code execution is disabled',
+  'codeRunner.output': 'Output',
+  'codeRunner.running': 'Running…',
+  'codeRunner.noOutput': 'No output',
+  'codeRunner.timeout': 'Execution timed out',
+  'codeRunner.killed': 'Execution stopped',
+  'codeRunner.outputLimit': 'Output limit reached — execution stopped',
+  'filePreview.download': 'Download',
+  'form.selectPlaceholder': '-- Select --',
+  'pricing.select': 'Select',
+  'video.unsupported': 'Your browser does not support the video tag.',
+  'video.error': 'Unable to embed video: {url}',
+  'video.noUrl': 'No URL provided',
+  'toolActivity.running': 'Running {name}…',
+  'toolActivity.success': 'Ran {name}',
+  'toolActivity.error': '{name} failed',
+  'toolActivity.arguments': 'Arguments',
+  'toolActivity.output': 'Result',
+
+  // Action components
+  'confirm.text': 'Are you sure?',
+  'confirm.yes': 'Yes',
+  'confirm.no': 'No',
+  'confirm.result': 'You selected: {value}',
+  'datePicker.label': 'Select a date',
+  'fileUpload.label': 'Upload a file',
+  'fileUpload.browse': 'Click to browse',
+  'fileUpload.drop': 'or drag & drop',
+  'fileUpload.accepted': 'Accepted: {types}',
+  'fileUpload.maxSize': 'Max size: {size}MB',
+  'fileUpload.upload': 'Upload',
+  'multiChoice.hint.one': 'Select {count} option',
+  'multiChoice.hint.other': 'Select {count} options',
+  'multiChoice.hintRange': 'Select {min}-{max} options',
+  'ratingInput.label': 'Rate this response',
+  'slider.label': 'Select a value',
+  'textInput.label': 'Enter your response',
+
+  // Action preview bar
+  'actionPreview.title': 'Send your answer?',
+  'actionPreview.send': 'Send',
+  'actionPreview.edit': 'Edit',
+  'actionPreview.save': 'Save',
+  'actionPreview.cancel': 'Cancel',
+  'actionPreview.queue': '{index} of {count}',
+  'actionPreview.input': 'Answer',
+  'actionGroup.progress': '{answered} of {total} answered',
+
+  // Streaming
+  'stream.stopped': 'Stopped',
+  'stream.thinking': 'Thinking…',
+  'stream.thoughts': 'Thoughts',
+};
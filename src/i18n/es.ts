@@ -0,0 +1,71 @@
+import type { MessageCatalog } from './index';
+
+/**
+ * Spanish.
+ */
+export const es: MessageCatalog = {
+  'common.submit': 'Enviar',
+  'common.submitted': 'Enviado: {value}',
+  'common.selected': 'Seleccionado: {value}',
+  'common.prev': 'Anterior',
+  'common.next': 'Siguiente',
+
+  'table.search': 'Buscar...',
+  'table.rows.one': '{count} fila',
+  'table.rows.other': '{count} filas',
+  'table.noResults': 'No se encontraron resultados',
+  'table.page': 'Página {page} de {total}',
+  'chart.noData': 'Sin datos',
+  'chart.item': 'Elemento {index}',
+  'codeRunner.copy': 'Copiar',
+  'codeRunner.copied': 'Copiado',
+  'codeRunner.run': 'Ejecutar',
+  'codeRunner.stop': 'Detener',
+  'codeRunner.disabled': 'La ejecución de código está deshabilitada',
+  'codeRunner.output': 'Salida',
+  'codeRunner.running': 'Ejecutando…',
+  'codeRunner.noOutput': 'Sin salida',
+  'codeRunner.timeout': 'Tiempo de ejecución agotado',
+  'codeRunner.killed': 'Ejecución detenida',
+  'codeRunner.outputLimit': 'Límite de salida alcanzado — ejecución detenida',
+  'filePreview.download': 'Descargar',
+  'form.selectPlaceholder': '-- Seleccionar --',
+  'pricing.select': 'Elegir',
+  'video.unsupported': 'Tu navegador no admite la etiqueta de vídeo.',
+  'video.error': 'No se puede insertar el vídeo: {url}',
+  'video.noUrl': 'No se proporcionó ninguna URL',
+  'toolActivity.running': 'Ejecutando {name}…',
+  'toolActivity.success': '{name} ejecutado',
+  'toolActivity.error': '{name} falló',
+  'toolActivity.arguments': 'Argumentos',
+  'toolActivity.output': 'Resultado',
+
+  'confirm.text': '¿Estás seguro?',
+  'confirm.yes': 'Sí',
+  'confirm.no': 'No',
+  'confirm.result': 'Has elegido: {value}',
+  'datePicker.label': 'Selecciona una fecha',
+  'fileUpload.label': 'Sube un archivo',
+  'fileUpload.browse': 'Haz clic para buscar',
+  'fileUpload.drop': 'o arrastra y suelta',
+  'fileUpload.accepted': 'Aceptados: {types}',
+  'fileUpload.maxSize': 'Tamaño máx.: {size} MB',
+  'fileUpload.upload': 'Subir',
+  'multiChoice.hint.one': 'Selecciona {count} opción',
+  'multiChoice.hint.other': 'Selecciona {count} opciones',
+  'multiChoice.hintRange': 'Selecciona entre {min} y {max} opciones',
+  'ratingInput.label': 'Valora esta respuesta',
+  'slider.label': 'Selecciona un valor',
+  'textInput.label': 'Escribe tu respuesta',
+  'actionPreview.title': '¿Enviar tu respuesta?',
+  'actionPreview.send': 'Enviar',
+  'actionPreview.edit': 'Editar',
+  'actionPreview.save': 'Guardar',
+  'actionPreview.cancel': 'Cancelar',
+  'actionPreview.queue': '{index} de {count}',
+  'actionPreview.input': 'Respuesta',
+  'actionGroup.progress': '{answered} de {total} respondidas',
+  'stream.stopped': 'Detenido',
+  'stream.thinking': 'Pensando…',
+  'stream.thoughts': 'Razonamiento',
+};
@@ -0,0 +1,71 @@
+import type { MessageCatalog } from './index';
+
+/**
+ * French.
+ */
+export const fr: MessageCatalog = {
+  'common.submit': 'Envoyer',
+  'common.submitted': 'Envoyé : {value}',
+  'common.selected': 'Sélectionné : {value}',
+  'common.prev': 'Précédent',
+  'common.next': 'Suivant',
+
+  'table.search': 'Rechercher...',
+  'table.rows.one': '{count} ligne',
+  'table.rows.other': '{count} lignes',
+  'table.noResults': 'Aucun résultat',
+  'table.page': 'Page {page} sur {total}',
+  'chart.noData': 'Aucune donnée',
+  'chart.item': 'Élément {index}',
+  'codeRunner.copy': 'Copier',
+  'codeRunner.copied': 'Copié',
+  'codeRunner.run': 'Exécuter',
+  'codeRunner.stop': 'Arrêter',
+  'codeRunner.disabled': "L'exécution de code est désactivée",
+  'codeRunner.output': 'Sortie',
+  'codeRunner.running': 'Exécution…',
+  'codeRunner.noOutput': 'Aucune sortie',
+  'codeRunner.timeout': "Délai d'exécution dépassé",
+  'codeRunner.killed': 'Exécution arrêtée',
+  'codeRunner.outputLimit': 'Limite de sortie atteinte — exécution arrêtée',
+  'filePreview.download': 'Télécharger',
+  'form.selectPlaceholder': '-- Choisir --',
+  'pricing.select': 'Choisir',
+  'video.unsupported': 'Votre navigateur ne prend pas en charge la balise vidéo.',
+  'video.error': "Impossible d'intégrer la vidéo : {url}",
+  'video.noUrl': 'Aucune URL fournie',
+  'toolActivity.running': 'Exécution de {name}…',
+  'toolActivity.success': '{name} exécuté',
+  'toolActivity.error': 'Échec de {name}',
+  'toolActivity.arguments': 'Arguments',
+  'toolActivity.output': 'Résultat',
+
+  'confirm.text': 'Êtes-vous sûr ?',
+  'confirm.yes': 'Oui',
+  'confirm.no': 'Non',
+  'confirm.result': 'Vous avez choisi : {value}',
+  'datePicker.label': 'Choisissez une date',
+  'fileUpload.label': 'Importer un fichier',
+  'fileUpload.browse': 'Cliquez pour parcourir',
+  'fileUpload.drop': 'ou glissez-déposez',
+  'fileUpload.accepted': 'Acceptés : {types}',
+  'fileUpload.maxSize': 'Taille max. : {size} Mo',
+  'fileUpload.upload': 'Importer',
+  'multiChoice.hint.one': 'Sélectionnez {count} option',
+  'multiChoice.hint.other': 'Sélectionnez {count} options',
+  'multiChoice.hintRange': 'Sélectionnez de {min} à {max} options',
+  'ratingInput.label': 'Notez cette réponse',
+  'slider.label': 'Choisissez une valeur',
+  'textInput.label': 'Saisissez votre réponse',
+  'actionPreview.title': 'Envoyer votre réponse ?',
+  'actionPreview.send': 'Envoyer',
+  'actionPreview.edit': 'Modifier',
+  'actionPreview.save': 'Enregistrer',
+  'actionPreview.cancel': 'Annuler',
+  'actionPreview.queue': '{index} sur {count}',
+  'actionPreview.input': 'Réponse',
+  'actionGroup.progress': '{answered} sur {total} répondues',
+  'stream.stopped': 'Interrompu',
+  'stream.thinking': 'Réflexion…',
+  'stream.thoughts': 'Raisonnement',
+};
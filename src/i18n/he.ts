@@ -0,0 +1,71 @@
+import type { MessageCatalog } from './index';
+
+/**
+ * Hebrew (right-to-left).
+ */
+export const he: MessageCatalog = {
+  'common.submit': 'שליחה',
+  'common.submitted': 'נשלח: {value}',
+  'common.selected': 'נבחר: {value}',
+  'common.prev': 'הקודם',
+  'common.next': 'הבא',
+
+  'table.search': 'חיפוש...',
+  'table.rows.one': 'שורה אחת',
+  'table.rows.other': '{count} שורות',
+  'table.noResults': 'לא נמצאו תוצאות',
+  'table.page': 'עמוד {page} מתוך {total}',
+  'chart.noData': 'אין נתונים',
+  'chart.item': 'פריט {index}',
+  'codeRunner.copy': 'העתקה',
+  'codeRunner.copied': 'הועתק',
+  'codeRunner.run': 'הרצה',
+  'codeRunner.stop': 'עצירה',
+  'codeRunner.disabled': 'הרצת קוד מושבתת',
+  'codeRunner.output': 'פלט',
+  'codeRunner.running': 'מריץ…',
+  'codeRunner.noOutput': 'אין פלט',
+  'codeRunner.timeout': 'זמן הריצה הסתיים',
+  'codeRunner.killed': 'הריצה נעצרה',
+  'codeRunner.outputLimit': 'הגעת למגבלת הפלט — הריצה נעצרה',
+  'filePreview.download': 'הורדה',
+  'form.selectPlaceholder': '-- בחירה --',
+  'pricing.select': 'בחירה',
+  'video.unsupported': 'הדפדפן שלך אינו תומך בתגית וידאו.',
+  'video.error': 'לא ניתן להטמיע את הסרטון: {url}',
+  'video.noUrl': 'לא סופקה כתובת',
+  'toolActivity.running': 'מריץ את {name}…',
+  'toolActivity.success': '{name} הורץ',
+  'toolActivity.error': '{name} נכשל',
+  'toolActivity.arguments': 'ארגומנטים',
+  'toolActivity.output': 'תוצאה',
+
+  'confirm.text': 'האם אתה בטוח?',
+  'confirm.yes': 'כן',
+  'confirm.no': 'לא',
+  'confirm.result': 'בחרת: {value}',
+  'datePicker.label': 'בחירת תאריך',
+  'fileUpload.label': 'העלאת קובץ',
+  'fileUpload.browse': 'לחצו לעיון',
+  'fileUpload.drop': 'או גררו ושחררו',
+  'fileUpload.accepted': 'סוגים נתמכים: {types}',
+  'fileUpload.maxSize': 'גודל מרבי: {size} MB',
+  'fileUpload.upload': 'העלאה',
+  'multiChoice.hint.one': 'בחרו אפשרות אחת',
+  'multiChoice.hint.other': 'בחרו {count} אפשרויות',
+  'multiChoice.hintRange': 'בחרו {min}–{max} אפשרויות',
+  'ratingInput.label': 'דרגו את התשובה',
+  'slider.label': 'בחירת ערך',
+  'textInput.label': 'הזינו את תשובתכם',
+  'actionPreview.title': 'לשלוח את התשובה?',
+  'actionPreview.send': 'שליחה',
+  'actionPreview.edit': 'עריכה',
+  'actionPreview.save': 'שמירה',
+  'actionPreview.cancel': 'ביטול',
+  'actionPreview.queue': '{index} מתוך {count}',
+  'actionPreview.input': 'תשובה',
+  'actionGroup.progress': 'נענו {answered} מתוך {total}',
+  'stream.stopped': 'הופסק',
+  'stream.thinking': 'חושב…',
+  'stream.thoughts': 'מחשבות',
+};
@@ -0,0 +1,34 @@
+export { en } from './en';
+export { es } from './es';
+export { fr } from './fr';
+export { de } from './de';
+export { pt } from './pt';
+export { ar } from './ar';
+export { he } from './he';
+
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { de } from './de';
+import { pt } from './pt';
+import { ar } from './ar';
+import { he } from './he';
+
+/**
+ * Message key → localized string.
+ */
+export type MessageCatalog = Record<string, string>;
+
+/**
+ * Bundled catalogs by locale tag. Add entries (or a regional tag such as
+ * `pt-BR`) to ship extra languages; missing keys fall back to English.
+ */
+export const MESSAGE_CATALOGS: Record<string, MessageCatalog> = {
+  en,
+  es,
+  fr,
+  de,
+  pt,
+  ar,
+  he,
+};
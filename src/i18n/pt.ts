@@ -0,0 +1,71 @@
+import type { MessageCatalog } from './index';
+
+/**
+ * Portuguese.
+ */
+export const pt: MessageCatalog = {
+  'common.submit': 'Enviar',
+  'common.submitted': 'Enviado: {value}',
+  'common.selected': 'Selecionado: {value}',
+  'common.prev': 'Anterior',
+  'common.next': 'Próximo',
+
+  'table.search': 'Pesquisar...',
+  'table.rows.one': '{count} linha',
+  'table.rows.other': '{count} linhas',
+  'table.noResults': 'Nenhum resultado encontrado',
+  'table.page': 'Página {page} de {total}',
+  'chart.noData': 'Sem dados',
+  'chart.item': 'Item {index}',
+  'codeRunner.copy': 'Copiar',
+  'codeRunner.copied': 'Copiado',
+  'codeRunner.run': 'Executar',
+  'codeRunner.stop': 'Parar',
+  'codeRunner.disabled': 'A execução de código está desativada',
+  'codeRunner.output': 'Saída',
+  'codeRunner.running': 'Executando…',
+  'codeRunner.noOutput': 'Sem saída',
+  'codeRunner.timeout': 'Tempo de execução esgotado',
+  'codeRunner.killed': 'Execução interrompida',
+  'codeRunner.outputLimit': 'Limite de saída atingido — execução interrompida',
+  'filePreview.download': 'Baixar',
+  'form.selectPlaceholder': '-- Selecionar --',
+  'pricing.select': 'Escolher',
+  'video.unsupported': 'Seu navegador não suporta a tag de vídeo.',
+  'video.error': 'Não foi possível incorporar o vídeo: {url}',
+  'video.noUrl': 'Nenhuma URL fornecida',
+  'toolActivity.running': 'Executando {name}…',
+  'toolActivity.success': '{name} executado',
+  'toolActivity.error': '{name} falhou',
+  'toolActivity.arguments': 'Argumentos',
+  'toolActivity.output': 'Resultado',
+
+  'confirm.text': 'Tem certeza?',
+  'confirm.yes': 'Sim',
+  'confirm.no': 'Não',
+  'confirm.result': 'Você escolheu: {value}',
+  'datePicker.label': 'Selecione uma data',
+  'fileUpload.label': 'Enviar um arquivo',
+  'fileUpload.browse': 'Clique para procurar',
+  'fileUpload.drop': 'ou arraste e solte',
+  'fileUpload.accepted': 'Aceitos: {types}',
+  'fileUpload.maxSize': 'Tamanho máx.: {size} MB',
+  'fileUpload.upload': 'Enviar',
+  'multiChoice.hint.one': 'Selecione {count} opção',
+  'multiChoice.hint.other': 'Selecione {count} opções',
+  'multiChoice.hintRange': 'Selecione de {min} a {max} opções',
+  'ratingInput.label': 'Avalie esta resposta',
+  'slider.label': 'Selecione um valor',
+  'textInput.label': 'Digite sua resposta',
+  'actionPreview.title': 'Enviar sua resposta?',
+  'actionPreview.send': 'Enviar',
+  'actionPreview.edit': 'Editar',
+  'actionPreview.save': 'Salvar',
+  'actionPreview.cancel': 'Cancelar',
+  'actionPreview.queue': '{index} de {count}',
+  'actionPreview.input': 'Resposta',
+  'actionGroup.progress': '{answered} de {total} respondidas',
+  'stream.stopped': 'Interrompido',
+  'stream.thinking': 'Pensando…',
+  'stream.thoughts': 'Raciocínio',
+};
@@ -11,9 +11,18 @@ export { Registry } from './core/registry';
 export { Parser } from './core/parser';
 export { Renderer } from './core/renderer';
 export { Transformer } from './core/transformer';
-export { Actions } from './core/actions';
+export { Actions, isAction } from './core/actions';
+export { ActionPreview } from './core/action-preview';
+export type { ActionPreviewOptions } from './core/action-preview';
 export { StreamRenderer } from './core/stream-renderer';
 export { Observer } from './core/observer';
+export { ThemeManager, THEME_PRESETS } from './core/theme';
+export { I18n } from './core/i18n';
+export type { TextDirection } from './core/i18n';
+export { ChatSession, createFetchTransport, createLocalStorage } from './core/session';
+export type { ChatMessage, ChatTransport, ChatStorage, ChatSessionOptions } from './core/session';
+export { MESSAGE_CATALOGS } from './i18n/index';
+export type { MessageCatalog } from './i18n/index';
 export { LiveLLMComponent } from './components/base';
 
 // Built-in detectors
@@ -33,31 +42,96 @@ export {
   // Types
   type UsageInfo,
   type TokenEvent,
+  type ReasoningEvent,
   type ErrorEvent,
   type MetadataEvent,
+  type ComponentEvent,
+  type ComponentUpdateEvent,
+  type ToolCallEvent,
+  type ToolResultEvent,
+  type CancelledEvent,
   type DoneEvent,
+  type StopReason,
   type StreamEvent,
   type StreamEventType,
   type LiveLLMResponse,
   type LiveLLMActionPayload,
+  type LiveLLMChatMessage,
   type LiveLLMChatRequest,
+  type LiveLLMCancelRequest,
+  type LiveLLMCancelResponse,
+  type SocketRequestFrame,
+  type SocketActionFrame,
+  type SocketCancelFrame,
+  type SocketEventFrame,
+  type SocketPingFrame,
+  type SocketClientFrame,
+  type SocketServerFrame,
   type SSEWritable,
+  type StreamWriter,
   type SSEWriter,
+  type SSEWriterOptions,
+  type SSEStreamOptions,
+  type SSEStreamWriter,
+  type SSEStream,
+  type SSEReplayBuffer,
+  type SSEBufferedEvent,
+  type CancelRegistry,
   type StreamRendererLike,
+  type StreamEventCallbacks,
   type ConnectStreamOptions,
+  type ActionFormatter,
+  type FormatActionOptions,
+  type LiveLLMHandlerRequest,
+  type LiveLLMHandlerResponse,
+  type LiveLLMGenerateContext,
+  type LiveLLMHandlerOptions,
+  type ChatRequestValidation,
+  type ProviderAdapter,
+  type LiveLLMSocket,
+  type SocketServerOptions,
+  type SocketServerConnection,
+  type SocketClientOptions,
+  type SocketStreamOptions,
+  type LiveLLMSocketClient,
   // Type guards
   isStreamEvent,
   isTokenEvent,
+  isReasoningEvent,
   isErrorEvent,
   isMetadataEvent,
+  isComponentEvent,
+  isComponentUpdateEvent,
+  isToolCallEvent,
+  isToolResultEvent,
+  isCancelledEvent,
   isDoneEvent,
+  isSocketClientFrame,
+  isSocketServerFrame,
   // Server helpers
   createSSEWriter,
+  createSSEStream,
+  createReplayBuffer,
+  createCancelRegistry,
   formatActionAsMessage,
+  BUILT_IN_ACTION_FORMATTERS,
+  // Request handler
+  createLiveLLMHandler,
+  validateChatRequest,
+  toErrorEvent,
+  // Provider adapters
+  createOpenAIAdapter,
+  createAnthropicAdapter,
+  createOllamaAdapter,
+  adaptProviderStream,
+  adaptProviderResponse,
   // Client helpers
   parseSSEData,
   parseSSELine,
   connectLiveLLMStream,
+  // WebSocket transport
+  serveLiveLLMSocket,
+  connectLiveLLMSocket,
 } from './protocol/index';
 
 // Re-export types
@@ -72,10 +146,20 @@ export type {
   TransformerConfig,
   DetectorDefinition,
   DetectionMatch,
+  TransformEdit,
   StreamRendererOptions,
   StreamState,
   ComponentCategory,
   ThemeName,
+  RenderContext,
+  ComponentState,
+  ComponentStateSource,
+  ActionDefinition,
+  ActionCatalog,
+  BuiltInActionPayload,
+  BuiltInActionName,
+  ActionPayloadOf,
+  InvalidActionEvent,
 } from './utils/types';
 
 export type { ObserverOptions } from './core/observer';
@@ -105,6 +189,7 @@ export { LiveLLMFilePreview } from './components/block/file-preview';
 export { LiveLLMCalendar } from './components/block/calendar';
 export { LiveLLMLinkPreview } from './components/block/link-preview';
 export { LiveLLMCodeRunner } from './components/block/code-runner';
+export { LiveLLMToolActivity } from './components/block/tool-activity';
 
 // Action components
 export { LiveLLMChoice } from './components/action/choice';
@@ -146,6 +231,7 @@ import { LiveLLMFilePreview, FILE_PREVIEW_REGISTRATION } from './components/bloc
 import { LiveLLMCalendar, CALENDAR_REGISTRATION } from './components/block/calendar';
 import { LiveLLMLinkPreview, LINK_PREVIEW_REGISTRATION } from './components/block/link-preview';
 import { LiveLLMCodeRunner, CODE_RUNNER_REGISTRATION } from './components/block/code-runner';
+import { LiveLLMToolActivity, TOOL_ACTIVITY_REGISTRATION } from './components/block/tool-activity';
 
 // Auto-register built-in components — Action
 import { LiveLLMChoice, CHOICE_REGISTRATION } from './components/action/choice';
@@ -182,6 +268,7 @@ LiveLLM.register('file-preview', LiveLLMFilePreview, FILE_PREVIEW_REGISTRATION);
 LiveLLM.register('calendar', LiveLLMCalendar, CALENDAR_REGISTRATION);
 LiveLLM.register('link-preview', LiveLLMLinkPreview, LINK_PREVIEW_REGISTRATION);
 LiveLLM.register('code-runner', LiveLLMCodeRunner, CODE_RUNNER_REGISTRATION);
+LiveLLM.register('tool-activity', LiveLLMToolActivity, TOOL_ACTIVITY_REGISTRATION);
 
 // Register action components
 LiveLLM.register('choice', LiveLLMChoice, CHOICE_REGISTRATION);
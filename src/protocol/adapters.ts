@@ -0,0 +1,424 @@
+// ═══════════════════════════════════════════════════════════════
+// LiveLLM Response Protocol — Provider Adapters
+//
+// Map the streams of LLM providers (OpenAI, Anthropic, Ollama) to
+// LiveLLM StreamEvents. No DOM access: safe on the server, where the
+// events go to an SSEWriter, and in the browser, where they go to
+// connectLiveLLMStream.
+// ═══════════════════════════════════════════════════════════════
+
+import type {
+  StreamEvent,
+  ErrorEvent,
+  DoneEvent,
+  StopReason,
+  UsageInfo,
+} from './types';
+
+/**
+ * Maps the chunks of one provider stream to LiveLLM events. Adapters are
+ * stateful (model announced, usage, stop reason): create one per stream.
+ */
+export interface ProviderAdapter {
+  /** Framing of the provider's raw HTTP stream. */
+  readonly format: 'sse' | 'ndjson';
+  /** Map one chunk (an SDK object or a parsed JSON line) to events. */
+  map(chunk: unknown): StreamEvent[];
+  /**
+   * Events for the end of the provider stream: the done event, unless the
+   * stream already sent it or failed.
+   */
+  end(): StreamEvent[];
+}
+
+type Chunk = Record<string, any>;
+
+// ─── OpenAI ─────────────────────────────────────────────────
+
+const OPENAI_STOP_REASONS: Record<string, StopReason> = {
+  stop: 'stop',
+  length: 'length',
+  tool_calls: 'tool_calls',
+  function_call: 'tool_calls',
+  content_filter: 'content_filter',
+};
+
+/**
+ * Adapter for OpenAI chat-completion chunks (`stream: true`), also used by
+ * OpenAI-compatible APIs (Groq, Together, vLLM, ...). Request
+ * `stream_options: { include_usage: true }` to get a usage metadata event.
+ */
+export function createOpenAIAdapter(provider: string = 'openai'): ProviderAdapter {
+  const state = createAdapterState(provider);
+
+  return {
+    format: 'sse',
+
+    map(chunk: unknown): StreamEvent[] {
+      if (!isChunk(chunk) || state.closed) return [];
+      if (isChunk(chunk.error)) {
+        return state.fail(openAIErrorCode(chunk.error), String(chunk.error.message ?? 'Provider error'));
+      }
+
+      const events = state.announce(chunk.model);
+      const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : undefined;
+      const content = choice?.delta?.content;
+      if (typeof content === 'string' && content) {
+        events.push({ type: 'token', token: content });
+      }
+      if (choice?.finish_reason) {
+        state.stopReason = OPENAI_STOP_REASONS[choice.finish_reason];
+      }
+      if (isChunk(chunk.usage)) {
+        events.push({
+          type: 'metadata',
+          usage: usage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens, chunk.usage.total_tokens),
+        });
+      }
+      return events;
+    },
+
+    end: () => state.finish(),
+  };
+}
+
+function openAIErrorCode(error: Chunk): ErrorEvent['code'] {
+  const kind = `${error.code ?? ''} ${error.type ?? ''}`;
+  if (/context_length/.test(kind)) return 'context_overflow';
+  if (/rate_limit|insufficient_quota/.test(kind)) return 'rate_limit';
+  if (/timeout/.test(kind)) return 'timeout';
+  return 'provider_error';
+}
+
+// ─── Anthropic ──────────────────────────────────────────────
+
+const ANTHROPIC_STOP_REASONS: Record<string, StopReason> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'content_filter',
+};
+
+/**
+ * Adapter for Anthropic Messages API stream events (`message_start`,
+ * `content_block_delta`, `message_delta`, `message_stop`, `error`).
+ * Extended thinking becomes reasoning events.
+ */
+export function createAnthropicAdapter(): ProviderAdapter {
+  const state = createAdapterState('anthropic');
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  return {
+    format: 'sse',
+
+    map(chunk: unknown): StreamEvent[] {
+      if (!isChunk(chunk) || state.closed) return [];
+
+      switch (chunk.type) {
+        case 'message_start': {
+          inputTokens = chunk.message?.usage?.input_tokens ?? 0;
+          outputTokens = chunk.message?.usage?.output_tokens ?? 0;
+          return state.announce(chunk.message?.model);
+        }
+
+        case 'content_block_delta': {
+          const delta = chunk.delta ?? {};
+          if (delta.type === 'text_delta' && delta.text) return [{ type: 'token', token: delta.text }];
+          if (delta.type === 'thinking_delta' && delta.thinking) return [{ type: 'reasoning', token: delta.thinking }];
+          return [];
+        }
+
+        case 'message_delta': {
+          const reason = chunk.delta?.stop_reason;
+          if (reason) state.stopReason = ANTHROPIC_STOP_REASONS[reason];
+          outputTokens = chunk.usage?.output_tokens ?? outputTokens;
+          return [];
+        }
+
+        case 'message_stop':
+          return [{ type: 'metadata', usage: usage(inputTokens, outputTokens) }, ...state.finish()];
+
+        case 'error':
+          return state.fail(anthropicErrorCode(chunk.error ?? {}), String(chunk.error?.message ?? 'Provider error'));
+
+        default:
+          return [];
+      }
+    },
+
+    end: () => state.finish(),
+  };
+}
+
+function anthropicErrorCode(error: Chunk): ErrorEvent['code'] {
+  if (error.type === 'rate_limit_error') return 'rate_limit';
+  if (error.type === 'timeout_error') return 'timeout';
+  if (error.type === 'invalid_request_error' && /too long|context/i.test(error.message ?? '')) {
+    return 'context_overflow';
+  }
+  return 'provider_error';
+}
+
+// ─── Ollama ─────────────────────────────────────────────────
+
+const OLLAMA_STOP_REASONS: Record<string, StopReason> = {
+  stop: 'stop',
+  length: 'length',
+};
+
+/**
+ * Adapter for Ollama's NDJSON streams, from `/api/chat` (`message.content`)
+ * and `/api/generate` (`response`). The final line's counters become usage
+ * and latency metadata.
+ */
+export function createOllamaAdapter(): ProviderAdapter {
+  const state = createAdapterState('ollama');
+
+  return {
+    format: 'ndjson',
+
+    map(chunk: unknown): StreamEvent[] {
+      if (!isChunk(chunk) || state.closed) return [];
+      if (chunk.error) {
+        const message = String(chunk.error);
+        return state.fail(/context/i.test(message) ? 'context_overflow' : 'provider_error', message);
+      }
+
+      const events = state.announce(chunk.model);
+      const thinking = chunk.message?.thinking ?? chunk.thinking;
+      if (typeof thinking === 'string' && thinking) {
+        events.push({ type: 'reasoning', token: thinking });
+      }
+      const content = chunk.message?.content ?? chunk.response;
+      if (typeof content === 'string' && content) {
+        events.push({ type: 'token', token: content });
+      }
+
+      if (chunk.done) {
+        if (chunk.done_reason) state.stopReason = OLLAMA_STOP_REASONS[chunk.done_reason];
+        const metadata: StreamEvent = {
+          type: 'metadata',
+          usage: usage(chunk.prompt_eval_count ?? 0, chunk.eval_count ?? 0),
+        };
+        if (typeof chunk.total_duration === 'number') {
+          metadata.latency_ms = Math.round(chunk.total_duration / 1e6);
+        }
+        events.push(metadata, ...state.finish());
+      }
+      return events;
+    },
+
+    end: () => state.finish(),
+  };
+}
+
+// ─── Stream helpers ─────────────────────────────────────────
+
+/**
+ * Map a provider stream to LiveLLM events: an async iterable of SDK chunk
+ * objects, or the raw HTTP body (SSE or NDJSON, see `adapter.format`).
+ * The last event is the done event, or a non-recoverable error.
+ *
+ * @example
+ * ```js
+ * import OpenAI from 'openai';
+ * import { createSSEWriter, adaptProviderStream, createOpenAIAdapter } from 'livellm/protocol';
+ *
+ * app.post('/api/chat/stream', async (req, res) => {
+ *   const sse = createSSEWriter(res);
+ *   sse.writeHeaders();
+ *   const completion = await openai.chat.completions.create({
+ *     model: 'gpt-4o-mini', messages, stream: true, stream_options: { include_usage: true },
+ *   });
+ *   for await (const event of adaptProviderStream(completion, createOpenAIAdapter())) {
+ *     sse.send(event);
+ *     if (event.type === 'error' && !event.recoverable) break;
+ *   }
+ *   sse.close(); // after a fatal error; a no-op after the done event
+ * });
+ * ```
+ */
+export async function* adaptProviderStream(
+  source: AsyncIterable<unknown> | ReadableStream<Uint8Array>,
+  adapter: ProviderAdapter
+): AsyncGenerator<StreamEvent> {
+  const chunks = isByteStream(source) ? readChunks(source, adapter.format) : source;
+  for await (const chunk of chunks) {
+    yield* adapter.map(chunk);
+  }
+  yield* adapter.end();
+}
+
+/**
+ * Turn a provider's fetch Response into a LiveLLM-protocol SSE Response,
+ * for `connectLiveLLMStream` in the browser. An HTTP error status becomes
+ * an error event.
+ *
+ * @example
+ * ```ts
+ * const response = await fetch('http://localhost:11434/api/chat', { method: 'POST', body });
+ * await connectLiveLLMStream(adaptProviderResponse(response, createOllamaAdapter()), sr);
+ * ```
+ */
+export function adaptProviderResponse(response: Response, adapter: ProviderAdapter): Response {
+  const encoder = new TextEncoder();
+  const events = response.ok && response.body
+    ? adaptProviderStream(response.body, adapter)
+    : httpError(response);
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await events.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(value)}\n\n`));
+    },
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function* httpError(response: Response): AsyncGenerator<StreamEvent> {
+  const text = await response.text().catch(() => '');
+  let message = text || `HTTP ${response.status}`;
+  try {
+    const parsed = JSON.parse(text);
+    message = parsed.error?.message ?? parsed.error ?? message;
+  } catch {
+    // Plain-text error body
+  }
+
+  yield { type: 'error', code: errorCodeForStatus(response.status), message: String(message), recoverable: false };
+}
+
+/**
+ * The ErrorEvent code of a provider's HTTP error status.
+ */
+export function errorCodeForStatus(status: number): ErrorEvent['code'] {
+  if (status === 429) return 'rate_limit';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 413) return 'context_overflow';
+  return 'provider_error';
+}
+
+/**
+ * Parsed JSON chunks of a raw SSE (`data:` lines, `[DONE]` ends) or
+ * NDJSON body. Lines that aren't JSON are skipped.
+ */
+async function* readChunks(stream: ReadableStream<Uint8Array>, format: 'sse' | 'ndjson'): AsyncGenerator<unknown> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  const parse = (text: string): unknown => {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      if (done && lines[lines.length - 1] !== '') lines.push('');
+
+      for (const raw of lines) {
+        const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+        if (format === 'ndjson') {
+          const chunk = line.trim() ? parse(line) : undefined;
+          if (chunk !== undefined) yield chunk;
+          continue;
+        }
+
+        if (line.startsWith('data:')) {
+          data.push(line.slice(line[5] === ' ' ? 6 : 5));
+        } else if (line === '' && data.length) {
+          const text = data.join('\n');
+          data = [];
+          if (text.trim() === '[DONE]') return;
+          const chunk = parse(text);
+          if (chunk !== undefined) yield chunk;
+        }
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+function isByteStream(source: unknown): source is ReadableStream<Uint8Array> {
+  return typeof (source as ReadableStream).getReader === 'function';
+}
+
+// ─── Shared state ───────────────────────────────────────────
+
+/**
+ * What every adapter tracks: the model announcement, the stop reason and
+ * whether the stream is over (done or failed).
+ */
+interface AdapterState {
+  closed: boolean;
+  stopReason: StopReason | undefined;
+  /** Metadata event with the model, once. */
+  announce(model: unknown): StreamEvent[];
+  /** The done event, unless the stream is over. */
+  finish(): StreamEvent[];
+  /** A non-recoverable error event; nothing follows it. */
+  fail(code: ErrorEvent['code'], message: string): StreamEvent[];
+}
+
+function createAdapterState(provider: string): AdapterState {
+  let announced = false;
+
+  const state: AdapterState = {
+    closed: false,
+    stopReason: undefined,
+
+    announce(model: unknown): StreamEvent[] {
+      if (announced || typeof model !== 'string' || !model) return [];
+      announced = true;
+      return [{ type: 'metadata', model, provider }];
+    },
+
+    finish(): StreamEvent[] {
+      if (state.closed) return [];
+      state.closed = true;
+      const done: DoneEvent = { type: 'done' };
+      if (state.stopReason) done.stopReason = state.stopReason;
+      return [done];
+    },
+
+    fail(code: ErrorEvent['code'], message: string): StreamEvent[] {
+      state.closed = true;
+      return [{ type: 'error', code, message, recoverable: false }];
+    },
+  };
+  return state;
+}
+
+function usage(prompt: unknown, completion: unknown, total?: unknown): UsageInfo {
+  const promptTokens = Number(prompt) || 0;
+  const completionTokens = Number(completion) || 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: Number(total) || promptTokens + completionTokens,
+  };
+}
+
+function isChunk(value: unknown): value is Chunk {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
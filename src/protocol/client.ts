@@ -8,6 +8,7 @@ import type {
   StreamEvent,
   MetadataEvent,
   ErrorEvent,
+  CancelledEvent,
   DoneEvent,
 } from './types';
 import { isStreamEvent } from './types';
@@ -18,20 +19,59 @@ import { isStreamEvent } from './types';
  */
 export interface StreamRendererLike {
   push(token: string): void;
+  /** Show thinking from a `reasoning` event (dropped when missing). */
+  pushReasoning?(token: string): void;
   end(): void;
   abort(): void;
+  /** Insert a component from a `component` event (pushed as a fence when missing). */
+  insertComponent?(name: string, props: Record<string, any>, id?: string): void;
+  /** Patch a component's props from a `component_update` event (ignored when missing). */
+  updateComponent?(id: string, patch: Record<string, any>): boolean;
+  /** Show a running tool from a `tool_call` event (ignored when missing). */
+  insertToolCall?(id: string, name: string, args?: Record<string, any>): void;
+  /** Settle a tool from a `tool_result` event (ignored when missing). */
+  updateToolCall?(id: string, status: 'success' | 'error', output?: string): boolean;
 }
 
 /**
- * Options for `connectLiveLLMStream`.
+ * Callbacks for the events a stream renderer doesn't handle itself.
  */
-export interface ConnectStreamOptions {
+export interface StreamEventCallbacks {
   /** Called when a metadata event is received (model info, usage stats). */
   onMetadata?: (event: MetadataEvent) => void;
   /** Called when an error event is received mid-stream. */
   onError?: (event: ErrorEvent) => void;
   /** Called when the done event is received. */
   onDone?: (event: DoneEvent) => void;
+  /** Called when the server acknowledges a cancellation; the renderer is aborted. */
+  onCancelled?: (event: CancelledEvent) => void;
+}
+
+/**
+ * Options for `connectLiveLLMStream`.
+ */
+export interface ConnectStreamOptions extends StreamEventCallbacks {
+  /**
+   * Stop reading: the response body is cancelled, no reconnection is tried
+   * and the renderer is aborted (marked as stopped). The promise resolves.
+   */
+  signal?: AbortSignal;
+  /**
+   * Re-open the stream after a network error, an idle timeout or a close
+   * before the done event. Send `lastEventId` as the `Last-Event-ID` header
+   * so the server replays what was missed. Without it, the stream ends.
+   */
+  reconnect?: (lastEventId: string | null, attempt: number) => Promise<Response>;
+  /** Reconnection attempts in a row before giving up (default 5). */
+  maxRetries?: number;
+  /** First reconnection delay in ms, doubled per attempt (default 1000). A server `retry:` field replaces it. */
+  retryDelay?: number;
+  /** Upper bound of the reconnection delay in ms (default 30000). */
+  maxRetryDelay?: number;
+  /** Treat the connection as lost after this many ms without data, heartbeats included (default 0: never). */
+  idleTimeout?: number;
+  /** Called before each reconnection attempt. */
+  onReconnect?: (attempt: number, lastEventId: string | null) => void;
 }
 
 /**
@@ -76,6 +116,80 @@ export function parseSSELine(line: string): StreamEvent | null {
   return parseSSEData(data);
 }
 
+/**
+ * A unique id for a chat request (`LiveLLMChatRequest.requestId`).
+ */
+export function createRequestId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+/**
+ * Apply one event to a stream renderer and the matching callback. Returns
+ * true when the event ends the stream (done, cancelled or a
+ * non-recoverable error). Used by the SSE and WebSocket clients.
+ */
+export function dispatchStreamEvent(
+  event: StreamEvent,
+  streamRenderer: StreamRendererLike,
+  options: StreamEventCallbacks = {}
+): boolean {
+  switch (event.type) {
+    case 'token':
+      streamRenderer.push(event.token);
+      break;
+
+    case 'reasoning':
+      streamRenderer.pushReasoning?.(event.token);
+      break;
+
+    case 'metadata':
+      options.onMetadata?.(event);
+      break;
+
+    case 'component':
+      if (streamRenderer.insertComponent) {
+        streamRenderer.insertComponent(event.name, event.props, event.id);
+      } else {
+        streamRenderer.push(`\n\n\`\`\`livellm:${event.name}\n${JSON.stringify(event.props)}\n\`\`\`\n\n`);
+      }
+      break;
+
+    case 'component_update':
+      streamRenderer.updateComponent?.(event.id, event.patch);
+      break;
+
+    case 'tool_call':
+      streamRenderer.insertToolCall?.(event.id, event.name, event.arguments);
+      break;
+
+    case 'tool_result':
+      streamRenderer.updateToolCall?.(event.id, event.status, event.output);
+      break;
+
+    case 'error':
+      options.onError?.(event);
+      if (!event.recoverable) {
+        streamRenderer.end();
+        return true;
+      }
+      break;
+
+    case 'cancelled':
+      streamRenderer.abort();
+      options.onCancelled?.(event);
+      return true;
+
+    case 'done':
+      streamRenderer.end();
+      options.onDone?.(event);
+      return true;
+  }
+  return false;
+}
+
 /**
  * Connect a fetch Response (SSE stream) to a StreamRenderer
  * using the LiveLLM protocol.
@@ -83,6 +197,11 @@ export function parseSSELine(line: string): StreamEvent | null {
  * Replaces the manual SSE parsing loop typically written in application code.
  * Handles token events, metadata, errors, and the done signal.
  *
+ * With `reconnect`, a dropped connection is re-opened with backoff and the
+ * last event id, and the stream resumes into the same renderer; events the
+ * renderer already has (by id) are skipped. Aborting `signal` stops reading
+ * and aborts the renderer.
+ *
  * @example
  * ```ts
  * import LiveLLM from 'livellm';
@@ -94,6 +213,12 @@ export function parseSSELine(line: string): StreamEvent | null {
  * await connectLiveLLMStream(response, sr, {
  *   onMetadata: (meta) => console.log('Model:', meta.model),
  *   onError: (err) => console.error('Stream error:', err.message),
+ *   reconnect: (lastEventId) => fetch('/api/chat/stream', {
+ *     method: 'POST',
+ *     headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+ *     ...
+ *   }),
+ *   idleTimeout: 30000,
  * });
  * ```
  */
@@ -106,62 +231,214 @@ export async function connectLiveLLMStream(
     throw new Error('[LiveLLM Protocol] Response has no body');
   }
 
-  const reader = response.body.getReader();
+  const cursor: StreamCursor = { lastEventId: null, retry: null, events: 0 };
+  const maxRetries = options.maxRetries ?? 5;
+  const signal = options.signal;
+  let source: Response | null = response;
+  let attempt = 0;
+  let lastError: unknown = null;
+
+  while (true) {
+    if (signal?.aborted) {
+      source?.body?.cancel().catch(() => {});
+      streamRenderer.abort();
+      return;
+    }
+
+    if (source) {
+      const received = cursor.events;
+      let result: ReadResult;
+      try {
+        result = await readEvents(source, streamRenderer, options, cursor);
+      } catch (err) {
+        streamRenderer.end();
+        throw err;
+      }
+      if (result.status === 'finished') return;
+      if (signal?.aborted) continue;
+
+      // Events without ids can't be resumed without duplicating them
+      const resumable = cursor.events === 0 || cursor.lastEventId !== null;
+      if (!options.reconnect || !resumable) {
+        streamRenderer.end();
+        if (result.status === 'closed') return;
+        throw result.error;
+      }
+      lastError = result.status === 'closed'
+        ? new Error('[LiveLLM Protocol] Stream closed before the done event')
+        : result.error;
+      if (cursor.events > received) attempt = 0;
+    }
+
+    if (!options.reconnect || attempt >= maxRetries) {
+      streamRenderer.end();
+      throw lastError;
+    }
+
+    attempt++;
+    options.onReconnect?.(attempt, cursor.lastEventId);
+    await sleep(cursor.retry ?? Math.min(
+      (options.retryDelay ?? 1000) * 2 ** (attempt - 1),
+      options.maxRetryDelay ?? 30000
+    ), signal);
+
+    source = null;
+    if (signal?.aborted) continue;
+    try {
+      const next = await options.reconnect(cursor.lastEventId, attempt);
+      if (next.status === 204) {
+        // The server has nothing more for this stream
+        streamRenderer.end();
+        return;
+      }
+      if (!next.ok || !next.body) {
+        throw new Error(`[LiveLLM Protocol] Reconnect failed with status ${next.status}`);
+      }
+      source = next;
+    } catch (err) {
+      lastError = err;
+    }
+  }
+}
+
+/** Position in the event stream, kept across reconnections. */
+interface StreamCursor {
+  /** Id of the last event handled */
+  lastEventId: string | null;
+  /** Reconnection delay sent by the server (`retry:`) */
+  retry: number | null;
+  /** Events handled so far */
+  events: number;
+}
+
+/**
+ * How reading one response ended: the stream is over (done event, fatal
+ * error), the connection closed early, or reading failed (network error,
+ * idle timeout).
+ */
+type ReadResult =
+  | { status: 'finished' }
+  | { status: 'closed' }
+  | { status: 'interrupted'; error: unknown };
+
+async function readEvents(
+  response: Response,
+  streamRenderer: StreamRendererLike,
+  options: ConnectStreamOptions,
+  cursor: StreamCursor
+): Promise<ReadResult> {
+  const reader = response.body!.getReader();
   const decoder = new TextDecoder();
   let buffer = '';
+  let eventId: string | null = null; // `id:` of the event being read
+
+  // A pending read resolves as done once the reader is cancelled
+  const onAbort = (): void => {
+    reader.cancel().catch(() => {});
+  };
+  options.signal?.addEventListener('abort', onAbort);
 
   try {
     while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await readWithTimeout(reader, options.idleTimeout ?? 0);
+      } catch (error) {
+        return { status: 'interrupted', error };
+      }
+      if (chunk.done) return { status: 'closed' };
 
-      buffer += decoder.decode(value, { stream: true });
+      buffer += decoder.decode(chunk.value, { stream: true });
       const lines = buffer.split('\n');
       buffer = lines.pop() || '';
 
-      for (const line of lines) {
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+        if (line === '') {
+          // End of an event block: an id without data still moves the cursor
+          if (eventId !== null && !isHandled(eventId, cursor.lastEventId)) cursor.lastEventId = eventId;
+          eventId = null;
+          continue;
+        }
+        if (line.startsWith('id:')) {
+          eventId = fieldValue(line, 3);
+          continue;
+        }
+        if (line.startsWith('retry:')) {
+          const retry = parseInt(fieldValue(line, 6), 10);
+          if (Number.isFinite(retry) && retry >= 0) cursor.retry = retry;
+          continue;
+        }
         if (!line.startsWith('data: ')) continue;
         const data = line.slice(6).trim();
 
+        // Replayed after a reconnect, already handled
+        if (eventId !== null && isHandled(eventId, cursor.lastEventId)) continue;
+        if (eventId !== null) cursor.lastEventId = eventId;
+        cursor.events++;
+
         // Legacy compatibility: plain [DONE] string
         if (data === '[DONE]') {
           streamRenderer.end();
           options.onDone?.({ type: 'done' });
-          return;
+          return { status: 'finished' };
         }
 
         const event = parseSSEData(data);
         if (!event) continue;
 
-        switch (event.type) {
-          case 'token':
-            streamRenderer.push(event.token);
-            break;
-
-          case 'metadata':
-            options.onMetadata?.(event);
-            break;
-
-          case 'error':
-            options.onError?.(event);
-            if (!event.recoverable) {
-              streamRenderer.end();
-              return;
-            }
-            break;
-
-          case 'done':
-            streamRenderer.end();
-            options.onDone?.(event);
-            return;
-        }
+        if (dispatchStreamEvent(event, streamRenderer, options)) return { status: 'finished' };
       }
     }
-
-    // Stream ended without explicit done event
-    streamRenderer.end();
-  } catch (err) {
-    streamRenderer.end();
-    throw err;
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
   }
 }
+
+/**
+ * Read the next chunk, failing (and cancelling the reader) after
+ * `timeout` ms without data. 0 waits forever.
+ */
+function readWithTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timeout: number
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  if (timeout <= 0) return reader.read();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const idle = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reader.cancel().catch(() => {});
+      reject(new Error(`[LiveLLM Protocol] No data received for ${timeout}ms`));
+    }, timeout);
+  });
+  return Promise.race([reader.read(), idle]).finally(() => clearTimeout(timer));
+}
+
+/** Value of an SSE field line (one leading space is not part of it). */
+function fieldValue(line: string, nameLength: number): string {
+  const value = line.slice(nameLength);
+  return value.startsWith(' ') ? value.slice(1) : value;
+}
+
+/** Whether a numeric event id is at or before the last one handled. */
+function isHandled(id: string, lastEventId: string | null): boolean {
+  if (lastEventId === null) return false;
+  const current = Number(id);
+  const last = Number(lastEventId);
+  return id !== '' && lastEventId !== '' && Number.isFinite(current) && Number.isFinite(last) && current <= last;
+}
+
+/** Wait `ms`, or less when the signal aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
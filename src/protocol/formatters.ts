@@ -0,0 +1,175 @@
+// ═══════════════════════════════════════════════════════════════
+// LiveLLM Response Protocol — Action Formatters
+//
+// Turn the actions of built-in components into natural language
+// for the conversation history. No DOM access: safe on the server.
+// ═══════════════════════════════════════════════════════════════
+
+import type { LiveLLMActionPayload } from './types';
+
+/**
+ * Formats one component's actions as a user turn (without the `[Re: ...]`
+ * context prefix). Returns null for actions it doesn't handle, which then
+ * fall through to the next formatter.
+ */
+export type ActionFormatter = (action: LiveLLMActionPayload, locale: string) => string | null;
+
+/**
+ * Options of `formatActionAsMessage`. Formatters are looked up by component
+ * name: `locales[locale]`, then `locales[language]`, then `formatters`, then
+ * the built-in ones, then the generic format.
+ */
+export interface FormatActionOptions {
+  /** Locale passed to formatters and used to pick `locales` (default 'en'). */
+  locale?: string;
+  /** Formatters by component name, taking precedence over the built-in ones. */
+  formatters?: Record<string, ActionFormatter>;
+  /** Formatters by locale tag, then component name (e.g. `{ de: { slider } }`). */
+  locales?: Record<string, Record<string, ActionFormatter>>;
+}
+
+const formatChoice: ActionFormatter = (action) =>
+  action.action === 'choice-select' ? `User selected: ${action.value}` : null;
+
+const formatMultiChoice: ActionFormatter = (action) => {
+  if (action.action !== 'multi-choice-submit') return null;
+  const values: unknown[] = Array.isArray(action.value) ? action.value : [];
+  return values.length ? `User selected: ${values.join(', ')}` : 'User selected none of the options';
+};
+
+const formatConfirm: ActionFormatter = (action) => {
+  if (action.action !== 'confirm-response') return null;
+  return action.value ? 'User confirmed' : 'User declined';
+};
+
+const formatSlider: ActionFormatter = (action) =>
+  action.action === 'slider-submit' ? `User chose ${action.value}` : null;
+
+const formatRatingInput: ActionFormatter = (action) => {
+  if (action.action !== 'rating-submit') return null;
+  const max = action.data?.max;
+  return max ? `User rated ${action.value}/${max}` : `User rated ${action.value}`;
+};
+
+const formatDatePicker: ActionFormatter = (action) => {
+  if (action.action !== 'date-select') return null;
+  // 'YYYY-MM-DD' or 'YYYY-MM-DDTHH:mm' from the date / datetime-local input
+  return `User picked ${String(action.value).replace('T', ' ')}`;
+};
+
+const formatTextInput: ActionFormatter = (action) =>
+  action.action === 'text-submit' ? `User wrote: ${action.value}` : null;
+
+const formatFileUpload: ActionFormatter = (action) => {
+  if (action.action !== 'file-upload') return null;
+  const file = action.data?.file;
+  const details = [file?.type, typeof file?.size === 'number' ? formatBytes(file.size) : '']
+    .filter(Boolean)
+    .join(', ');
+  return `User uploaded "${action.value}"${details ? ` (${details})` : ''}`;
+};
+
+const formatForm: ActionFormatter = (action) =>
+  action.action === 'submit' ? `User submitted: ${JSON.stringify(action.value)}` : null;
+
+const formatCodeRunner: ActionFormatter = (action) => {
+  if (action.action === 'code-copy') return 'User copied the code';
+  if (action.action === 'code-run') {
+    const language = action.data?.language;
+    return language ? `User ran the ${language} code` : 'User ran the code';
+  }
+  return null;
+};
+
+const formatMap: ActionFormatter = (action) => {
+  if (action.action !== 'open-map') return null;
+  const { lat, lng, title } = action.value ?? {};
+  return `User opened the map of ${title || `${lat}, ${lng}`}`;
+};
+
+const formatChart: ActionFormatter = (action) => {
+  if (action.action !== 'segment-click') return null;
+  const { label, value } = action.value ?? {};
+  return `User clicked the chart segment "${label}" (${value})`;
+};
+
+const formatTablePlus: ActionFormatter = (action) => {
+  if (action.action !== 'row-click') return null;
+  const { row, index } = action.value ?? {};
+  const cells = Object.entries(row ?? {}).map(([key, value]) => `${key}: ${value}`).join(', ');
+  return `User selected row ${Number(index) + 1}: ${cells}`;
+};
+
+const formatPricing: ActionFormatter = (action) =>
+  action.action === 'pricing-select' ? `User chose the ${action.value} plan` : null;
+
+const formatAccordion: ActionFormatter = (action) => {
+  if (action.action !== 'toggle') return null;
+  const { open, title } = action.value ?? {};
+  return `User ${open ? 'opened' : 'closed'} "${title}"`;
+};
+
+const formatCarousel: ActionFormatter = (action) =>
+  action.action === 'carousel-navigate' ? `User moved to slide ${Number(action.value) + 1}` : null;
+
+const formatTabs: ActionFormatter = (action) =>
+  action.action === 'tab-switch' ? `User switched to the "${action.value?.label}" tab` : null;
+
+const formatTag: ActionFormatter = (action) =>
+  action.action === 'tag-click' ? `User clicked the tag "${action.value}"` : null;
+
+/**
+ * Formatters of the built-in components' actions, by component name.
+ * Component registrations reference these as their `formatAction`.
+ */
+export const BUILT_IN_ACTION_FORMATTERS: Readonly<Record<string, ActionFormatter>> = {
+  choice: formatChoice,
+  'multi-choice': formatMultiChoice,
+  confirm: formatConfirm,
+  slider: formatSlider,
+  'rating-input': formatRatingInput,
+  'date-picker': formatDatePicker,
+  'text-input': formatTextInput,
+  'file-upload': formatFileUpload,
+  form: formatForm,
+  'code-runner': formatCodeRunner,
+  map: formatMap,
+  chart: formatChart,
+  'table-plus': formatTablePlus,
+  pricing: formatPricing,
+  accordion: formatAccordion,
+  carousel: formatCarousel,
+  tabs: formatTabs,
+  tag: formatTag,
+};
+
+/**
+ * Format an action with the first formatter (see FormatActionOptions)
+ * that handles it. Returns null when none does.
+ */
+export function applyActionFormatters(
+  action: LiveLLMActionPayload,
+  options: FormatActionOptions = {}
+): string | null {
+  const locale = options.locale || 'en';
+  const language = locale.split('-')[0];
+  const candidates = [
+    options.locales?.[locale],
+    language !== locale ? options.locales?.[language] : undefined,
+    options.formatters,
+    BUILT_IN_ACTION_FORMATTERS,
+  ];
+
+  for (const formatters of candidates) {
+    if (!formatters || !Object.prototype.hasOwnProperty.call(formatters, action.component)) continue;
+    const text = formatters[action.component](action, locale);
+    if (text != null) return text;
+  }
+  return null;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,324 @@
+// ═══════════════════════════════════════════════════════════════
+// LiveLLM Response Protocol — Request Handler
+//
+// A complete chat endpoint for Node `http` and Express: parses and
+// validates the LiveLLMChatRequest, turns actions into user turns and
+// streams what the generator yields as SSE events.
+// ═══════════════════════════════════════════════════════════════
+
+import type {
+  StreamEvent,
+  ErrorEvent,
+  DoneEvent,
+  UsageInfo,
+  LiveLLMChatRequest,
+  LiveLLMChatMessage,
+  LiveLLMActionPayload,
+} from './types';
+import { createSSEWriter, formatActionAsMessage } from './server';
+import type { SSEWritable, SSEWriterOptions, StreamWriter, CancelRegistry } from './server';
+import type { FormatActionOptions } from './formatters';
+import { errorCodeForStatus } from './adapters';
+
+/**
+ * The request the handler reads: a Node `IncomingMessage`, or an Express
+ * request whose `body` was already parsed.
+ */
+export interface LiveLLMHandlerRequest {
+  /** Parsed (or raw string) body; read from the request stream when absent. */
+  body?: unknown;
+  [Symbol.asyncIterator]?(): AsyncIterator<unknown>;
+}
+
+/**
+ * The response the handler writes: a Node `ServerResponse` or an Express
+ * response.
+ */
+export interface LiveLLMHandlerResponse extends SSEWritable {
+  statusCode: number;
+}
+
+/**
+ * What `generate` gets for one chat request.
+ */
+export interface LiveLLMGenerateContext {
+  /** The validated request. */
+  request: LiveLLMChatRequest;
+  /**
+   * The conversation to send to the model: the history without empty turns,
+   * then the user's message (an action's text when the message is empty).
+   */
+  messages: LiveLLMChatMessage[];
+  /** Aborted when the client disconnects or the request is cancelled. */
+  signal: AbortSignal;
+  /** The response's writer, for components and tool calls. */
+  writer: StreamWriter;
+}
+
+/**
+ * Options for `createLiveLLMHandler`.
+ */
+export interface LiveLLMHandlerOptions {
+  /**
+   * Generate the answer: yield text, or StreamEvents (e.g. from
+   * `adaptProviderStream`). A yielded done event ends the answer; usage of
+   * yielded metadata events goes into the final metadata event.
+   */
+  generate(context: LiveLLMGenerateContext): AsyncIterable<string | StreamEvent>;
+  /** Model announced in a metadata event before the first token. */
+  model?: string;
+  /** Provider announced with `model`. */
+  provider?: string;
+  /** Formatting of actions into user turns. */
+  formatOptions?: FormatActionOptions;
+  /** Options of the SSE writer (retry, heartbeat, ...). */
+  writerOptions?: SSEWriterOptions;
+  /** Track streams by `requestId` so a cancel request can stop them. */
+  cancelRegistry?: CancelRegistry;
+  /** Called with an error thrown by `generate`, before it is sent as an error event. */
+  onError?(error: unknown, request: LiveLLMChatRequest): void;
+}
+
+/**
+ * Result of `validateChatRequest`.
+ */
+export type ChatRequestValidation =
+  | { valid: true; request: LiveLLMChatRequest }
+  | { valid: false; error: string };
+
+const ROLES = ['user', 'assistant', 'system'];
+
+/**
+ * Create a request handler for a chat endpoint. A body that is not a valid
+ * LiveLLMChatRequest gets a 400 answer with `{ error }`; otherwise the
+ * answer streams as SSE, ending with a metadata event (latency, usage) and
+ * the done event. Errors thrown by `generate` become an error event with
+ * the matching code (`rate_limit`, `timeout`, `context_overflow`, ...) that
+ * ends the stream, so it is never recoverable.
+ *
+ * @example
+ * ```js
+ * import { createLiveLLMHandler } from 'livellm/protocol';
+ *
+ * const handler = createLiveLLMHandler({
+ *   model: 'gpt-4o-mini',
+ *   provider: 'openai',
+ *   async *generate({ messages, signal }) {
+ *     const stream = await openai.chat.completions.create(
+ *       { model: 'gpt-4o-mini', messages, stream: true },
+ *       { signal }
+ *     );
+ *     for await (const chunk of stream) yield chunk.choices[0]?.delta?.content ?? '';
+ *   },
+ * });
+ *
+ * app.post('/api/chat/stream', handler);  // Express
+ * http.createServer(handler).listen(3000); // Node http
+ * ```
+ */
+export function createLiveLLMHandler(
+  options: LiveLLMHandlerOptions
+): (req: LiveLLMHandlerRequest, res: LiveLLMHandlerResponse) => Promise<void> {
+  return async (req, res) => {
+    let body: unknown;
+    try {
+      body = await readBody(req);
+    } catch {
+      sendBadRequest(res, 'Request body is not valid JSON');
+      return;
+    }
+
+    const validation = validateChatRequest(body);
+    if (!validation.valid) {
+      sendBadRequest(res, validation.error);
+      return;
+    }
+    const { request } = validation;
+
+    const started = Date.now();
+    const sse = createSSEWriter(res, options.writerOptions);
+    sse.writeHeaders();
+    if (request.requestId) options.cancelRegistry?.track(request.requestId, sse);
+    if (options.model || options.provider) {
+      sse.metadata({ model: options.model, provider: options.provider });
+    }
+
+    let usage: UsageInfo | undefined;
+    let done: DoneEvent = { type: 'done' };
+    try {
+      const chunks = options.generate({
+        request,
+        messages: toMessages(request, options.formatOptions),
+        signal: sse.signal,
+        writer: sse,
+      });
+      for await (const chunk of chunks) {
+        if (sse.closed) break;
+        if (typeof chunk === 'string') {
+          if (chunk) sse.token(chunk);
+        } else if (chunk.type === 'done') {
+          done = chunk;
+          break;
+        } else if (chunk.type === 'metadata') {
+          // Usage and latency go into the final metadata event
+          const { usage: chunkUsage, latency_ms: _latency, ...meta } = chunk;
+          if (chunkUsage) usage = chunkUsage;
+          if (meta.model !== undefined || meta.provider !== undefined) sse.send(meta);
+        } else {
+          sse.send(chunk);
+          if (chunk.type === 'error' && !chunk.recoverable) {
+            sse.close();
+            return;
+          }
+        }
+      }
+    } catch (error) {
+      // Client gone or stream cancelled: nobody to tell
+      if (sse.closed) return;
+      options.onError?.(error, request);
+      // The stream ends here: nothing is left to recover
+      sse.send({ ...toErrorEvent(error), recoverable: false });
+      sse.close();
+      return;
+    }
+
+    if (sse.closed) return;
+    sse.metadata(usage ? { usage, latency_ms: Date.now() - started } : { latency_ms: Date.now() - started });
+    sse.send(done);
+  };
+}
+
+/**
+ * Check a parsed request body against LiveLLMChatRequest. On success,
+ * `request` holds only the known fields, history entries reduced to
+ * `{ role, content }`; on failure, `error` names the offending field.
+ *
+ * @example
+ * ```js
+ * const result = validateChatRequest(req.body);
+ * if (!result.valid) return res.status(400).json({ error: result.error });
+ * ```
+ */
+export function validateChatRequest(value: unknown): ChatRequestValidation {
+  const invalid = (error: string): ChatRequestValidation => ({ valid: false, error });
+
+  if (!isRecord(value)) return invalid('Request body must be a JSON object');
+
+  if (value.action !== undefined) {
+    const error = validateAction(value.action, 'action');
+    if (error) return invalid(error);
+  }
+  if (value.message === undefined ? value.action === undefined : typeof value.message !== 'string') {
+    return invalid('`message` must be a string');
+  }
+  const message = (value.message as string | undefined) ?? '';
+  if (!message.trim() && value.action === undefined) {
+    return invalid('`message` must not be empty without an `action`');
+  }
+
+  const history: LiveLLMChatMessage[] = [];
+  if (value.history !== undefined) {
+    if (!Array.isArray(value.history)) return invalid('`history` must be an array');
+    for (let i = 0; i < value.history.length; i++) {
+      const entry: unknown = value.history[i];
+      if (!isRecord(entry)) return invalid(`\`history[${i}]\` must be an object`);
+      if (!ROLES.includes(entry.role as string)) {
+        return invalid(`\`history[${i}].role\` must be 'user', 'assistant' or 'system'`);
+      }
+      if (typeof entry.content !== 'string') return invalid(`\`history[${i}].content\` must be a string`);
+      history.push({ role: entry.role as LiveLLMChatMessage['role'], content: entry.content });
+    }
+  }
+
+  if (value.requestId !== undefined && typeof value.requestId !== 'string') {
+    return invalid('`requestId` must be a string');
+  }
+
+  const request: LiveLLMChatRequest = { message };
+  if (value.history !== undefined) request.history = history;
+  if (value.action !== undefined) request.action = value.action as LiveLLMActionPayload;
+  if (value.requestId !== undefined) request.requestId = value.requestId as string;
+  return { valid: true, request };
+}
+
+/**
+ * The ErrorEvent for an error thrown while generating. The code comes from
+ * an HTTP status on the error (`status`, `statusCode`, `response.status`),
+ * a provider error code or the message; rate limits and timeouts are
+ * recoverable.
+ */
+export function toErrorEvent(error: unknown): ErrorEvent {
+  const err: Record<string, any> = isRecord(error) ? error : {};
+  const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+  const status = Number(err.status ?? err.statusCode ?? err.response?.status);
+  const providerCode = String(err.code ?? err.error?.code ?? err.error?.type ?? '');
+
+  let code: ErrorEvent['code'] = 'unknown';
+  if (Number.isInteger(status) && status >= 400) {
+    code = errorCodeForStatus(status);
+  } else if (err.name === 'TimeoutError' || /^(ETIMEDOUT|ESOCKETTIMEDOUT|ECONNABORTED)$/.test(providerCode)) {
+    code = 'timeout';
+  }
+  if (code === 'unknown' || code === 'provider_error') {
+    if (/rate_limit/.test(providerCode) || /rate limit/i.test(message)) code = 'rate_limit';
+    else if (/context_length|too_many_tokens/.test(providerCode) || /context (length|window)|maximum context/i.test(message)) {
+      code = 'context_overflow';
+    }
+  }
+
+  return { type: 'error', code, message, recoverable: code === 'rate_limit' || code === 'timeout' };
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function validateAction(value: unknown, path: string): string | null {
+  if (!isRecord(value)) return `\`${path}\` must be an object`;
+  for (const field of ['component', 'action', 'label']) {
+    if (typeof value[field] !== 'string') return `\`${path}.${field}\` must be a string`;
+  }
+  if (!('value' in value)) return `\`${path}.value\` is required`;
+  if (value.context !== undefined && typeof value.context !== 'string') return `\`${path}.context\` must be a string`;
+  if (value.data !== undefined && !isRecord(value.data)) return `\`${path}.data\` must be an object`;
+  if (value.edited !== undefined && typeof value.edited !== 'boolean') return `\`${path}.edited\` must be a boolean`;
+  if (value.actions !== undefined) {
+    if (!Array.isArray(value.actions)) return `\`${path}.actions\` must be an array`;
+    for (let i = 0; i < value.actions.length; i++) {
+      const error = validateAction(value.actions[i], `${path}.actions[${i}]`);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+function toMessages(request: LiveLLMChatRequest, formatOptions?: FormatActionOptions): LiveLLMChatMessage[] {
+  const messages = (request.history ?? []).filter((entry) => entry.content.trim() !== '');
+  const content = request.message.trim() || (request.action ? formatActionAsMessage(request.action, formatOptions) : '');
+  messages.push({ role: 'user', content });
+  return messages;
+}
+
+async function readBody(req: LiveLLMHandlerRequest): Promise<unknown> {
+  if (req.body !== undefined) {
+    return typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+  }
+  if (!req[Symbol.asyncIterator]) return undefined;
+
+  const decoder = new TextDecoder();
+  let text = '';
+  for await (const chunk of req as AsyncIterable<unknown>) {
+    text += chunk instanceof Uint8Array ? decoder.decode(chunk, { stream: true }) : String(chunk);
+  }
+  text += decoder.decode();
+  return JSON.parse(text);
+}
+
+function sendBadRequest(res: LiveLLMHandlerResponse, error: string): void {
+  res.statusCode = 400;
+  res.setHeader('Content-Type', 'application/json');
+  res.write(JSON.stringify({ error }));
+  res.end();
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
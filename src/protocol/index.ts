@@ -8,29 +8,98 @@
 export type {
   UsageInfo,
   TokenEvent,
+  ReasoningEvent,
   ErrorEvent,
   MetadataEvent,
+  ComponentEvent,
+  ComponentUpdateEvent,
+  ToolCallEvent,
+  ToolResultEvent,
+  CancelledEvent,
   DoneEvent,
+  StopReason,
   StreamEvent,
   StreamEventType,
   LiveLLMResponse,
   LiveLLMActionPayload,
+  LiveLLMChatMessage,
   LiveLLMChatRequest,
+  LiveLLMCancelRequest,
+  LiveLLMCancelResponse,
+  SocketRequestFrame,
+  SocketActionFrame,
+  SocketCancelFrame,
+  SocketEventFrame,
+  SocketPingFrame,
+  SocketClientFrame,
+  SocketServerFrame,
 } from './types';
 
 // Type guards
 export {
   isStreamEvent,
   isTokenEvent,
+  isReasoningEvent,
   isErrorEvent,
   isMetadataEvent,
+  isComponentEvent,
+  isComponentUpdateEvent,
+  isToolCallEvent,
+  isToolResultEvent,
+  isCancelledEvent,
   isDoneEvent,
+  isSocketClientFrame,
+  isSocketServerFrame,
 } from './types';
 
 // Server helpers
-export type { SSEWritable, SSEWriter } from './server';
-export { createSSEWriter, formatActionAsMessage } from './server';
+export type {
+  SSEWritable,
+  StreamWriter,
+  SSEWriter,
+  SSEWriterOptions,
+  SSEStreamOptions,
+  SSEStreamWriter,
+  SSEStream,
+  SSEReplayBuffer,
+  SSEBufferedEvent,
+  CancelRegistry,
+} from './server';
+export { createSSEWriter, createSSEStream, createReplayBuffer, createCancelRegistry, formatActionAsMessage } from './server';
+export type { ActionFormatter, FormatActionOptions } from './formatters';
+export { BUILT_IN_ACTION_FORMATTERS } from './formatters';
+
+// Request handler
+export type {
+  LiveLLMHandlerRequest,
+  LiveLLMHandlerResponse,
+  LiveLLMGenerateContext,
+  LiveLLMHandlerOptions,
+  ChatRequestValidation,
+} from './handler';
+export { createLiveLLMHandler, validateChatRequest, toErrorEvent } from './handler';
+
+// Provider adapters
+export type { ProviderAdapter } from './adapters';
+export {
+  createOpenAIAdapter,
+  createAnthropicAdapter,
+  createOllamaAdapter,
+  adaptProviderStream,
+  adaptProviderResponse,
+} from './adapters';
 
 // Client helpers
-export type { StreamRendererLike, ConnectStreamOptions } from './client';
+export type { StreamRendererLike, StreamEventCallbacks, ConnectStreamOptions } from './client';
 export { parseSSEData, parseSSELine, connectLiveLLMStream } from './client';
+
+// WebSocket transport
+export type {
+  LiveLLMSocket,
+  SocketServerOptions,
+  SocketServerConnection,
+  SocketClientOptions,
+  SocketStreamOptions,
+  LiveLLMSocketClient,
+} from './websocket';
+export { serveLiveLLMSocket, connectLiveLLMSocket } from './websocket';
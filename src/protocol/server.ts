@@ -6,12 +6,20 @@
 // ═══════════════════════════════════════════════════════════════
 
 import type {
-  TokenEvent,
   ErrorEvent,
-  MetadataEvent,
+  ComponentEvent,
+  ToolCallEvent,
+  ToolResultEvent,
+  CancelledEvent,
   DoneEvent,
+  StreamEvent,
+  LiveLLMActionPayload,
+  LiveLLMCancelRequest,
+  LiveLLMCancelResponse,
   UsageInfo,
 } from './types';
+import { applyActionFormatters } from './formatters';
+import type { FormatActionOptions } from './formatters';
 
 /**
  * Minimal interface for a writable HTTP response.
@@ -21,16 +29,58 @@ export interface SSEWritable {
   setHeader(name: string, value: string): void;
   write(chunk: string): boolean;
   end(): void;
+  /** Node-style close notification; aborts the writer's signal when the client goes away. */
+  on?(event: 'close', listener: () => void): unknown;
 }
 
 /**
- * SSE writer that emits LiveLLM-protocol-conforming events.
+ * An event as written by an SSEWriter, with its sequence id.
  */
-export interface SSEWriter {
-  /** Set required SSE headers. Call before writing any events. */
-  writeHeaders(): void;
+export interface SSEBufferedEvent {
+  id: number;
+  event: StreamEvent;
+}
+
+/**
+ * Keeps the events of one stream so a client that reconnects with
+ * `Last-Event-ID` gets what it missed (see `SSEWriter.replay`). Keep one per
+ * stream, e.g. in a Map keyed by conversation; implement it over Redis or
+ * similar when clients may reconnect to another server.
+ */
+export interface SSEReplayBuffer {
+  add(entry: SSEBufferedEvent): void;
+  /** Events with an id greater than `lastEventId`, oldest first. */
+  since(lastEventId: number): SSEBufferedEvent[];
+  /**
+   * Call `listener` with every event added from now on (see
+   * `SSEWriter.follow`). Returns the function that stops it.
+   */
+  subscribe(listener: (entry: SSEBufferedEvent) => void): () => void;
+}
+
+/**
+ * Options for `createSSEWriter`.
+ */
+export interface SSEWriterOptions {
+  /** Reconnection delay for the client in ms, sent as `retry:` with the first event. */
+  retry?: number;
+  /** Sequence id of the first event (default 1). */
+  startId?: number;
+  /** Records every event written, for `replay()` on a later connection. */
+  replay?: SSEReplayBuffer;
+  /** Write a `: ping` comment every this many ms while open (default 0: off). */
+  heartbeat?: number;
+}
+
+/**
+ * Writes the LiveLLM events of one response, over SSE (`createSSEWriter`)
+ * or a WebSocket (`serveLiveLLMSocket`).
+ */
+export interface StreamWriter {
   /** Emit a token event. */
   token(text: string): void;
+  /** Emit a reasoning event: thinking shown apart from the answer. */
+  reasoning(text: string): void;
   /** Emit an error event. */
   error(
     code: ErrorEvent['code'],
@@ -44,12 +94,171 @@ export interface SSEWriter {
     usage?: UsageInfo;
     latency_ms?: number;
   }): void;
+  /** Emit a component event: the client inserts it without a Markdown fence. */
+  component(name: string, props: Record<string, any>, id?: string): void;
+  /** Emit a component_update event: a JSON merge patch of a component's props. */
+  componentUpdate(id: string, patch: Record<string, any>): void;
+  /** Emit a tool_call event: the client shows the tool as running. */
+  toolCall(id: string, name: string, args?: Record<string, any>): void;
+  /** Emit a tool_result event for the tool_call with the same id. */
+  toolResult(id: string, status: ToolResultEvent['status'], output?: string): void;
   /** Emit the done event and end the response. */
   done(fullText?: string): void;
+  /**
+   * Emit any event, e.g. from a provider adapter. A done event ends the
+   * response like `done()`.
+   */
+  send(event: StreamEvent): void;
+  /**
+   * Stop the stream: abort `signal`, acknowledge with a cancelled event and
+   * end the response. Call it for a LiveLLMCancelRequest.
+   */
+  cancel(reason?: string): void;
+  /**
+   * Aborted when the stream is cancelled or the client disconnects before
+   * the done event. Pass it to the provider call to stop generating. An SSE
+   * writer with a replay buffer keeps going when the client disconnects, so
+   * it can resume.
+   */
+  readonly signal: AbortSignal;
+  /** Whether the response has ended; later events are dropped. */
+  readonly closed: boolean;
+}
+
+/**
+ * SSE writer that emits LiveLLM-protocol-conforming events.
+ */
+export interface SSEWriter extends StreamWriter {
+  /** Set required SSE headers. Call before writing any events. */
+  writeHeaders(): void;
+  /**
+   * Write the buffered events after `lastEventId` (the request's
+   * `Last-Event-ID` header) with their original ids; later events continue
+   * the numbering. Ends the response when the replay includes the done
+   * (or cancelled) event. Returns the number of events written.
+   */
+  replay(lastEventId: string | number | null | undefined): number;
+  /**
+   * Attach a reconnecting client to the stream still writing into the
+   * replay buffer: replay what it missed, then write the events the stream
+   * adds until its done (or cancelled) event ends the response. Resolves
+   * when the response ends or the client goes away.
+   */
+  follow(lastEventId: string | number | null | undefined): Promise<void>;
+  /** End the response without a done event (stops the heartbeat). */
+  close(): void;
+}
+
+/**
+ * Options for `createSSEStream`.
+ */
+export interface SSEStreamOptions extends SSEWriterOptions {
+  /**
+   * Close the stream and abort the writer's `signal` when this aborts —
+   * pass the incoming `Request`'s signal.
+   */
+  signal?: AbortSignal;
+  /** Extra headers of the response. */
+  headers?: Record<string, string>;
+  /** Events queued before `writer.ready` waits for the client to read (default 16). */
+  highWaterMark?: number;
+}
+
+/**
+ * SSE writer of a `createSSEStream` response.
+ */
+export interface SSEStreamWriter extends Omit<SSEWriter, 'writeHeaders'> {
+  /**
+   * Resolves once the client has read enough of the queued events; await it
+   * between writes to slow the producer down to the client.
+   */
+  readonly ready: Promise<void>;
+}
+
+/**
+ * A streaming SSE response and the writer feeding it.
+ */
+export interface SSEStream {
+  response: Response;
+  writer: SSEStreamWriter;
+}
+
+/**
+ * Running streams by request id, for cancel requests sent on another
+ * connection (see `LiveLLMChatRequest.requestId`).
+ */
+export interface CancelRegistry {
+  /** Track a request's writer; forgotten once its response ends. */
+  track(requestId: string, writer: StreamWriter): void;
+  /** Cancel the tracked stream of a cancel request, if still running. */
+  cancel(request: LiveLLMCancelRequest): LiveLLMCancelResponse;
+}
+
+/**
+ * In-memory CancelRegistry for a single server process.
+ *
+ * @example
+ * ```js
+ * const streams = createCancelRegistry();
+ *
+ * app.post('/api/chat/stream', async (req, res) => {
+ *   const sse = createSSEWriter(res);
+ *   if (req.body.requestId) streams.track(req.body.requestId, sse);
+ *   for await (const text of llm.stream(req.body, { signal: sse.signal })) sse.token(text);
+ *   sse.done();
+ * });
+ *
+ * app.post('/api/chat/cancel', (req, res) => res.json(streams.cancel(req.body)));
+ * ```
+ */
+export function createCancelRegistry(): CancelRegistry {
+  const writers = new Map<string, StreamWriter>();
+  const prune = (): void => {
+    writers.forEach((writer, requestId) => {
+      if (writer.closed) writers.delete(requestId);
+    });
+  };
+
+  return {
+    track(requestId: string, writer: StreamWriter): void {
+      prune();
+      writers.set(requestId, writer);
+    },
+    cancel(request: LiveLLMCancelRequest): LiveLLMCancelResponse {
+      prune();
+      const writer = writers.get(request.requestId);
+      writers.delete(request.requestId);
+      writer?.cancel(request.reason);
+      return { requestId: request.requestId, cancelled: Boolean(writer) };
+    },
+  };
 }
 
 /**
- * Create an SSE writer bound to a server response object.
+ * In-memory replay buffer keeping the last `limit` events.
+ */
+export function createReplayBuffer(limit: number = 1000): SSEReplayBuffer {
+  const entries: SSEBufferedEvent[] = [];
+  const listeners = new Set<(entry: SSEBufferedEvent) => void>();
+  return {
+    add(entry: SSEBufferedEvent): void {
+      entries.push(entry);
+      if (entries.length > limit) entries.shift();
+      listeners.forEach((listener) => listener(entry));
+    },
+    since(lastEventId: number): SSEBufferedEvent[] {
+      return entries.filter((entry) => entry.id > lastEventId);
+    },
+    subscribe(listener: (entry: SSEBufferedEvent) => void): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Create an SSE writer bound to a server response object. Every event gets
+ * a sequence id (`id:`), so a client can resume with `Last-Event-ID`.
  *
  * @example
  * ```js
@@ -60,29 +269,279 @@ export interface SSEWriter {
  *   sse.writeHeaders();
  *   sse.metadata({ model: 'llama-3.3-70b', provider: 'groq' });
  *
+ *   // Thinking of a reasoning model, kept out of the answer:
+ *   sse.reasoning('The user wants a greeting.');
+ *
  *   // For each token from the LLM:
  *   sse.token('Hello');
  *   sse.token(' world');
  *
+ *   // Structured data, no Markdown fence needed:
+ *   sse.component('chart', { type: 'bar', data: { labels, datasets } });
+ *
+ *   // Change a component sent with an id:
+ *   sse.component('progress', { value: 0, label: 'Indexing' }, 'job');
+ *   sse.componentUpdate('job', { value: 40 });
+ *
+ *   // Tool calls of an agent, shown as live status lines:
+ *   sse.toolCall('call-1', 'web_search', { query: 'livellm' });
+ *   sse.toolResult('call-1', 'success', '8 results');
+ *
  *   // On completion:
  *   sse.done();
  * });
+ *
+ * // Resumable: keep the events, and attach a reconnect to the running answer
+ * const sse = createSSEWriter(res, { replay: buffers.get(chatId), retry: 2000, heartbeat: 15000 });
+ * sse.writeHeaders();
+ * await sse.follow(req.headers['last-event-id']);
  * ```
  */
-export function createSSEWriter(res: SSEWritable): SSEWriter {
-  const writeLine = (event: TokenEvent | ErrorEvent | MetadataEvent | DoneEvent): void => {
-    res.write(`data: ${JSON.stringify(event)}\n\n`);
+export function createSSEWriter(res: SSEWritable, options: SSEWriterOptions = {}): SSEWriter {
+  let nextId = options.startId ?? 1;
+  let retrySent = false;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+  let detached = false; // The client went away, events still go to the replay buffer
+  const controller = new AbortController();
+
+  const stopHeartbeat = (): void => {
+    if (heartbeat !== null) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
   };
 
-  return {
+  const writeEvent = (id: number, event: StreamEvent): void => {
+    if (closed || detached) return;
+    const retry = options.retry !== undefined && !retrySent ? `retry: ${options.retry}\n` : '';
+    retrySent = true;
+    res.write(`${retry}id: ${id}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const writeLine = (event: StreamEvent): void => {
+    if (closed) return;
+    const id = nextId++;
+    options.replay?.add({ id, event });
+    writeEvent(id, event);
+  };
+
+  const end = (): void => {
+    if (closed) return;
+    closed = true;
+    stopHeartbeat();
+    if (!detached) res.end();
+  };
+
+  if (options.heartbeat && options.heartbeat > 0) {
+    heartbeat = setInterval(() => res.write(': ping\n\n'), options.heartbeat);
+  }
+
+  // The client went away: keep recording for its reconnect, or stop generating
+  res.on?.('close', () => {
+    if (closed || detached) return;
+    stopHeartbeat();
+    if (options.replay) {
+      detached = true;
+    } else {
+      closed = true;
+      controller.abort();
+    }
+  });
+
+  const writer = createStreamWriter(writeLine, end, controller, () => closed);
+  return Object.assign(writer, {
     writeHeaders(): void {
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
     },
 
+    replay(lastEventId: string | number | null | undefined): number {
+      if (!options.replay) return 0;
+      const after = Number(lastEventId ?? 0);
+      const missed = options.replay.since(Number.isFinite(after) ? after : 0);
+      for (const { id, event } of missed) {
+        writeEvent(id, event);
+        nextId = Math.max(nextId, id + 1);
+      }
+      if (missed.some(({ event }) => event.type === 'done' || event.type === 'cancelled')) {
+        end();
+      }
+      return missed.length;
+    },
+
+    follow(lastEventId: string | number | null | undefined): Promise<void> {
+      const buffer = options.replay;
+      if (!buffer) return Promise.resolve();
+      const after = Number(lastEventId ?? 0);
+      let last = Number.isFinite(after) ? after : 0;
+
+      return new Promise((resolve) => {
+        let stopped = false;
+        const stop = (): void => {
+          if (stopped) return;
+          stopped = true;
+          unsubscribe();
+          resolve();
+        };
+        const forward = ({ id, event }: SSEBufferedEvent): void => {
+          if (stopped || id <= last) return;
+          last = id;
+          nextId = Math.max(nextId, id + 1);
+          writeEvent(id, event);
+          if (event.type === 'done' || event.type === 'cancelled') end();
+          if (closed) stop();
+        };
+
+        // Subscribe first so nothing added during the replay is missed
+        const unsubscribe = buffer.subscribe(forward);
+        res.on?.('close', stop);
+        buffer.since(last).forEach(forward);
+      });
+    },
+
+    close(): void {
+      end();
+    },
+  });
+}
+
+/**
+ * Create an SSE response on a `ReadableStream`, for Fetch-API handlers
+ * (Next.js route handlers, Hono, Deno, workers). The writer has the
+ * `createSSEWriter` API; the response already carries the SSE headers.
+ * When the client goes away (the body is cancelled, or `options.signal`
+ * aborts), the stream closes and `writer.signal` aborts — unless the writer
+ * has a replay buffer, which keeps recording for a reconnect.
+ *
+ * @example
+ * ```js
+ * import { createSSEStream } from 'livellm/protocol';
+ *
+ * export async function POST(request) {
+ *   const { response, writer } = createSSEStream({ signal: request.signal });
+ *   (async () => {
+ *     for await (const text of llm.stream(await request.json(), { signal: writer.signal })) {
+ *       await writer.ready;
+ *       writer.token(text);
+ *     }
+ *     writer.done();
+ *   })();
+ *   return response;
+ * }
+ * ```
+ */
+export function createSSEStream(options: SSEStreamOptions = {}): SSEStream {
+  const encoder = new TextEncoder();
+  const closeListeners: Array<() => void> = [];
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let finished = false;
+  let drained: { promise: Promise<void>; resolve(): void } | null = null;
+
+  const drain = (): void => {
+    drained?.resolve();
+    drained = null;
+  };
+
+  // The client went away: close without ending, and abort the writer
+  const disconnect = (): void => {
+    if (finished) return;
+    finished = true;
+    drain();
+    closeListeners.forEach((listener) => listener());
+  };
+
+  const body = new ReadableStream<Uint8Array>(
+    {
+      start(streamController) {
+        controller = streamController;
+      },
+      pull() {
+        drain();
+      },
+      cancel() {
+        disconnect();
+      },
+    },
+    new CountQueuingStrategy({ highWaterMark: options.highWaterMark ?? 16 })
+  );
+
+  const writable: SSEWritable = {
+    setHeader(): void {
+      // Headers are set on the Response
+    },
+    write(chunk: string): boolean {
+      if (finished) return false;
+      controller.enqueue(encoder.encode(chunk));
+      return (controller.desiredSize ?? 0) > 0;
+    },
+    end(): void {
+      if (finished) return;
+      finished = true;
+      drain();
+      controller.close();
+    },
+    on(_event: 'close', listener: () => void): void {
+      closeListeners.push(listener);
+    },
+  };
+
+  // The SSEWriter with a `ready` getter; its writeHeaders() stays as a no-op
+  const sse = createSSEWriter(writable, options) as SSEWriter & SSEStreamWriter;
+  const writer: SSEStreamWriter = Object.defineProperty(sse, 'ready', {
+    get(): Promise<void> {
+      if (finished || (controller.desiredSize ?? 0) > 0) return Promise.resolve();
+      if (!drained) {
+        let resolve!: () => void;
+        const promise = new Promise<void>((done) => {
+          resolve = done;
+        });
+        drained = { promise, resolve };
+      }
+      return drained.promise;
+    },
+  });
+
+  const abort = (): void => {
+    if (finished) return;
+    disconnect();
+    controller.close();
+  };
+  if (options.signal?.aborted) {
+    abort();
+  } else {
+    options.signal?.addEventListener('abort', abort, { once: true });
+  }
+
+  const response = new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...options.headers,
+    },
+  });
+  return { response, writer };
+}
+
+/**
+ * The event methods of a StreamWriter over one transport: `write` sends an
+ * event (dropped once closed), `end` closes the response. Shared by the SSE
+ * and WebSocket writers.
+ */
+export function createStreamWriter(
+  write: (event: StreamEvent) => void,
+  end: () => void,
+  controller: AbortController,
+  isClosed: () => boolean
+): StreamWriter {
+  return {
     token(text: string): void {
-      writeLine({ type: 'token', token: text });
+      write({ type: 'token', token: text });
+    },
+
+    reasoning(text: string): void {
+      write({ type: 'reasoning', token: text });
     },
 
     error(
@@ -90,7 +549,7 @@ export function createSSEWriter(res: SSEWritable): SSEWriter {
       message: string,
       recoverable: boolean = false
     ): void {
-      writeLine({ type: 'error', code, message, recoverable });
+      write({ type: 'error', code, message, recoverable });
     },
 
     metadata(meta: {
@@ -99,7 +558,35 @@ export function createSSEWriter(res: SSEWritable): SSEWriter {
       usage?: UsageInfo;
       latency_ms?: number;
     }): void {
-      writeLine({ type: 'metadata', ...meta });
+      write({ type: 'metadata', ...meta });
+    },
+
+    component(name: string, props: Record<string, any>, id?: string): void {
+      const event: ComponentEvent = { type: 'component', name, props };
+      if (id !== undefined) {
+        event.id = id;
+      }
+      write(event);
+    },
+
+    componentUpdate(id: string, patch: Record<string, any>): void {
+      write({ type: 'component_update', id, patch });
+    },
+
+    toolCall(id: string, name: string, args?: Record<string, any>): void {
+      const event: ToolCallEvent = { type: 'tool_call', id, name };
+      if (args !== undefined) {
+        event.arguments = args;
+      }
+      write(event);
+    },
+
+    toolResult(id: string, status: ToolResultEvent['status'], output?: string): void {
+      const event: ToolResultEvent = { type: 'tool_result', id, status };
+      if (output !== undefined) {
+        event.output = output;
+      }
+      write(event);
     },
 
     done(fullText?: string): void {
@@ -107,8 +594,32 @@ export function createSSEWriter(res: SSEWritable): SSEWriter {
       if (fullText !== undefined) {
         event.fullText = fullText;
       }
-      writeLine(event);
-      res.end();
+      write(event);
+      end();
+    },
+
+    send(event: StreamEvent): void {
+      write(event);
+      if (event.type === 'done') end();
+    },
+
+    cancel(reason?: string): void {
+      if (isClosed()) return;
+      controller.abort();
+      const event: CancelledEvent = { type: 'cancelled' };
+      if (reason !== undefined) {
+        event.reason = reason;
+      }
+      write(event);
+      end();
+    },
+
+    get signal(): AbortSignal {
+      return controller.signal;
+    },
+
+    get closed(): boolean {
+      return isClosed();
     },
   };
 }
@@ -116,21 +627,40 @@ export function createSSEWriter(res: SSEWritable): SSEWriter {
 /**
  * Format a LiveLLMActionPayload into a natural language string
  * suitable for injecting into the LLM conversation history.
+ * Actions of built-in components use their component's formatter
+ * ("User rated 4/5"); `options` override formatters per component
+ * and per locale. Other actions get a generic format by verb. An
+ * `edited` action is its label, as the user rewrote it.
  *
  * @example
  * ```js
- * const text = formatActionAsMessage(action);
- * // "User selected: React (from choice component)"
+ * const text = formatActionAsMessage(action, {
+ *   locale: 'de',
+ *   locales: { de: { 'rating-input': (a) => `Bewertung: ${a.value}` } },
+ * });
  * history.push({ role: 'user', content: text });
  * ```
  */
-export function formatActionAsMessage(action: {
-  component: string;
-  action: string;
-  value: any;
-  label: string;
-  context?: string;
-}): string {
+export function formatActionAsMessage(
+  action: LiveLLMActionPayload,
+  options: FormatActionOptions = {}
+): string {
+  const prefix = action.context ? `[Re: "${action.context}"] ` : '';
+  // The user's own words replace whatever a formatter would say
+  if (action.edited && action.label) {
+    return prefix + action.label;
+  }
+  const formatted = applyActionFormatters(action, options);
+  if (formatted !== null) {
+    return prefix + formatted;
+  }
+
+  // Combined action: one line per answered component
+  if (action.actions?.length) {
+    const lines = action.actions.map((member) => `- ${formatActionAsMessage(member, options)}`);
+    return [`User answered ${action.actions.length} questions:`, ...lines].join('\n');
+  }
+
   const parts: string[] = [];
 
   if (action.context) {
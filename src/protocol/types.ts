@@ -23,6 +23,15 @@ export interface TokenEvent {
   token: string;
 }
 
+/**
+ * A chunk of a reasoning model's thinking. Shown apart from the answer
+ * (in a collapsible block) and left out of the answer's full text.
+ */
+export interface ReasoningEvent {
+  type: 'reasoning';
+  token: string;
+}
+
 /**
  * An error that occurred during streaming.
  */
@@ -45,18 +54,97 @@ export interface MetadataEvent {
   latency_ms?: number;
 }
 
+/**
+ * A component sent as structured data instead of a Markdown fence.
+ * The client inserts it at the current position of the stream.
+ */
+export interface ComponentEvent {
+  type: 'component';
+  /** Registered component name, e.g. 'chart' */
+  name: string;
+  /** Props, validated against the component's schema on the client */
+  props: Record<string, any>;
+  /** Server-side id of the component (set as `data-stream-id`) */
+  id?: string;
+}
+
+/**
+ * Changes the props of a component already on the client, e.g. to advance
+ * a progress bar. `id` is the `id` of a `component` event (or a component
+ * id); `patch` is a JSON merge patch (RFC 7386): `null` removes a prop,
+ * objects merge, arrays and other values replace.
+ */
+export interface ComponentUpdateEvent {
+  type: 'component_update';
+  id: string;
+  patch: Record<string, any>;
+}
+
+/**
+ * An agentic backend started a tool (search, code execution, a database
+ * query, ...). The client shows it as a running `tool-activity` component.
+ */
+export interface ToolCallEvent {
+  type: 'tool_call';
+  /** Id of the call, matched by its tool_result event */
+  id: string;
+  /** Tool name, e.g. 'web_search' */
+  name: string;
+  arguments?: Record<string, any>;
+}
+
+/**
+ * The outcome of a tool call: moves its `tool-activity` component from
+ * running to success or error.
+ */
+export interface ToolResultEvent {
+  type: 'tool_result';
+  /** `id` of the tool_call event */
+  id: string;
+  status: 'success' | 'error';
+  /** Short summary of the result (or the error message) */
+  output?: string;
+}
+
+/**
+ * Acknowledges a cancel request (or a client disconnect): the server
+ * stopped generating. The client marks the answer as stopped.
+ */
+export interface CancelledEvent {
+  type: 'cancelled';
+  reason?: string;
+}
+
+/**
+ * Why the model stopped generating: it finished, hit the token limit,
+ * called tools, or was stopped by a content filter.
+ */
+export type StopReason = 'stop' | 'length' | 'tool_calls' | 'content_filter';
+
 /**
  * Signals the end of the stream.
  */
 export interface DoneEvent {
   type: 'done';
   fullText?: string;
+  /** Reported by the provider (see the provider adapters) */
+  stopReason?: StopReason;
 }
 
 /**
  * Discriminated union of all SSE stream event types.
  */
-export type StreamEvent = TokenEvent | ErrorEvent | MetadataEvent | DoneEvent;
+export type StreamEvent =
+  | TokenEvent
+  | ReasoningEvent
+  | ErrorEvent
+  | MetadataEvent
+  | ComponentEvent
+  | ComponentUpdateEvent
+  | ToolCallEvent
+  | ToolResultEvent
+  | CancelledEvent
+  | DoneEvent;
 
 /**
  * All valid event type strings.
@@ -92,10 +180,24 @@ export interface LiveLLMActionPayload {
   label: string;
   /** Original question or context from the component */
   context?: string;
+  /** Other fields of the component's action data (e.g. the rating `max`, file info) */
+  data?: Record<string, any>;
+  /** Member payloads of a combined action (component 'group', action 'submit-all') */
+  actions?: LiveLLMActionPayload[];
+  /** Set when the user rewrote `label` before sending; the label is then the message */
+  edited?: boolean;
 }
 
 // ─── Chat Request (client → server) ─────────────────────────
 
+/**
+ * One turn of the conversation history.
+ */
+export interface LiveLLMChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
 /**
  * Standardized chat request shape.
  */
@@ -103,17 +205,96 @@ export interface LiveLLMChatRequest {
   /** The user's message (or empty string if action-only) */
   message: string;
   /** Conversation history */
-  history?: Array<{
-    role: 'user' | 'assistant' | 'system';
-    content: string;
-  }>;
+  history?: LiveLLMChatMessage[];
   /** Attached action payload (when the message originates from a component interaction) */
   action?: LiveLLMActionPayload;
+  /** Client-generated id of the request, referenced by a cancel request */
+  requestId?: string;
 }
 
+// ─── Cancellation (client → server) ─────────────────────────
+
+/**
+ * Asks the server to stop generating the answer to a chat request,
+ * e.g. POSTed to a cancel endpoint while the answer streams.
+ */
+export interface LiveLLMCancelRequest {
+  /** `requestId` of the chat request */
+  requestId: string;
+  reason?: string;
+}
+
+/**
+ * Answer to a LiveLLMCancelRequest.
+ */
+export interface LiveLLMCancelResponse {
+  requestId: string;
+  /** False when no stream with that id was running */
+  cancelled: boolean;
+}
+
+// ─── WebSocket Frames ───────────────────────────────────────
+
+/**
+ * Client → server: start a response. Its events come back as event frames
+ * with the same `requestId`; several responses can stream at once.
+ */
+export interface SocketRequestFrame {
+  type: 'request';
+  requestId: string;
+  request: LiveLLMChatRequest;
+}
+
+/**
+ * Client → server: a component action. The server may answer it with a
+ * response under `requestId`, like a request.
+ */
+export interface SocketActionFrame {
+  type: 'action';
+  requestId: string;
+  action: LiveLLMActionPayload;
+  history?: LiveLLMChatRequest['history'];
+}
+
+/**
+ * Client → server: stop the response of `requestId` (answered with a
+ * cancelled event).
+ */
+export interface SocketCancelFrame {
+  type: 'cancel';
+  requestId: string;
+  reason?: string;
+}
+
+/**
+ * Server → client: an event of the response to `requestId`.
+ */
+export interface SocketEventFrame {
+  type: 'event';
+  requestId: string;
+  event: StreamEvent;
+}
+
+/**
+ * Either direction: keep-alive. A ping is answered with a pong carrying
+ * the same `ts`.
+ */
+export interface SocketPingFrame {
+  type: 'ping' | 'pong';
+  ts: number;
+}
+
+/** Frames a client sends. */
+export type SocketClientFrame = SocketRequestFrame | SocketActionFrame | SocketCancelFrame | SocketPingFrame;
+
+/** Frames a server sends. */
+export type SocketServerFrame = SocketEventFrame | SocketPingFrame;
+
 // ─── Type Guards ────────────────────────────────────────────
 
-const VALID_EVENT_TYPES: readonly string[] = ['token', 'error', 'metadata', 'done'];
+const VALID_EVENT_TYPES: readonly string[] = [
+  'token', 'reasoning', 'error', 'metadata', 'component', 'component_update', 'tool_call', 'tool_result', 'cancelled', 'done',
+];
 
 /**
  * Check if a value is a valid StreamEvent.
@@ -122,6 +303,19 @@ export function isStreamEvent(value: unknown): value is StreamEvent {
   if (typeof value !== 'object' || value === null) return false;
   const obj = value as Record<string, unknown>;
   if (typeof obj.type !== 'string') return false;
+  if (obj.type === 'component') {
+    return typeof obj.name === 'string' && isRecord(obj.props);
+  }
+  if (obj.type === 'component_update') {
+    return typeof obj.id === 'string' && isRecord(obj.patch);
+  }
+  if (obj.type === 'tool_call') {
+    return typeof obj.id === 'string' && typeof obj.name === 'string' &&
+      (obj.arguments === undefined || isRecord(obj.arguments));
+  }
+  if (obj.type === 'tool_result') {
+    return typeof obj.id === 'string' && (obj.status === 'success' || obj.status === 'error');
+  }
   return VALID_EVENT_TYPES.includes(obj.type);
 }
 
@@ -129,6 +323,10 @@ export function isTokenEvent(event: StreamEvent): event is TokenEvent {
   return event.type === 'token';
 }
 
+export function isReasoningEvent(event: StreamEvent): event is ReasoningEvent {
+  return event.type === 'reasoning';
+}
+
 export function isErrorEvent(event: StreamEvent): event is ErrorEvent {
   return event.type === 'error';
 }
@@ -137,6 +335,59 @@ export function isMetadataEvent(event: StreamEvent): event is MetadataEvent {
   return event.type === 'metadata';
 }
 
+export function isComponentEvent(event: StreamEvent): event is ComponentEvent {
+  return event.type === 'component';
+}
+
+export function isComponentUpdateEvent(event: StreamEvent): event is ComponentUpdateEvent {
+  return event.type === 'component_update';
+}
+
+export function isToolCallEvent(event: StreamEvent): event is ToolCallEvent {
+  return event.type === 'tool_call';
+}
+
+export function isToolResultEvent(event: StreamEvent): event is ToolResultEvent {
+  return event.type === 'tool_result';
+}
+
+export function isCancelledEvent(event: StreamEvent): event is CancelledEvent {
+  return event.type === 'cancelled';
+}
+
 export function isDoneEvent(event: StreamEvent): event is DoneEvent {
   return event.type === 'done';
 }
+
+/**
+ * Check if a value is a frame a client sends over the WebSocket transport.
+ */
+export function isSocketClientFrame(value: unknown): value is SocketClientFrame {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case 'request':
+      return typeof value.requestId === 'string' && isRecord(value.request) && typeof value.request.message === 'string';
+    case 'action':
+      return typeof value.requestId === 'string' && isRecord(value.action);
+    case 'cancel':
+      return typeof value.requestId === 'string';
+    case 'ping':
+    case 'pong':
+      return typeof value.ts === 'number';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check if a value is a frame a server sends over the WebSocket transport.
+ */
+export function isSocketServerFrame(value: unknown): value is SocketServerFrame {
+  if (!isRecord(value)) return false;
+  if (value.type === 'event') return typeof value.requestId === 'string' && isStreamEvent(value.event);
+  return (value.type === 'ping' || value.type === 'pong') && typeof value.ts === 'number';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,444 @@
+// ═══════════════════════════════════════════════════════════════
+// LiveLLM Response Protocol — WebSocket Transport
+//
+// The SSE event contract over one bidirectional socket: StreamEvents
+// travel in event frames tagged with a request id, so several responses
+// stream at once, and requests, actions and cancellations go back over
+// the same connection.
+// ═══════════════════════════════════════════════════════════════
+
+import type {
+  LiveLLMChatRequest,
+  LiveLLMActionPayload,
+  SocketActionFrame,
+  SocketClientFrame,
+  SocketServerFrame,
+} from './types';
+import { isSocketClientFrame, isSocketServerFrame } from './types';
+import { createStreamWriter, formatActionAsMessage } from './server';
+import type { StreamWriter } from './server';
+import type { FormatActionOptions } from './formatters';
+import { createRequestId, dispatchStreamEvent } from './client';
+import type { StreamRendererLike, StreamEventCallbacks } from './client';
+
+/**
+ * The WebSocket API the transport needs. The browser's WebSocket and the
+ * `ws` package's both fit.
+ */
+export interface LiveLLMSocket {
+  /** 0 connecting, 1 open, 2 closing, 3 closed */
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'open' | 'message' | 'close', listener: (event: any) => void): void;
+}
+
+const CONNECTING = 0;
+const OPEN = 1;
+
+// ─── Server ─────────────────────────────────────────────────
+
+/**
+ * Options for `serveLiveLLMSocket`.
+ */
+export interface SocketServerOptions {
+  /**
+   * Answer a request frame: write its events to `writer` and end with
+   * `done()`. Several requests of one socket run at once. A thrown error
+   * is sent as a non-recoverable error event.
+   */
+  onRequest(request: LiveLLMChatRequest, writer: StreamWriter): void | Promise<void>;
+  /**
+   * Answer an action frame. Without it, the action goes to `onRequest` as
+   * a request whose message is `formatActionAsMessage(action)`.
+   */
+  onAction?(
+    action: LiveLLMActionPayload,
+    writer: StreamWriter,
+    history?: LiveLLMChatRequest['history']
+  ): void | Promise<void>;
+  /** Formatting of actions passed to `onRequest`. */
+  formatOptions?: FormatActionOptions;
+  /**
+   * Ping the client every this many ms; close the socket after twice as
+   * long without a frame from it (default 0: off).
+   */
+  pingInterval?: number;
+}
+
+/**
+ * One client connection served by `serveLiveLLMSocket`.
+ */
+export interface SocketServerConnection {
+  /** Request ids of the responses still streaming. */
+  readonly active: string[];
+  /** Close the socket; running responses are aborted. */
+  close(): void;
+}
+
+interface ServerResponse {
+  writer: StreamWriter;
+  controller: AbortController;
+  end(): void;
+}
+
+/**
+ * Serve the LiveLLM protocol on an accepted WebSocket. Each request frame
+ * gets its own StreamWriter, whose events go back tagged with the request
+ * id; a cancel frame cancels it, and a closed socket aborts every running
+ * response's `signal`.
+ *
+ * @example
+ * ```js
+ * import { WebSocketServer } from 'ws';
+ * import { serveLiveLLMSocket } from 'livellm/protocol';
+ *
+ * new WebSocketServer({ port: 8080 }).on('connection', (socket) => {
+ *   serveLiveLLMSocket(socket, {
+ *     pingInterval: 30000,
+ *     async onRequest(request, writer) {
+ *       for await (const text of llm.stream(request, { signal: writer.signal })) writer.token(text);
+ *       writer.done();
+ *     },
+ *   });
+ * });
+ * ```
+ */
+export function serveLiveLLMSocket(socket: LiveLLMSocket, options: SocketServerOptions): SocketServerConnection {
+  const responses = new Map<string, ServerResponse>();
+
+  const sendFrame = (frame: SocketServerFrame): void => {
+    if (socket.readyState === OPEN) socket.send(JSON.stringify(frame));
+  };
+
+  const keepAlive = startKeepAlive(socket, options.pingInterval ?? 0, sendFrame);
+
+  const open = (requestId: string): ServerResponse => {
+    let closed = false;
+    const controller = new AbortController();
+    const end = (): void => {
+      if (closed) return;
+      closed = true;
+      responses.delete(requestId);
+    };
+    const writer = createStreamWriter(
+      (event) => {
+        if (!closed) sendFrame({ type: 'event', requestId, event });
+      },
+      end,
+      controller,
+      () => closed
+    );
+    const response: ServerResponse = { writer, controller, end };
+    responses.set(requestId, response);
+    return response;
+  };
+
+  const run = (response: ServerResponse, handler: (writer: StreamWriter) => void | Promise<void>): void => {
+    Promise.resolve()
+      .then(() => handler(response.writer))
+      .catch((error: unknown) => {
+        response.writer.send({
+          type: 'error',
+          code: 'unknown',
+          message: error instanceof Error ? error.message : String(error),
+          recoverable: false,
+        });
+        response.end();
+      });
+  };
+
+  const onFrame = (frame: SocketClientFrame): void => {
+    switch (frame.type) {
+      case 'request': {
+        // A request id already streaming is ignored rather than mixed in
+        if (responses.has(frame.requestId)) return;
+        const request = { ...frame.request, requestId: frame.requestId };
+        run(open(frame.requestId), (writer) => options.onRequest(request, writer));
+        break;
+      }
+
+      case 'action': {
+        if (responses.has(frame.requestId)) return;
+        const { requestId, action, history } = frame;
+        run(open(requestId), (writer) => {
+          if (options.onAction) return options.onAction(action, writer, history);
+          const message = formatActionAsMessage(action, options.formatOptions);
+          return options.onRequest({ message, history, action, requestId }, writer);
+        });
+        break;
+      }
+
+      case 'cancel':
+        responses.get(frame.requestId)?.writer.cancel(frame.reason);
+        break;
+
+      case 'ping':
+        sendFrame({ type: 'pong', ts: frame.ts });
+        break;
+    }
+  };
+
+  socket.addEventListener('message', (event: { data: unknown }) => {
+    keepAlive.seen();
+    const frame = parseFrame(event.data);
+    if (isSocketClientFrame(frame)) onFrame(frame);
+  });
+
+  socket.addEventListener('close', () => {
+    keepAlive.stop();
+    responses.forEach((response) => {
+      response.end();
+      response.controller.abort();
+    });
+  });
+
+  return {
+    get active(): string[] {
+      return Array.from(responses.keys());
+    },
+    close(): void {
+      socket.close(1000);
+    },
+  };
+}
+
+// ─── Client ─────────────────────────────────────────────────
+
+/**
+ * Options for `connectLiveLLMSocket`.
+ */
+export interface SocketClientOptions {
+  /**
+   * Ping the server every this many ms; close the socket after twice as
+   * long without a frame from it (default 0: off).
+   */
+  pingInterval?: number;
+}
+
+/**
+ * Options of one response streamed over a LiveLLMSocketClient.
+ */
+export interface SocketStreamOptions extends StreamEventCallbacks {
+  /**
+   * Stop the response: a cancel frame is sent, the renderer is aborted
+   * (marked as stopped) and the promise resolves.
+   */
+  signal?: AbortSignal;
+  /** Id of the response (default: the request's `requestId`, or a new one). */
+  requestId?: string;
+}
+
+/**
+ * The client side of a LiveLLM WebSocket connection.
+ */
+export interface LiveLLMSocketClient {
+  /**
+   * Send a request and stream its response into `streamRenderer`.
+   * Resolves at the done event (or cancellation); rejects if the socket
+   * closes first.
+   */
+  stream(request: LiveLLMChatRequest, streamRenderer: StreamRendererLike, options?: SocketStreamOptions): Promise<void>;
+  /** Send a component action; the server's answer streams into `streamRenderer`. */
+  sendAction(
+    action: LiveLLMActionPayload,
+    streamRenderer: StreamRendererLike,
+    options?: SocketStreamOptions & { history?: LiveLLMChatRequest['history'] }
+  ): Promise<void>;
+  /** Ask the server to stop a response; it answers with a cancelled event. */
+  cancel(requestId: string, reason?: string): void;
+  /** Request ids of the responses still streaming. */
+  readonly active: string[];
+  /** Close the socket. Running responses end and their promises reject. */
+  close(): void;
+}
+
+interface PendingResponse {
+  streamRenderer: StreamRendererLike;
+  options: SocketStreamOptions;
+  resolve(): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Connect to a LiveLLM WebSocket server. Frames sent while the socket is
+ * still connecting are queued until it opens.
+ *
+ * @example
+ * ```ts
+ * import LiveLLM from 'livellm';
+ * import { connectLiveLLMSocket } from 'livellm/protocol';
+ *
+ * const client = connectLiveLLMSocket(new WebSocket('wss://example.com/chat'), { pingInterval: 30000 });
+ *
+ * const sr = LiveLLM.createStreamRenderer('#output');
+ * await client.stream({ message: 'Compare React and Vue', history }, sr, {
+ *   onMetadata: (meta) => console.log('Model:', meta.model),
+ * });
+ * ```
+ */
+export function connectLiveLLMSocket(socket: LiveLLMSocket, options: SocketClientOptions = {}): LiveLLMSocketClient {
+  const pending = new Map<string, PendingResponse>();
+  const queue: string[] = [];
+  let closed = false;
+
+  const sendFrame = (frame: SocketClientFrame): void => {
+    const data = JSON.stringify(frame);
+    if (socket.readyState === CONNECTING) {
+      queue.push(data);
+    } else if (socket.readyState === OPEN) {
+      socket.send(data);
+    }
+  };
+
+  const keepAlive = startKeepAlive(socket, options.pingInterval ?? 0, sendFrame);
+
+  const start = (
+    frame: SocketClientFrame & { requestId: string },
+    streamRenderer: StreamRendererLike,
+    streamOptions: SocketStreamOptions
+  ): Promise<void> => {
+    const { requestId } = frame;
+    const signal = streamOptions.signal;
+
+    if (closed) {
+      streamRenderer.end();
+      return Promise.reject(new Error('[LiveLLM Protocol] Socket is closed'));
+    }
+    if (signal?.aborted) {
+      streamRenderer.abort();
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        if (!pending.delete(requestId)) return;
+        sendFrame({ type: 'cancel', requestId });
+        streamRenderer.abort();
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      pending.set(requestId, {
+        streamRenderer,
+        options: streamOptions,
+        resolve(): void {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject(error: Error): void {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+      sendFrame(frame);
+    });
+  };
+
+  socket.addEventListener('open', () => {
+    queue.splice(0).forEach((data) => socket.send(data));
+  });
+
+  socket.addEventListener('message', (event: { data: unknown }) => {
+    keepAlive.seen();
+    const frame = parseFrame(event.data);
+    if (!isSocketServerFrame(frame)) return;
+
+    if (frame.type === 'ping') {
+      sendFrame({ type: 'pong', ts: frame.ts });
+      return;
+    }
+    if (frame.type !== 'event') return;
+
+    const response = pending.get(frame.requestId);
+    if (!response) return;
+    if (dispatchStreamEvent(frame.event, response.streamRenderer, response.options)) {
+      pending.delete(frame.requestId);
+      response.resolve();
+    }
+  });
+
+  socket.addEventListener('close', () => {
+    closed = true;
+    keepAlive.stop();
+    queue.length = 0;
+    const responses = Array.from(pending.values());
+    pending.clear();
+    responses.forEach((response) => {
+      response.streamRenderer.end();
+      response.reject(new Error('[LiveLLM Protocol] Socket closed before the done event'));
+    });
+  });
+
+  return {
+    stream(request, streamRenderer, streamOptions = {}) {
+      const requestId = streamOptions.requestId ?? request.requestId ?? createRequestId();
+      return start({ type: 'request', requestId, request: { ...request, requestId } }, streamRenderer, streamOptions);
+    },
+
+    sendAction(action, streamRenderer, streamOptions = {}) {
+      const requestId = streamOptions.requestId ?? createRequestId();
+      const frame: SocketActionFrame = { type: 'action', requestId, action };
+      if (streamOptions.history) frame.history = streamOptions.history;
+      return start(frame, streamRenderer, streamOptions);
+    },
+
+    cancel(requestId: string, reason?: string): void {
+      sendFrame(reason === undefined ? { type: 'cancel', requestId } : { type: 'cancel', requestId, reason });
+    },
+
+    get active(): string[] {
+      return Array.from(pending.keys());
+    },
+
+    close(): void {
+      socket.close(1000);
+    },
+  };
+}
+
+// ─── Shared ─────────────────────────────────────────────────
+
+interface KeepAlive {
+  /** A frame arrived: the peer is alive. */
+  seen(): void;
+  stop(): void;
+}
+
+/**
+ * Ping the peer every `interval` ms and close the socket once nothing
+ * arrived for two intervals. No-op for an interval of 0.
+ */
+function startKeepAlive(
+  socket: LiveLLMSocket,
+  interval: number,
+  send: (frame: SocketClientFrame & SocketServerFrame) => void
+): KeepAlive {
+  let lastSeen = Date.now();
+  const timer = interval > 0
+    ? setInterval(() => {
+      if (Date.now() - lastSeen >= interval * 2) {
+        socket.close(4000, 'Ping timeout');
+        return;
+      }
+      if (socket.readyState === OPEN) send({ type: 'ping', ts: Date.now() });
+    }, interval)
+    : null;
+
+  return {
+    seen(): void {
+      lastSeen = Date.now();
+    },
+    stop(): void {
+      if (timer !== null) clearInterval(timer);
+    },
+  };
+}
+
+function parseFrame(data: unknown): unknown {
+  try {
+    return JSON.parse(typeof data === 'string' ? data : String(data));
+  } catch {
+    return null;
+  }
+}
@@ -1,3 +1,5 @@
+import type { RenderContext, ComponentState, ComponentStateSource } from './types';
+
 /**
  * DOM utility functions for LiveLLM renderer.
  */
@@ -22,6 +24,63 @@ export function generateComponentId(type: string): string {
   return `livellm-${type}-${++idCounter}-${Date.now().toString(36)}`;
 }
 
+/**
+ * Deterministic component ID from its type and props. The same block gets
+ * the same ID every time a message is rendered, so saved state can find it
+ * again. Pass `seen` to number repeated identical blocks (`-2`, `-3`, ...).
+ */
+export function stableComponentId(
+  type: string,
+  props: unknown,
+  seen?: Map<string, number>
+): string {
+  // 32-bit FNV-1a
+  const json = JSON.stringify(props) ?? '';
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const id = `livellm-${type}-${(hash >>> 0).toString(36)}`;
+  if (!seen) return id;
+
+  const count = (seen.get(id) ?? 0) + 1;
+  seen.set(id, count);
+  return count === 1 ? id : `${id}-${count}`;
+}
+
+/**
+ * Restore saved state into the components below a root (including nested
+ * shadow roots), matched by `data-component-id`. Returns how many were restored.
+ */
+export function restoreComponentStates(root: ParentNode, source: ComponentStateSource): number {
+  const states = toComponentStates(source);
+  let restored = 0;
+  for (const el of queryAllDeep(root, '[data-component-id]')) {
+    const state = states[el.getAttribute('data-component-id')!];
+    const target = el as Element & { restoreState?: (state: ComponentState) => void };
+    if (state && typeof target.restoreState === 'function') {
+      target.restoreState(state);
+      restored++;
+    }
+  }
+  return restored;
+}
+
+/**
+ * Normalize a state source into a map keyed by component id.
+ */
+export function toComponentStates(source: ComponentStateSource): Record<string, ComponentState> {
+  if (!Array.isArray(source)) return source;
+
+  const states: Record<string, ComponentState> = {};
+  for (const action of source) {
+    const { componentId, state } = action.metadata ?? {};
+    if (componentId && state) states[componentId] = state;
+  }
+  return states;
+}
+
 /**
  * Scroll an element's parent to make it visible.
  */
@@ -59,3 +118,46 @@ export function createElement(
 
   return el;
 }
+
+/**
+ * Query elements matching a selector below a root, descending into
+ * open shadow roots (nested components live inside their parent's Shadow DOM).
+ */
+export function queryAllDeep(root: ParentNode, selector: string): Element[] {
+  const results: Element[] = [];
+  const visit = (node: ParentNode): void => {
+    for (const el of Array.from(node.querySelectorAll('*'))) {
+      if (el.matches(selector)) results.push(el);
+      if (el.shadowRoot) visit(el.shadowRoot);
+    }
+  };
+  visit(root);
+  return results;
+}
+
+/**
+ * Render contexts attached to containers and shadow roots.
+ */
+const renderContexts = new WeakMap<Node, RenderContext>();
+
+/**
+ * Attach a render context to a node. Components mounted below it
+ * (including inside nested shadow roots) will resolve this context.
+ */
+export function setRenderContext(node: Node, context: RenderContext): void {
+  renderContexts.set(node, context);
+}
+
+/**
+ * Find the closest render context for a node, walking up through
+ * parent nodes and across shadow root boundaries.
+ */
+export function findRenderContext(node: Node): RenderContext | null {
+  let current: Node | null = node;
+  while (current) {
+    const context = renderContexts.get(current);
+    if (context) return context;
+    current = current.parentNode ?? (current as ShadowRoot).host ?? null;
+  }
+  return null;
+}
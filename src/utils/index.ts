@@ -3,3 +3,4 @@ export * from './validate';
 export * from './json';
 export * from './dom';
 export * from './sanitize';
+export * from './sandbox';
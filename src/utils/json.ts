@@ -26,6 +26,29 @@ export function safeParseJSON(
   }
 }
 
+/**
+ * Apply a JSON merge patch (RFC 7386) without mutating the target: objects
+ * merge recursively, `null` removes a key, anything else (arrays included)
+ * replaces the value.
+ */
+export function mergePatch(target: any, patch: any): any {
+  if (!isPlainObject(patch)) return patch;
+
+  const result: Record<string, any> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 /**
  * Extracts the component type and JSON string from a livellm code fence content.
  * Returns null if the format doesn't match.
@@ -82,3 +105,229 @@ export function parseLiveLLMInline(text: string): {
     props: parsed.data,
   };
 }
+
+type PartialJSONFrame = {
+  kind: 'object' | 'array';
+  value: any;
+  key: string | null;
+  expect: 'key' | 'colon' | 'value' | 'comma';
+};
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t',
+};
+
+const JSON_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * Tolerant incremental JSON parser for streamed livellm blocks.
+ *
+ * Characters are fed as they arrive and `value` always holds everything
+ * parsed so far: open objects and arrays are already attached to their
+ * parent, strings grow as they stream, while half-typed keys, numbers and
+ * literals are left out until they complete. Input after the root value
+ * is ignored; malformed input stops the parser and keeps the last good
+ * value (`failed`). Each character is processed once, so feeding a whole
+ * block costs O(n) however often `value` is read.
+ */
+export class IncrementalJSONParser {
+  private stack: PartialJSONFrame[] = [];
+  private root: any = undefined;
+  private done: boolean = false;
+  private error: boolean = false;
+
+  // Scalar being read
+  private mode: 'none' | 'string' | 'bare' = 'none';
+  private buffer: string = '';
+  private escape: string | null = null;
+  private stringIsKey: boolean = false;
+  private slot: { container: any; key: string | number } | null = null;
+
+  /**
+   * Feed a chunk of JSON text.
+   */
+  push(chunk: string): void {
+    for (const ch of chunk) {
+      if (this.done || this.error) return;
+      this.consume(ch);
+    }
+  }
+
+  /**
+   * The value parsed so far (undefined before the first value starts).
+   */
+  get value(): any {
+    return this.root;
+  }
+
+  /**
+   * Whether the root value has been closed.
+   */
+  get complete(): boolean {
+    return this.done;
+  }
+
+  /**
+   * Whether the input stopped being valid JSON.
+   */
+  get failed(): boolean {
+    return this.error;
+  }
+
+  private consume(ch: string): void {
+    if (this.mode === 'string') {
+      this.consumeStringChar(ch);
+      return;
+    }
+    if (this.mode === 'bare') {
+      if (/[\w.+-]/.test(ch)) {
+        this.buffer += ch;
+        return;
+      }
+      this.finishBare();
+      if (this.done || this.error) return;
+    }
+    if (ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t') return;
+
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      this.startValue(ch);
+      return;
+    }
+
+    switch (frame.expect) {
+      case 'key':
+        if (ch === '"') {
+          this.mode = 'string';
+          this.stringIsKey = true;
+          this.buffer = '';
+        } else if (ch === '}') {
+          this.closeFrame();
+        } else {
+          this.error = true;
+        }
+        break;
+      case 'colon':
+        if (ch === ':') frame.expect = 'value';
+        else this.error = true;
+        break;
+      case 'value':
+        if (ch === ']' && frame.kind === 'array' && frame.value.length === 0) this.closeFrame();
+        else this.startValue(ch);
+        break;
+      case 'comma':
+        if (ch === ',') frame.expect = frame.kind === 'object' ? 'key' : 'value';
+        else if (ch === (frame.kind === 'object' ? '}' : ']')) this.closeFrame();
+        else this.error = true;
+        break;
+    }
+  }
+
+  private startValue(ch: string): void {
+    if (ch === '{' || ch === '[') {
+      const frame: PartialJSONFrame = ch === '{'
+        ? { kind: 'object', value: {}, key: null, expect: 'key' }
+        : { kind: 'array', value: [], key: null, expect: 'value' };
+      this.attach(frame.value);
+      this.stack.push(frame);
+    } else if (ch === '"') {
+      this.mode = 'string';
+      this.stringIsKey = false;
+      this.buffer = '';
+      this.slot = this.attach('');
+    } else if (/[-0-9tfn]/.test(ch)) {
+      this.mode = 'bare';
+      this.buffer = ch;
+    } else {
+      this.error = true;
+    }
+  }
+
+  /**
+   * Attach a value to the innermost open container (or make it the root)
+   * and return the slot it was stored in.
+   */
+  private attach(value: any): { container: any; key: string | number } | null {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      this.root = value;
+      return null;
+    }
+    frame.expect = 'comma';
+    if (frame.kind === 'array') {
+      frame.value.push(value);
+      return { container: frame.value, key: frame.value.length - 1 };
+    }
+    frame.value[frame.key!] = value;
+    return { container: frame.value, key: frame.key! };
+  }
+
+  private consumeStringChar(ch: string): void {
+    if (this.escape !== null) {
+      if (this.escape === '') {
+        if (ch === 'u') {
+          this.escape = 'u';
+          return;
+        }
+        if (!(ch in JSON_ESCAPES)) {
+          this.error = true;
+          return;
+        }
+        this.buffer += JSON_ESCAPES[ch];
+      } else {
+        this.escape += ch;
+        if (this.escape.length < 5) return;
+        const code = this.escape.slice(1);
+        if (!/^[0-9a-fA-F]{4}$/.test(code)) {
+          this.error = true;
+          return;
+        }
+        this.buffer += String.fromCharCode(parseInt(code, 16));
+      }
+      this.escape = null;
+    } else if (ch === '\\') {
+      this.escape = '';
+      return;
+    } else if (ch === '"') {
+      this.mode = 'none';
+      if (this.stringIsKey) {
+        const frame = this.stack[this.stack.length - 1];
+        frame.key = this.buffer;
+        frame.expect = 'colon';
+      } else if (this.stack.length === 0) {
+        this.done = true;
+      }
+      return;
+    } else {
+      this.buffer += ch;
+    }
+
+    if (!this.stringIsKey) {
+      if (this.slot) this.slot.container[this.slot.key] = this.buffer;
+      else this.root = this.buffer;
+    }
+  }
+
+  private finishBare(): void {
+    const text = this.buffer;
+    this.mode = 'none';
+
+    let value: boolean | number | null;
+    if (text === 'true') value = true;
+    else if (text === 'false') value = false;
+    else if (text === 'null') value = null;
+    else if (JSON_NUMBER.test(text)) value = Number(text);
+    else {
+      this.error = true;
+      return;
+    }
+
+    this.attach(value);
+    if (this.stack.length === 0) this.done = true;
+  }
+
+  private closeFrame(): void {
+    this.stack.pop();
+    if (this.stack.length === 0) this.done = true;
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Isolated code execution for the code-runner component.
+ *
+ * Code runs in a dedicated Web Worker (no DOM access; network, storage and
+ * worker APIs removed from the global and its prototype chain) or, where
+ * workers are unavailable, in an iframe sandboxed without
+ * `allow-same-origin`. The host page never evaluates the code. In the iframe
+ * the removal is best effort — a nested frame has its own globals — so
+ * there the opaque origin (no access to the host's cookies, storage or DOM)
+ * is the boundary.
+ */
+
+export type SandboxStream = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export type SandboxStatus = 'success' | 'error' | 'timeout' | 'killed' | 'output-limit';
+
+export interface SandboxOptions {
+  /** Wall-clock limit in ms before the run is terminated. */
+  timeout: number;
+  /** Maximum number of output characters collected before the run is terminated. */
+  maxOutput: number;
+  /** Called for every console line as it arrives. */
+  onOutput?: (entry: SandboxOutput) => void;
+}
+
+export interface SandboxOutput {
+  stream: SandboxStream;
+  text: string;
+}
+
+export interface SandboxResult {
+  status: SandboxStatus;
+  output: SandboxOutput[];
+  /** Stringified return value of the code, if any. */
+  result?: string;
+  /** Error message when status is 'error'. */
+  error?: string;
+  durationMs: number;
+}
+
+export interface SandboxRun {
+  /** Resolves once the run finishes, fails, times out or is killed. */
+  result: Promise<SandboxResult>;
+  /** Terminate the run immediately. */
+  kill(): void;
+}
+
+interface SandboxMessage {
+  kind: 'log' | 'done' | 'error';
+  stream?: SandboxStream;
+  text?: string;
+  result?: string;
+  message?: string;
+}
+
+/**
+ * Script evaluated inside the sandbox. `__post` is provided by the
+ * environment-specific prelude (worker or iframe).
+ */
+const SANDBOX_BOOTSTRAP = [
+  '(function () {',
+  '  var post = __post;',
+  '  var blocked = ["fetch", "XMLHttpRequest", "WebSocket", "EventSource", "importScripts",',
+  '    "indexedDB", "caches", "BroadcastChannel", "localStorage", "sessionStorage", "open",',
+  '    "Worker", "SharedWorker"];',
+  '  blocked.forEach(function (name) {',
+  // Accessors like fetch and importScripts live on WorkerGlobalScope.prototype:
+  // remove them there too, or Object.getPrototypeOf(self) brings them back
+  '    for (var target = Object.getPrototypeOf(self); target; target = Object.getPrototypeOf(target)) {',
+  '      if (!Object.prototype.hasOwnProperty.call(target, name)) continue;',
+  '      try { delete target[name]; } catch (e) {}',
+  '      try { Object.defineProperty(target, name, { value: undefined, configurable: false }); } catch (e) {}',
+  '    }',
+  '    try { Object.defineProperty(self, name, { value: undefined, configurable: false }); } catch (e) {}',
+  '  });',
+  '  function format(args) {',
+  '    return Array.prototype.map.call(args, function (a) {',
+  '      if (typeof a === "string") return a;',
+  '      try { var json = JSON.stringify(a); return json === undefined ? String(a) : json; }',
+  '      catch (e) { return String(a); }',
+  '    }).join(" ");',
+  '  }',
+  '  var sandboxConsole = {};',
+  '  ["log", "info", "warn", "error", "debug"].forEach(function (stream) {',
+  '    sandboxConsole[stream] = function () { post({ kind: "log", stream: stream, text: format(arguments) }); };',
+  '  });',
+  '  __onCode(function (code) {',
+  '    try {',
+  '      var value = new Function("console", code)(sandboxConsole);',
+  '      Promise.resolve(value).then(function (resolved) {',
+  '        post({ kind: "done", result: resolved === undefined ? undefined : format([resolved]) });',
+  '      }, function (err) {',
+  '        post({ kind: "error", message: err && err.message ? err.message : String(err) });',
+  '      });',
+  '    } catch (err) {',
+  '      post({ kind: "error", message: err && err.message ? err.message : String(err) });',
+  '    }',
+  '  });',
+  '})();',
+].join('\n');
+
+const WORKER_PRELUDE = [
+  'var __post = self.postMessage.bind(self);',
+  'var __onCode = function (run) {',
+  '  self.onmessage = function (event) { self.onmessage = null; run(String(event.data.code)); };',
+  '};',
+].join('\n');
+
+const IFRAME_PRELUDE = [
+  'var __post = function (msg) { parent.postMessage(msg, "*"); };',
+  'var __onCode = function (run) {',
+  '  var listener = function (event) {',
+  '    if (event.source !== parent) return;',
+  '    window.removeEventListener("message", listener);',
+  '    run(String(event.data.code));',
+  '  };',
+  '  window.addEventListener("message", listener);',
+  '};',
+].join('\n');
+
+/**
+ * Run JavaScript in an isolated sandbox with a timeout and output limit.
+ */
+export function runInSandbox(code: string, options: SandboxOptions): SandboxRun {
+  const output: SandboxOutput[] = [];
+  const startedAt = Date.now();
+  let outputSize = 0;
+  let settled = false;
+  let resolveRun: (result: SandboxResult) => void = () => {};
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const result = new Promise<SandboxResult>((resolve) => {
+    resolveRun = resolve;
+  });
+
+  const host = typeof Worker !== 'undefined' && typeof Blob !== 'undefined'
+    ? createWorkerHost(handleMessage)
+    : createIframeHost(handleMessage);
+
+  function finish(status: SandboxStatus, extra: Partial<SandboxResult> = {}): void {
+    if (settled) return;
+    settled = true;
+    if (timer !== null) clearTimeout(timer);
+    host.destroy();
+    resolveRun({ status, output, durationMs: Date.now() - startedAt, ...extra });
+  }
+
+  function handleMessage(message: SandboxMessage): void {
+    if (settled || !message || typeof message !== 'object') return;
+
+    switch (message.kind) {
+      case 'log': {
+        const text = String(message.text ?? '');
+        const remaining = options.maxOutput - outputSize;
+        const entry: SandboxOutput = {
+          stream: message.stream ?? 'log',
+          text: text.length > remaining ? text.slice(0, Math.max(0, remaining)) : text,
+        };
+        outputSize += text.length;
+        output.push(entry);
+        options.onOutput?.(entry);
+        if (outputSize > options.maxOutput) {
+          finish('output-limit');
+        }
+        break;
+      }
+      case 'done':
+        finish('success', message.result !== undefined ? { result: String(message.result) } : {});
+        break;
+      case 'error':
+        finish('error', { error: String(message.message ?? 'Unknown error') });
+        break;
+    }
+  }
+
+  timer = setTimeout(() => finish('timeout'), options.timeout);
+
+  try {
+    host.start(code);
+  } catch (err) {
+    finish('error', { error: (err as Error).message || String(err) });
+  }
+
+  return {
+    result,
+    kill: () => finish('killed'),
+  };
+}
+
+interface SandboxHost {
+  start(code: string): void;
+  destroy(): void;
+}
+
+function createWorkerHost(onMessage: (message: SandboxMessage) => void): SandboxHost {
+  const blob = new Blob([`${WORKER_PRELUDE}\n${SANDBOX_BOOTSTRAP}`], { type: 'text/javascript' });
+  const url = URL.createObjectURL(blob);
+  const worker = new Worker(url);
+
+  worker.onmessage = (event: MessageEvent) => onMessage(event.data);
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    onMessage({ kind: 'error', message: event.message || 'Worker error' });
+  };
+
+  return {
+    start: (code) => worker.postMessage({ code }),
+    destroy: () => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+function createIframeHost(onMessage: (message: SandboxMessage) => void): SandboxHost {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.style.display = 'none';
+  iframe.srcdoc = `<script>${IFRAME_PRELUDE}\n${SANDBOX_BOOTSTRAP}</script>`;
+
+  const listener = (event: MessageEvent) => {
+    if (event.source !== iframe.contentWindow) return;
+    onMessage(event.data);
+  };
+  window.addEventListener('message', listener);
+
+  return {
+    start: (code) => {
+      iframe.addEventListener('load', () => {
+        iframe.contentWindow?.postMessage({ code }, '*');
+      });
+      document.body.appendChild(iframe);
+    },
+    destroy: () => {
+      window.removeEventListener('message', listener);
+      iframe.remove();
+    },
+  };
+}
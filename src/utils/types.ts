@@ -2,10 +2,13 @@
 // LiveLLM Type Definitions
 // ═══════════════════════════════════════════════════════════════
 
+import type { I18n } from '../core/i18n';
+import type { ActionFormatter } from '../protocol/formatters';
+
 // ─── Configuration ───────────────────────────────────────────
 
 export type TransformerMode = 'auto' | 'passive' | 'off';
-export type ThemeName = 'default' | 'dark' | 'minimal' | 'custom';
+export type ThemeName = 'default' | 'dark' | 'minimal' | 'auto' | 'custom';
 export type ComponentCategory = 'block' | 'inline' | 'action';
 
 export interface TransformerConfig {
@@ -25,6 +28,7 @@ export interface RendererConfig {
   shadowDom: boolean;
   sanitize: boolean;
   proseStyles: boolean;
+  maxNestingDepth: number;
 }
 
 export interface StreamingConfig {
@@ -38,12 +42,19 @@ export interface StreamingConfig {
 export interface ActionsConfig {
   onAction: (action: LiveLLMAction) => void;
   autoSend: boolean;
+  /** Show pending actions in the built-in preview bar when autoSend is off (default false). */
   showPreview: boolean;
+  /** Container for the preview bar; defaults to a bar fixed to the page bottom. */
+  previewTarget?: string | HTMLElement;
+  /** Hold grouped actions until the whole group is answered, then send one combined action. */
+  groupActions?: boolean;
   labelTemplates: Record<string, (...args: any[]) => string>;
 }
 
 export interface SecurityConfig {
   enableCodeRunner: boolean;
+  codeRunnerTimeout: number;
+  codeRunnerMaxOutput: number;
   allowedOrigins: string[];
   maxJsonSize: number;
 }
@@ -61,6 +72,27 @@ export interface LiveLLMConfig {
   actions: ActionsConfig;
   security: SecurityConfig;
   themeVars: Record<string, string>;
+  /** Per-instance overrides for built-in UI strings, keyed by message key. */
+  messages: Record<string, string>;
+}
+
+// ─── Render Context ──────────────────────────────────────────
+
+/**
+ * Rendering services a Renderer exposes to the components it mounts,
+ * so container components can render nested Markdown and livellm blocks.
+ */
+export interface RenderContext {
+  /** Render a Markdown fragment with the owning instance's parser (and sanitizer). */
+  renderMarkdown: (markdown: string) => string;
+  /** Nesting depth of the content rendered through this context (0 = message level). */
+  depth: number;
+  /** Depth at which nested content falls back to plain text. */
+  maxDepth: number;
+  /** Security settings of the owning instance (e.g. code-runner execution). */
+  security: SecurityConfig;
+  /** UI strings and number/date formatting for the instance's locale. */
+  i18n: I18n;
 }
 
 // ─── Actions ─────────────────────────────────────────────────
@@ -71,13 +103,119 @@ export interface LiveLLMAction {
   action: string;
   value: any;
   label: string;
+  /** Other fields of the component's action data (e.g. the rating `max`, file info). */
+  data?: Record<string, any>;
+  /** Member actions of a combined action (component 'group'), in document order. */
+  actions?: LiveLLMAction[];
   metadata: {
     componentId: string;
     timestamp: number;
     questionContext?: string;
+    /** Component state after the interaction (see LiveLLMComponent.getState). */
+    state?: ComponentState;
+    /** Set when the component is one of several action components answered together. */
+    group?: ActionGroup;
+    /** Set when the user rewrote `label` in the preview bar. */
+    edited?: boolean;
   };
 }
 
+/**
+ * The action components answered together: all of a message's action
+ * components, or those sharing a `group` prop.
+ */
+export interface ActionGroup {
+  id: string;
+  /** Number of components in the group. */
+  size: number;
+  /** Position of this component in the group (document order). */
+  index: number;
+}
+
+/**
+ * Payload of `action:group:progress`.
+ */
+export interface ActionGroupProgress {
+  id: string;
+  answered: number;
+  total: number;
+}
+
+/**
+ * One action a component can emit, declared in its registration.
+ * `value` describes the action's value, `data` the other fields of the
+ * event data. `label` is used when the component sends no label;
+ * `{name}` is replaced with the event data field of that name.
+ */
+export interface ActionDefinition {
+  value: SchemaProperty;
+  data?: ComponentSchema;
+  label?: string;
+}
+
+/**
+ * The actions of a component, by action name.
+ */
+export type ActionCatalog = Record<string, ActionDefinition>;
+
+/**
+ * Payloads of the built-in components' actions, discriminated by `action`.
+ * Narrow a `LiveLLMAction` with `isAction(action, name)`.
+ */
+export type BuiltInActionPayload =
+  | { component: 'choice'; action: 'choice-select'; value: string }
+  | { component: 'multi-choice'; action: 'multi-choice-submit'; value: string[] }
+  | { component: 'confirm'; action: 'confirm-response'; value: boolean }
+  | { component: 'slider'; action: 'slider-submit'; value: number }
+  | { component: 'rating-input'; action: 'rating-submit'; value: number }
+  | { component: 'date-picker'; action: 'date-select'; value: string }
+  | { component: 'text-input'; action: 'text-submit'; value: string }
+  | { component: 'file-upload'; action: 'file-upload'; value: string }
+  | { component: 'form'; action: 'submit'; value: Record<string, any> }
+  | { component: 'code-runner'; action: 'code-copy'; value: string }
+  | { component: 'code-runner'; action: 'code-run'; value: string }
+  | { component: 'map'; action: 'open-map'; value: { lat: number; lng: number; title: string; address: string } }
+  | { component: 'chart'; action: 'segment-click'; value: { label: string; value: number } }
+  | { component: 'table-plus'; action: 'row-click'; value: { row: Record<string, any>; index: number } }
+  | { component: 'pricing'; action: 'pricing-select'; value: string }
+  | { component: 'accordion'; action: 'toggle'; value: { index: number; open: boolean; title: string } }
+  | { component: 'carousel'; action: 'carousel-navigate'; value: number }
+  | { component: 'tabs'; action: 'tab-switch'; value: { index: number; label: string } }
+  | { component: 'tag'; action: 'tag-click'; value: string }
+  | { component: 'group'; action: 'submit-all'; value: unknown[] };
+
+export type BuiltInActionName = BuiltInActionPayload['action'];
+
+/**
+ * The payload of a built-in action, by action name.
+ */
+export type ActionPayloadOf<A extends BuiltInActionName> = Extract<BuiltInActionPayload, { action: A }>;
+
+/**
+ * Payload of `action:invalid`: an action event rejected by the renderer.
+ */
+export interface InvalidActionEvent {
+  component: string;
+  action: string;
+  data: unknown;
+  componentId: string;
+  errors: ValidationError[];
+}
+
+// ─── Component State ─────────────────────────────────────────
+
+/**
+ * JSON-serializable interaction state of a component — the selected option,
+ * the entered text, whether it was submitted.
+ */
+export type ComponentState = Record<string, any>;
+
+/**
+ * Saved component states: a map keyed by stable component id, or a log of
+ * actions whose `metadata.state` is replayed (the last one per id wins).
+ */
+export type ComponentStateSource = Record<string, ComponentState> | LiveLLMAction[];
+
 // ─── Registry ────────────────────────────────────────────────
 
 export type SchemaPropertyType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'enum';
@@ -110,6 +248,11 @@ export interface ComponentRegistration {
   category: ComponentCategory;
   lazy: boolean;
   moduleUrl: string | null;
+  progressive: boolean;
+  /** Actions the component emits. Empty = not declared (not validated). */
+  actions: ActionCatalog;
+  /** Turns the component's actions into a user turn (see formatActionAsMessage). */
+  formatAction: ActionFormatter | null;
 }
 
 export interface ValidationResult {
@@ -173,6 +316,14 @@ export interface Detection {
   apply: () => void;
 }
 
+/** A replacement the Transformer applies to the source markdown. */
+export interface TransformEdit {
+  type: string;
+  start: number;
+  end: number;
+  replacement: string;
+}
+
 // ─── Events ──────────────────────────────────────────────────
 
 export type EventHandler = (...args: any[]) => void;
@@ -200,6 +351,8 @@ export interface StreamRendererOptions {
   autoScroll: boolean;
   showCursor: boolean;
   cursorChar: string;
+  /** Mark an aborted stream with a "Stopped" note after the text so far. */
+  showStopped: boolean;
   onStart?: () => void;
   onToken?: (token: string) => void;
   onComponentStart?: (type: string) => void;
@@ -1,4 +1,4 @@
-import type { ComponentSchema, SchemaProperty, ValidationResult, ValidationError } from './types';
+import type { ActionDefinition, ComponentSchema, SchemaProperty, ValidationResult, ValidationError } from './types';
 
 /**
  * Schema validation engine for component props.
@@ -41,6 +41,27 @@ export function validateProps(
   };
 }
 
+/**
+ * Validate the data of an action event against the action's definition.
+ * The value is required; other declared fields are checked when present.
+ */
+export function validateAction(
+  definition: ActionDefinition,
+  data: unknown
+): ValidationResult {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return {
+      valid: false,
+      errors: [{ prop: 'data', expected: 'object', received: Array.isArray(data) ? 'array' : typeof data, message: 'data must be an object' }],
+    };
+  }
+
+  return validateProps(
+    { ...definition.data, value: { ...definition.value, required: true } },
+    data as Record<string, any>
+  );
+}
+
 function validateType(
   key: string,
   value: any,
@@ -101,6 +122,12 @@ function validateType(
           message: `${key} must be an array`,
         };
       }
+      if (def.items) {
+        for (let i = 0; i < value.length; i++) {
+          const itemError = validateType(`${key}[${i}]`, value[i], def.items);
+          if (itemError) return itemError;
+        }
+      }
       break;
 
     case 'object':
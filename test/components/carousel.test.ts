@@ -90,4 +90,29 @@ describe('Carousel Component', () => {
     expect(dots[1].classList.contains('active')).toBe(true);
     expect(dots[0].classList.contains('active')).toBe(false);
   });
+
+  it('should move between slides without re-rendering them', () => {
+    const el = createCarousel({
+      slides: [
+        { title: 'First', content: 'c1' },
+        { title: 'Second', content: 'c2' },
+      ],
+    });
+    const shadow = el.shadowRoot!;
+    const slides = Array.from(shadow.querySelectorAll('.carousel-slide'));
+    const prevBtn = shadow.querySelector('.carousel-btn[data-dir="prev"]') as HTMLButtonElement;
+    const nextBtn = shadow.querySelector('.carousel-btn[data-dir="next"]') as HTMLButtonElement;
+    expect(prevBtn.disabled).toBe(true);
+
+    nextBtn.click();
+    expect(Array.from(shadow.querySelectorAll('.carousel-slide'))).toEqual(slides);
+    expect(slides[1].classList.contains('active')).toBe(true);
+    expect((shadow.querySelector('.carousel-track') as HTMLElement).style.transform).toBe('translateX(-100%)');
+    expect(nextBtn.disabled).toBe(true);
+    expect(prevBtn.disabled).toBe(false);
+
+    (shadow.querySelectorAll('.carousel-dot')[0] as HTMLElement).click();
+    expect(slides[0].classList.contains('active')).toBe(true);
+    expect(prevBtn.disabled).toBe(true);
+  });
 });
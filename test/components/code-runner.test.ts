@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { LiveLLMCodeRunner, CODE_RUNNER_REGISTRATION } from '../../src/components/block/code-runner';
+import { setRenderContext } from '../../src/utils/dom';
 
 const tagName = 'livellm-test-code-runner';
 try { customElements.define(tagName, LiveLLMCodeRunner); } catch {}
@@ -93,3 +94,102 @@ describe('Code Runner Component', () => {
     expect(lines.length).toBe(3);
   });
 });
+
+describe('Code Runner Execution', () => {
+  class FakeWorker {
+    static instances: FakeWorker[] = [];
+    onmessage: ((event: MessageEvent) => void) | null = null;
+    onerror: ((event: Event) => void) | null = null;
+    posted: any[] = [];
+    terminated = false;
+    constructor() { FakeWorker.instances.push(this); }
+    postMessage(data: any): void { this.posted.push(data); }
+    terminate(): void { this.terminated = true; }
+    emit(data: any): void { this.onmessage?.({ data } as MessageEvent); }
+  }
+
+  function mountWithSecurity(enableCodeRunner: boolean): LiveLLMCodeRunner {
+    const container = document.createElement('div');
+    setRenderContext(container, {
+      renderMarkdown: (md) => md,
+      depth: 0,
+      maxDepth: 3,
+      security: {
+        enableCodeRunner,
+        codeRunnerTimeout: 1000,
+        codeRunnerMaxOutput: 1000,
+        allowedOrigins: ['*'],
+        maxJsonSize: 50000,
+      },
+    });
+    document.body.appendChild(container);
+
+    const el = document.createElement(tagName) as LiveLLMCodeRunner;
+    el.setAttribute('data-livellm', 'code-runner');
+    el.setAttribute('data-props', JSON.stringify({
+      code: 'console.log("hi")',
+      language: 'javascript',
+      runnable: true,
+    }));
+    container.appendChild(el);
+    return el;
+  }
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should show a disabled state when mounted without a renderer', () => {
+    const el = createCodeRunner({ code: 'console.log(1)', language: 'javascript', runnable: true });
+    const shadow = el.shadowRoot!;
+    const runBtn = shadow.querySelector('.cr-btn.run') as HTMLButtonElement;
+    expect(runBtn.disabled).toBe(true);
+    expect(shadow.querySelector('.cr-disabled')?.textContent).toContain('disabled');
+
+    runBtn.click();
+    expect(FakeWorker.instances.length).toBe(0);
+  });
+
+  it('should refuse to run when enableCodeRunner is false', () => {
+    const el = mountWithSecurity(false);
+    const listener = vi.fn();
+    el.addEventListener('livellm:action', listener);
+
+    (el.shadowRoot!.querySelector('.cr-btn.run') as HTMLElement).click();
+    expect(FakeWorker.instances.length).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should run code in the sandbox and show captured output', async () => {
+    const el = mountWithSecurity(true);
+    (el.shadowRoot!.querySelector('.cr-btn.run') as HTMLElement).click();
+
+    const worker = FakeWorker.instances[0];
+    expect(worker.posted[0].code).toBe('console.log("hi")');
+    expect(el.shadowRoot!.querySelector('.cr-btn.kill')).toBeTruthy();
+
+    worker.emit({ kind: 'log', stream: 'log', text: 'hi' });
+    worker.emit({ kind: 'done' });
+    await new Promise((r) => setTimeout(r, 0));
+
+    const output = el.shadowRoot!.querySelector('.cr-output');
+    expect(output?.textContent).toContain('hi');
+    expect(el.shadowRoot!.querySelector('.cr-btn.kill')).toBeNull();
+  });
+
+  it('should stop a running execution with the kill button', async () => {
+    const el = mountWithSecurity(true);
+    (el.shadowRoot!.querySelector('.cr-btn.run') as HTMLElement).click();
+    (el.shadowRoot!.querySelector('.cr-btn.kill') as HTMLElement).click();
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    expect(el.shadowRoot!.querySelector('.cr-output')?.textContent).toContain('Execution stopped');
+  });
+});
@@ -88,6 +88,25 @@ describe('Multi-Choice Component', () => {
     expect(handler.mock.calls[0][0].data.value).toEqual(['a', 'c']);
   });
 
+  it('should emit numeric option values as strings', () => {
+    const el = createMultiChoice({
+      question: 'Team sizes?',
+      options: [{ label: 'Small', value: 5 }, { label: 'Large', value: 50 }, 100],
+      max: 3,
+    });
+
+    const handler = vi.fn();
+    el.addEventListener('livellm:action', (e) => handler((e as CustomEvent).detail));
+
+    const options = el.shadowRoot!.querySelectorAll('.mc-option');
+    (options[0] as HTMLElement).click();
+    (options[2] as HTMLElement).click();
+    (el.shadowRoot!.querySelector('.mc-submit') as HTMLElement).click();
+
+    expect(options[2].textContent).toContain('100');
+    expect(handler.mock.calls[0][0].data.value).toEqual(['5', '100']);
+  });
+
   it('should show hint with min/max', () => {
     const el = createMultiChoice({
       options: [
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LiveLLMToolActivity, TOOL_ACTIVITY_REGISTRATION } from '../../src/components/block/tool-activity';
+
+const tagName = 'livellm-test-tool-activity';
+try { customElements.define(tagName, LiveLLMToolActivity); } catch {}
+
+function createToolActivity(props: Record<string, any>): LiveLLMToolActivity {
+  const el = document.createElement(tagName) as LiveLLMToolActivity;
+  el.setAttribute('data-livellm', 'tool-activity');
+  el.setAttribute('data-props', JSON.stringify(props));
+  document.body.appendChild(el);
+  return el;
+}
+
+describe('Tool Activity Component', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should export registration with correct schema', () => {
+    expect(TOOL_ACTIVITY_REGISTRATION.schema.name.required).toBe(true);
+    expect(TOOL_ACTIVITY_REGISTRATION.schema.status.enum).toEqual(['running', 'success', 'error']);
+    expect(TOOL_ACTIVITY_REGISTRATION.category).toBe('block');
+  });
+
+  it('should render a collapsed running tool', () => {
+    const el = createToolActivity({ name: 'web_search', status: 'running', arguments: { query: 'livellm' } });
+    const shadow = el.shadowRoot!;
+
+    expect(shadow.querySelector('.tool')!.className).toBe('tool running');
+    expect(shadow.querySelector('.tool-label')!.textContent).toBe('Running web_search…');
+    expect(shadow.querySelector('.tool-header')!.getAttribute('aria-expanded')).toBe('false');
+  });
+
+  it('should show the arguments and result when expanded', () => {
+    const el = createToolActivity({
+      name: 'sql',
+      status: 'success',
+      arguments: { query: 'SELECT 1' },
+      output: '1 row',
+    });
+    const shadow = el.shadowRoot!;
+    shadow.querySelector<HTMLElement>('.tool-header')!.click();
+
+    expect(shadow.querySelector('.tool')!.classList.contains('expanded')).toBe(true);
+    expect(shadow.querySelector('.tool-header')!.getAttribute('aria-expanded')).toBe('true');
+    expect(shadow.querySelector('.tool-label')!.textContent).toBe('Ran sql');
+    expect(JSON.parse(shadow.querySelector('.tool-arguments')!.textContent!)).toEqual({ query: 'SELECT 1' });
+    expect(shadow.querySelector('.tool-output')!.textContent).toBe('1 row');
+  });
+
+  it('should stay expanded when the result arrives', () => {
+    const el = createToolActivity({ name: 'run_code', status: 'running', arguments: { code: '1/0' } });
+    el.shadowRoot!.querySelector<HTMLElement>('.tool-header')!.click();
+
+    el.applyPatch({ status: 'error', output: 'ZeroDivisionError' });
+
+    const shadow = el.shadowRoot!;
+    expect(shadow.querySelector('.tool')!.className).toBe('tool error expanded');
+    expect(shadow.querySelector('.tool-label')!.textContent).toBe('run_code failed');
+    expect(shadow.querySelector('.tool-output')!.textContent).toBe('ZeroDivisionError');
+  });
+
+  it('should escape the tool name and output', () => {
+    const el = createToolActivity({ name: '<b>x</b>', status: 'success', output: '<img src=x>' });
+    const shadow = el.shadowRoot!;
+
+    expect(shadow.querySelector('b')).toBeNull();
+    expect(shadow.querySelector('img')).toBeNull();
+    expect(shadow.querySelector('.tool-arguments')).toBeNull();
+  });
+});
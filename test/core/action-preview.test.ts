@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Actions } from '../../src/core/actions';
+import { I18n } from '../../src/core/i18n';
+import { LiveLLMInstance } from '../../src/core/livellm';
+import type { LiveLLMAction } from '../../src/utils/types';
+import { LiveLLMChoice, CHOICE_REGISTRATION } from '../../src/components/action/choice';
+
+function createAction(label: string): LiveLLMAction {
+  return {
+    type: 'livellm:action',
+    component: 'choice',
+    action: 'choice-select',
+    value: label,
+    label: `Selected: ${label}`,
+    metadata: { componentId: `id-${label}`, timestamp: Date.now() },
+  };
+}
+
+function bar(): ShadowRoot | null {
+  return document.querySelector('.livellm-action-preview')?.shadowRoot ?? null;
+}
+
+function button(name: string): HTMLButtonElement {
+  return bar()!.querySelector(`[data-action="${name}"]`) as HTMLButtonElement;
+}
+
+function press(key: string, init: KeyboardEventInit = {}): void {
+  const target = (bar()!.activeElement ?? bar()!.querySelector('button')) as HTMLElement;
+  target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, composed: true, ...init }));
+}
+
+describe('Action preview bar', () => {
+  let events: EventBus;
+  let onAction: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    events = new EventBus();
+    onAction = vi.fn();
+  });
+
+  it('should show the pending action and send it on Send', () => {
+    new Actions(events, { onAction, showPreview: true });
+    const onSent = vi.fn();
+    events.on('action:sent', onSent);
+
+    const action = createAction('Vue');
+    events.emit('action:triggered', action);
+
+    expect(bar()!.querySelector('.preview-label')?.textContent).toBe('Selected: Vue');
+    expect(document.querySelector('.livellm-action-preview')?.getAttribute('role')).toBe('region');
+    expect(onAction).not.toHaveBeenCalled();
+
+    button('send').click();
+    expect(onAction).toHaveBeenCalledWith(action);
+    expect(onSent).toHaveBeenCalledWith(action);
+    expect(bar()).toBeNull();
+  });
+
+  it('should cancel the pending action on Cancel', () => {
+    new Actions(events, { onAction, showPreview: true });
+    const onCancelled = vi.fn();
+    events.on('action:cancelled', onCancelled);
+
+    events.emit('action:triggered', createAction('Vue'));
+    button('cancel').click();
+
+    expect(onCancelled).toHaveBeenCalledTimes(1);
+    expect(onAction).not.toHaveBeenCalled();
+    expect(bar()).toBeNull();
+  });
+
+  it('should queue several pending actions', () => {
+    const actions = new Actions(events, { onAction, showPreview: true });
+    ['React', 'Vue', 'Svelte'].forEach((label) => events.emit('action:triggered', createAction(label)));
+
+    expect(actions.pending).toHaveLength(3);
+    expect(bar()!.querySelector('.preview-queue')?.textContent).toBe('1 of 3');
+
+    button('send').click();
+    expect(bar()!.querySelector('.preview-label')?.textContent).toBe('Selected: Vue');
+    expect(bar()!.querySelector('.preview-queue')?.textContent).toBe('1 of 2');
+
+    button('cancel').click();
+    expect(bar()!.querySelector('.preview-queue')).toBeNull();
+    expect(onAction.mock.calls.map(([a]) => a.value)).toEqual(['React']);
+  });
+
+  it('should drop actions sent or cancelled through the Actions API', () => {
+    const actions = new Actions(events, { onAction, showPreview: true });
+    const first = createAction('React');
+    const second = createAction('Vue');
+    events.emit('action:triggered', first);
+    events.emit('action:triggered', second);
+
+    actions.cancel(second);
+    expect(actions.pending).toEqual([first]);
+    actions.send(first);
+    expect(bar()).toBeNull();
+  });
+
+  it('should edit the label before sending', () => {
+    new Actions(events, { onAction, showPreview: true });
+    const onEdited = vi.fn();
+    events.on('action:edited', onEdited);
+    events.emit('action:triggered', createAction('Vue'));
+
+    button('edit').click();
+    const input = bar()!.querySelector('.preview-input') as HTMLInputElement;
+    expect(bar()!.activeElement).toBe(input);
+    expect(button('edit').textContent).toBe('Save');
+
+    input.value = 'Vue, but with TypeScript';
+    press('Enter');
+    expect(onEdited).toHaveBeenCalledTimes(1);
+    expect(bar()!.querySelector('.preview-label')?.textContent).toBe('Vue, but with TypeScript');
+
+    button('send').click();
+    expect(onAction.mock.calls[0][0].label).toBe('Vue, but with TypeScript');
+  });
+
+  it('should be keyboard accessible', () => {
+    new Actions(events, { onAction, showPreview: true });
+    const onCancelled = vi.fn();
+    events.on('action:cancelled', onCancelled);
+
+    events.emit('action:triggered', createAction('React'));
+    expect(bar()!.activeElement).toBe(button('send'));
+    press('Enter', { ctrlKey: true });
+    expect(onAction).toHaveBeenCalledTimes(1);
+
+    events.emit('action:triggered', createAction('Vue'));
+    button('edit').click();
+    (bar()!.querySelector('.preview-input') as HTMLInputElement).value = 'discarded';
+    press('Escape');
+    expect(bar()!.querySelector('.preview-label')?.textContent).toBe('Selected: Vue');
+    press('Escape');
+    expect(onCancelled).toHaveBeenCalledTimes(1);
+    expect(bar()).toBeNull();
+  });
+
+  it('should return focus once the queue is empty', () => {
+    const trigger = document.createElement('button');
+    document.body.appendChild(trigger);
+    trigger.focus();
+    new Actions(events, { onAction, showPreview: true });
+
+    events.emit('action:triggered', createAction('Vue'));
+    expect(document.activeElement).not.toBe(trigger);
+    button('send').click();
+    expect(document.activeElement).toBe(trigger);
+  });
+
+  it('should leave confirmation to the host by default', () => {
+    new Actions(events, { onAction });
+    const onPreviewing = vi.fn();
+    events.on('action:previewing', onPreviewing);
+
+    events.emit('action:triggered', createAction('Vue'));
+    expect(onPreviewing).toHaveBeenCalledTimes(1);
+    expect(bar()).toBeNull();
+  });
+
+  it('should leave confirmation to the host when showPreview is off', () => {
+    new Actions(events, { onAction, showPreview: false });
+    const onPreviewing = vi.fn();
+    events.on('action:previewing', onPreviewing);
+
+    events.emit('action:triggered', createAction('Vue'));
+    expect(onPreviewing).toHaveBeenCalledTimes(1);
+    expect(bar()).toBeNull();
+  });
+
+  it('should render inline in previewTarget with localized labels', () => {
+    const target = document.createElement('div');
+    document.body.appendChild(target);
+    new Actions(events, { onAction, showPreview: true, previewTarget: target }, new I18n('de'));
+
+    events.emit('action:triggered', createAction('Vue'));
+    const host = target.querySelector('.livellm-action-preview')!;
+    expect(host.hasAttribute('data-inline')).toBe(true);
+    expect(host.getAttribute('lang')).toBe('de');
+    expect(button('send').textContent).toBe('Senden');
+    expect(button('cancel').textContent).toBe('Abbrechen');
+  });
+
+  it('should show a single bar after the instance is re-initialized', () => {
+    const livellm = new LiveLLMInstance();
+    const config = {
+      transformer: { mode: 'off' as const, detectors: 'all' as const, confidenceThreshold: 0.7 },
+      actions: { onAction, autoSend: false, showPreview: true, labelTemplates: {} },
+    };
+    livellm.init(config);
+    livellm.init(config);
+    livellm.register('choice', LiveLLMChoice, CHOICE_REGISTRATION);
+
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    livellm.render('```livellm:choice\n{"question":"Q","options":["a","b"]}\n```', container);
+    (container.querySelector('livellm-choice')!.shadowRoot!.querySelector('.choice-option') as HTMLElement).click();
+
+    expect(document.querySelectorAll('.livellm-action-preview')).toHaveLength(1);
+    expect(bar()!.querySelector('.preview-label')?.textContent).toBe('Selected: a');
+
+    livellm.destroy();
+    expect(bar()).toBeNull();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { EventBus } from '../../src/core/events';
-import { Actions } from '../../src/core/actions';
+import { Actions, isAction } from '../../src/core/actions';
 import type { LiveLLMAction } from '../../src/utils/types';
 
 function createAction(overrides: Partial<LiveLLMAction> = {}): LiveLLMAction {
@@ -122,3 +122,15 @@ describe('Actions', () => {
     expect(onAction2).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('isAction', () => {
+  it('should narrow an action by built-in action name', () => {
+    const action = createAction({ component: 'slider', action: 'slider-submit', value: 42 });
+
+    expect(isAction(action, 'slider-submit')).toBe(true);
+    expect(isAction(action, 'choice-select')).toBe(false);
+    if (isAction(action, 'slider-submit')) {
+      expect(action.value.toFixed(0)).toBe('42');
+    }
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { StreamRenderer } from '../../src/core/stream-renderer';
+import { LiveLLMComponent } from '../../src/components/base';
+import { LiveLLMTablePlus, TABLE_PLUS_REGISTRATION } from '../../src/components/block/table-plus';
+import { connectLiveLLMStream } from '../../src/protocol/client';
+import { createSSEWriter } from '../../src/protocol/server';
+
+class TestJob extends LiveLLMComponent {
+  renders = 0;
+
+  render(): void {
+    this.renders++;
+    this.setContent(`
+      <span class="value">${this._props.value}/${this._props.max}</span>
+      <input class="note" type="text" value="" />
+    `);
+  }
+}
+
+describe('Component updates', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+  let container: HTMLElement;
+
+  function createStream(): StreamRenderer {
+    return new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+    });
+  }
+
+  function props(el: Element | null): Record<string, any> {
+    return JSON.parse(el!.getAttribute('data-props')!);
+  }
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+
+    registry.register('test-job', TestJob, {
+      schema: {
+        value: { type: 'number', required: true, min: 0 },
+        max: { type: 'number', default: 100 },
+      },
+    });
+    registry.register('table-plus', LiveLLMTablePlus, TABLE_PLUS_REGISTRATION);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    container.remove();
+  });
+
+  describe('Renderer', () => {
+    it('should find components by stream id or component id', () => {
+      const sr = createStream();
+      sr.insertComponent('test-job', { value: 1 }, 'job');
+      sr.end();
+
+      const el = container.querySelector('livellm-test-job')!;
+      expect(renderer.getComponent(container, 'job')).toBe(el);
+      expect(renderer.getComponent(container, el.getAttribute('data-component-id')!)).toBe(el);
+      expect(renderer.getComponent(container, 'missing')).toBeNull();
+    });
+
+    it('should patch props and keep local UI state', () => {
+      renderer.render('```livellm:test-job\n{"value":10}\n```', container);
+      const el = container.querySelector('livellm-test-job') as TestJob;
+      const id = el.getAttribute('data-component-id')!;
+      const note = el.shadowRoot!.querySelector<HTMLInputElement>('.note')!;
+      note.value = 'typed, not sent';
+
+      const onUpdated = vi.fn();
+      events.on('renderer:component:updated', onUpdated);
+      expect(renderer.updateComponent(container, id, { value: 40 })).toBe(true);
+
+      expect(props(el)).toEqual({ value: 40, max: 100 });
+      expect(el.shadowRoot!.querySelector('.value')!.textContent).toBe('40/100');
+      expect(el.shadowRoot!.querySelector<HTMLInputElement>('.note')!.value).toBe('typed, not sent');
+      expect(el.renders).toBe(2);
+      expect(el.getAttribute('data-component-id')).toBe(id);
+      expect(onUpdated).toHaveBeenCalledWith(id, el, { value: 40 });
+    });
+
+    it('should fall back to defaults for removed props', () => {
+      renderer.render('```livellm:test-job\n{"value":10,"max":20}\n```', container);
+      const el = container.querySelector('livellm-test-job')!;
+
+      renderer.updateComponent(container, el.getAttribute('data-component-id')!, { max: null });
+      expect(props(el)).toEqual({ value: 10, max: 100 });
+    });
+
+    it('should reject patches that fail validation', () => {
+      renderer.render('```livellm:test-job\n{"value":10}\n```', container);
+      const el = container.querySelector('livellm-test-job')!;
+      const id = el.getAttribute('data-component-id')!;
+      const onInvalid = vi.fn();
+      events.on('renderer:component:update:invalid', onInvalid);
+
+      expect(renderer.updateComponent(container, id, { value: -1 })).toBe(false);
+      expect(renderer.updateComponent(container, 'missing', { value: 1 })).toBe(false);
+
+      expect(props(el)).toEqual({ value: 10, max: 100 });
+      expect(onInvalid).toHaveBeenCalledTimes(1);
+      expect(onInvalid.mock.calls[0][2][0].prop).toBe('value');
+    });
+
+    it('should keep the sort order and page of a table-plus when rows are added', () => {
+      const sr = createStream();
+      sr.insertComponent('table-plus', {
+        columns: ['name'],
+        rows: [{ name: 'Cleo' }, { name: 'Ada' }],
+        pageSize: 2,
+      }, 'people');
+      sr.end();
+
+      const table = container.querySelector('livellm-table-plus')!;
+      const names = (): string[] => Array.from(table.shadowRoot!.querySelectorAll('tbody td'))
+        .map((td) => td.textContent!);
+      table.shadowRoot!.querySelector<HTMLElement>('th[data-sort-key="name"]')!.click();
+      expect(names()).toEqual(['Ada', 'Cleo']);
+
+      sr.updateComponent('people', { rows: [{ name: 'Cleo' }, { name: 'Ada' }, { name: 'Bea' }] });
+      expect(names()).toEqual(['Ada', 'Bea']);
+
+      table.shadowRoot!.querySelector<HTMLElement>('.page-next')!.click();
+      sr.updateComponent('people', { rows: [{ name: 'Cleo' }, { name: 'Ada' }, { name: 'Bea' }, { name: 'Dan' }] });
+      expect(names()).toEqual(['Cleo', 'Dan']);
+    });
+  });
+
+  describe('StreamRenderer', () => {
+    it('should record patched props of inserted components in the full text', () => {
+      const sr = createStream();
+      sr.push('Working on it');
+      sr.insertComponent('test-job', { value: 0 }, 'job');
+      sr.insertComponent('test-job', { value: 5 }, 'other');
+      sr.push('Done');
+      sr.updateComponent('job', { value: 100 });
+      sr.end();
+
+      expect(sr.getFullText()).toBe(
+        'Working on it\n\n```livellm:test-job\n{"value":100,"max":100}\n```\n\n' +
+        '```livellm:test-job\n{"value":5}\n```\n\nDone'
+      );
+      expect(sr.getComponent('job')!.shadowRoot!.textContent).toContain('100/100');
+    });
+
+    it('should patch a component still waiting for an open fenced block', () => {
+      const sr = createStream();
+      sr.push('```livellm:test-job\n{"value":');
+      sr.insertComponent('test-job', { value: 1 }, 'job');
+      expect(sr.getComponent('job')).toBeNull();
+
+      expect(sr.updateComponent('job', { value: 2 })).toBe(true);
+      sr.push('7}\n```\n');
+      sr.end();
+
+      expect(props(sr.getComponent('job'))).toEqual({ value: 2, max: 100 });
+    });
+
+    it('should apply component_update events from an SSE response', async () => {
+      const chunks: string[] = [];
+      const writer = createSSEWriter({ setHeader() {}, write: (chunk) => chunks.push(chunk) > 0, end() {} });
+      writer.component('test-job', { value: 0 }, 'job');
+      writer.componentUpdate('job', { value: 50 });
+      writer.token('Half way.');
+      writer.componentUpdate('job', { value: 80 });
+      writer.done();
+
+      const sr = createStream();
+      await connectLiveLLMStream(new Response(chunks.join('')), sr);
+
+      expect(props(sr.getComponent('job'))).toEqual({ value: 80, max: 100 });
+      expect(sr.getFullText()).toContain('{"value":80,"max":100}');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { I18n } from '../../src/core/i18n';
+import { MESSAGE_CATALOGS } from '../../src/i18n/index';
+
+describe('I18n', () => {
+  it('should default to English', () => {
+    const i18n = new I18n();
+    expect(i18n.locale).toBe('en');
+    expect(i18n.t('common.submit')).toBe('Submit');
+  });
+
+  it('should translate with bundled catalogs', () => {
+    expect(new I18n('es').t('common.next')).toBe('Siguiente');
+    expect(new I18n('de').t('table.search')).toBe('Suchen...');
+  });
+
+  it('should resolve regional tags to the base language', () => {
+    const i18n = new I18n('pt-BR');
+    expect(i18n.locale).toBe('pt-BR');
+    expect(i18n.t('common.submit')).toBe('Enviar');
+  });
+
+  it('should fall back to English for unknown locales and missing keys', () => {
+    expect(new I18n('ja').t('common.submit')).toBe('Submit');
+    expect(new I18n('not a locale!').locale).toBe('en');
+    expect(new I18n('es').t('unknown.key')).toBe('unknown.key');
+  });
+
+  it('should apply per-instance overrides', () => {
+    const i18n = new I18n('fr', { 'common.submit': 'Valider' });
+    expect(i18n.t('common.submit')).toBe('Valider');
+    expect(i18n.t('common.next')).toBe('Suivant');
+  });
+
+  it('should interpolate params and pick plural forms', () => {
+    const i18n = new I18n('en');
+    expect(i18n.t('table.page', { page: 2, total: 5 })).toBe('Page 2 of 5');
+    expect(i18n.t('table.rows', { count: 1 })).toBe('1 row');
+    expect(i18n.t('table.rows', { count: 1200 })).toBe('1,200 rows');
+  });
+
+  it('should use locale plural categories', () => {
+    const i18n = new I18n('ar');
+    expect(i18n.t('table.rows', { count: 2 })).toBe(MESSAGE_CATALOGS.ar['table.rows.two']);
+  });
+
+  it('should detect right-to-left languages', () => {
+    expect(new I18n('ar').dir).toBe('rtl');
+    expect(new I18n('he-IL').isRTL).toBe(true);
+    expect(new I18n('en-US').dir).toBe('ltr');
+  });
+
+  it('should format numbers, currency and percentages with Intl', () => {
+    const de = new I18n('de');
+    expect(de.formatNumber(1234.5)).toBe('1.234,5');
+    expect(de.formatCurrency(9.99, 'EUR')).toMatch(/9,99\s€/);
+    expect(new I18n('en').formatPercent(0.25)).toBe('25%');
+    expect(new I18n('en').formatCompact(1_500_000)).toBe('1.5M');
+  });
+
+  it('should fall back to a plain number for unknown currencies', () => {
+    expect(new I18n('en').formatCurrency(5, 'NOPE')).toBe('5 NOPE');
+  });
+
+  it('should format dates and pass invalid dates through', () => {
+    const i18n = new I18n('fr');
+    expect(i18n.formatDate('2024-06-15T12:00:00Z', { month: 'long', timeZone: 'UTC' })).toBe('juin');
+    expect(i18n.formatDate('not a date')).toBe('not a date');
+  });
+
+  it('should define every English key in each bundled catalog', () => {
+    const keys = Object.keys(MESSAGE_CATALOGS.en).filter((k) => !/\.(one|other)$/.test(k));
+    for (const [locale, catalog] of Object.entries(MESSAGE_CATALOGS)) {
+      const missing = keys.filter((k) => !(k in catalog));
+      expect(missing, locale).toEqual([]);
+    }
+  });
+});
@@ -4,6 +4,15 @@ import { EventBus } from '../../src/core/events';
 import { Registry } from '../../src/core/registry';
 import { Parser } from '../../src/core/parser';
 import { Renderer } from '../../src/core/renderer';
+import { LiveLLMTabs, TABS_REGISTRATION } from '../../src/components/block/tabs';
+import { LiveLLMAccordion, ACCORDION_REGISTRATION } from '../../src/components/block/accordion';
+import { LiveLLMCarousel, CAROUSEL_REGISTRATION } from '../../src/components/block/carousel';
+import { LiveLLMCodeRunner, CODE_RUNNER_REGISTRATION } from '../../src/components/block/code-runner';
+
+try { customElements.define('livellm-tabs', LiveLLMTabs); } catch {}
+try { customElements.define('livellm-accordion', LiveLLMAccordion); } catch {}
+try { customElements.define('livellm-carousel', LiveLLMCarousel); } catch {}
+try { customElements.define('livellm-code-runner', LiveLLMCodeRunner); } catch {}
 
 describe('Observer', () => {
   let observer: Observer;
@@ -84,3 +93,68 @@ describe('Observer', () => {
     expect(() => observer.disconnect()).not.toThrow();
   });
 });
+
+describe('Observer render context', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let observer: Observer;
+  let container: HTMLElement;
+
+  /** Observe a container holding the code block of a livellm component. */
+  function mount(type: string, props: Record<string, any>, renderer = new Renderer(events, registry, parser)): HTMLElement {
+    const pre = document.createElement('pre');
+    const code = document.createElement('code');
+    code.textContent = `livellm:${type}\n${JSON.stringify(props)}`;
+    pre.appendChild(code);
+    container.appendChild(pre);
+
+    observer = new Observer(events, registry, parser, renderer);
+    observer.observe({ target: container });
+    return container.querySelector(`[data-livellm="${type}"]`)!;
+  }
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    registry.register('tabs', LiveLLMTabs, TABS_REGISTRATION);
+    registry.register('accordion', LiveLLMAccordion, ACCORDION_REGISTRATION);
+    registry.register('carousel', LiveLLMCarousel, CAROUSEL_REGISTRATION);
+    registry.register('code-runner', LiveLLMCodeRunner, CODE_RUNNER_REGISTRATION);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    observer.disconnect();
+    container.remove();
+  });
+
+  it('should render Markdown inside tabs it mounts', () => {
+    const tabs = mount('tabs', { tabs: [{ label: 'A', content: '**bold** text' }] });
+    expect(tabs.shadowRoot!.querySelector('.tab-panel strong')?.textContent).toBe('bold');
+  });
+
+  it('should render Markdown inside accordions it mounts', () => {
+    const accordion = mount('accordion', { items: [{ title: 'Q', content: 'Use `npm i`' }] });
+    expect(accordion.shadowRoot!.querySelector('.accordion-body code')?.textContent).toBe('npm i');
+  });
+
+  it('should render Markdown inside carousels it mounts', () => {
+    const carousel = mount('carousel', { slides: [{ title: 'S', content: '*italic*' }] });
+    expect(carousel.shadowRoot!.querySelector('.carousel-slide-content em')?.textContent).toBe('italic');
+  });
+
+  it('should apply the renderer\'s security settings to code runners it mounts', () => {
+    const props = { code: 'console.log(1)', language: 'javascript', runnable: true };
+    const enabled = mount('code-runner', props, new Renderer(events, registry, parser, {}, { enableCodeRunner: true }));
+    expect((enabled.shadowRoot!.querySelector('.cr-btn.run') as HTMLButtonElement).disabled).toBe(false);
+    expect(enabled.shadowRoot!.querySelector('.cr-disabled')).toBeNull();
+
+    observer.disconnect();
+    container.innerHTML = '';
+    const disabled = mount('code-runner', props);
+    expect((disabled.shadowRoot!.querySelector('.cr-btn.run') as HTMLButtonElement).disabled).toBe(true);
+  });
+});
@@ -173,4 +173,39 @@ describe('Registry', () => {
     expect(reg!.component).toBeNull();
     expect(reg!.moduleUrl).toBe('https://cdn.example.com/component.js');
   });
+
+  it('should validate action data against the action catalog', () => {
+    registry.register('rating-box', MockComponent, {
+      actions: {
+        rate: { value: { type: 'number', min: 1 }, label: 'Rated: {value} / {max}' },
+      },
+    });
+
+    expect(registry.validateAction('rating-box', 'rate', { value: 3 }).valid).toBe(true);
+    expect(registry.validateAction('rating-box', 'rate', { value: 'three' }).valid).toBe(false);
+
+    const unknown = registry.validateAction('rating-box', 'delete', { value: 3 });
+    expect(unknown.valid).toBe(false);
+    expect(unknown.errors[0].prop).toBe('_action');
+  });
+
+  it('should accept any action from components without a catalog', () => {
+    registry.register('plain', MockComponent);
+
+    expect(registry.get('plain')!.actions).toEqual({});
+    expect(registry.validateAction('plain', 'anything', 'raw').valid).toBe(true);
+  });
+
+  it('should fill action label templates from the event data', () => {
+    registry.register('rating-box', MockComponent, {
+      actions: {
+        rate: { value: { type: 'number' }, label: 'Rated: {value} / {max}' },
+        clear: { value: { type: 'boolean' } },
+      },
+    });
+
+    expect(registry.formatActionLabel('rating-box', 'rate', { value: 4, max: 5 })).toBe('Rated: 4 / 5');
+    expect(registry.formatActionLabel('rating-box', 'rate', { value: 4 })).toBe('Rated: 4 / {max}');
+    expect(registry.formatActionLabel('rating-box', 'clear', { value: true })).toBe('');
+  });
 });
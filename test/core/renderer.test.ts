@@ -117,4 +117,70 @@ describe('Renderer', () => {
       action: 'click',
     }));
   });
+
+  describe('action validation', () => {
+    let container: HTMLElement;
+
+    function dispatch(detail: Record<string, any>): void {
+      container.dispatchEvent(new CustomEvent('livellm:action', { bubbles: true, composed: true, detail }));
+    }
+
+    beforeEach(() => {
+      registry.register('level', MockAlert, {
+        actions: {
+          'level-submit': {
+            value: { type: 'number', min: 0 },
+            data: { max: { type: 'number' } },
+            label: 'Level {value} of {max}',
+          },
+        },
+      });
+      container = document.createElement('div');
+      renderer.render('Hello', container);
+    });
+
+    it('should pass declared actions through with the template label', () => {
+      const onAction = vi.fn();
+      events.on('action:triggered', onAction);
+
+      dispatch({ component: 'level', action: 'level-submit', data: { value: 3, max: 5 }, componentId: 'l1' });
+
+      expect(onAction).toHaveBeenCalledWith(expect.objectContaining({
+        value: 3,
+        label: 'Level 3 of 5',
+      }));
+    });
+
+    it('should reject actions with a malformed value', () => {
+      const onAction = vi.fn();
+      const onInvalid = vi.fn();
+      events.on('action:triggered', onAction);
+      events.on('action:invalid', onInvalid);
+
+      dispatch({ component: 'level', action: 'level-submit', data: { value: 'high' }, componentId: 'l1' });
+
+      expect(onAction).not.toHaveBeenCalled();
+      expect(onInvalid).toHaveBeenCalledWith(expect.objectContaining({
+        component: 'level',
+        action: 'level-submit',
+        componentId: 'l1',
+        errors: [expect.objectContaining({ prop: 'value' })],
+      }));
+    });
+
+    it('should reject undeclared actions and events without a component', () => {
+      const onAction = vi.fn();
+      const onInvalid = vi.fn();
+      events.on('action:triggered', onAction);
+      events.on('action:invalid', onInvalid);
+
+      dispatch({ component: 'level', action: 'reset', data: { value: 0 } });
+      dispatch({ action: 'level-submit', data: { value: 1 } });
+
+      expect(onAction).not.toHaveBeenCalled();
+      expect(onInvalid).toHaveBeenCalledTimes(2);
+      expect(onInvalid.mock.calls[0][0].errors[0].prop).toBe('_action');
+      expect(onInvalid.mock.calls[1][0].errors[0].prop).toBe('component');
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runInSandbox } from '../../src/utils/sandbox';
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  posted: any[] = [];
+  terminated = false;
+
+  constructor(public url: string) {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(data: any): void {
+    this.posted.push(data);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  emit(data: any): void {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+}
+
+describe('runInSandbox', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should run code in a worker instead of the host page', () => {
+    runInSandbox('console.log(1)', { timeout: 1000, maxOutput: 100 });
+
+    const worker = FakeWorker.instances[0];
+    expect(worker).toBeDefined();
+    expect(worker.url).toMatch(/^blob:/);
+    expect(worker.posted).toEqual([{ code: 'console.log(1)' }]);
+  });
+
+  it('should collect console output and resolve on completion', async () => {
+    const onOutput = vi.fn();
+    const run = runInSandbox('code', { timeout: 1000, maxOutput: 100, onOutput });
+    const worker = FakeWorker.instances[0];
+
+    worker.emit({ kind: 'log', stream: 'log', text: 'hello' });
+    worker.emit({ kind: 'log', stream: 'error', text: 'oops' });
+    worker.emit({ kind: 'done', result: '42' });
+
+    const result = await run.result;
+    expect(result.status).toBe('success');
+    expect(result.result).toBe('42');
+    expect(result.output).toEqual([
+      { stream: 'log', text: 'hello' },
+      { stream: 'error', text: 'oops' },
+    ]);
+    expect(onOutput).toHaveBeenCalledTimes(2);
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('should report thrown errors', async () => {
+    const run = runInSandbox('throw 1', { timeout: 1000, maxOutput: 100 });
+    FakeWorker.instances[0].emit({ kind: 'error', message: 'boom' });
+
+    const result = await run.result;
+    expect(result.status).toBe('error');
+    expect(result.error).toBe('boom');
+  });
+
+  it('should terminate the worker after the timeout', async () => {
+    const run = runInSandbox('while (true) {}', { timeout: 500, maxOutput: 100 });
+    vi.advanceTimersByTime(500);
+
+    const result = await run.result;
+    expect(result.status).toBe('timeout');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('should terminate when output exceeds the limit', async () => {
+    const run = runInSandbox('spam', { timeout: 1000, maxOutput: 10 });
+    const worker = FakeWorker.instances[0];
+    worker.emit({ kind: 'log', stream: 'log', text: '123456' });
+    worker.emit({ kind: 'log', stream: 'log', text: '789012' });
+    worker.emit({ kind: 'log', stream: 'log', text: 'ignored' });
+
+    const result = await run.result;
+    expect(result.status).toBe('output-limit');
+    expect(result.output.map((o) => o.text).join('')).toBe('1234567890');
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('should report worker errors', async () => {
+    const run = runInSandbox('code', { timeout: 1000, maxOutput: 100 });
+    const preventDefault = vi.fn();
+    FakeWorker.instances[0].onerror?.({ message: 'Syntax error', preventDefault } as unknown as ErrorEvent);
+
+    const result = await run.result;
+    expect(result.status).toBe('error');
+    expect(result.error).toBe('Syntax error');
+    expect(preventDefault).toHaveBeenCalled();
+  });
+
+  it('should remove blocked APIs from the worker global and its prototypes', async () => {
+    let blob!: Blob;
+    vi.spyOn(URL, 'createObjectURL').mockImplementation((value) => {
+      blob = value as Blob;
+      return 'blob:sandbox';
+    });
+    runInSandbox('code', { timeout: 1000, maxOutput: 100 });
+    const script = await blob.text();
+
+    // A worker global: fetch and importScripts live on the prototype
+    const scope = {
+      fetch: () => 'network',
+      importScripts: () => undefined,
+      postMessage: () => undefined,
+    };
+    const self: Record<string, any> = Object.create(scope);
+    self.XMLHttpRequest = class {};
+    new Function('self', script)(self);
+
+    expect(self.fetch).toBeUndefined();
+    expect(self.XMLHttpRequest).toBeUndefined();
+    expect(Object.getPrototypeOf(self).fetch).toBeUndefined();
+    expect(Object.getPrototypeOf(self).importScripts).toBeUndefined();
+    expect(typeof self.onmessage).toBe('function');
+  });
+
+  it('should stop a run when killed', async () => {
+    const run = runInSandbox('while (true) {}', { timeout: 1000, maxOutput: 100 });
+    run.kill();
+
+    const result = await run.result;
+    expect(result.status).toBe('killed');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+});
@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LiveLLMInstance } from '../../src/core/livellm';
+import { createLocalStorage } from '../../src/core/session';
+import type { ChatTransport } from '../../src/core/session';
+import type { LiveLLMChatRequest } from '../../src/protocol/types';
+import { createLiveLLMHandler } from '../../src/protocol/handler';
+import { LiveLLMChoice, CHOICE_REGISTRATION } from '../../src/components/action/choice';
+
+function sse(events: Record<string, any>[]): string {
+  return events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+}
+
+function answer(text: string): string {
+  return sse([{ type: 'token', token: text }, { type: 'done' }]);
+}
+
+const CHOICE_ANSWER = 'Pick one:\n\n```livellm:choice\n' +
+  JSON.stringify({ question: 'Framework?', options: ['React', 'Vue'] }) + '\n```\n';
+
+describe('ChatSession', () => {
+  let livellm: LiveLLMInstance;
+  let container: HTMLElement;
+  let replies: string[];
+  let requests: LiveLLMChatRequest[];
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  /** Let pending fetch/stream promises settle. */
+  async function settle(): Promise<void> {
+    for (let i = 0; i < 10; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    localStorage.clear();
+
+    livellm = new LiveLLMInstance();
+    livellm.init({
+      transformer: { mode: 'off', detectors: 'all', confidenceThreshold: 0.7 },
+      actions: { onAction: () => {}, autoSend: true, showPreview: false, labelTemplates: {} },
+    });
+    livellm.register('choice', LiveLLMChoice, CHOICE_REGISTRATION);
+
+    replies = [];
+    requests = [];
+    fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      requests.push(JSON.parse(init.body as string));
+      return new Response(replies.shift() ?? answer('OK'));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the message and stream the answer into a new message', async () => {
+    replies.push(answer('Hello **there**'));
+    const onMessage = vi.fn();
+    const session = livellm.createSession({ target: container, endpoint: '/api/chat', onMessage });
+
+    const reply = await session.send('Hi');
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/chat', expect.objectContaining({ method: 'POST' }));
+    expect(requests[0]).toEqual({ message: 'Hi', history: [] });
+    expect(reply).toEqual({ role: 'assistant', content: 'Hello **there**' });
+    expect(onMessage).toHaveBeenCalledWith(reply);
+    expect(session.history).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello **there**' },
+    ]);
+
+    const messages = container.querySelectorAll('.livellm-message');
+    expect(messages[0].className).toContain('livellm-message-user');
+    expect(messages[0].textContent).toBe('Hi');
+    expect(messages[1].querySelector('strong')?.textContent).toBe('there');
+  });
+
+  it('should send earlier turns as history', async () => {
+    const session = livellm.createSession({
+      target: container,
+      endpoint: '/api/chat',
+      history: [{ role: 'system', content: 'Be brief.' }],
+    });
+    replies.push(answer('First answer'));
+    await session.send('One');
+    await session.send('Two');
+
+    expect(requests[1]).toEqual({
+      message: 'Two',
+      history: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'One' },
+        { role: 'assistant', content: 'First answer' },
+      ],
+    });
+    expect(container.querySelectorAll('.livellm-message')).toHaveLength(4);
+  });
+
+  it('should turn component actions into user turns with an action payload', async () => {
+    replies.push(answer(CHOICE_ANSWER));
+    const session = livellm.createSession({ target: container, endpoint: '/api/chat' });
+    await session.send('Help me choose');
+
+    const choice = container.querySelector('livellm-choice')!;
+    (choice.shadowRoot!.querySelectorAll('.choice-option')[1] as HTMLElement).click();
+    await settle();
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].action).toMatchObject({ component: 'choice', action: 'choice-select', value: 'Vue' });
+    expect(requests[1].message).toBe('User selected: Vue');
+    expect(session.history[2]).toMatchObject({ role: 'user', action: { value: 'Vue' } });
+  });
+
+  it('should send the label edited in the preview bar as the user turn', async () => {
+    livellm.init({
+      transformer: { mode: 'off', detectors: 'all', confidenceThreshold: 0.7 },
+      actions: { onAction: () => {}, autoSend: false, showPreview: true, labelTemplates: {} },
+    });
+    replies.push(answer(CHOICE_ANSWER));
+    const session = livellm.createSession({ target: container, endpoint: '/api/chat' });
+    await session.send('Help me choose');
+
+    const choice = container.querySelector('livellm-choice')!;
+    (choice.shadowRoot!.querySelectorAll('.choice-option')[1] as HTMLElement).click();
+    const preview = document.querySelector('.livellm-action-preview')!.shadowRoot!;
+    (preview.querySelector('[data-action="edit"]') as HTMLElement).click();
+    (preview.querySelector('.preview-input') as HTMLInputElement).value = 'Vue, but only for the admin panel';
+    (preview.querySelector('[data-action="send"]') as HTMLElement).click();
+    await settle();
+
+    expect(requests[1].action).toMatchObject({ value: 'Vue', label: 'Vue, but only for the admin panel', edited: true });
+    expect(requests[1].message).toBe('Vue, but only for the admin panel');
+  });
+
+  it('should ignore actions from components outside the session', async () => {
+    livellm.createSession({ target: container, endpoint: '/api/chat' });
+    const other = document.createElement('div');
+    document.body.appendChild(other);
+    livellm.render(CHOICE_ANSWER, other);
+
+    (other.querySelector('livellm-choice')!.shadowRoot!.querySelector('.choice-option') as HTMLElement).click();
+    await settle();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should keep the partial answer on abort', async () => {
+    const encoder = new TextEncoder();
+    fetchMock.mockImplementationOnce(async (_url: string, init: RequestInit) => {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(sse([{ type: 'token', token: 'Partial' }])));
+          init.signal!.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+        },
+      });
+      return new Response(body);
+    });
+    const session = livellm.createSession({ target: container, endpoint: '/api/chat' });
+
+    const pending = session.send('Long question');
+    await settle();
+    expect(session.busy).toBe(true);
+
+    session.abort();
+    expect(session.busy).toBe(false);
+    await expect(pending).resolves.toBeNull();
+    expect(session.history[1]).toEqual({ role: 'assistant', content: 'Partial', stopped: true });
+    expect(container.querySelector('.livellm-stopped')!.textContent).toBe('Stopped');
+  });
+
+  it('should send a cancel request for the aborted turn', async () => {
+    const cancelled: Array<[string, unknown]> = [];
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      if (url === '/api/cancel') {
+        cancelled.push([url, body]);
+        return new Response('{}');
+      }
+      requests.push(body);
+      return new Response(new ReadableStream<Uint8Array>({ start() {} }));
+    });
+    const session = livellm.createSession({ target: container, endpoint: '/api/chat', cancelEndpoint: '/api/cancel' });
+
+    const pending = session.send('Long question');
+    await settle();
+    session.abort();
+    await pending;
+
+    expect(requests[0].requestId).toEqual(expect.any(String));
+    expect(cancelled).toEqual([['/api/cancel', { requestId: requests[0].requestId }]]);
+  });
+
+  it('should show restored answers that were stopped as stopped', () => {
+    livellm.createSession({
+      target: container,
+      endpoint: '/api/chat',
+      history: [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hel', stopped: true }],
+    });
+
+    const answer = container.querySelector('.livellm-message-assistant')!;
+    expect(answer.hasAttribute('data-livellm-stopped')).toBe(true);
+    expect(answer.querySelector('.livellm-stopped')).not.toBeNull();
+  });
+
+  it('should regenerate the last answer', async () => {
+    replies.push(answer('Bad answer'), answer('Better answer'));
+    const session = livellm.createSession({ target: container, endpoint: '/api/chat' });
+    await session.send('Question');
+
+    const reply = await session.regenerate();
+
+    expect(reply?.content).toBe('Better answer');
+    expect(requests[1]).toEqual(requests[0]);
+    expect(session.history.map((m) => m.content)).toEqual(['Question', 'Better answer']);
+    expect(container.textContent).not.toContain('Bad answer');
+  });
+
+  it('should persist and restore the history with answered components', async () => {
+    replies.push(answer(CHOICE_ANSWER));
+    const storage = createLocalStorage('chat');
+    const first = livellm.createSession({ target: container, endpoint: '/api/chat', storage });
+    await first.send('Choose');
+    (container.querySelector('livellm-choice')!.shadowRoot!.querySelectorAll('.choice-option')[1] as HTMLElement).click();
+    await settle();
+    first.destroy();
+
+    const restoredContainer = document.createElement('div');
+    document.body.appendChild(restoredContainer);
+    const restored = livellm.createSession({ target: restoredContainer, endpoint: '/api/chat', storage });
+
+    expect(restored.history).toEqual(first.history);
+    expect(restored.history[2].components?.[0].state).toEqual({ selectedIndex: 1, submitted: true });
+    const choice = restoredContainer.querySelector('livellm-choice') as LiveLLMChoice;
+    expect(choice.getState()).toEqual({ selectedIndex: 1, submitted: true });
+  });
+
+  it('should report an error thrown by a createLiveLLMHandler backend', async () => {
+    const handler = createLiveLLMHandler({
+      async *generate() {
+        yield 'Hel';
+        throw Object.assign(new Error('Too many requests'), { status: 429 });
+      },
+    });
+    const transport: ChatTransport = {
+      async send(request) {
+        const output: string[] = [];
+        await handler({ body: request }, {
+          statusCode: 200,
+          setHeader() {},
+          write: (chunk: string) => output.push(chunk) > 0,
+          end() {},
+        });
+        return new Response(output.join(''));
+      },
+    };
+    const onError = vi.fn();
+    const session = livellm.createSession({ target: container, transport, onError });
+
+    await session.send('Hi');
+
+    expect(onError).toHaveBeenCalledWith(new Error('Too many requests'));
+    expect(session.history[1]).toMatchObject({ role: 'assistant', content: 'Hel' });
+  });
+
+  it('should use a custom transport', async () => {
+    const transport: ChatTransport = {
+      send: vi.fn(async () => new Response(answer('From transport'))),
+    };
+    const session = livellm.createSession({ target: container, transport });
+
+    await session.send('Hi');
+    expect(transport.send).toHaveBeenCalledWith({ message: 'Hi', history: [] }, expect.any(AbortSignal));
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(session.history[1].content).toBe('From transport');
+  });
+
+  it('should report failed requests', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('nope', { status: 500 }));
+    const onError = vi.fn();
+    const session = livellm.createSession({ target: container, endpoint: '/api/chat', onError });
+
+    await expect(session.send('Hi')).rejects.toThrow('status 500');
+    expect(onError).toHaveBeenCalled();
+    expect(session.busy).toBe(false);
+    expect(session.history).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+
+  it('should require a transport or an endpoint', () => {
+    expect(() => livellm.createSession({ target: container })).toThrow('transport or an endpoint');
+  });
+});
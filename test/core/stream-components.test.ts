@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { StreamRenderer } from '../../src/core/stream-renderer';
+import { LiveLLMComponent } from '../../src/components/base';
+import { connectLiveLLMStream } from '../../src/protocol/client';
+import { createSSEWriter } from '../../src/protocol/server';
+import { LiveLLMToolActivity, TOOL_ACTIVITY_REGISTRATION } from '../../src/components/block/tool-activity';
+
+class StatCard extends LiveLLMComponent {
+  render(): void {
+    this.setContent(`<strong>${this._props.label}</strong> ${this._props.value}`);
+  }
+}
+
+describe('StreamRenderer component events', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+  let container: HTMLElement;
+
+  function createStream(options = {}): StreamRenderer {
+    return new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+      ...options,
+    });
+  }
+
+  /** Tag names / classes of the container's top-level children. */
+  function layout(): string[] {
+    return Array.from(container.children).map((el) =>
+      el.hasAttribute('data-livellm') ? el.tagName.toLowerCase() : el.classList[0]
+    );
+  }
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+
+    registry.register('test-stat', StatCard, {
+      schema: {
+        label: { type: 'string', required: true },
+        value: { type: 'number', required: true },
+        unit: { type: 'string', default: '' },
+      },
+    });
+    registry.register('tool-activity', LiveLLMToolActivity, TOOL_ACTIVITY_REGISTRATION);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    container.remove();
+  });
+
+  it('should insert the component after the text received so far', () => {
+    const sr = createStream();
+    sr.push('Here are the numbers:');
+    sr.insertComponent('test-stat', { label: 'Users', value: 42 }, 'stat-1');
+    sr.push('\n\nThat is all.');
+    sr.end();
+
+    expect(layout()).toEqual(['livellm-stream-block', 'livellm-test-stat', 'livellm-stream-block']);
+    const stat = container.querySelector('livellm-test-stat')!;
+    expect(stat.getAttribute('data-stream-id')).toBe('stat-1');
+    expect(JSON.parse(stat.getAttribute('data-props')!)).toEqual({ label: 'Users', value: 42, unit: '' });
+    expect(container.children[0].textContent).toContain('Here are the numbers:');
+    expect(container.children[2].textContent).toContain('That is all.');
+  });
+
+  it('should validate props and fall back for unknown components', () => {
+    const sr = createStream();
+    sr.insertComponent('test-stat', { label: 'Users' });
+    sr.insertComponent('not-registered', { a: 1 });
+    sr.end();
+
+    expect(layout()).toEqual(['livellm-error', 'livellm-fallback']);
+    expect(container.querySelector('.livellm-error')!.textContent).toContain('value is required');
+  });
+
+  it('should record the component in the full text with the same stable id', () => {
+    const sr = createStream();
+    sr.push('Intro');
+    sr.insertComponent('test-stat', { label: 'Users', value: 42 });
+    sr.push('Outro');
+    sr.end();
+
+    expect(sr.getFullText()).toBe('Intro\n\n```livellm:test-stat\n{"label":"Users","value":42}\n```\n\nOutro');
+
+    const streamed = container.querySelector('livellm-test-stat')!.getAttribute('data-component-id');
+    const rendered = document.createElement('div');
+    rendered.innerHTML = parser.parse(sr.getFullText());
+    expect(rendered.querySelector('livellm-test-stat')!.getAttribute('data-component-id')).toBe(streamed);
+  });
+
+  it('should hold a component until an open fenced block closes', () => {
+    const onComplete = vi.fn();
+    events.on('stream:component:complete', onComplete);
+    const sr = createStream();
+
+    sr.push('```livellm:test-stat\n{"label":"Fenced",');
+    sr.insertComponent('test-stat', { label: 'Inserted', value: 2 });
+    expect(container.querySelectorAll('livellm-test-stat')).toHaveLength(0);
+
+    sr.push('"value":1}\n```\n');
+    sr.end();
+
+    const labels = Array.from(container.querySelectorAll('livellm-test-stat'))
+      .map((el) => JSON.parse(el.getAttribute('data-props')!).label);
+    expect(labels).toEqual(['Fenced', 'Inserted']);
+    expect(onComplete.mock.calls.map(([type, props]) => `${type}:${props.label}`))
+      .toEqual(['test-stat:Fenced', 'test-stat:Inserted']);
+  });
+
+  it('should release paced text before the component', () => {
+    vi.useFakeTimers();
+    try {
+      const sr = createStream({ tokenDelay: 50 });
+      sr.push('Paced text that is still held back');
+      sr.insertComponent('test-stat', { label: 'Users', value: 1 });
+
+      expect(layout()).toEqual(['livellm-stream-block', 'livellm-test-stat']);
+      expect(container.children[0].textContent).toContain('still held back');
+      sr.end();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should ignore components after the stream ended', () => {
+    const sr = createStream();
+    sr.push('Done.');
+    sr.end();
+    sr.insertComponent('test-stat', { label: 'Late', value: 0 });
+
+    expect(container.querySelector('livellm-test-stat')).toBeNull();
+  });
+
+  it('should render component events from an SSE response', async () => {
+    const chunks: string[] = [];
+    const writer = createSSEWriter({ setHeader() {}, write: (chunk) => chunks.push(chunk) > 0, end() {} });
+    writer.token('Traffic:');
+    writer.component('test-stat', { label: 'Visits', value: 1200, unit: '/day' }, 'visits');
+    writer.done();
+
+    const sr = createStream();
+    await connectLiveLLMStream(new Response(chunks.join('')), sr);
+
+    const stat = container.querySelector('livellm-test-stat')!;
+    expect(stat.getAttribute('data-stream-id')).toBe('visits');
+    expect(stat.shadowRoot!.textContent).toContain('Visits');
+    expect(sr.getState()).toBe('INTERACTIVE');
+  });
+
+  it('should show tool calls in place and settle them from tool results', async () => {
+    const chunks: string[] = [];
+    const writer = createSSEWriter({ setHeader() {}, write: (chunk) => chunks.push(chunk) > 0, end() {} });
+    writer.token('Let me look that up.');
+    writer.toolCall('call-1', 'web_search', { query: 'weather Lisbon' });
+    writer.toolCall('call-2', 'get_forecast', { city: 'Lisbon' });
+    writer.toolResult('call-1', 'success', '5 results');
+    writer.toolResult('call-2', 'error', 'Service unavailable');
+    writer.token('It is sunny.');
+    writer.done();
+
+    const sr = createStream();
+    await connectLiveLLMStream(new Response(chunks.join('')), sr);
+
+    expect(layout()).toEqual(['livellm-stream-block', 'livellm-tool-activity', 'livellm-tool-activity', 'livellm-stream-block']);
+    const status = (id: string) => JSON.parse(sr.getComponent(id)!.getAttribute('data-props')!).status;
+    expect(status('call-1')).toBe('success');
+    expect(status('call-2')).toBe('error');
+    expect(sr.getComponent('call-2')!.shadowRoot!.querySelector('.tool-label')!.textContent).toBe('get_forecast failed');
+    expect(sr.getFullText()).toBe('Let me look that up.\n\nIt is sunny.');
+  });
+
+  it('should ignore tool results without a matching call', () => {
+    const sr = createStream();
+    sr.insertToolCall('call-1', 'web_search');
+
+    expect(sr.updateToolCall('missing', 'success')).toBe(false);
+    expect(JSON.parse(sr.getComponent('call-1')!.getAttribute('data-props')!).status).toBe('running');
+    sr.end();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { StreamRenderer } from '../../src/core/stream-renderer';
+
+class MockAlert extends HTMLElement {}
+
+const ALERT = '{"type":"info","text":"Hi"}';
+
+describe('StreamRenderer fence detection', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+
+  /** Stream `markdown` one character at a time and return the container. */
+  function stream(markdown: string): HTMLElement {
+    const container = document.createElement('div');
+    const sr = new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+    });
+    for (const ch of markdown) sr.push(ch);
+    sr.end();
+    return container;
+  }
+
+  /** Props of every alert, in document order. */
+  function alerts(root: HTMLElement): string[] {
+    return Array.from(root.querySelectorAll('livellm-alert')).map((el) => el.getAttribute('data-props')!);
+  }
+
+  function expectParity(markdown: string): HTMLElement {
+    const container = stream(markdown);
+    const oneShot = document.createElement('div');
+    oneShot.innerHTML = parser.parse(markdown);
+    expect(alerts(container)).toEqual(alerts(oneShot));
+    return container;
+  }
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser);
+    registry.register('alert', MockAlert, {
+      schema: {
+        type: { type: 'enum', enum: ['info', 'success', 'warning', 'error'], default: 'info' },
+        text: { type: 'string', required: true },
+      },
+    });
+  });
+
+  it('should detect tilde fences', () => {
+    const container = expectParity(`Intro\n\n~~~livellm:alert\n${ALERT}\n~~~\n\nAfter`);
+    expect(alerts(container)).toHaveLength(1);
+    expect(container.textContent).toContain('After');
+    expect(container.textContent).not.toContain('~~~');
+  });
+
+  it('should only close on a run of the same character at least as long', () => {
+    const container = expectParity(`\`\`\`\`livellm:alert\n${ALERT}\n~~~~\n\`\`\`\n\`\`\`\`\`\n\nAfter`);
+    expect(alerts(container)).toHaveLength(0);
+
+    const closed = expectParity(`\`\`\`\`livellm:alert\n${ALERT}\n\`\`\`\`\`\n\nAfter`);
+    expect(alerts(closed)).toHaveLength(1);
+    expect(closed.textContent).not.toContain('`');
+  });
+
+  it('should report BUFFERING until the matching closing fence', () => {
+    const container = document.createElement('div');
+    const sr = new StreamRenderer(events, registry, parser, renderer, container, { showCursor: false });
+    sr.push(`~~~~livellm:alert\n${ALERT}\n~~~`);
+    expect(sr.getState()).toBe('BUFFERING');
+    sr.push('~');
+    expect(sr.getState()).toBe('RENDERING');
+    sr.end();
+    expect(alerts(container)).toHaveLength(1);
+  });
+
+  it('should ignore fence runs in the middle of a line', () => {
+    const container = expectParity(`Use \`\`\`livellm:alert\n${ALERT}\n\`\`\` here`);
+    expect(alerts(container)).toHaveLength(0);
+    expect(container.querySelector('.livellm-skeleton-wrapper')).toBeNull();
+    expect(container.textContent).toContain('Use');
+  });
+
+  it('should accept up to three spaces of indentation at the top level', () => {
+    const container = expectParity(`Intro\n\n   \`\`\`livellm:alert\n${ALERT}\n  \`\`\`\n\nAfter`);
+    expect(alerts(container)).toHaveLength(1);
+
+    const indentedCode = expectParity(`Intro\n\n    \`\`\`livellm:alert\n    ${ALERT}\n    \`\`\`\n`);
+    expect(alerts(indentedCode)).toHaveLength(0);
+  });
+
+  it('should keep fences nested in list items inside the list', () => {
+    const markdown = `- First\n  \`\`\`livellm:alert\n  ${ALERT}\n  \`\`\`\n- Second\n`;
+    const container = expectParity(markdown);
+
+    expect(container.querySelectorAll('ul')).toHaveLength(1);
+    expect(container.querySelectorAll('li')).toHaveLength(2);
+    expect(container.querySelector('li livellm-alert')).not.toBeNull();
+  });
+
+  it('should not detect livellm fences inside another code block', () => {
+    const markdown = `\`\`\`\`md\n\`\`\`livellm:alert\n${ALERT}\n\`\`\`\n\`\`\`\`\n\nAfter`;
+    const container = expectParity(markdown);
+
+    expect(alerts(container)).toHaveLength(0);
+    expect(container.querySelector('pre code')!.textContent).toContain('```livellm:alert');
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { StreamRenderer } from '../../src/core/stream-renderer';
+
+const MIXED_MARKDOWN = [
+  '# Release notes',
+  'The **new** build ships today.\nIt has two parts.',
+  '- first item\n- second item\n  continued',
+  '| Name | Value |\n| --- | --- |\n| a | 1 |\n| b | 2 |',
+  '```js\nconst x = 1;\n\nconsole.log(x);\n```',
+  '> quoted\n> text',
+  '1. one\n2. two',
+  'Closing paragraph with `code`.',
+].join('\n\n');
+
+/**
+ * Deterministic stream of paragraphs, lists, tables and fences (~`tokens`
+ * tokens). `brackets` adds a reference definition, citations, reference
+ * links, `arr[i]` code and task lists.
+ */
+function generateTokens(tokens: number, brackets = false): string[] {
+  const out: string[] = brackets ? ['[docs]: http://x.io\n\n'] : [];
+  let block = 0;
+  while (out.length < tokens) {
+    switch (block++ % 4) {
+      case 0:
+        for (let i = 0; i < 40; i++) out.push(brackets && i % 10 === 0 ? `word${i} [${i}] ` : `word${i} `);
+        if (brackets) out.push('See [the docs][docs] and ', '`arr[i]`.');
+        out.push('\n\n');
+        break;
+      case 1:
+        for (let i = 0; i < 5; i++) out.push(brackets ? '- [ ] item ' : '- item ', `${i}`, '\n');
+        out.push('\n');
+        break;
+      case 2:
+        out.push('| a | b |\n', '| --- | --- |\n');
+        for (let i = 0; i < 5; i++) out.push('| ', `${i}`, ' | ', 'x', ' |\n');
+        out.push('\n');
+        break;
+      case 3:
+        out.push('```', 'js\n');
+        for (let i = 0; i < 5; i++) out.push('const v', `${i}`, ' = ', `${i}`, ';\n');
+        out.push('```\n\n');
+        break;
+    }
+  }
+  return out;
+}
+
+describe('StreamRenderer incremental rendering', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+  let container: HTMLElement;
+  let frames: FrameRequestCallback[];
+
+  function flushFrames(): void {
+    const pending = frames;
+    frames = [];
+    pending.forEach((cb) => cb(0));
+  }
+
+  function stream(tokens: string[], tokensPerFrame: number): StreamRenderer {
+    const sr = new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+    });
+    tokens.forEach((token, i) => {
+      sr.push(token);
+      if ((i + 1) % tokensPerFrame === 0) flushFrames();
+    });
+    sr.end();
+    return sr;
+  }
+
+  /** Total characters handed to the Parser's `methods` while streaming. */
+  function parsedChars(tokens: string[], methods: Array<'parse' | 'references' | 'closedBlocksLength'> = ['parse']): number {
+    container = document.createElement('div');
+    const spies = methods.map((method) => vi.spyOn(parser, method));
+    stream(tokens, 8);
+    let total = 0;
+    spies.forEach((spy) => {
+      total += spy.mock.calls.reduce((sum, [markdown]) => sum + markdown.length, 0);
+      spy.mockRestore();
+    });
+    return total;
+  }
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser);
+    container = document.createElement('div');
+    frames = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => frames.push(cb));
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should produce the same HTML as a one-shot parse', () => {
+    stream(Array.from(MIXED_MARKDOWN), 3);
+
+    const block = container.querySelector('.livellm-stream-block')!;
+    expect(block.innerHTML).toBe(parser.parse(MIXED_MARKDOWN));
+  });
+
+  it('should report closed blocks up to the start of the last block', () => {
+    expect(parser.closedBlocksLength('only one paragraph')).toBe(0);
+    expect(parser.closedBlocksLength('first\n\nsecond')).toBe('first\n\n'.length);
+    expect(parser.closedBlocksLength('```\nopen fence\n\nstill open')).toBe(0);
+    expect(parser.closedBlocksLength('- a\n- b\n\ntext\n\nmore')).toBe('- a\n- b\n\ntext\n\n'.length);
+  });
+
+  it('should match a one-shot parse for loose ordered lists', () => {
+    const markdown = '1. one\n\n2. two\n';
+    stream(Array.from(markdown), 1);
+
+    const block = container.querySelector('.livellm-stream-block')!;
+    expect(block.innerHTML).toBe(parser.parse(markdown));
+    expect(block.querySelectorAll('ol').length).toBe(1);
+  });
+
+  it('should match a one-shot parse for reference links defined later', () => {
+    const markdown = 'See [docs][1].\n\nMore text.\n\n[1]: http://x.io';
+    stream(Array.from(markdown), 1);
+
+    const block = container.querySelector('.livellm-stream-block')!;
+    expect(block.innerHTML).toBe(parser.parse(markdown));
+    expect(block.querySelector('a')?.getAttribute('href')).toBe('http://x.io');
+  });
+
+  it('should match a one-shot parse for reference links defined earlier', () => {
+    const markdown = '[1]: http://x.io\n\nIntro.\n\nSee [docs][1].\n\nDone.';
+    stream(Array.from(markdown), 1);
+
+    const block = container.querySelector('.livellm-stream-block')!;
+    expect(block.innerHTML).toBe(parser.parse(markdown));
+  });
+
+  it('should keep lists and possible reference links open', () => {
+    expect(parser.closedBlocksLength('1. one\n\n2')).toBe(0);
+    expect(parser.closedBlocksLength('1. one\n\ntext\n\nmore')).toBe('1. one\n\ntext\n\n'.length);
+    expect(parser.closedBlocksLength('intro\n\nSee [docs][1].\n\nmore')).toBe('intro\n\n'.length);
+    expect(parser.closedBlocksLength('A [link](http://x.io).\n\nmore')).toBe('A [link](http://x.io).\n\n'.length);
+  });
+
+  it('should only keep reference links with undefined labels open', () => {
+    const citations = 'Per [1], `arr[i][j]` is set.\n\n- [ ] task\n\ntext\n\n';
+    expect(parser.closedBlocksLength(citations + 'more')).toBe(citations.length);
+
+    const defined = 'See [docs][1].\n\n[1]: http://x.io\n\n';
+    const references = {};
+    expect(parser.closedBlocksLength(defined + 'more', references)).toBe(defined.length);
+    expect(references).toEqual({ 1: { href: 'http://x.io', title: '' } });
+
+    // The definition is in the last block: its URL may still grow
+    expect(parser.closedBlocksLength('See [docs][1].\n\nmid\n\n[1]: http://x')).toBe(0);
+    expect(parser.closedBlocksLength('See [docs][1].\n\nmore', { 1: { href: 'http://x.io', title: '' } }))
+      .toBe('See [docs][1].\n\n'.length);
+  });
+
+  it('should match a one-shot parse with citations, code and task lists', () => {
+    const markdown = generateTokens(400, true).join('') + 'See [again][docs].';
+    stream(Array.from(markdown), 5);
+
+    const block = container.querySelector('.livellm-stream-block')!;
+    expect(block.innerHTML).toBe(parser.parse(markdown));
+    expect(block.querySelectorAll('a[href="http://x.io"]').length).toBeGreaterThan(1);
+  });
+
+  it('should keep committed block nodes in place while the stream continues', () => {
+    const sr = new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+    });
+
+    sr.push('First paragraph.\n\nSecond');
+    flushFrames();
+    const first = container.querySelector('p')!;
+    expect(first.textContent).toBe('First paragraph.');
+
+    sr.push(' paragraph grows');
+    flushFrames();
+    sr.push('\n\n- and a list');
+    flushFrames();
+    sr.end();
+
+    expect(container.querySelector('p')).toBe(first);
+    expect(container.contains(first)).toBe(true);
+    expect(container.querySelectorAll('p')[1].textContent).toBe('Second paragraph grows');
+  });
+
+  it('should only re-parse the trailing open block', () => {
+    const spy = vi.spyOn(parser, 'parse');
+    const sr = new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+    });
+
+    for (let i = 0; i < 200; i++) {
+      sr.push(`Paragraph number ${i} with some text.\n\n`);
+      flushFrames();
+    }
+    spy.mockClear();
+    sr.push('Tail');
+    flushFrames();
+
+    const longest = Math.max(...spy.mock.calls.map(([markdown]) => markdown.length));
+    expect(longest).toBeLessThan(100);
+    expect(container.querySelectorAll('p').length).toBe(201);
+  });
+
+  it('should scale roughly linearly on 50k-token streams', () => {
+    const small = generateTokens(25_000);
+    const large = generateTokens(50_000);
+
+    const start = performance.now();
+    const smallCost = parsedChars(small);
+    const largeCost = parsedChars(large);
+    const elapsed = performance.now() - start;
+
+    const largeLength = large.join('').length;
+    // Quadratic re-parsing would make the 50k stream ~4x as expensive as 25k
+    expect(largeCost / smallCost).toBeLessThan(2.5);
+    // Each character is parsed a bounded number of times, independent of stream length
+    expect(largeCost / largeLength).toBeLessThan(40);
+    expect(elapsed).toBeLessThan(60_000);
+  }, 120_000);
+
+  it('should keep per-frame work bounded with brackets and a reference definition', () => {
+    const methods = ['parse', 'references', 'closedBlocksLength'] as const;
+    const small = generateTokens(10_000, true);
+    const large = generateTokens(20_000, true);
+
+    const smallCost = parsedChars(small, [...methods]);
+    const largeCost = parsedChars(large, [...methods]);
+
+    // Re-parsing the whole answer per frame would make this ~4x
+    expect(largeCost / smallCost).toBeLessThan(2.5);
+    expect(largeCost / large.join('').length).toBeLessThan(80);
+  }, 120_000);
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { StreamRenderer } from '../../src/core/stream-renderer';
+
+class MockAlert extends HTMLElement {}
+
+describe('StreamRenderer token pacing', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+  let container: HTMLElement;
+  let frames: FrameRequestCallback[];
+
+  function flushFrames(): void {
+    const pending = frames;
+    frames = [];
+    pending.forEach((cb) => cb(0));
+  }
+
+  /** Advance the clock, render a frame and return the visible text length. */
+  function advance(ms: number): number {
+    vi.advanceTimersByTime(ms);
+    flushFrames();
+    return container.textContent!.trim().length;
+  }
+
+  function createStream(tokenDelay: number): StreamRenderer {
+    return new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+      showStopped: false,
+      tokenDelay,
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser);
+    container = document.createElement('div');
+    frames = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => frames.push(cb));
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    registry.register('alert', MockAlert, {
+      schema: { text: { type: 'string', required: true } },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should render immediately without tokenDelay', () => {
+    const sr = createStream(0);
+    sr.push('Hello');
+    expect(advance(0)).toBe(5);
+    sr.end();
+  });
+
+  it('should release one character per tick at the base rate', () => {
+    const sr = createStream(20);
+    sr.push('Hi!');
+
+    expect(advance(0)).toBe(0);
+    expect(advance(20)).toBe(1);
+    expect(advance(20)).toBe(2);
+    expect(advance(20)).toBe(3);
+    sr.end();
+  });
+
+  it('should spread a burst out and catch up within 20 ticks', () => {
+    const sr = createStream(10);
+    sr.push('x'.repeat(500));
+
+    expect(advance(10)).toBe(25);
+    expect(advance(90)).toBe(250);
+    expect(advance(100)).toBe(500);
+    expect(vi.getTimerCount()).toBe(0);
+    sr.end();
+  });
+
+  it('should speed up when the backlog grows', () => {
+    const sr = createStream(10);
+    sr.push('a'.repeat(40));
+    expect(advance(10)).toBe(2);
+
+    sr.push('b'.repeat(400));
+    // 438 chars left → at least 22 per tick
+    expect(advance(10)).toBe(24);
+    expect(advance(190)).toBe(440);
+    sr.end();
+  });
+
+  it('should flush the buffer immediately on end()', () => {
+    const onEnd = vi.fn();
+    const sr = new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+      tokenDelay: 50,
+      onEnd,
+    });
+    sr.push('Intro\n\n```livellm:alert\n{"text":"hi"}\n```\n\nOutro');
+    sr.end();
+
+    expect(container.querySelector('livellm-alert')).not.toBeNull();
+    expect(container.textContent).toContain('Outro');
+    expect(onEnd).toHaveBeenCalledWith(sr.getFullText());
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should report received text and tokens before they are released', () => {
+    const onToken = vi.fn();
+    events.on('stream:token', onToken);
+    const sr = createStream(10);
+    sr.push('abc');
+
+    expect(onToken).toHaveBeenCalledWith('abc');
+    expect(sr.getFullText()).toBe('abc');
+    expect(advance(0)).toBe(0);
+    sr.end();
+  });
+
+  it('should drop buffered text on abort()', () => {
+    const sr = createStream(10);
+    sr.push('never shown');
+    sr.abort();
+
+    expect(advance(1000)).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should keep only the released text on abort()', () => {
+    const onAbort = vi.fn();
+    events.on('stream:abort', onAbort);
+    const sr = createStream(10);
+    sr.push('Hello ');
+    sr.push('world');
+    expect(advance(30)).toBe(3);
+
+    sr.abort();
+
+    expect(sr.getFullText()).toBe('Hel');
+    expect(onAbort).toHaveBeenCalledWith('Hel');
+    expect(container.textContent!.trim()).toBe('Hel');
+  });
+
+  it('should not split surrogate pairs', () => {
+    const sr = createStream(10);
+    sr.push('😀😀');
+    advance(10);
+    expect(container.textContent!.trim()).toBe('😀');
+    sr.end();
+  });
+});
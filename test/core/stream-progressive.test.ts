@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { StreamRenderer } from '../../src/core/stream-renderer';
+import { LiveLLMComponent } from '../../src/components/base';
+import { LiveLLMTablePlus, TABLE_PLUS_REGISTRATION } from '../../src/components/block/table-plus';
+import { LiveLLMChoice, CHOICE_REGISTRATION } from '../../src/components/action/choice';
+
+class ProgressiveList extends LiveLLMComponent {
+  render(): void {
+    const items: string[] = Array.isArray(this._props.items) ? this._props.items : [];
+    this.setContent(items.map((item) => `<li>${item}</li>`).join(''));
+  }
+}
+
+class PlainList extends LiveLLMComponent {
+  render(): void {
+    this.setContent('');
+  }
+}
+
+describe('StreamRenderer progressive components', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+  let container: HTMLElement;
+  let frames: FrameRequestCallback[];
+
+  function flushFrames(): void {
+    const pending = frames;
+    frames = [];
+    pending.forEach((cb) => cb(0));
+  }
+
+  function createStream(): StreamRenderer {
+    return new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+    });
+  }
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    frames = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => frames.push(cb));
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+
+    registry.register('test-progressive-list', ProgressiveList, {
+      schema: {
+        items: { type: 'array', required: true },
+        title: { type: 'string', default: 'List' },
+      },
+      progressive: true,
+    });
+    registry.register('test-plain-list', PlainList, {
+      schema: { items: { type: 'array', required: true } },
+    });
+    registry.register('table-plus', LiveLLMTablePlus, TABLE_PLUS_REGISTRATION);
+    registry.register('choice', LiveLLMChoice, CHOICE_REGISTRATION);
+  });
+
+  afterEach(() => {
+    container.remove();
+    vi.unstubAllGlobals();
+  });
+
+  it('should mount the component with partial props before the fence closes', () => {
+    const sr = createStream();
+    sr.push('```livellm:test-progressive-list\n{"items": ["a", "b');
+    flushFrames();
+
+    const el = container.querySelector('livellm-test-progressive-list') as ProgressiveList;
+    expect(el).not.toBeNull();
+    expect(el.streaming).toBe(true);
+    expect(container.querySelector('.livellm-skeleton-wrapper')).toBeNull();
+    expect(JSON.parse(el.getAttribute('data-props')!)).toEqual({ items: ['a', 'b'], title: 'List' });
+
+    sr.push('", "c"]}\n```\n');
+    flushFrames();
+    sr.end();
+
+    expect(container.querySelector('livellm-test-progressive-list')).toBe(el);
+    expect(el.streaming).toBe(false);
+    expect(el.shadowRoot!.querySelectorAll('li').length).toBe(3);
+  });
+
+  it('should keep the skeleton until the JSON yields props', () => {
+    const sr = createStream();
+    sr.push('```livellm:test-progressive-list\n{"ite');
+    flushFrames();
+
+    expect(container.querySelector('.livellm-skeleton-wrapper')).not.toBeNull();
+    expect(container.querySelector('livellm-test-progressive-list')).toBeNull();
+    sr.end();
+  });
+
+  it('should update at most once per frame', () => {
+    const partial = vi.fn();
+    events.on('stream:component:partial', partial);
+    const sr = createStream();
+
+    sr.push('```livellm:test-progressive-list\n{"items": [');
+    for (let i = 0; i < 20; i++) sr.push(`"item ${i}", `);
+    flushFrames();
+    for (let i = 20; i < 40; i++) sr.push(`"item ${i}", `);
+    flushFrames();
+
+    expect(partial).toHaveBeenCalledTimes(2);
+    const el = container.querySelector('livellm-test-progressive-list') as ProgressiveList;
+    expect(el.shadowRoot!.querySelectorAll('li').length).toBe(40);
+    sr.end();
+  });
+
+  it('should still validate at fence close', () => {
+    const sr = createStream();
+    sr.push('```livellm:test-progressive-list\n{"title": "Todo", "items": "no');
+    flushFrames();
+    expect(container.querySelector('livellm-test-progressive-list')).not.toBeNull();
+
+    sr.push('t a list"}\n```\n');
+    sr.end();
+
+    expect(container.querySelector('livellm-test-progressive-list')).toBeNull();
+    expect(container.querySelector('.livellm-error')).not.toBeNull();
+  });
+
+  it('should fall back when the stream ends inside a progressive block', () => {
+    const sr = createStream();
+    sr.push('```livellm:test-progressive-list\n{"items": ["a"');
+    flushFrames();
+    sr.end();
+
+    expect(container.querySelector('livellm-test-progressive-list')).toBeNull();
+    expect(container.querySelector('.livellm-fallback')).not.toBeNull();
+  });
+
+  it('should buffer components that do not opt in', () => {
+    const sr = createStream();
+    sr.push('```livellm:test-plain-list\n{"items": ["a", "b"], ');
+    flushFrames();
+
+    expect(container.querySelector('livellm-test-plain-list')).toBeNull();
+    expect(container.querySelector('.livellm-skeleton-wrapper')).not.toBeNull();
+
+    sr.push('"x": 1}\n```\n');
+    sr.end();
+    expect(container.querySelector('livellm-test-plain-list')).not.toBeNull();
+  });
+
+  it('should stream table rows as they arrive', () => {
+    const sr = createStream();
+    sr.push('```livellm:table-plus\n{"columns": [{"key": "name", "label": "Name"}], "rows": [{"name": "Ada"}, ');
+    flushFrames();
+
+    const table = container.querySelector('livellm-table-plus')!;
+    expect(table.shadowRoot!.querySelectorAll('tbody tr').length).toBe(1);
+
+    sr.push('{"name": "Grace"}, {"name": "Lin');
+    flushFrames();
+    expect(table.shadowRoot!.querySelectorAll('tbody tr').length).toBe(3);
+
+    sr.push('us"}]}\n```\n');
+    sr.end();
+    expect(container.querySelector('livellm-table-plus')).toBe(table);
+    expect(table.shadowRoot!.querySelectorAll('tbody tr').length).toBe(3);
+  });
+
+  it('should not let a choice be picked before all options arrive', () => {
+    const onAction = vi.fn();
+    container.addEventListener('livellm:action', onAction);
+    const sr = createStream();
+    sr.push('```livellm:choice\n{"question": "Pick", "options": ["Red", "Gr');
+    flushFrames();
+
+    const choice = container.querySelector('livellm-choice')!;
+    (choice.shadowRoot!.querySelector('.choice-option') as HTMLElement).click();
+    expect(onAction).not.toHaveBeenCalled();
+
+    sr.push('een"]}\n```\n');
+    sr.end();
+    const options = choice.shadowRoot!.querySelectorAll('.choice-option');
+    expect(options.length).toBe(2);
+    (options[1] as HTMLElement).click();
+    expect(onAction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { StreamRenderer } from '../../src/core/stream-renderer';
+import { connectLiveLLMStream } from '../../src/protocol/client';
+import { createSSEWriter } from '../../src/protocol/server';
+
+describe('StreamRenderer reasoning', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+  let container: HTMLElement;
+
+  function createStream(options = {}): StreamRenderer {
+    return new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+      ...options,
+    });
+  }
+
+  function thoughts(): HTMLDetailsElement {
+    return container.querySelector('details.livellm-reasoning')!;
+  }
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    container.remove();
+  });
+
+  it('should stream thinking into an open block', () => {
+    const onReasoning = vi.fn();
+    events.on('stream:reasoning', onReasoning);
+    const sr = createStream();
+
+    sr.pushReasoning('The user asks ');
+    sr.pushReasoning('for a <b>greeting</b>.');
+
+    expect(thoughts().open).toBe(true);
+    expect(thoughts().hasAttribute('data-streaming')).toBe(true);
+    expect(thoughts().querySelector('summary')!.textContent).toBe('Thinking…');
+    expect(thoughts().querySelector('.livellm-reasoning-body')!.textContent).toBe('The user asks for a <b>greeting</b>.');
+    expect(container.querySelector('b')).toBeNull();
+    expect(onReasoning).toHaveBeenCalledTimes(2);
+    expect(sr.getState()).toBe('RENDERING');
+  });
+
+  it('should collapse when the answer starts and keep thinking out of the full text', () => {
+    const onEnd = vi.fn();
+    const sr = createStream({ onEnd });
+
+    sr.pushReasoning('Plan the answer.');
+    sr.push('Hello!');
+    expect(thoughts().open).toBe(false);
+    expect(thoughts().querySelector('summary')!.textContent).toBe('Thoughts');
+
+    thoughts().open = true;
+    sr.push(' How are you?');
+    sr.end();
+
+    expect(thoughts().open).toBe(true);
+    expect(container.firstElementChild).toBe(thoughts());
+    expect(sr.getFullText()).toBe('Hello! How are you?');
+    expect(sr.getReasoning()).toBe('Plan the answer.');
+    expect(onEnd).toHaveBeenCalledWith('Hello! How are you?');
+  });
+
+  it('should place thinking above answer text that arrived first', () => {
+    const sr = createStream();
+    sr.push('Sure.');
+    sr.pushReasoning('Late thought.');
+    sr.end();
+
+    expect(container.firstElementChild).toBe(thoughts());
+    expect(thoughts().open).toBe(false);
+  });
+
+  it('should render reasoning events from an SSE response', async () => {
+    const chunks: string[] = [];
+    const writer = createSSEWriter({ setHeader() {}, write: (chunk) => chunks.push(chunk) > 0, end() {} });
+    writer.reasoning('Two plus two ');
+    writer.reasoning('is four.');
+    writer.token('4');
+    writer.done();
+
+    const sr = createStream();
+    await connectLiveLLMStream(new Response(chunks.join('')), sr);
+
+    expect(sr.getReasoning()).toBe('Two plus two is four.');
+    expect(sr.getFullText()).toBe('4');
+    expect(thoughts().open).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { Transformer } from '../../src/core/transformer';
+import { StreamRenderer } from '../../src/core/stream-renderer';
+import type { StreamRendererOptions } from '../../src/utils/types';
+
+class MockComponent extends HTMLElement {}
+
+const TABLE = '| Product | Price |\n| --- | --- |\n| Widget | 10 |\n| Gadget | 20 |\n| Thing | 15 |\n';
+const QUESTION = 'What would you like to build?\n\n1. Web Application\n2. REST API\n3. Mobile App\n';
+
+describe('StreamRenderer transforms', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+  let transformer: Transformer;
+  let container: HTMLElement;
+  let frames: FrameRequestCallback[];
+
+  function flushFrames(): void {
+    const pending = frames;
+    frames = [];
+    pending.forEach((cb) => cb(0));
+  }
+
+  function createStream(options: Partial<StreamRendererOptions> = {}): StreamRenderer {
+    return new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+      autoScroll: false,
+      ...options,
+    }, transformer);
+  }
+
+  /** Push `markdown` line by line, rendering a frame after each line. */
+  function pushLines(sr: StreamRenderer, markdown: string): void {
+    for (const line of markdown.split(/(?<=\n)/)) {
+      sr.push(line);
+      flushFrames();
+    }
+  }
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser);
+    transformer = new Transformer(events);
+    transformer.registerBuiltIns();
+    container = document.createElement('div');
+    frames = [];
+    vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => frames.push(cb));
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+
+    for (const name of ['alert', 'table-plus', 'choice']) {
+      registry.register(name, class extends MockComponent {}, {});
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should enrich finished text when the stream ends', () => {
+    const sr = createStream();
+    pushLines(sr, `Here are the prices:\n\n${TABLE}\nThat is all.`);
+
+    const intro = container.querySelector('p')!;
+    expect(container.querySelector('table')).not.toBeNull();
+    sr.end();
+
+    expect(container.querySelector('table')).toBeNull();
+    expect(container.querySelector('livellm-table-plus')).not.toBeNull();
+    // Untouched blocks keep their nodes
+    expect(container.querySelector('p')).toBe(intro);
+    expect(container.textContent).toContain('That is all.');
+  });
+
+  it('should keep mounted components in place', () => {
+    const sr = createStream();
+    pushLines(sr, 'Note: `livellm:alert{"text":"inline"}`\n\n');
+    pushLines(sr, '```livellm:alert\n{"text":"block"}\n```\n\n');
+    pushLines(sr, `${TABLE}\nDone.`);
+
+    const [inline, block] = Array.from(container.querySelectorAll('livellm-alert'));
+    sr.end();
+
+    expect(container.querySelectorAll('livellm-alert')[0]).toBe(inline);
+    expect(container.querySelectorAll('livellm-alert')[1]).toBe(block);
+    expect(container.querySelector('livellm-table-plus')).not.toBeNull();
+  });
+
+  it('should merge chunks when a detection spans several blocks', () => {
+    const sr = createStream();
+    pushLines(sr, `Intro paragraph.\n\n${QUESTION}\nThanks!`);
+    sr.end();
+
+    expect(container.querySelector('livellm-choice')).not.toBeNull();
+    expect(container.querySelector('ol')).toBeNull();
+    expect(container.textContent).toContain('Intro paragraph.');
+    expect(container.textContent).toContain('Thanks!');
+  });
+
+  it('should leave the text alone without transformOnComplete', () => {
+    const sr = createStream({ transformOnComplete: false });
+    pushLines(sr, `${TABLE}\nAfter.`);
+    sr.end();
+
+    expect(container.querySelector('table')).not.toBeNull();
+    expect(container.querySelector('livellm-table-plus')).toBeNull();
+  });
+
+  it('should transform blocks as they close with transformDuringStream', () => {
+    const sr = createStream({ transformDuringStream: true, transformOnComplete: false });
+    pushLines(sr, `${TABLE}\nStill streaming`);
+
+    const table = container.querySelector('livellm-table-plus');
+    expect(table).not.toBeNull();
+
+    sr.push(' the last line.');
+    flushFrames();
+    sr.end();
+    expect(container.querySelector('livellm-table-plus')).toBe(table);
+  });
+
+  it('should not re-render blocks already transformed during the stream', () => {
+    const sr = createStream({ transformDuringStream: true });
+    pushLines(sr, `${TABLE}\nAfter.`);
+
+    const table = container.querySelector('livellm-table-plus');
+    sr.end();
+    expect(container.querySelector('livellm-table-plus')).toBe(table);
+  });
+
+  it('should match a one-shot transformed render', () => {
+    const markdown = `Here are the prices:\n\n${TABLE}\n${QUESTION}`;
+    const sr = createStream();
+    pushLines(sr, markdown);
+    sr.end();
+
+    const oneShot = document.createElement('div');
+    oneShot.innerHTML = parser.parse(transformer.transform(markdown));
+    expect(container.querySelector('.livellm-stream-block')!.innerHTML.replace(/\s+/g, ''))
+      .toBe(oneShot.innerHTML.replace(/\s+/g, ''));
+  });
+});
@@ -105,6 +105,44 @@ describe('StreamRenderer', () => {
     expect(container.textContent).not.toContain('World');
   });
 
+  it('should render the text so far and mark an aborted stream as stopped', () => {
+    vi.stubGlobal('requestAnimationFrame', () => 1);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    try {
+      const onAbort = vi.fn();
+      events.on('stream:abort', onAbort);
+      const sr = new StreamRenderer(events, registry, parser, renderer, container, {
+        showCursor: false,
+      });
+
+      sr.push('Half an answ');
+      sr.abort();
+      sr.abort();
+
+      expect(container.textContent).toContain('Half an answ');
+      expect(container.lastElementChild!.className).toBe('livellm-stopped');
+      expect(container.querySelectorAll('.livellm-stopped')).toHaveLength(1);
+      expect(container.hasAttribute('data-livellm-stopped')).toBe(true);
+      expect(sr.isStopped()).toBe(true);
+      expect(onAbort).toHaveBeenCalledWith('Half an answ');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should not mark a stream that already ended as stopped', () => {
+    const sr = new StreamRenderer(events, registry, parser, renderer, container, {
+      showCursor: false,
+    });
+
+    sr.push('Complete.');
+    sr.end();
+    sr.abort();
+
+    expect(container.querySelector('.livellm-stopped')).toBeNull();
+    expect(sr.isStopped()).toBe(false);
+  });
+
   it('should show cursor during streaming when enabled', async () => {
     const sr = new StreamRenderer(events, registry, parser, renderer, container, {
       showCursor: true,
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { ThemeManager, THEME_PRESETS } from '../../src/core/theme';
+import { LiveLLMInstance } from '../../src/core/livellm';
+import { LiveLLMComponent } from '../../src/components/base';
+
+class ThemedBox extends LiveLLMComponent {
+  render(): void {
+    this.setContent('<div class="box"></div>');
+  }
+}
+
+const tagName = 'livellm-test-themed-box';
+try { customElements.define(tagName, ThemedBox); } catch {}
+
+function themeCSS(): string {
+  return document.getElementById('livellm-theme')?.textContent || '';
+}
+
+function mockColorScheme(dark: boolean) {
+  const listeners: Array<() => void> = [];
+  const mql = {
+    matches: dark,
+    addEventListener: (_: string, fn: () => void) => listeners.push(fn),
+    removeEventListener: vi.fn(),
+  };
+  vi.stubGlobal('matchMedia', vi.fn(() => mql));
+  return {
+    setDark(value: boolean) {
+      mql.matches = value;
+      listeners.forEach((fn) => fn());
+    },
+  };
+}
+
+describe('ThemeManager', () => {
+  let events: EventBus;
+  let themes: ThemeManager;
+
+  beforeEach(() => {
+    document.head.innerHTML = '';
+    document.body.innerHTML = '';
+    events = new EventBus();
+    themes = new ThemeManager(events);
+  });
+
+  afterEach(() => {
+    themes.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('should inject the theme variables into the document', () => {
+    themes.apply('dark');
+
+    expect(themeCSS()).toContain(`--livellm-bg: ${THEME_PRESETS.dark.bg};`);
+    expect(themeCSS()).toContain('--livellm-font-size: 15px;');
+    expect(document.documentElement.getAttribute('data-livellm-theme')).toBe('dark');
+  });
+
+  it('should reuse a single style element when switching', () => {
+    themes.apply('dark');
+    themes.apply('minimal');
+
+    expect(document.querySelectorAll('#livellm-theme').length).toBe(1);
+    expect(themeCSS()).toContain(`--livellm-border-radius: ${THEME_PRESETS.minimal['border-radius']};`);
+    expect(themeCSS()).not.toContain(THEME_PRESETS.dark.bg);
+  });
+
+  it('should inject themeVars as --livellm-* custom properties', () => {
+    themes.apply('default', { primary: '#ff0000', '--livellm-radius-x': '3px', 'livellm-gap': '2px' });
+
+    expect(themeCSS()).toContain('--livellm-primary: #ff0000;');
+    expect(themeCSS()).toContain('--livellm-radius-x: 3px;');
+    expect(themeCSS()).toContain('--livellm-gap: 2px;');
+  });
+
+  it('should only apply themeVars for the custom theme', () => {
+    themes.apply('custom', { primary: '#123456' });
+
+    expect(themeCSS()).toContain('--livellm-primary: #123456;');
+    expect(themeCSS()).not.toContain('--livellm-bg:');
+  });
+
+  it('should follow prefers-color-scheme in auto mode', () => {
+    const scheme = mockColorScheme(false);
+    themes.apply('auto');
+    expect(themes.resolve()).toBe('default');
+
+    scheme.setDark(true);
+    expect(themes.resolve()).toBe('dark');
+    expect(document.documentElement.getAttribute('data-livellm-theme')).toBe('dark');
+    expect(themeCSS()).toContain(`--livellm-bg: ${THEME_PRESETS.dark.bg};`);
+  });
+
+  it('should tag mounted components, including nested shadow roots', () => {
+    const outer = document.createElement(tagName);
+    document.body.appendChild(outer);
+    const inner = document.createElement(tagName);
+    inner.setAttribute('data-livellm', 'box');
+    outer.setAttribute('data-livellm', 'box');
+    outer.shadowRoot!.appendChild(inner);
+
+    themes.apply('minimal');
+
+    expect(outer.getAttribute('data-livellm-theme')).toBe('minimal');
+    expect(inner.getAttribute('data-livellm-theme')).toBe('minimal');
+  });
+
+  it('should emit theme:changed', () => {
+    const handler = vi.fn();
+    events.on('theme:changed', handler);
+    themes.apply('dark', { primary: '#000' });
+    expect(handler).toHaveBeenCalledWith('dark', { primary: '#000' });
+  });
+
+  it('should remove injected styles on destroy', () => {
+    themes.apply('dark');
+    themes.destroy();
+    expect(document.getElementById('livellm-theme')).toBeNull();
+    expect(document.documentElement.hasAttribute('data-livellm-theme')).toBe(false);
+  });
+});
+
+describe('LiveLLMInstance theming', () => {
+  beforeEach(() => {
+    document.head.innerHTML = '';
+    document.documentElement.removeAttribute('data-livellm-theme');
+  });
+
+  it('should apply the theme passed to init()', () => {
+    const livellm = new LiveLLMInstance();
+    livellm.init({ theme: 'dark', themeVars: { primary: '#abcdef' } });
+
+    expect(themeCSS()).toContain(`--livellm-bg: ${THEME_PRESETS.dark.bg};`);
+    expect(themeCSS()).toContain('--livellm-primary: #abcdef;');
+    livellm.destroy();
+  });
+
+  it('should not inject styles when no theme is configured', () => {
+    const livellm = new LiveLLMInstance();
+    livellm.init({ debug: false });
+    expect(document.getElementById('livellm-theme')).toBeNull();
+  });
+
+  it('should switch themes at runtime with setTheme()', () => {
+    const livellm = new LiveLLMInstance();
+    livellm.init({ theme: 'default' });
+    livellm.setTheme('minimal');
+
+    expect(livellm.theme).toBe('minimal');
+    expect(themeCSS()).toContain(`--livellm-primary: ${THEME_PRESETS.minimal.primary};`);
+    livellm.destroy();
+  });
+
+  it('should theme components mounted after the switch', () => {
+    const livellm = new LiveLLMInstance();
+    livellm.setTheme('dark');
+
+    const el = document.createElement(tagName);
+    document.body.appendChild(el);
+    expect(el.getAttribute('data-livellm-theme')).toBe('dark');
+    livellm.destroy();
+  });
+});
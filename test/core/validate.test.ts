@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { validateProps, applyDefaults } from '../../src/utils/validate';
-import { safeParseJSON, parseLiveLLMBlock, parseLiveLLMInline } from '../../src/utils/json';
+import { validateProps, validateAction, applyDefaults } from '../../src/utils/validate';
+import { safeParseJSON, parseLiveLLMBlock, parseLiveLLMInline, IncrementalJSONParser, mergePatch } from '../../src/utils/json';
 
 describe('validateProps', () => {
   it('should pass valid props', () => {
@@ -85,6 +85,40 @@ describe('validateProps', () => {
   });
 });
 
+describe('validateAction', () => {
+  const definition = {
+    value: { type: 'number' as const, min: 1 },
+    data: { max: { type: 'number' as const } },
+  };
+
+  it('should accept data matching the definition', () => {
+    expect(validateAction(definition, { value: 4, max: 5, label: 'Rated' }).valid).toBe(true);
+  });
+
+  it('should require the value', () => {
+    const result = validateAction(definition, { max: 5 });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].prop).toBe('value');
+  });
+
+  it('should check the value and declared fields', () => {
+    expect(validateAction(definition, { value: '4' }).errors[0].message).toBe('value must be a number');
+    expect(validateAction(definition, { value: 0 }).valid).toBe(false);
+    expect(validateAction(definition, { value: 3, max: 'five' }).errors[0].prop).toBe('max');
+  });
+
+  it('should reject data that is not an object', () => {
+    expect(validateAction(definition, 4).errors[0].prop).toBe('data');
+    expect(validateAction(definition, null).valid).toBe(false);
+  });
+
+  it('should check array items', () => {
+    const list = { value: { type: 'array' as const, items: { type: 'string' as const } } };
+    expect(validateAction(list, { value: ['a', 'b'] }).valid).toBe(true);
+    expect(validateAction(list, { value: ['a', 2] }).errors[0].prop).toBe('value[1]');
+  });
+});
+
 describe('applyDefaults', () => {
   it('should fill in defaults for missing props', () => {
     const result = applyDefaults(
@@ -172,3 +206,76 @@ describe('parseLiveLLMInline', () => {
     expect(result).toBeNull();
   });
 });
+
+describe('mergePatch', () => {
+  it('should merge objects recursively and replace other values', () => {
+    const target = { value: 10, style: { color: 'red', size: 2 }, rows: [[1], [2]] };
+    const result = mergePatch(target, { value: 40, style: { size: 3 }, rows: [[3]] });
+
+    expect(result).toEqual({ value: 40, style: { color: 'red', size: 3 }, rows: [[3]] });
+    expect(target).toEqual({ value: 10, style: { color: 'red', size: 2 }, rows: [[1], [2]] });
+  });
+
+  it('should remove keys patched with null', () => {
+    expect(mergePatch({ a: 1, b: { c: 2, d: 3 } }, { a: null, b: { c: null } })).toEqual({ b: { d: 3 } });
+  });
+
+  it('should replace non-object targets and return non-object patches as is', () => {
+    expect(mergePatch('text', { a: 1 })).toEqual({ a: 1 });
+    expect(mergePatch({ a: 1 }, [1, 2])).toEqual([1, 2]);
+    expect(mergePatch({ a: 1 }, {})).toEqual({ a: 1 });
+  });
+});
+
+describe('IncrementalJSONParser', () => {
+  function feed(text: string): IncrementalJSONParser {
+    const parser = new IncrementalJSONParser();
+    for (const ch of text) parser.push(ch);
+    return parser;
+  }
+
+  it('should parse complete JSON like JSON.parse', () => {
+    const json = '{"a": [1, -2.5e3, true, false, null], "b": {"c": "x\\"y\\u00e9\\n"}, "d": []}';
+    const parser = feed(json);
+    expect(parser.complete).toBe(true);
+    expect(parser.failed).toBe(false);
+    expect(parser.value).toEqual(JSON.parse(json));
+  });
+
+  it('should expose open containers and growing strings', () => {
+    const parser = feed('{"rows": [{"name": "Al');
+    expect(parser.complete).toBe(false);
+    expect(parser.value).toEqual({ rows: [{ name: 'Al' }] });
+
+    parser.push('ice"}, {"na');
+    expect(parser.value).toEqual({ rows: [{ name: 'Alice' }, {}] });
+  });
+
+  it('should leave out incomplete numbers and literals', () => {
+    expect(feed('{"a": 1, "b": 12').value).toEqual({ a: 1 });
+    expect(feed('[true, fa').value).toEqual([true]);
+    expect(feed('[1, 2').value).toEqual([1]);
+  });
+
+  it('should ignore input after the root value', () => {
+    const parser = feed('{"a": 1}\n```');
+    expect(parser.complete).toBe(true);
+    expect(parser.failed).toBe(false);
+    expect(parser.value).toEqual({ a: 1 });
+  });
+
+  it('should stop at malformed input and keep the last good value', () => {
+    const parser = feed('{"a": 1, "b": tru!e, "c": 3}');
+    expect(parser.failed).toBe(true);
+    expect(parser.value).toEqual({ a: 1 });
+  });
+
+  it('should accept chunks of any size', () => {
+    const parser = new IncrementalJSONParser();
+    parser.push('{"items": ["one", "t');
+    parser.push('wo"], "n": 4');
+    parser.push('2}');
+    expect(parser.value).toEqual({ items: ['one', 'two'], n: 42 });
+    expect(parser.complete).toBe(true);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { Actions } from '../../src/core/actions';
+import { I18n } from '../../src/core/i18n';
+import { formatActionAsMessage } from '../../src/protocol/server';
+import type { LiveLLMAction, ActionGroupProgress } from '../../src/utils/types';
+import { LiveLLMChoice, CHOICE_REGISTRATION } from '../../src/components/action/choice';
+import { LiveLLMSlider, SLIDER_REGISTRATION } from '../../src/components/action/slider';
+import { LiveLLMDatePicker, DATE_PICKER_REGISTRATION } from '../../src/components/action/date-picker';
+import { LiveLLMConfirm, CONFIRM_REGISTRATION } from '../../src/components/action/confirm';
+
+try { customElements.define('livellm-choice', LiveLLMChoice); } catch {}
+try { customElements.define('livellm-slider', LiveLLMSlider); } catch {}
+try { customElements.define('livellm-date-picker', LiveLLMDatePicker); } catch {}
+try { customElements.define('livellm-confirm', LiveLLMConfirm); } catch {}
+
+function block(type: string, props: Record<string, any>): string {
+  return `\`\`\`livellm:${type}\n${JSON.stringify(props)}\n\`\`\``;
+}
+
+const THREE_QUESTIONS = [
+  'A few questions:',
+  block('choice', { question: 'Framework?', options: ['React', 'Vue'] }),
+  block('slider', { label: 'Team size', min: 1, max: 20 }),
+  block('date-picker', { label: 'Launch date' }),
+].join('\n\n');
+
+describe('Grouped actions', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+  let container: HTMLElement;
+  let onAction: ReturnType<typeof vi.fn>;
+
+  function answerChoice(): void {
+    (container.querySelector('livellm-choice')!.shadowRoot!.querySelectorAll('.choice-option')[1] as HTMLElement).click();
+  }
+
+  function answerSlider(): void {
+    const root = container.querySelector('livellm-slider')!.shadowRoot!;
+    const input = root.querySelector('.slider-input') as HTMLInputElement;
+    input.value = '8';
+    input.dispatchEvent(new Event('input'));
+    (root.querySelector('.slider-submit') as HTMLElement).click();
+  }
+
+  function answerDate(): void {
+    const root = container.querySelector('livellm-date-picker')!.shadowRoot!;
+    const input = root.querySelector('.dp-input') as HTMLInputElement;
+    input.value = '2025-06-01';
+    input.dispatchEvent(new Event('change'));
+    (root.querySelector('.dp-submit') as HTMLElement).click();
+  }
+
+  function progressText(): string | undefined {
+    return container.querySelector('.livellm-action-progress')?.textContent ?? undefined;
+  }
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser, {}, {}, new I18n(), { groupActions: true });
+    document.body.innerHTML = '<div id="app"></div>';
+    container = document.getElementById('app')!;
+    onAction = vi.fn();
+
+    registry.register('choice', LiveLLMChoice, CHOICE_REGISTRATION);
+    registry.register('slider', LiveLLMSlider, SLIDER_REGISTRATION);
+    registry.register('date-picker', LiveLLMDatePicker, DATE_PICKER_REGISTRATION);
+    registry.register('confirm', LiveLLMConfirm, CONFIRM_REGISTRATION);
+  });
+
+  it('should send one combined action once every question of the message is answered', () => {
+    new Actions(events, { onAction, autoSend: true, groupActions: true });
+    const progress: ActionGroupProgress[] = [];
+    events.on('action:group:progress', (p: ActionGroupProgress) => progress.push(p));
+    renderer.render(THREE_QUESTIONS, container);
+
+    answerDate();
+    answerChoice();
+    expect(onAction).not.toHaveBeenCalled();
+    expect(progressText()).toBe('2 of 3 answered');
+    expect(container.querySelector('.livellm-action-progress')?.getAttribute('role')).toBe('status');
+
+    answerSlider();
+    expect(progress.map((p) => `${p.answered}/${p.total}`)).toEqual(['1/3', '2/3', '3/3']);
+    expect(progressText()).toBe('3 of 3 answered');
+    expect(container.querySelector('.livellm-action-progress')?.classList.contains('complete')).toBe(true);
+
+    expect(onAction).toHaveBeenCalledTimes(1);
+    const combined: LiveLLMAction = onAction.mock.calls[0][0];
+    expect(combined.component).toBe('group');
+    expect(combined.action).toBe('submit-all');
+    // Members come back in document order, not answer order
+    expect(combined.actions!.map((a) => a.component)).toEqual(['choice', 'slider', 'date-picker']);
+    expect(combined.value).toEqual(['Vue', 8, '2025-06-01']);
+  });
+
+  it('should send actions one by one when grouping is off', () => {
+    new Actions(events, { onAction, autoSend: true });
+    new Renderer(events, registry, parser).render(THREE_QUESTIONS, container);
+
+    answerChoice();
+    answerSlider();
+
+    expect(onAction).toHaveBeenCalledTimes(2);
+    expect(onAction.mock.calls[0][0].metadata.group).toBeUndefined();
+    expect(onAction.mock.calls[1][0].metadata.group).toBeUndefined();
+    expect(progressText()).toBeUndefined();
+    expect(events.listenerCount('action:group:progress')).toBe(0);
+  });
+
+  it('should group by the group prop', () => {
+    new Actions(events, { onAction, autoSend: true, groupActions: true });
+    renderer.render([
+      block('choice', { question: 'Framework?', options: ['React', 'Vue'], group: 'stack' }),
+      block('slider', { label: 'Team size', group: 'stack' }),
+      block('confirm', { text: 'Subscribe to updates?' }),
+    ].join('\n\n'), container);
+
+    (container.querySelector('livellm-confirm')!.shadowRoot!.querySelector('[data-action="confirm"]') as HTMLElement).click();
+    expect(onAction).toHaveBeenCalledTimes(1);
+    expect(onAction.mock.calls[0][0].component).toBe('confirm');
+    expect(onAction.mock.calls[0][0].metadata.group).toBeUndefined();
+
+    answerChoice();
+    answerSlider();
+    expect(onAction).toHaveBeenCalledTimes(2);
+    expect(onAction.mock.calls[1][0].actions.map((a: LiveLLMAction) => a.component)).toEqual(['choice', 'slider']);
+  });
+
+  it('should keep separate messages in separate groups', () => {
+    new Actions(events, { onAction, autoSend: true, groupActions: true });
+    const other = document.createElement('div');
+    document.body.appendChild(other);
+    renderer.render(THREE_QUESTIONS, container);
+    renderer.render(THREE_QUESTIONS, other);
+
+    answerChoice();
+    answerSlider();
+    (other.querySelector('livellm-choice')!.shadowRoot!.querySelector('.choice-option') as HTMLElement).click();
+
+    expect(progressText()).toBe('2 of 3 answered');
+    expect(other.querySelector('.livellm-action-progress')?.textContent).toBe('1 of 3 answered');
+  });
+
+  it('should drop the groups of messages removed from the page', () => {
+    new Actions(events, { onAction, autoSend: true, groupActions: true });
+    const other = document.createElement('div');
+    document.body.appendChild(other);
+    renderer.render(THREE_QUESTIONS, other);
+    (other.querySelector('livellm-choice')!.shadowRoot!.querySelector('.choice-option') as HTMLElement).click();
+    expect(events.listenerCount('action:group:progress')).toBe(1);
+    other.remove();
+
+    renderer.render(THREE_QUESTIONS, container);
+    answerChoice();
+    answerSlider();
+    answerDate();
+
+    expect(onAction).toHaveBeenCalledTimes(1);
+    expect(events.listenerCount('action:group:progress')).toBe(0);
+  });
+
+  it('should preview the combined action once', () => {
+    const actions = new Actions(events, { onAction, groupActions: true, showPreview: true });
+    renderer.render(THREE_QUESTIONS, container);
+
+    answerChoice();
+    answerSlider();
+    expect(actions.pending).toHaveLength(0);
+    answerDate();
+
+    expect(actions.pending).toHaveLength(1);
+    const label = document.querySelector('.livellm-action-preview')!.shadowRoot!.querySelector('.preview-label')!;
+    expect(label.textContent).toContain('Selected: Vue');
+    expect(label.textContent).toContain('Selected: 8');
+  });
+
+  it('should not emit twice when a container is rendered again', () => {
+    new Actions(events, { onAction, autoSend: true });
+    const md = block('choice', { question: 'Framework?', options: ['React', 'Vue'] });
+    renderer.render(md, container);
+    renderer.render(md, container);
+
+    answerChoice();
+    expect(onAction).toHaveBeenCalledTimes(1);
+    expect(onAction.mock.calls[0][0].metadata.group).toBeUndefined();
+  });
+
+  it('should format the combined action as one message', () => {
+    new Actions(events, { onAction, autoSend: true, groupActions: true });
+    renderer.render(THREE_QUESTIONS, container);
+    answerChoice();
+    answerSlider();
+    answerDate();
+
+    const combined: LiveLLMAction = onAction.mock.calls[0][0];
+    const text = formatActionAsMessage({
+      ...combined,
+      actions: combined.actions!.map(({ component, action, value, label }) => ({ component, action, value, label })),
+    });
+    expect(text.split('\n')).toEqual([
+      'User answered 3 questions:',
+      '- User selected: Vue',
+      '- User chose 8',
+      '- User picked 2025-06-01',
+    ]);
+  });
+});
@@ -4,6 +4,7 @@ import { Registry } from '../../src/core/registry';
 import { Parser } from '../../src/core/parser';
 import { Renderer } from '../../src/core/renderer';
 import { Actions } from '../../src/core/actions';
+import { formatActionAsMessage } from '../../src/protocol/server';
 import { LiveLLMChoice, CHOICE_REGISTRATION } from '../../src/components/action/choice';
 import { LiveLLMConfirm, CONFIRM_REGISTRATION } from '../../src/components/action/confirm';
 import { LiveLLMRatingInput, RATING_INPUT_REGISTRATION } from '../../src/components/action/rating-input';
@@ -208,4 +209,19 @@ Thank you for your feedback!`;
     expect(choiceEl).toBeTruthy();
     expect(ratingEl).toBeTruthy();
   });
+
+  it('should carry extra action data through to the message formatter', () => {
+    const onAction = vi.fn();
+    actions = new Actions(events, { onAction, autoSend: true });
+
+    const md = '```livellm:rating-input\n{"label":"Rate this","max":5}\n```';
+    const container = renderer.render(md, '#app');
+    const ratingEl = container!.querySelector('livellm-rating-input')!;
+    (ratingEl.shadowRoot!.querySelectorAll('.rating-star')[3] as HTMLElement).click();
+
+    const action = onAction.mock.calls[0][0];
+    expect(action.value).toBe(4);
+    expect(action.data).toEqual({ max: 5 });
+    expect(formatActionAsMessage({ ...action, context: undefined })).toBe('User rated 4/5');
+  });
 });
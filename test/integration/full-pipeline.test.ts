@@ -178,6 +178,21 @@ Fin del dashboard.`;
     }));
   });
 
+  it('should format actions with registered formatters in the instance locale', () => {
+    livellm.register('vote', MockBadge, {
+      formatAction: (action, locale) => `[${locale}] User voted ${action.value}`,
+    });
+    const vote = { component: 'vote', action: 'vote-cast', value: 'up', label: 'Up' };
+
+    expect(livellm.formatActionAsMessage(vote)).toBe('[en] User voted up');
+    expect(livellm.formatActionAsMessage(vote, {
+      locale: 'es',
+      locales: { es: { vote: (action) => `El usuario votó ${action.value}` } },
+    })).toBe('El usuario votó up');
+    expect(livellm.formatActionAsMessage({ component: 'badge', action: 'click', value: 1, label: 'Badge' }))
+      .toBe('User action (click): Badge');
+  });
+
   it('should destroy and clean up', () => {
     const handler = vi.fn();
     livellm.on('parser:start', handler);
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LiveLLMInstance } from '../../src/core/livellm';
+import { LiveLLMCarousel, CAROUSEL_REGISTRATION } from '../../src/components/block/carousel';
+import { LiveLLMCounter, COUNTER_REGISTRATION } from '../../src/components/inline/counter';
+import { LiveLLMCalendar, CALENDAR_REGISTRATION } from '../../src/components/block/calendar';
+import { LiveLLMTablePlus, TABLE_PLUS_REGISTRATION } from '../../src/components/block/table-plus';
+import { LiveLLMConfirm, CONFIRM_REGISTRATION } from '../../src/components/action/confirm';
+
+function fence(type: string, props: Record<string, any>): string {
+  return '```livellm:' + type + '\n' + JSON.stringify(props) + '\n```';
+}
+
+describe('Localized Rendering', () => {
+  let livellm: LiveLLMInstance;
+  let container: HTMLElement;
+
+  function setup(locale: string, messages: Record<string, string> = {}): void {
+    livellm = new LiveLLMInstance();
+    livellm.init({
+      locale,
+      messages,
+      transformer: { mode: 'off', detectors: 'all', confidenceThreshold: 0.7 },
+    });
+    livellm.register('carousel', LiveLLMCarousel, CAROUSEL_REGISTRATION);
+    livellm.register('counter', LiveLLMCounter, COUNTER_REGISTRATION);
+    livellm.register('calendar', LiveLLMCalendar, CALENDAR_REGISTRATION);
+    livellm.register('table-plus', LiveLLMTablePlus, TABLE_PLUS_REGISTRATION);
+    livellm.register('confirm', LiveLLMConfirm, CONFIRM_REGISTRATION);
+  }
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  it('should render built-in strings from the locale catalog', () => {
+    setup('es');
+    livellm.render(fence('carousel', { slides: [{ title: 'A' }, { title: 'B' }] }), container);
+
+    const carousel = container.querySelector('livellm-carousel')!;
+    expect(carousel.shadowRoot!.querySelector('[data-dir="next"]')?.textContent).toContain('Siguiente');
+  });
+
+  it('should prefer per-instance message overrides', () => {
+    setup('es', { 'confirm.yes': 'Adelante' });
+    livellm.render(fence('confirm', {}), container);
+
+    const confirm = container.querySelector('livellm-confirm')!;
+    expect(confirm.shadowRoot!.querySelector('.confirm-btn.primary')?.textContent).toContain('Adelante');
+    expect(confirm.shadowRoot!.querySelector('.confirm-text')?.textContent).toContain('¿Estás seguro?');
+  });
+
+  it('should format counter values with Intl', () => {
+    setup('de');
+    livellm.render(
+      fence('counter', { value: 1234567.5 }) + '\n\n' + fence('counter', { value: 42.5, format: 'currency', currency: 'EUR' }),
+      container
+    );
+
+    const [plain, money] = Array.from(container.querySelectorAll('livellm-counter'));
+    expect(plain.shadowRoot!.querySelector('.counter-value')?.textContent).toBe('1.234.567,5');
+    expect(money.shadowRoot!.querySelector('.counter-value')?.textContent).toMatch(/42,50\s€/);
+  });
+
+  it('should localize calendar month and weekday names', () => {
+    setup('fr');
+    livellm.render(fence('calendar', { date: '2024-06-15T12:00:00' }), container);
+
+    const shadow = container.querySelector('livellm-calendar')!.shadowRoot!;
+    expect(shadow.querySelector('.cal-title')?.textContent).toContain('juin');
+    expect(shadow.querySelector('.cal-day-header')?.textContent).toBe('dim.');
+  });
+
+  it('should format typed table columns', () => {
+    setup('en');
+    livellm.render(
+      fence('table-plus', {
+        columns: [
+          { key: 'item', label: 'Item' },
+          { key: 'price', label: 'Price', type: 'currency', currency: 'USD' },
+          { key: 'year', label: 'Year' },
+        ],
+        rows: [{ item: 'Widget', price: 1999.5, year: 2024 }],
+      }),
+      container
+    );
+
+    const shadow = container.querySelector('livellm-table-plus')!.shadowRoot!;
+    const cells = Array.from(shadow.querySelectorAll('td')).map((td) => td.textContent);
+    expect(cells).toEqual(['Widget', '$1,999.50', '2024']);
+    expect(shadow.querySelector('.row-count')?.textContent).toBe('1 row');
+  });
+
+  it('should lay out right-to-left locales', () => {
+    setup('ar');
+    livellm.render('مرحبا', container);
+
+    const prose = container.querySelector('.livellm-prose')!;
+    expect(prose.getAttribute('dir')).toBe('rtl');
+    expect(prose.getAttribute('lang')).toBe('ar');
+  });
+
+  it('should mark stream containers with the locale direction', () => {
+    setup('he');
+    livellm.createStreamRenderer(container);
+    expect(container.getAttribute('dir')).toBe('rtl');
+  });
+
+  it('should mirror carousel navigation in RTL', () => {
+    setup('he');
+    livellm.render(fence('carousel', { slides: [{ title: 'A' }, { title: 'B' }] }), container);
+
+    const shadow = container.querySelector('livellm-carousel')!.shadowRoot!;
+    (shadow.querySelector('[data-dir="next"]') as HTMLElement).click();
+    const track = shadow.querySelector('.carousel-track') as HTMLElement;
+    expect(track.getAttribute('style')).toContain('translateX(100%)');
+    expect(shadow.querySelector('[data-dir="next"]')?.textContent).toContain('←');
+  });
+});
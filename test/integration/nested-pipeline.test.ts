@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LiveLLMInstance } from '../../src/core/livellm';
+import { LiveLLMTabs, TABS_REGISTRATION } from '../../src/components/block/tabs';
+import { LiveLLMAccordion, ACCORDION_REGISTRATION } from '../../src/components/block/accordion';
+import { LiveLLMCarousel, CAROUSEL_REGISTRATION } from '../../src/components/block/carousel';
+import { LiveLLMChoice, CHOICE_REGISTRATION } from '../../src/components/action/choice';
+
+function fence(type: string, props: Record<string, any>): string {
+  return '```livellm:' + type + '\n' + JSON.stringify(props) + '\n```';
+}
+
+describe('Nested Content Pipeline', () => {
+  let livellm: LiveLLMInstance;
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    document.body.appendChild(container);
+
+    livellm = new LiveLLMInstance();
+    livellm.init({ transformer: { mode: 'off', detectors: 'all', confidenceThreshold: 0.7 } });
+    livellm.register('tabs', LiveLLMTabs, TABS_REGISTRATION);
+    livellm.register('accordion', LiveLLMAccordion, ACCORDION_REGISTRATION);
+    livellm.register('carousel', LiveLLMCarousel, CAROUSEL_REGISTRATION);
+    livellm.register('choice', LiveLLMChoice, CHOICE_REGISTRATION);
+  });
+
+  it('should render Markdown inside tab panels', () => {
+    livellm.render(
+      fence('tabs', { tabs: [{ label: 'A', content: '**bold** text\n\n- one\n- two' }] }),
+      container
+    );
+
+    const tabs = container.querySelector('livellm-tabs')!;
+    const panel = tabs.shadowRoot!.querySelector('.tab-panel')!;
+    expect(panel.querySelector('strong')?.textContent).toBe('bold');
+    expect(panel.querySelectorAll('li').length).toBe(2);
+  });
+
+  it('should render Markdown inside accordion bodies and carousel slides', () => {
+    livellm.render(
+      fence('accordion', { items: [{ title: 'Q', content: 'Use `npm i`' }] }) +
+        '\n\n' +
+        fence('carousel', { slides: [{ title: 'S', content: '*italic*' }] }),
+      container
+    );
+
+    const accordion = container.querySelector('livellm-accordion')!;
+    expect(accordion.shadowRoot!.querySelector('.accordion-body code')?.textContent).toBe('npm i');
+
+    const carousel = container.querySelector('livellm-carousel')!;
+    expect(carousel.shadowRoot!.querySelector('.carousel-slide-content em')?.textContent).toBe('italic');
+  });
+
+  it('should mount nested livellm components inside panels', () => {
+    const inner = fence('choice', { question: 'Pick one', options: ['A', 'B'] });
+    livellm.render(fence('tabs', { tabs: [{ label: 'Quiz', content: inner }] }), container);
+
+    const tabs = container.querySelector('livellm-tabs')!;
+    const choice = tabs.shadowRoot!.querySelector('livellm-choice');
+    expect(choice).toBeTruthy();
+    expect(choice!.shadowRoot!.textContent).toContain('Pick one');
+  });
+
+  it('should bubble actions from nested components to the instance', () => {
+    const onAction = vi.fn();
+    livellm.on('action:triggered', onAction);
+
+    const inner = fence('choice', { question: 'Pick one', options: ['A', 'B'] });
+    livellm.render(fence('accordion', { items: [{ title: 'Quiz', content: inner }] }), container);
+
+    const accordion = container.querySelector('livellm-accordion')!;
+    const choice = accordion.shadowRoot!.querySelector('livellm-choice')!;
+    const option = choice.shadowRoot!.querySelector('.choice-option') as HTMLElement;
+    option.click();
+
+    const submit = choice.shadowRoot!.querySelector('.choice-submit') as HTMLElement | null;
+    submit?.click();
+
+    expect(onAction).toHaveBeenCalled();
+    expect(onAction.mock.calls[0][0].component).toBe('choice');
+  });
+
+  it('should keep nested components answered while the carousel navigates', () => {
+    const inner = fence('choice', { question: 'Pick one', options: ['A', 'B'] });
+    livellm.render(fence('carousel', { slides: [{ title: 'Quiz', content: inner }, { title: 'Next', content: 'More' }] }), container);
+
+    const carousel = container.querySelector('livellm-carousel')!;
+    const choice = carousel.shadowRoot!.querySelector('livellm-choice')!;
+    (choice.shadowRoot!.querySelector('.choice-option') as HTMLElement).click();
+    (choice.shadowRoot!.querySelector('.choice-submit') as HTMLElement | null)?.click();
+
+    (carousel.shadowRoot!.querySelector('[data-dir="next"]') as HTMLElement).click();
+    (carousel.shadowRoot!.querySelector('[data-dir="prev"]') as HTMLElement).click();
+
+    expect(carousel.shadowRoot!.querySelector('livellm-choice')).toBe(choice);
+    expect(choice.shadowRoot!.querySelector('.choice-option')!.classList.contains('disabled')).toBe(true);
+  });
+
+  it('should sanitize nested Markdown', () => {
+    livellm.render(
+      fence('tabs', { tabs: [{ label: 'A', content: '[x](javascript:alert(1))' }] }),
+      container
+    );
+
+    const tabs = container.querySelector('livellm-tabs')!;
+    const panel = tabs.shadowRoot!.querySelector('.tab-panel')!;
+    expect(panel.querySelector('a[href^="javascript"]')).toBeNull();
+  });
+
+  it('should fall back to plain text past the nesting depth limit', () => {
+    livellm.init({
+      transformer: { mode: 'off', detectors: 'all', confidenceThreshold: 0.7 },
+      renderer: { shadowDom: true, sanitize: true, proseStyles: true, maxNestingDepth: 1 },
+    });
+
+    const inner = fence('tabs', { tabs: [{ label: 'Inner', content: '**deep**' }] });
+    livellm.render(fence('tabs', { tabs: [{ label: 'Outer', content: inner }] }), container);
+
+    const outer = container.querySelector('livellm-tabs')!;
+    const nested = outer.shadowRoot!.querySelector('livellm-tabs')!;
+    expect(nested).toBeTruthy();
+
+    const innerPanel = nested.shadowRoot!.querySelector('.tab-panel')!;
+    expect(innerPanel.querySelector('strong')).toBeNull();
+    expect(innerPanel.textContent).toContain('**deep**');
+  });
+
+  it('should render plain text when mounted outside a renderer', () => {
+    const el = document.createElement('livellm-tabs');
+    el.setAttribute('data-livellm', 'tabs');
+    el.setAttribute('data-props', JSON.stringify({ tabs: [{ label: 'A', content: '**raw**' }] }));
+    document.body.appendChild(el);
+
+    const panel = el.shadowRoot!.querySelector('.tab-panel')!;
+    expect(panel.querySelector('strong')).toBeNull();
+    expect(panel.textContent).toContain('**raw**');
+  });
+});
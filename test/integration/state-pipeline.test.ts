@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventBus } from '../../src/core/events';
+import { Registry } from '../../src/core/registry';
+import { Parser } from '../../src/core/parser';
+import { Renderer } from '../../src/core/renderer';
+import { StreamRenderer } from '../../src/core/stream-renderer';
+import { stableComponentId } from '../../src/utils/dom';
+import type { LiveLLMAction } from '../../src/utils/types';
+import type { LiveLLMComponent } from '../../src/components/base';
+import { LiveLLMChoice, CHOICE_REGISTRATION } from '../../src/components/action/choice';
+import { LiveLLMConfirm, CONFIRM_REGISTRATION } from '../../src/components/action/confirm';
+import { LiveLLMMultiChoice, MULTI_CHOICE_REGISTRATION } from '../../src/components/action/multi-choice';
+import { LiveLLMSlider, SLIDER_REGISTRATION } from '../../src/components/action/slider';
+import { LiveLLMRatingInput, RATING_INPUT_REGISTRATION } from '../../src/components/action/rating-input';
+import { LiveLLMDatePicker, DATE_PICKER_REGISTRATION } from '../../src/components/action/date-picker';
+import { LiveLLMTextInput, TEXT_INPUT_REGISTRATION } from '../../src/components/action/text-input';
+import { LiveLLMFileUpload, FILE_UPLOAD_REGISTRATION } from '../../src/components/action/file-upload';
+import { LiveLLMForm, FORM_REGISTRATION } from '../../src/components/block/form';
+
+try { customElements.define('livellm-choice', LiveLLMChoice); } catch {}
+try { customElements.define('livellm-confirm', LiveLLMConfirm); } catch {}
+try { customElements.define('livellm-multi-choice', LiveLLMMultiChoice); } catch {}
+try { customElements.define('livellm-slider', LiveLLMSlider); } catch {}
+try { customElements.define('livellm-rating-input', LiveLLMRatingInput); } catch {}
+try { customElements.define('livellm-date-picker', LiveLLMDatePicker); } catch {}
+try { customElements.define('livellm-text-input', LiveLLMTextInput); } catch {}
+try { customElements.define('livellm-file-upload', LiveLLMFileUpload); } catch {}
+try { customElements.define('livellm-form', LiveLLMForm); } catch {}
+
+function block(type: string, props: Record<string, any>): string {
+  return `\`\`\`livellm:${type}\n${JSON.stringify(props)}\n\`\`\``;
+}
+
+function shadow(el: Element): ShadowRoot {
+  return el.shadowRoot!;
+}
+
+function typeInto(input: HTMLInputElement, value: string, event: string = 'input'): void {
+  input.value = value;
+  input.dispatchEvent(new Event(event));
+}
+
+/** One interaction per action component. Controls hidden once submitted are skipped. */
+const CASES: Array<{ type: string; props: Record<string, any>; interact: (el: Element) => void }> = [
+  {
+    type: 'choice',
+    props: { question: 'Framework?', options: ['React', 'Vue'] },
+    interact: (el) => (shadow(el).querySelectorAll('.choice-option')[1] as HTMLElement).click(),
+  },
+  {
+    type: 'confirm',
+    props: { text: 'Deploy?' },
+    interact: (el) => (shadow(el).querySelector('[data-action="cancel"]') as HTMLElement).click(),
+  },
+  {
+    type: 'multi-choice',
+    props: { question: 'Toppings?', options: ['Cheese', 'Ham', 'Olives'] },
+    interact: (el) => {
+      (shadow(el).querySelectorAll('.mc-option')[0] as HTMLElement).click();
+      (shadow(el).querySelectorAll('.mc-option')[2] as HTMLElement).click();
+      (shadow(el).querySelector('.mc-submit') as HTMLElement | null)?.click();
+    },
+  },
+  {
+    type: 'slider',
+    props: { label: 'Budget', min: 0, max: 100 },
+    interact: (el) => {
+      typeInto(shadow(el).querySelector('.slider-input') as HTMLInputElement, '70');
+      (shadow(el).querySelector('.slider-submit') as HTMLElement | null)?.click();
+    },
+  },
+  {
+    type: 'rating-input',
+    props: { label: 'How was it?' },
+    interact: (el) => (shadow(el).querySelectorAll('.rating-star')[3] as HTMLElement).click(),
+  },
+  {
+    type: 'date-picker',
+    props: { label: 'When?' },
+    interact: (el) => {
+      typeInto(shadow(el).querySelector('.dp-input') as HTMLInputElement, '2025-03-14', 'change');
+      (shadow(el).querySelector('.dp-submit') as HTMLElement).click();
+    },
+  },
+  {
+    type: 'text-input',
+    props: { label: 'Name?' },
+    interact: (el) => {
+      typeInto(shadow(el).querySelector('.ti-input') as HTMLInputElement, 'Ada');
+      (shadow(el).querySelector('.ti-submit') as HTMLElement).click();
+    },
+  },
+  {
+    type: 'form',
+    props: { fields: [{ name: 'email', type: 'email', label: 'Email' }] },
+    interact: (el) => {
+      typeInto(shadow(el).querySelector('[name="email"]') as HTMLInputElement, 'ada@example.com');
+      shadow(el).querySelector('form')!.dispatchEvent(new Event('submit', { cancelable: true }));
+    },
+  },
+];
+
+describe('Component State Pipeline Integration', () => {
+  let events: EventBus;
+  let registry: Registry;
+  let parser: Parser;
+  let renderer: Renderer;
+  let actionLog: LiveLLMAction[];
+
+  beforeEach(() => {
+    events = new EventBus();
+    registry = new Registry(events);
+    parser = new Parser(events, registry);
+    renderer = new Renderer(events, registry, parser);
+    document.body.innerHTML = '<div id="first"></div><div id="second"></div>';
+
+    registry.register('choice', LiveLLMChoice, CHOICE_REGISTRATION);
+    registry.register('confirm', LiveLLMConfirm, CONFIRM_REGISTRATION);
+    registry.register('multi-choice', LiveLLMMultiChoice, MULTI_CHOICE_REGISTRATION);
+    registry.register('slider', LiveLLMSlider, SLIDER_REGISTRATION);
+    registry.register('rating-input', LiveLLMRatingInput, RATING_INPUT_REGISTRATION);
+    registry.register('date-picker', LiveLLMDatePicker, DATE_PICKER_REGISTRATION);
+    registry.register('text-input', LiveLLMTextInput, TEXT_INPUT_REGISTRATION);
+    registry.register('file-upload', LiveLLMFileUpload, FILE_UPLOAD_REGISTRATION);
+    registry.register('form', LiveLLMForm, FORM_REGISTRATION);
+
+    actionLog = [];
+    events.on('action:triggered', (action: LiveLLMAction) => actionLog.push(action));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should give a block the same id every time it is rendered', () => {
+    const md = block('choice', { question: 'Q', options: ['a', 'b'] });
+    const first = renderer.render(md, '#first')!.querySelector('livellm-choice') as LiveLLMComponent;
+    const second = renderer.render(md, '#second')!.querySelector('livellm-choice') as LiveLLMComponent;
+
+    expect(first.componentId).toMatch(/^livellm-choice-[0-9a-z]+$/);
+    expect(second.componentId).toBe(first.componentId);
+  });
+
+  it('should number identical blocks within one render', () => {
+    const md = block('confirm', { text: 'Sure?' });
+    const container = renderer.render(`${md}\n\n${md}`, '#first')!;
+    const ids = Array.from(container.querySelectorAll('livellm-confirm')).map((el) => el.getAttribute('data-component-id'));
+
+    expect(ids[1]).toBe(`${ids[0]}-2`);
+    expect(stableComponentId('confirm', { text: 'Sure?' })).not.toBe(stableComponentId('confirm', { text: 'Sure!' }));
+  });
+
+  for (const { type, props, interact } of CASES) {
+    it(`should rehydrate ${type} into its submitted state from the action log`, () => {
+      const tag = `livellm-${type}`;
+      const md = block(type, props);
+      const original = renderer.render(md, '#first')!.querySelector(tag) as LiveLLMComponent;
+      interact(original);
+
+      expect(actionLog).toHaveLength(1);
+      expect(actionLog[0].metadata.componentId).toBe(original.componentId);
+      expect(actionLog[0].metadata.state).toEqual(original.getState());
+
+      const restored = renderer.render(md, '#second')!.querySelector(tag) as LiveLLMComponent;
+      expect(renderer.restoreComponentStates('#second', actionLog)).toBe(1);
+      expect(restored.getState()).toEqual(original.getState());
+
+      // Submitted components don't submit again
+      actionLog.length = 0;
+      interact(restored);
+      expect(actionLog).toHaveLength(0);
+    });
+  }
+
+  it('should rehydrate file-upload without the File object', () => {
+    const md = block('file-upload', { label: 'Upload' });
+    const el = renderer.render(md, '#first')!.querySelector('livellm-file-upload') as LiveLLMComponent;
+    const state = { file: { name: 'report.pdf', size: 2048, type: 'application/pdf' }, submitted: true };
+
+    renderer.restoreComponentStates('#first', { [el.componentId]: state });
+
+    expect(el.getState()).toEqual(state);
+    expect(el.shadowRoot!.querySelector('.fu-file-name')?.textContent).toBe('report.pdf');
+    expect(el.shadowRoot!.querySelector('.fu-submit')).toBeNull();
+  });
+
+  it('should apply state restored before the element is connected', () => {
+    const el = document.createElement('livellm-choice') as LiveLLMComponent;
+    el.setAttribute('data-props', JSON.stringify({ question: 'Q', options: ['a', 'b'] }));
+    el.restoreState({ selectedIndex: 0, submitted: true });
+    document.body.appendChild(el);
+
+    expect(el.shadowRoot!.querySelector('.choice-option.selected')).not.toBeNull();
+    expect(el.shadowRoot!.querySelector('.choice-option.disabled')).not.toBeNull();
+  });
+
+  it('should ignore malformed saved state', () => {
+    const el = renderer.render(block('slider', { min: 0, max: 10 }), '#first')!
+      .querySelector('livellm-slider') as LiveLLMComponent;
+    el.restoreState({ value: 'lots', submitted: 'yes' });
+
+    expect(el.getState()).toEqual({ value: 5, submitted: false });
+  });
+
+  describe('StreamRenderer', () => {
+    let frames: FrameRequestCallback[];
+
+    beforeEach(() => {
+      frames = [];
+      vi.stubGlobal('requestAnimationFrame', (cb: FrameRequestCallback) => frames.push(cb));
+      vi.stubGlobal('cancelAnimationFrame', () => {});
+    });
+
+    function stream(target: string): StreamRenderer {
+      return new StreamRenderer(events, registry, parser, renderer, target, {
+        showCursor: false,
+        autoScroll: false,
+      });
+    }
+
+    it('should give streamed components the ids of a one-shot render', () => {
+      const md = `Pick:\n\n${block('choice', { question: 'Q', options: ['a', 'b'] })}\n\n${block('choice', { question: 'Q', options: ['a', 'b'] })}\n`;
+      const sr = stream('#first');
+      sr.push(md);
+      sr.end();
+
+      const streamed = Array.from(document.querySelectorAll('#first livellm-choice')).map((el) => (el as LiveLLMComponent).componentId);
+      const rendered = Array.from(renderer.render(md, '#second')!.querySelectorAll('livellm-choice'))
+        .map((el) => (el as LiveLLMComponent).componentId);
+
+      expect(streamed).toHaveLength(2);
+      expect(streamed).toEqual(rendered);
+    });
+
+    it('should restore saved states into components as they finish streaming', () => {
+      const props = { question: 'Q', options: ['a', 'b'] };
+      const md = block('choice', props) + '\n';
+      const sr = stream('#first');
+      sr.restoreComponentStates({ [stableComponentId('choice', props)]: { selectedIndex: 1, submitted: true } });
+      sr.push(md);
+      sr.end();
+
+      const el = document.querySelector('#first livellm-choice') as LiveLLMComponent;
+      expect(el.getState()).toEqual({ selectedIndex: 1, submitted: true });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { formatActionAsMessage } from '../../src/protocol/server';
+import { BUILT_IN_ACTION_FORMATTERS } from '../../src/protocol/formatters';
+import type { ActionFormatter } from '../../src/protocol/formatters';
+
+describe('built-in action formatters', () => {
+  it('should cover every built-in component with actions', () => {
+    expect(Object.keys(BUILT_IN_ACTION_FORMATTERS)).toEqual(expect.arrayContaining([
+      'choice', 'multi-choice', 'confirm', 'slider', 'rating-input', 'date-picker',
+      'text-input', 'file-upload', 'form', 'code-runner', 'map', 'chart', 'table-plus',
+    ]));
+  });
+
+  it('should format action component answers precisely', () => {
+    const format = (component: string, action: string, value: any, data?: Record<string, any>) =>
+      formatActionAsMessage({ component, action, value, label: 'ignored', data });
+
+    expect(format('choice', 'choice-select', 'vue')).toBe('User selected: vue');
+    expect(format('multi-choice', 'multi-choice-submit', ['a', 'b'])).toBe('User selected: a, b');
+    expect(format('multi-choice', 'multi-choice-submit', [])).toBe('User selected none of the options');
+    expect(format('confirm', 'confirm-response', false)).toBe('User declined');
+    expect(format('rating-input', 'rating-submit', 4, { max: 5 })).toBe('User rated 4/5');
+    expect(format('date-picker', 'date-select', '2024-05-03T14:00')).toBe('User picked 2024-05-03 14:00');
+    expect(format('text-input', 'text-submit', 'Hello')).toBe('User wrote: Hello');
+    expect(format('file-upload', 'file-upload', 'cv.pdf', { file: { name: 'cv.pdf', size: 2048, type: 'application/pdf' } }))
+      .toBe('User uploaded "cv.pdf" (application/pdf, 2.0 KB)');
+  });
+
+  it('should format block component actions', () => {
+    const format = (component: string, action: string, value: any, data?: Record<string, any>) =>
+      formatActionAsMessage({ component, action, value, label: 'ignored', data });
+
+    expect(format('code-runner', 'code-run', 'print(1)', { language: 'python' })).toBe('User ran the python code');
+    expect(format('table-plus', 'row-click', { row: { name: 'Ada', age: 36 }, index: 1 }))
+      .toBe('User selected row 2: name: Ada, age: 36');
+    expect(format('map', 'open-map', { lat: 1, lng: 2, title: '', address: '' })).toBe('User opened the map of 1, 2');
+    expect(format('tabs', 'tab-switch', { index: 1, label: 'Pricing' })).toBe('User switched to the "Pricing" tab');
+  });
+
+  it('should keep the question context prefix', () => {
+    expect(formatActionAsMessage({
+      component: 'confirm',
+      action: 'confirm-response',
+      value: true,
+      label: 'Yes',
+      context: 'Deploy now?',
+    })).toBe('[Re: "Deploy now?"] User confirmed');
+  });
+
+  it('should use an edited label as it is', () => {
+    expect(formatActionAsMessage({
+      component: 'slider',
+      action: 'slider-submit',
+      value: 8,
+      label: 'About 8, maybe 10 next year',
+      context: 'Team size',
+      edited: true,
+    })).toBe('[Re: "Team size"] About 8, maybe 10 next year');
+  });
+
+  it('should fall back to the generic format for undeclared actions', () => {
+    expect(formatActionAsMessage({ component: 'choice', action: 'select', value: 'React', label: 'React' }))
+      .toBe('User selected: React');
+    expect(formatActionAsMessage({ component: 'constructor', action: 'poke', value: 1, label: 'Poked' }))
+      .toBe('User action (poke): Poked');
+  });
+});
+
+describe('formatActionAsMessage overrides', () => {
+  const rating = { component: 'rating-input', action: 'rating-submit', value: 4, label: 'Rated: 4 / 5', data: { max: 5 } };
+
+  it('should prefer a per-component formatter', () => {
+    const formatters = { 'rating-input': () => 'User gave 4 stars' };
+    expect(formatActionAsMessage(rating, { formatters })).toBe('User gave 4 stars');
+  });
+
+  it('should prefer a per-locale formatter, then the language', () => {
+    const de: ActionFormatter = (action) => `Nutzer bewertete ${action.value}/${action.data?.max}`;
+    const options = {
+      formatters: { 'rating-input': () => 'per component' },
+      locales: { de: { 'rating-input': de } },
+    };
+
+    expect(formatActionAsMessage(rating, { ...options, locale: 'de' })).toBe('Nutzer bewertete 4/5');
+    expect(formatActionAsMessage(rating, { ...options, locale: 'de-AT' })).toBe('Nutzer bewertete 4/5');
+    expect(formatActionAsMessage(rating, { ...options, locale: 'fr' })).toBe('per component');
+  });
+
+  it('should pass the locale and fall through when a formatter returns null', () => {
+    const seen: string[] = [];
+    const formatters = {
+      'rating-input': (_action: unknown, locale: string) => {
+        seen.push(locale);
+        return null;
+      },
+    };
+    expect(formatActionAsMessage(rating, { locale: 'es', formatters })).toBe('User rated 4/5');
+    expect(seen).toEqual(['es']);
+  });
+
+  it('should format combined action members with the same options', () => {
+    const text = formatActionAsMessage({
+      component: 'group',
+      action: 'submit-all',
+      value: [4, true],
+      label: '',
+      actions: [rating, { component: 'confirm', action: 'confirm-response', value: true, label: 'Yes' }],
+    }, { formatters: { confirm: () => 'User agreed' } });
+
+    expect(text).toBe('User answered 2 questions:\n- User rated 4/5\n- User agreed');
+  });
+});
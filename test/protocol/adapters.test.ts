@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createOpenAIAdapter,
+  createAnthropicAdapter,
+  createOllamaAdapter,
+  adaptProviderStream,
+  adaptProviderResponse,
+} from '../../src/protocol/adapters';
+import type { ProviderAdapter } from '../../src/protocol/adapters';
+import { connectLiveLLMStream } from '../../src/protocol/client';
+import type { StreamRendererLike } from '../../src/protocol/client';
+import { createSSEWriter } from '../../src/protocol/server';
+import type { StreamEvent } from '../../src/protocol/types';
+import openAIFixture from './fixtures/openai-chat.sse?raw';
+import anthropicFixture from './fixtures/anthropic-messages.sse?raw';
+import ollamaFixture from './fixtures/ollama-chat.ndjson?raw';
+
+/** A recorded body, delivered in uneven chunks that split lines and characters. */
+function bodyOf(text: string, size: number = 7): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+/** The fixture's JSON chunks, as an SDK would yield them. */
+async function* sdkChunks(text: string): AsyncGenerator<unknown> {
+  for (const line of text.split('\n')) {
+    const json = line.startsWith('data: ') ? line.slice(6) : line;
+    if (json.startsWith('{')) yield JSON.parse(json);
+  }
+}
+
+async function collect(
+  source: AsyncIterable<unknown> | ReadableStream<Uint8Array>,
+  adapter: ProviderAdapter
+): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of adaptProviderStream(source, adapter)) events.push(event);
+  return events;
+}
+
+describe('Provider adapters', () => {
+  describe('OpenAI', () => {
+    const expected: StreamEvent[] = [
+      { type: 'metadata', model: 'gpt-4o-mini-2024-07-18', provider: 'openai' },
+      { type: 'token', token: 'Hello' },
+      { type: 'token', token: '! How' },
+      { type: 'token', token: ' can I help?' },
+      { type: 'metadata', usage: { prompt_tokens: 12, completion_tokens: 7, total_tokens: 19 } },
+      { type: 'done', stopReason: 'stop' },
+    ];
+
+    it('should map a recorded SSE body', async () => {
+      expect(await collect(bodyOf(openAIFixture), createOpenAIAdapter())).toEqual(expected);
+    });
+
+    it('should map SDK chunk objects the same way', async () => {
+      expect(await collect(sdkChunks(openAIFixture), createOpenAIAdapter())).toEqual(expected);
+    });
+
+    it('should name OpenAI-compatible providers', async () => {
+      const events = await collect(sdkChunks(openAIFixture), createOpenAIAdapter('groq'));
+      expect(events[0]).toMatchObject({ provider: 'groq' });
+    });
+
+    it('should map error chunks and stop there', async () => {
+      const body = 'data: {"error":{"message":"This model\'s maximum context length is 128000 tokens.","type":"invalid_request_error","code":"context_length_exceeded"}}\n\n';
+      expect(await collect(bodyOf(body), createOpenAIAdapter())).toEqual([
+        {
+          type: 'error',
+          code: 'context_overflow',
+          message: "This model's maximum context length is 128000 tokens.",
+          recoverable: false,
+        },
+      ]);
+    });
+  });
+
+  describe('Anthropic', () => {
+    it('should map a recorded SSE body with thinking, usage and the stop reason', async () => {
+      expect(await collect(bodyOf(anthropicFixture, 11), createAnthropicAdapter())).toEqual([
+        { type: 'metadata', model: 'claude-sonnet-4-20250514', provider: 'anthropic' },
+        { type: 'reasoning', token: 'A short greeting is enough.' },
+        { type: 'token', token: 'Hello' },
+        { type: 'token', token: '! How can I help?' },
+        { type: 'metadata', usage: { prompt_tokens: 25, completion_tokens: 15, total_tokens: 40 } },
+        { type: 'done', stopReason: 'length' },
+      ]);
+    });
+
+    it('should map error events', async () => {
+      const body = 'event: error\ndata: {"type":"error","error":{"type":"rate_limit_error","message":"Number of request tokens has exceeded your per-minute rate limit"}}\n\n';
+      const events = await collect(bodyOf(body), createAnthropicAdapter());
+      expect(events).toEqual([
+        {
+          type: 'error',
+          code: 'rate_limit',
+          message: 'Number of request tokens has exceeded your per-minute rate limit',
+          recoverable: false,
+        },
+      ]);
+    });
+  });
+
+  describe('Ollama', () => {
+    it('should map a recorded NDJSON body with usage and latency', async () => {
+      expect(await collect(bodyOf(ollamaFixture, 13), createOllamaAdapter())).toEqual([
+        { type: 'metadata', model: 'llama3.2', provider: 'ollama' },
+        { type: 'token', token: 'Hello' },
+        { type: 'token', token: '! How' },
+        { type: 'token', token: ' can I help?' },
+        {
+          type: 'metadata',
+          usage: { prompt_tokens: 26, completion_tokens: 8, total_tokens: 34 },
+          latency_ms: 512,
+        },
+        { type: 'done', stopReason: 'stop' },
+      ]);
+    });
+
+    it('should map /api/generate lines and error lines', async () => {
+      const adapter = createOllamaAdapter();
+      expect(adapter.map({ model: 'llama3.2', response: 'Hi', done: false })).toEqual([
+        { type: 'metadata', model: 'llama3.2', provider: 'ollama' },
+        { type: 'token', token: 'Hi' },
+      ]);
+      expect(adapter.map({ error: 'model "llama9" not found, try pulling it first' })).toEqual([
+        { type: 'error', code: 'provider_error', message: 'model "llama9" not found, try pulling it first', recoverable: false },
+      ]);
+      expect(adapter.end()).toEqual([]);
+    });
+  });
+
+  it('should end a stream cut short with a done event', async () => {
+    const cut = openAIFixture.split('\n\n').slice(0, 3).join('\n\n');
+    const events = await collect(bodyOf(cut), createOpenAIAdapter());
+    expect(events.map((event) => event.type)).toEqual(['metadata', 'token', 'token', 'done']);
+  });
+
+  describe('adaptProviderResponse', () => {
+    function createMockStreamRenderer(): StreamRendererLike & { text: string; reasoning: string; ended: boolean } {
+      return {
+        text: '',
+        reasoning: '',
+        ended: false,
+        push(token: string) {
+          this.text += token;
+        },
+        pushReasoning(token: string) {
+          this.reasoning += token;
+        },
+        end() {
+          this.ended = true;
+        },
+        abort() {},
+      };
+    }
+
+    it('should feed a provider response to connectLiveLLMStream', async () => {
+      const sr = createMockStreamRenderer();
+      const meta: unknown[] = [];
+      const done: unknown[] = [];
+      const response = new Response(bodyOf(anthropicFixture));
+
+      await connectLiveLLMStream(adaptProviderResponse(response, createAnthropicAdapter()), sr, {
+        onMetadata: (event) => meta.push(event),
+        onDone: (event) => done.push(event),
+      });
+
+      expect(sr.text).toBe('Hello! How can I help?');
+      expect(sr.reasoning).toBe('A short greeting is enough.');
+      expect(sr.ended).toBe(true);
+      expect(meta).toHaveLength(2);
+      expect(done).toEqual([{ type: 'done', stopReason: 'length' }]);
+    });
+
+    it('should turn an HTTP error status into an error event', async () => {
+      const sr = createMockStreamRenderer();
+      const errors: unknown[] = [];
+      const response = new Response('{"error":{"message":"Rate limit reached","type":"requests"}}', { status: 429 });
+
+      await connectLiveLLMStream(adaptProviderResponse(response, createOpenAIAdapter()), sr, {
+        onError: (event) => errors.push(event),
+      });
+
+      expect(errors).toEqual([{ type: 'error', code: 'rate_limit', message: 'Rate limit reached', recoverable: false }]);
+      expect(sr.ended).toBe(true);
+    });
+  });
+
+  it('should pipe adapted events to an SSE writer', async () => {
+    const output: string[] = [];
+    let ended = false;
+    const sse = createSSEWriter({ setHeader() {}, write: (chunk) => output.push(chunk) > 0, end: () => { ended = true; } });
+
+    for await (const event of adaptProviderStream(bodyOf(ollamaFixture), createOllamaAdapter())) {
+      sse.send(event);
+    }
+
+    expect(ended).toBe(true);
+    expect(output).toHaveLength(6);
+    expect(output[5]).toBe('id: 6\ndata: {"type":"done","stopReason":"stop"}\n\n');
+  });
+});
@@ -0,0 +1,331 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLiveLLMHandler, validateChatRequest, toErrorEvent } from '../../src/protocol/handler';
+import type { LiveLLMHandlerResponse } from '../../src/protocol/handler';
+import { createCancelRegistry } from '../../src/protocol/server';
+
+function createMockResponse(): LiveLLMHandlerResponse & {
+  headers: Record<string, string>;
+  output: string[];
+  ended: boolean;
+  close(): void;
+} {
+  const listeners: Array<() => void> = [];
+  return {
+    statusCode: 200,
+    headers: {},
+    output: [],
+    ended: false,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    write(chunk: string) {
+      this.output.push(chunk);
+      return true;
+    },
+    end() {
+      this.ended = true;
+    },
+    on(_event: 'close', listener: () => void) {
+      listeners.push(listener);
+    },
+    close() {
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+/** The events written to a mock response. */
+function eventsOf(res: { output: string[] }): any[] {
+  return res.output
+    .filter((chunk) => chunk.includes('data: '))
+    .map((chunk) => JSON.parse(chunk.slice(chunk.indexOf('data: ') + 6)));
+}
+
+/** A Node-style request streaming `body` in two chunks. */
+function createStreamRequest(body: string): AsyncIterable<Uint8Array> {
+  const bytes = new TextEncoder().encode(body);
+  const middle = Math.floor(bytes.length / 2);
+  return {
+    async *[Symbol.asyncIterator]() {
+      yield bytes.slice(0, middle);
+      yield bytes.slice(middle);
+    },
+  };
+}
+
+// ─── createLiveLLMHandler ───────────────────────────────────
+
+describe('createLiveLLMHandler', () => {
+  it('should stream generated text with metadata and done', async () => {
+    const handler = createLiveLLMHandler({
+      model: 'gpt-4o-mini',
+      provider: 'openai',
+      async *generate() {
+        yield 'Hello';
+        yield '';
+        yield ' world';
+      },
+    });
+    const res = createMockResponse();
+
+    await handler({ body: { message: 'Hi' } }, res);
+
+    const events = eventsOf(res);
+    expect(res.headers['Content-Type']).toBe('text/event-stream');
+    expect(events[0]).toEqual({ type: 'metadata', model: 'gpt-4o-mini', provider: 'openai' });
+    expect(events.slice(1, 3)).toEqual([
+      { type: 'token', token: 'Hello' },
+      { type: 'token', token: ' world' },
+    ]);
+    expect(events[3].type).toBe('metadata');
+    expect(events[3].latency_ms).toBeGreaterThanOrEqual(0);
+    expect(events[4]).toEqual({ type: 'done' });
+    expect(res.ended).toBe(true);
+  });
+
+  it('should read the body from a Node request stream', async () => {
+    const generate = vi.fn(async function* () {
+      yield 'ok';
+    });
+    const handler = createLiveLLMHandler({ generate });
+
+    await handler(createStreamRequest('{"message":"Grüße"}'), createMockResponse());
+
+    expect(generate.mock.calls[0][0].request).toEqual({ message: 'Grüße' });
+  });
+
+  it('should pass normalized messages, the signal and the writer', async () => {
+    const generate = vi.fn(async function* () {});
+    const handler = createLiveLLMHandler({ generate });
+
+    await handler({
+      body: {
+        message: 'And Vue?',
+        history: [
+          { role: 'system', content: 'Be brief.', extra: true },
+          { role: 'user', content: 'Tell me about React' },
+          { role: 'assistant', content: '  ' },
+        ],
+      },
+    }, createMockResponse());
+
+    const context = generate.mock.calls[0][0];
+    expect(context.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Tell me about React' },
+      { role: 'user', content: 'And Vue?' },
+    ]);
+    expect(context.signal).toBeInstanceOf(AbortSignal);
+    expect(typeof context.writer.component).toBe('function');
+  });
+
+  it('should turn an action into the user turn', async () => {
+    const generate = vi.fn(async function* () {});
+    const handler = createLiveLLMHandler({ generate });
+
+    await handler({
+      body: {
+        message: '',
+        action: { component: 'choice', action: 'select', value: 'React', label: 'React' },
+      },
+    }, createMockResponse());
+
+    expect(generate.mock.calls[0][0].messages).toEqual([{ role: 'user', content: 'User selected: React' }]);
+  });
+
+  it('should forward events and hold usage for the final metadata', async () => {
+    const handler = createLiveLLMHandler({
+      async *generate() {
+        yield { type: 'metadata', model: 'claude', provider: 'anthropic' };
+        yield { type: 'component', name: 'alert', props: { type: 'info' } };
+        yield { type: 'token', token: 'Hi' };
+        yield { type: 'metadata', usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 } };
+        yield { type: 'done', stopReason: 'length' };
+        yield 'never sent';
+      },
+    });
+    const res = createMockResponse();
+
+    await handler({ body: { message: 'Hi' } }, res);
+
+    const events = eventsOf(res);
+    expect(events.map((event) => event.type)).toEqual(['metadata', 'component', 'token', 'metadata', 'done']);
+    expect(events[0]).toEqual({ type: 'metadata', model: 'claude', provider: 'anthropic' });
+    expect(events[3].usage).toEqual({ prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 });
+    expect(events[4]).toEqual({ type: 'done', stopReason: 'length' });
+  });
+
+  it('should end after a non-recoverable error event', async () => {
+    const handler = createLiveLLMHandler({
+      async *generate() {
+        yield { type: 'error', code: 'rate_limit', message: 'Slow down', recoverable: false };
+        yield 'never sent';
+      },
+    });
+    const res = createMockResponse();
+
+    await handler({ body: { message: 'Hi' } }, res);
+
+    expect(eventsOf(res)).toEqual([{ type: 'error', code: 'rate_limit', message: 'Slow down', recoverable: false }]);
+    expect(res.ended).toBe(true);
+  });
+
+  it('should map thrown errors to error events', async () => {
+    const onError = vi.fn();
+    const error = Object.assign(new Error('Too many requests'), { status: 429 });
+    const handler = createLiveLLMHandler({
+      async *generate() {
+        yield 'Hel';
+        throw error;
+      },
+      onError,
+    });
+    const res = createMockResponse();
+
+    await handler({ body: { message: 'Hi' } }, res);
+
+    expect(eventsOf(res)).toEqual([
+      { type: 'token', token: 'Hel' },
+      { type: 'error', code: 'rate_limit', message: 'Too many requests', recoverable: false },
+    ]);
+    expect(onError).toHaveBeenCalledWith(error, { message: 'Hi' });
+    expect(res.ended).toBe(true);
+  });
+
+  it('should stop generating when the client disconnects', async () => {
+    const res = createMockResponse();
+    let finished = false;
+    let signal!: AbortSignal;
+    const handler = createLiveLLMHandler({
+      async *generate(context) {
+        signal = context.signal;
+        try {
+          yield 'Hel';
+          res.close();
+          yield 'lo';
+        } finally {
+          finished = true;
+        }
+      },
+    });
+
+    await handler({ body: { message: 'Hi' } }, res);
+
+    expect(signal.aborted).toBe(true);
+    expect(finished).toBe(true);
+    expect(eventsOf(res)).toEqual([{ type: 'token', token: 'Hel' }]);
+  });
+
+  it('should track streams in the cancel registry', async () => {
+    const streams = createCancelRegistry();
+    const res = createMockResponse();
+    const handler = createLiveLLMHandler({
+      cancelRegistry: streams,
+      async *generate() {
+        yield 'Hel';
+        streams.cancel({ requestId: 'r1', reason: 'user' });
+        yield 'lo';
+      },
+    });
+
+    await handler({ body: { message: 'Hi', requestId: 'r1' } }, res);
+
+    expect(eventsOf(res)).toEqual([
+      { type: 'token', token: 'Hel' },
+      { type: 'cancelled', reason: 'user' },
+    ]);
+  });
+
+  it('should answer invalid requests with 400', async () => {
+    const generate = vi.fn(async function* () {});
+    const handler = createLiveLLMHandler({ generate });
+    const res = createMockResponse();
+
+    await handler({ body: { message: 'Hi', history: [{ role: 'bot', content: 'x' }] } }, res);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(res.output.join(''))).toEqual({
+      error: "`history[0].role` must be 'user', 'assistant' or 'system'",
+    });
+    expect(res.ended).toBe(true);
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('should answer malformed JSON with 400', async () => {
+    const handler = createLiveLLMHandler({ async *generate() {} });
+    const res = createMockResponse();
+
+    await handler(createStreamRequest('{"message":'), res);
+
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.output.join(''))).toEqual({ error: 'Request body is not valid JSON' });
+  });
+});
+
+// ─── validateChatRequest ────────────────────────────────────
+
+describe('validateChatRequest', () => {
+  const action = { component: 'choice', action: 'select', value: 'A', label: 'A' };
+
+  it('should accept valid requests and keep only known fields', () => {
+    expect(validateChatRequest({ message: 'Hi', extra: 1 })).toEqual({ valid: true, request: { message: 'Hi' } });
+    expect(validateChatRequest({ action, requestId: 'r1' })).toEqual({
+      valid: true,
+      request: { message: '', action, requestId: 'r1' },
+    });
+  });
+
+  it('should name the offending field', () => {
+    const cases: Array<[unknown, string]> = [
+      [null, 'Request body must be a JSON object'],
+      [[], 'Request body must be a JSON object'],
+      [{}, '`message` must be a string'],
+      [{ message: 42 }, '`message` must be a string'],
+      [{ message: '  ' }, '`message` must not be empty without an `action`'],
+      [{ message: 'Hi', history: {} }, '`history` must be an array'],
+      [{ message: 'Hi', history: ['x'] }, '`history[0]` must be an object'],
+      [{ message: 'Hi', history: [{ role: 'user', content: 1 }] }, '`history[0].content` must be a string'],
+      [{ message: 'Hi', requestId: 1 }, '`requestId` must be a string'],
+      [{ action: 'select' }, '`action` must be an object'],
+      [{ action: { ...action, label: undefined } }, '`action.label` must be a string'],
+      [{ action: { component: 'choice', action: 'select', label: 'A' } }, '`action.value` is required'],
+      [{ action: { ...action, data: 'x' } }, '`action.data` must be an object'],
+      [{ action: { ...action, edited: 'yes' } }, '`action.edited` must be a boolean'],
+      [{ action: { ...action, actions: [{ ...action, component: 1 }] } }, '`action.actions[0].component` must be a string'],
+    ];
+    for (const [body, error] of cases) {
+      expect(validateChatRequest(body)).toEqual({ valid: false, error });
+    }
+  });
+});
+
+// ─── toErrorEvent ───────────────────────────────────────────
+
+describe('toErrorEvent', () => {
+  it('should map HTTP statuses', () => {
+    expect(toErrorEvent(Object.assign(new Error('Slow down'), { status: 429 })).code).toBe('rate_limit');
+    expect(toErrorEvent(Object.assign(new Error('Gateway'), { statusCode: 504 })).code).toBe('timeout');
+    expect(toErrorEvent({ message: 'Big', response: { status: 413 } }).code).toBe('context_overflow');
+    expect(toErrorEvent(Object.assign(new Error('Bad gateway'), { status: 502 }))).toEqual({
+      type: 'error',
+      code: 'provider_error',
+      message: 'Bad gateway',
+      recoverable: false,
+    });
+  });
+
+  it('should map provider codes and messages', () => {
+    expect(toErrorEvent(Object.assign(new Error('x'), { status: 400, code: 'context_length_exceeded' })).code)
+      .toBe('context_overflow');
+    expect(toErrorEvent(new Error("This model's maximum context length is 8192 tokens")).code).toBe('context_overflow');
+    expect(toErrorEvent(Object.assign(new Error('socket'), { code: 'ETIMEDOUT' })).code).toBe('timeout');
+    expect(toErrorEvent(Object.assign(new Error('late'), { name: 'TimeoutError' })).code).toBe('timeout');
+    expect(toErrorEvent(new Error('Rate limit reached')).recoverable).toBe(true);
+  });
+
+  it('should fall back to unknown', () => {
+    expect(toErrorEvent(new Error('Boom'))).toEqual({ type: 'error', code: 'unknown', message: 'Boom', recoverable: false });
+    expect(toErrorEvent('plain').message).toBe('plain');
+  });
+});
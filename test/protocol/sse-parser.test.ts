@@ -298,6 +298,47 @@ describe('connectLiveLLMStream', () => {
     expect(sr.ended).toBe(true);
   });
 
+  it('should insert component events into the stream renderer', async () => {
+    const inserted: unknown[][] = [];
+    const sr = { ...createMockStreamRenderer(), insertComponent: (...args: unknown[]) => inserted.push(args) };
+    const response = createSSEResponse([
+      'data: {"type":"token","token":"Chart:"}',
+      'data: {"type":"component","name":"chart","props":{"type":"bar"},"id":"c1"}',
+      'data: {"type":"done"}',
+    ]);
+
+    await connectLiveLLMStream(response, sr);
+
+    expect(sr.tokens).toEqual(['Chart:']);
+    expect(inserted).toEqual([['chart', { type: 'bar' }, 'c1']]);
+  });
+
+  it('should pass component_update events to the stream renderer', async () => {
+    const updates: unknown[][] = [];
+    const sr = { ...createMockStreamRenderer(), updateComponent: (...args: unknown[]) => updates.push(args) > 0 };
+    const response = createSSEResponse([
+      'data: {"type":"component_update","id":"job","patch":{"value":40}}',
+      'data: {"type":"done"}',
+    ]);
+
+    await connectLiveLLMStream(response, sr);
+
+    expect(updates).toEqual([['job', { value: 40 }]]);
+    expect(sr.ended).toBe(true);
+  });
+
+  it('should push component events as fences to renderers without insertComponent', async () => {
+    const sr = createMockStreamRenderer();
+    const response = createSSEResponse([
+      'data: {"type":"component","name":"chart","props":{"type":"bar"}}',
+      'data: {"type":"done"}',
+    ]);
+
+    await connectLiveLLMStream(response, sr);
+
+    expect(sr.tokens).toEqual(['\n\n```livellm:chart\n{"type":"bar"}\n```\n\n']);
+  });
+
   it('should throw if response has no body', async () => {
     const sr = createMockStreamRenderer();
     const response = new Response(null);
@@ -309,3 +350,221 @@ describe('connectLiveLLMStream', () => {
     );
   });
 });
+
+// ─── Resumable streams ──────────────────────────────────────
+
+describe('connectLiveLLMStream reconnection', () => {
+  function createMockStreamRenderer(): StreamRendererLike & { tokens: string[]; ended: number } {
+    return {
+      tokens: [],
+      ended: 0,
+      push(token: string) {
+        this.tokens.push(token);
+      },
+      end() {
+        this.ended++;
+      },
+      abort() {},
+    };
+  }
+
+  /** A response sending `text`, then failing (or closing when `fail` is false). */
+  function createDroppedResponse(text: string, fail: boolean = true): Response {
+    let sent = false;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (!sent) {
+          sent = true;
+          controller.enqueue(new TextEncoder().encode(text));
+        } else if (fail) {
+          controller.error(new TypeError('network error'));
+        } else {
+          controller.close();
+        }
+      },
+    });
+    return new Response(stream);
+  }
+
+  function token(id: number, text: string): string {
+    return `id: ${id}\ndata: ${JSON.stringify({ type: 'token', token: text })}\n\n`;
+  }
+
+  it('should resume after a network error with the last event id', async () => {
+    const sr = createMockStreamRenderer();
+    const reconnect = vi.fn(async () => new Response(
+      // The server replays from the start: handled events are skipped
+      token(1, 'Hel') + token(2, 'lo') + token(3, ' world') + 'id: 4\ndata: {"type":"done"}\n\n'
+    ));
+
+    await connectLiveLLMStream(createDroppedResponse(token(1, 'Hel') + token(2, 'lo')), sr, {
+      reconnect,
+      retryDelay: 0,
+    });
+
+    expect(reconnect).toHaveBeenCalledWith('2', 1);
+    expect(sr.tokens).toEqual(['Hel', 'lo', ' world']);
+    expect(sr.ended).toBe(1);
+  });
+
+  it('should reconnect when the stream closes before the done event', async () => {
+    const sr = createMockStreamRenderer();
+    const onReconnect = vi.fn();
+
+    await connectLiveLLMStream(createDroppedResponse(`retry: 0\n${token(1, 'A')}`, false), sr, {
+      reconnect: async () => new Response(token(2, 'B') + 'id: 3\ndata: {"type":"done"}\n\n'),
+      retryDelay: 60000, // replaced by the server's retry field
+      onReconnect,
+    });
+
+    expect(onReconnect).toHaveBeenCalledWith(1, '1');
+    expect(sr.tokens).toEqual(['A', 'B']);
+  });
+
+  it('should give up after maxRetries and end the renderer', async () => {
+    const sr = createMockStreamRenderer();
+    const reconnect = vi.fn(async () => createDroppedResponse(''));
+
+    await expect(connectLiveLLMStream(createDroppedResponse(token(1, 'A')), sr, {
+      reconnect,
+      maxRetries: 2,
+      retryDelay: 0,
+    })).rejects.toThrow('network error');
+
+    expect(reconnect).toHaveBeenCalledTimes(2);
+    expect(sr.tokens).toEqual(['A']);
+    expect(sr.ended).toBe(1);
+  });
+
+  it('should not resume streams without event ids', async () => {
+    const sr = createMockStreamRenderer();
+    const reconnect = vi.fn();
+
+    await expect(connectLiveLLMStream(createDroppedResponse('data: {"type":"token","token":"A"}\n\n'), sr, {
+      reconnect,
+      retryDelay: 0,
+    })).rejects.toThrow('network error');
+
+    expect(reconnect).not.toHaveBeenCalled();
+    expect(sr.ended).toBe(1);
+  });
+
+  it('should treat a silent connection as lost after the idle timeout', async () => {
+    const sr = createMockStreamRenderer();
+    const silent = new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(`: ping\n\n${token(1, 'A')}`));
+      },
+    }));
+
+    await connectLiveLLMStream(silent, sr, {
+      reconnect: async () => new Response(token(2, 'B') + 'id: 3\ndata: {"type":"done"}\n\n'),
+      idleTimeout: 20,
+      retryDelay: 0,
+    });
+
+    expect(sr.tokens).toEqual(['A', 'B']);
+  });
+
+  it('should stop when the server answers a reconnect with 204', async () => {
+    const sr = createMockStreamRenderer();
+
+    await connectLiveLLMStream(createDroppedResponse(token(1, 'A')), sr, {
+      reconnect: async () => new Response(null, { status: 204 }),
+      retryDelay: 0,
+    });
+
+    expect(sr.tokens).toEqual(['A']);
+    expect(sr.ended).toBe(1);
+  });
+});
+
+// ─── Cancellation ───────────────────────────────────────────
+
+describe('connectLiveLLMStream cancellation', () => {
+  function createMockStreamRenderer(): StreamRendererLike & { tokens: string[]; ended: number; aborted: number } {
+    return {
+      tokens: [],
+      ended: 0,
+      aborted: 0,
+      push(token: string) {
+        this.tokens.push(token);
+      },
+      end() {
+        this.ended++;
+      },
+      abort() {
+        this.aborted++;
+      },
+    };
+  }
+
+  /** A response that sends `text` and then stays open. */
+  function createOpenResponse(text: string): { response: Response; cancelled: () => boolean } {
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(text));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    return { response: new Response(stream), cancelled: () => cancelled };
+  }
+
+  it('should cancel the reader and abort the renderer when the signal aborts', async () => {
+    const sr = createMockStreamRenderer();
+    const controller = new AbortController();
+    const { response, cancelled } = createOpenResponse('data: {"type":"token","token":"Hel"}\n\n');
+
+    const pending = connectLiveLLMStream(response, sr, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+    await pending;
+
+    expect(sr.tokens).toEqual(['Hel']);
+    expect(sr.aborted).toBe(1);
+    expect(sr.ended).toBe(0);
+    expect(cancelled()).toBe(true);
+  });
+
+  it('should not read a response when the signal is already aborted', async () => {
+    const sr = createMockStreamRenderer();
+    const controller = new AbortController();
+    controller.abort();
+    const { response } = createOpenResponse('data: {"type":"token","token":"Hel"}\n\n');
+
+    await connectLiveLLMStream(response, sr, { signal: controller.signal });
+
+    expect(sr.tokens).toEqual([]);
+    expect(sr.aborted).toBe(1);
+  });
+
+  it('should not reconnect once the signal aborts', async () => {
+    const sr = createMockStreamRenderer();
+    const controller = new AbortController();
+    const reconnect = vi.fn();
+    const { response } = createOpenResponse('id: 1\ndata: {"type":"token","token":"Hel"}\n\n');
+    setTimeout(() => controller.abort(), 10);
+
+    await connectLiveLLMStream(response, sr, { signal: controller.signal, reconnect, idleTimeout: 5, retryDelay: 1000 });
+
+    expect(reconnect).not.toHaveBeenCalled();
+    expect(sr.aborted).toBe(1);
+  });
+
+  it('should abort the renderer when the server acknowledges a cancellation', async () => {
+    const sr = createMockStreamRenderer();
+    const onCancelled = vi.fn();
+    const response = new Response(
+      'data: {"type":"token","token":"Hel"}\n\ndata: {"type":"cancelled","reason":"user"}\n\ndata: {"type":"token","token":"lo"}\n\n'
+    );
+
+    await connectLiveLLMStream(response, sr, { onCancelled });
+
+    expect(sr.tokens).toEqual(['Hel']);
+    expect(sr.aborted).toBe(1);
+    expect(onCancelled).toHaveBeenCalledWith({ type: 'cancelled', reason: 'user' });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { createSSEWriter, formatActionAsMessage } from '../../src/protocol/server';
+import { createSSEWriter, createSSEStream, createReplayBuffer, createCancelRegistry, formatActionAsMessage } from '../../src/protocol/server';
 import type { SSEWritable } from '../../src/protocol/server';
 
 // ─── createSSEWriter ────────────────────────────────────────
@@ -41,8 +41,8 @@ describe('createSSEWriter', () => {
     sse.token(' world');
 
     expect(res.output).toEqual([
-      'data: {"type":"token","token":"Hello"}\n\n',
-      'data: {"type":"token","token":" world"}\n\n',
+      'id: 1\ndata: {"type":"token","token":"Hello"}\n\n',
+      'id: 2\ndata: {"type":"token","token":" world"}\n\n',
     ]);
   });
 
@@ -53,7 +53,7 @@ describe('createSSEWriter', () => {
     sse.error('rate_limit', 'Too many requests', true);
 
     expect(res.output).toEqual([
-      'data: {"type":"error","code":"rate_limit","message":"Too many requests","recoverable":true}\n\n',
+      'id: 1\ndata: {"type":"error","code":"rate_limit","message":"Too many requests","recoverable":true}\n\n',
     ]);
   });
 
@@ -64,7 +64,7 @@ describe('createSSEWriter', () => {
     sse.error('provider_error', 'Server crashed');
 
     expect(res.output).toEqual([
-      'data: {"type":"error","code":"provider_error","message":"Server crashed","recoverable":false}\n\n',
+      'id: 1\ndata: {"type":"error","code":"provider_error","message":"Server crashed","recoverable":false}\n\n',
     ]);
   });
 
@@ -75,7 +75,7 @@ describe('createSSEWriter', () => {
     sse.metadata({ model: 'llama-70b', provider: 'groq' });
 
     expect(res.output).toEqual([
-      'data: {"type":"metadata","model":"llama-70b","provider":"groq"}\n\n',
+      'id: 1\ndata: {"type":"metadata","model":"llama-70b","provider":"groq"}\n\n',
     ]);
   });
 
@@ -88,12 +88,60 @@ describe('createSSEWriter', () => {
       latency_ms: 234,
     });
 
-    const parsed = JSON.parse(res.output[0].replace('data: ', '').trim());
+    const parsed = JSON.parse(res.output[0].split('data: ')[1]);
     expect(parsed.type).toBe('metadata');
     expect(parsed.usage.total_tokens).toBe(150);
     expect(parsed.latency_ms).toBe(234);
   });
 
+  it('should write component events', () => {
+    const res = createMockResponse();
+    const sse = createSSEWriter(res);
+    sse.component('chart', { type: 'bar' });
+    sse.component('table-plus', { headers: ['a'] }, 'table-1');
+
+    expect(res.output).toEqual([
+      'id: 1\ndata: {"type":"component","name":"chart","props":{"type":"bar"}}\n\n',
+      'id: 2\ndata: {"type":"component","name":"table-plus","props":{"headers":["a"]},"id":"table-1"}\n\n',
+    ]);
+  });
+
+  it('should write component_update events', () => {
+    const res = createMockResponse();
+    const sse = createSSEWriter(res);
+    sse.componentUpdate('job', { value: 40, label: null });
+
+    expect(res.output).toEqual([
+      'id: 1\ndata: {"type":"component_update","id":"job","patch":{"value":40,"label":null}}\n\n',
+    ]);
+  });
+
+  it('should write reasoning events', () => {
+    const res = createMockResponse();
+    const sse = createSSEWriter(res);
+
+    sse.reasoning('Thinking it over.');
+
+    expect(res.output).toEqual(['id: 1\ndata: {"type":"reasoning","token":"Thinking it over."}\n\n']);
+  });
+
+  it('should write tool call and tool result events', () => {
+    const res = createMockResponse();
+    const sse = createSSEWriter(res);
+
+    sse.toolCall('call-1', 'web_search', { query: 'livellm' });
+    sse.toolResult('call-1', 'error', 'Timed out');
+    sse.toolCall('call-2', 'clock');
+    sse.toolResult('call-2', 'success');
+
+    expect(res.output).toEqual([
+      'id: 1\ndata: {"type":"tool_call","id":"call-1","name":"web_search","arguments":{"query":"livellm"}}\n\n',
+      'id: 2\ndata: {"type":"tool_result","id":"call-1","status":"error","output":"Timed out"}\n\n',
+      'id: 3\ndata: {"type":"tool_call","id":"call-2","name":"clock"}\n\n',
+      'id: 4\ndata: {"type":"tool_result","id":"call-2","status":"success"}\n\n',
+    ]);
+  });
+
   it('should write done event and end response', () => {
     const res = createMockResponse();
     const sse = createSSEWriter(res);
@@ -101,7 +149,7 @@ describe('createSSEWriter', () => {
     sse.done();
 
     expect(res.output).toEqual([
-      'data: {"type":"done"}\n\n',
+      'id: 1\ndata: {"type":"done"}\n\n',
     ]);
     expect(res.ended).toBe(true);
   });
@@ -113,7 +161,7 @@ describe('createSSEWriter', () => {
     sse.done('Hello world');
 
     expect(res.output).toEqual([
-      'data: {"type":"done","fullText":"Hello world"}\n\n',
+      'id: 1\ndata: {"type":"done","fullText":"Hello world"}\n\n',
     ]);
     expect(res.ended).toBe(true);
   });
@@ -128,7 +176,7 @@ describe('createSSEWriter', () => {
     sse.done('full text');
 
     for (const line of res.output) {
-      const jsonStr = line.replace('data: ', '').trim();
+      const jsonStr = line.split('data: ')[1];
       expect(() => JSON.parse(jsonStr)).not.toThrow();
     }
   });
@@ -148,13 +196,305 @@ describe('createSSEWriter', () => {
     expect(res.ended).toBe(true);
 
     // Parse all events
-    const events = res.output.map((line) => JSON.parse(line.replace('data: ', '').trim()));
+    const events = res.output.map((line) => JSON.parse(line.split('data: ')[1]));
     expect(events[0].type).toBe('metadata');
     expect(events[1].type).toBe('token');
     expect(events[2].type).toBe('token');
     expect(events[3].type).toBe('metadata');
     expect(events[4].type).toBe('done');
   });
+
+  it('should send the retry field with the first event', () => {
+    const res = createMockResponse();
+    const sse = createSSEWriter(res, { retry: 2000, startId: 10 });
+    sse.token('a');
+    sse.token('b');
+
+    expect(res.output).toEqual([
+      'retry: 2000\nid: 10\ndata: {"type":"token","token":"a"}\n\n',
+      'id: 11\ndata: {"type":"token","token":"b"}\n\n',
+    ]);
+  });
+
+  it('should replay buffered events after the last event id', () => {
+    const buffer = createReplayBuffer();
+    const first = createMockResponse();
+    const sse = createSSEWriter(first, { replay: buffer });
+    sse.token('Hel');
+    sse.token('lo');
+    sse.token(' world');
+
+    const second = createMockResponse();
+    const resumed = createSSEWriter(second, { replay: buffer });
+    expect(resumed.replay('1')).toBe(2);
+    resumed.token('!');
+
+    expect(second.output).toEqual([
+      'id: 2\ndata: {"type":"token","token":"lo"}\n\n',
+      'id: 3\ndata: {"type":"token","token":" world"}\n\n',
+      'id: 4\ndata: {"type":"token","token":"!"}\n\n',
+    ]);
+    expect(second.ended).toBe(false);
+  });
+
+  it('should end the response when the replay includes the done event', () => {
+    const buffer = createReplayBuffer();
+    const sse = createSSEWriter(createMockResponse(), { replay: buffer });
+    sse.token('Hi');
+    sse.done();
+
+    const res = createMockResponse();
+    expect(createSSEWriter(res, { replay: buffer }).replay(undefined)).toBe(2);
+    expect(res.ended).toBe(true);
+  });
+
+  it('should follow a running stream after replaying what was missed', async () => {
+    const buffer = createReplayBuffer();
+    const sse = createSSEWriter(createMockResponse(), { replay: buffer });
+    sse.token('Hel');
+    sse.token('lo');
+
+    const res = createMockResponse();
+    const following = createSSEWriter(res, { replay: buffer }).follow('1');
+    sse.token(' world');
+    sse.done();
+    await following;
+
+    expect(res.output).toEqual([
+      'id: 2\ndata: {"type":"token","token":"lo"}\n\n',
+      'id: 3\ndata: {"type":"token","token":" world"}\n\n',
+      'id: 4\ndata: {"type":"done"}\n\n',
+    ]);
+    expect(res.ended).toBe(true);
+  });
+
+  it('should stop following when the reconnected client goes away', async () => {
+    const buffer = createReplayBuffer();
+    const sse = createSSEWriter(createMockResponse(), { replay: buffer });
+    sse.token('Hel');
+
+    const listeners: Array<() => void> = [];
+    const res = { ...createMockResponse(), on: (_event: 'close', listener: () => void) => listeners.push(listener) };
+    const following = createSSEWriter(res, { replay: buffer }).follow(0);
+    listeners.forEach((listener) => listener());
+    await following;
+    sse.token('lo');
+
+    expect(res.output).toEqual(['id: 1\ndata: {"type":"token","token":"Hel"}\n\n']);
+  });
+
+  it('should keep the last events of a bounded replay buffer', () => {
+    const buffer = createReplayBuffer(2);
+    [1, 2, 3].forEach((id) => buffer.add({ id, event: { type: 'token', token: String(id) } }));
+
+    expect(buffer.since(0).map(({ id }) => id)).toEqual([2, 3]);
+  });
+
+  it('should write heartbeat comments until the response ends', () => {
+    vi.useFakeTimers();
+    try {
+      const res = createMockResponse();
+      const sse = createSSEWriter(res, { heartbeat: 1000 });
+      vi.advanceTimersByTime(2500);
+      sse.close();
+      vi.advanceTimersByTime(5000);
+
+      expect(res.output).toEqual([': ping\n\n', ': ping\n\n']);
+      expect(res.ended).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should acknowledge a cancellation and abort the signal', () => {
+    const res = createMockResponse();
+    const sse = createSSEWriter(res);
+    sse.token('Hel');
+    sse.cancel('user');
+    sse.token('lo');
+    sse.done();
+
+    expect(sse.signal.aborted).toBe(true);
+    expect(sse.closed).toBe(true);
+    expect(res.ended).toBe(true);
+    expect(res.output).toEqual([
+      'id: 1\ndata: {"type":"token","token":"Hel"}\n\n',
+      'id: 2\ndata: {"type":"cancelled","reason":"user"}\n\n',
+    ]);
+  });
+
+  it('should abort the signal when the client disconnects before the done event', () => {
+    const listeners: Array<() => void> = [];
+    const res = { ...createMockResponse(), on: (_event: 'close', listener: () => void) => listeners.push(listener) };
+    const sse = createSSEWriter(res);
+    sse.token('Hel');
+    listeners.forEach((listener) => listener());
+
+    expect(sse.signal.aborted).toBe(true);
+    sse.token('lo');
+    expect(res.output).toHaveLength(1);
+  });
+
+  it('should keep recording a resumable stream after the client disconnects', () => {
+    const buffer = createReplayBuffer();
+    const listeners: Array<() => void> = [];
+    const first = { ...createMockResponse(), on: (_event: 'close', listener: () => void) => listeners.push(listener) };
+    const sse = createSSEWriter(first, { replay: buffer });
+    sse.token('Hel');
+    listeners.forEach((listener) => listener());
+
+    expect(sse.signal.aborted).toBe(false);
+    expect(sse.closed).toBe(false);
+    sse.token('lo');
+    sse.done();
+    expect(first.output).toHaveLength(1);
+
+    const second = createMockResponse();
+    expect(createSSEWriter(second, { replay: buffer }).replay('1')).toBe(2);
+    expect(second.output).toEqual([
+      'id: 2\ndata: {"type":"token","token":"lo"}\n\n',
+      'id: 3\ndata: {"type":"done"}\n\n',
+    ]);
+    expect(second.ended).toBe(true);
+  });
+
+  it('should not abort the signal after the done event', () => {
+    const listeners: Array<() => void> = [];
+    const res = { ...createMockResponse(), on: (_event: 'close', listener: () => void) => listeners.push(listener) };
+    const sse = createSSEWriter(res);
+    sse.done();
+    listeners.forEach((listener) => listener());
+
+    expect(sse.signal.aborted).toBe(false);
+  });
+
+  it('should cancel tracked streams by request id', () => {
+    const streams = createCancelRegistry();
+    const running = createSSEWriter(createMockResponse());
+    const finished = createSSEWriter(createMockResponse());
+    streams.track('req-1', running);
+    streams.track('req-2', finished);
+    finished.done();
+
+    expect(streams.cancel({ requestId: 'req-1', reason: 'user' })).toEqual({ requestId: 'req-1', cancelled: true });
+    expect(running.signal.aborted).toBe(true);
+    expect(streams.cancel({ requestId: 'req-1' })).toEqual({ requestId: 'req-1', cancelled: false });
+    expect(streams.cancel({ requestId: 'req-2' })).toEqual({ requestId: 'req-2', cancelled: false });
+  });
+
+  it('should stop the heartbeat when the client goes away', () => {
+    vi.useFakeTimers();
+    try {
+      const listeners: Array<() => void> = [];
+      const res = { ...createMockResponse(), on: (_event: 'close', listener: () => void) => listeners.push(listener) };
+      createSSEWriter(res, { heartbeat: 1000 });
+      listeners.forEach((listener) => listener());
+      vi.advanceTimersByTime(5000);
+
+      expect(res.output).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+// ─── createSSEStream ─────────────────────────────────────────
+
+describe('createSSEStream', () => {
+  it('should return an SSE response with the writer\'s events', async () => {
+    const { response, writer } = createSSEStream({ headers: { 'X-Request-Id': 'r1' } });
+
+    writer.metadata({ model: 'gpt-4o' });
+    writer.token('Hello');
+    writer.done();
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(response.headers.get('Cache-Control')).toBe('no-cache');
+    expect(response.headers.get('X-Request-Id')).toBe('r1');
+    expect(await response.text()).toBe(
+      'id: 1\ndata: {"type":"metadata","model":"gpt-4o"}\n\n' +
+      'id: 2\ndata: {"type":"token","token":"Hello"}\n\n' +
+      'id: 3\ndata: {"type":"done"}\n\n'
+    );
+    expect(writer.closed).toBe(true);
+  });
+
+  it('should drop events after the response ended', async () => {
+    const { response, writer } = createSSEStream();
+
+    writer.done();
+    writer.token('late');
+
+    expect(await response.text()).toBe('id: 1\ndata: {"type":"done"}\n\n');
+  });
+
+  it('should replay buffered events', async () => {
+    const buffer = createReplayBuffer();
+    buffer.add({ id: 1, event: { type: 'token', token: 'Hel' } });
+    buffer.add({ id: 2, event: { type: 'token', token: 'lo' } });
+    const { response, writer } = createSSEStream({ replay: buffer });
+
+    expect(writer.replay('1')).toBe(1);
+    writer.done();
+
+    expect(await response.text()).toBe(
+      'id: 2\ndata: {"type":"token","token":"lo"}\n\n' +
+      'id: 3\ndata: {"type":"done"}\n\n'
+    );
+  });
+
+  it('should make ready wait until the client reads', async () => {
+    const { response, writer } = createSSEStream({ highWaterMark: 2 });
+    const reader = response.body!.getReader();
+
+    await writer.ready;
+    writer.token('a');
+    writer.token('b');
+
+    let ready = false;
+    writer.ready.then(() => {
+      ready = true;
+    });
+    await Promise.resolve();
+    expect(ready).toBe(false);
+
+    await reader.read();
+    await reader.read();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(ready).toBe(true);
+  });
+
+  it('should abort the signal when the client cancels the body', async () => {
+    const { response, writer } = createSSEStream();
+    writer.token('Hel');
+
+    await response.body!.cancel();
+
+    expect(writer.signal.aborted).toBe(true);
+    expect(writer.closed).toBe(true);
+    writer.token('lo'); // dropped, no throw
+  });
+
+  it('should close the stream when the request signal aborts', async () => {
+    const request = new AbortController();
+    const { response, writer } = createSSEStream({ signal: request.signal });
+    writer.token('Hel');
+
+    request.abort();
+
+    expect(writer.signal.aborted).toBe(true);
+    expect(writer.closed).toBe(true);
+    expect(await response.text()).toBe('id: 1\ndata: {"type":"token","token":"Hel"}\n\n');
+  });
+
+  it('should close at once for an aborted request signal', async () => {
+    const request = new AbortController();
+    request.abort();
+    const { response, writer } = createSSEStream({ signal: request.signal });
+
+    expect(writer.signal.aborted).toBe(true);
+    expect(await response.text()).toBe('');
+  });
 });
 
 // ─── formatActionAsMessage ──────────────────────────────────
@@ -241,4 +581,18 @@ describe('formatActionAsMessage', () => {
     });
     expect(result).toBe('User action (custom-action): Custom');
   });
+
+  it('should format a combined action one line per member', () => {
+    const result = formatActionAsMessage({
+      component: 'group',
+      action: 'submit-all',
+      value: ['React', true],
+      label: 'React; Yes',
+      actions: [
+        { component: 'choice', action: 'select', value: 'React', label: 'React', context: 'What framework?' },
+        { component: 'confirm', action: 'confirm', value: true, label: 'Yes' },
+      ],
+    });
+    expect(result).toBe('User answered 2 questions:\n- [Re: "What framework?"] User selected: React\n- User confirmed');
+  });
 });
@@ -2,9 +2,17 @@ import { describe, it, expect } from 'vitest';
 import {
   isStreamEvent,
   isTokenEvent,
+  isReasoningEvent,
   isErrorEvent,
   isMetadataEvent,
+  isComponentEvent,
+  isComponentUpdateEvent,
+  isToolCallEvent,
+  isToolResultEvent,
+  isCancelledEvent,
   isDoneEvent,
+  isSocketClientFrame,
+  isSocketServerFrame,
 } from '../../src/protocol/types';
 import type { StreamEvent } from '../../src/protocol/types';
 
@@ -60,6 +68,67 @@ describe('Type Guards', () => {
     it('should return false for arrays', () => {
       expect(isStreamEvent([{ type: 'token' }])).toBe(false);
     });
+
+    it('should check the shape of component events', () => {
+      expect(isStreamEvent({ type: 'component', name: 'chart', props: {} })).toBe(true);
+      expect(isStreamEvent({ type: 'component', name: 'chart' })).toBe(false);
+      expect(isStreamEvent({ type: 'component', name: 'chart', props: [] })).toBe(false);
+      expect(isStreamEvent({ type: 'component', props: {} })).toBe(false);
+    });
+
+    it('should check the shape of component_update events', () => {
+      expect(isStreamEvent({ type: 'component_update', id: 'job', patch: { value: 40 } })).toBe(true);
+      expect(isStreamEvent({ type: 'component_update', id: 'job' })).toBe(false);
+      expect(isStreamEvent({ type: 'component_update', id: 'job', patch: null })).toBe(false);
+      expect(isStreamEvent({ type: 'component_update', patch: {} })).toBe(false);
+    });
+  });
+
+  describe('isComponentUpdateEvent', () => {
+    it('should return true for component_update events', () => {
+      const event: StreamEvent = { type: 'component_update', id: 'job', patch: { value: 40 } };
+      expect(isComponentUpdateEvent(event)).toBe(true);
+      expect(isComponentEvent(event)).toBe(false);
+    });
+  });
+
+  describe('isReasoningEvent', () => {
+    it('should return true for reasoning events', () => {
+      const event: StreamEvent = { type: 'reasoning', token: 'Let me think.' };
+      expect(isStreamEvent(event)).toBe(true);
+      expect(isReasoningEvent(event)).toBe(true);
+      expect(isTokenEvent(event)).toBe(false);
+    });
+  });
+
+  describe('isToolCallEvent / isToolResultEvent', () => {
+    it('should accept tool events with an id', () => {
+      const call: StreamEvent = { type: 'tool_call', id: 'call-1', name: 'web_search', arguments: { query: 'x' } };
+      const result: StreamEvent = { type: 'tool_result', id: 'call-1', status: 'success', output: '3 results' };
+      expect(isStreamEvent(call)).toBe(true);
+      expect(isStreamEvent(result)).toBe(true);
+      expect(isToolCallEvent(call)).toBe(true);
+      expect(isToolResultEvent(result)).toBe(true);
+      expect(isToolCallEvent(result)).toBe(false);
+    });
+
+    it('should reject malformed tool events', () => {
+      expect(isStreamEvent({ type: 'tool_call', name: 'web_search' })).toBe(false);
+      expect(isStreamEvent({ type: 'tool_call', id: 'c', name: 'x', arguments: 'q' })).toBe(false);
+      expect(isStreamEvent({ type: 'tool_result', id: 'c', status: 'pending' })).toBe(false);
+    });
+  });
+
+  describe('isComponentEvent', () => {
+    it('should return true for component events', () => {
+      const event: StreamEvent = { type: 'component', name: 'chart', props: {}, id: 'c1' };
+      expect(isComponentEvent(event)).toBe(true);
+    });
+
+    it('should return false for other events', () => {
+      const event: StreamEvent = { type: 'token', token: 'hi' };
+      expect(isComponentEvent(event)).toBe(false);
+    });
   });
 
   // ─── Specific type guards ────────────────────────────────
@@ -100,6 +169,14 @@ describe('Type Guards', () => {
     });
   });
 
+  describe('isCancelledEvent', () => {
+    it('should return true for cancelled events', () => {
+      expect(isStreamEvent({ type: 'cancelled', reason: 'user' })).toBe(true);
+      expect(isCancelledEvent({ type: 'cancelled' })).toBe(true);
+      expect(isCancelledEvent({ type: 'done' })).toBe(false);
+    });
+  });
+
   describe('isDoneEvent', () => {
     it('should return true for done events', () => {
       const event: StreamEvent = { type: 'done' };
@@ -116,4 +193,38 @@ describe('Type Guards', () => {
       expect(isDoneEvent(event)).toBe(false);
     });
   });
+
+  // ─── WebSocket frames ─────────────────────────────────────
+
+  describe('isSocketClientFrame', () => {
+    it('should accept request, action, cancel and ping frames', () => {
+      expect(isSocketClientFrame({ type: 'request', requestId: 'r1', request: { message: 'Hi' } })).toBe(true);
+      expect(isSocketClientFrame({ type: 'action', requestId: 'r1', action: { component: 'choice' } })).toBe(true);
+      expect(isSocketClientFrame({ type: 'cancel', requestId: 'r1', reason: 'user' })).toBe(true);
+      expect(isSocketClientFrame({ type: 'ping', ts: 1 })).toBe(true);
+      expect(isSocketClientFrame({ type: 'pong', ts: 1 })).toBe(true);
+    });
+
+    it('should reject incomplete or unknown frames', () => {
+      expect(isSocketClientFrame({ type: 'request', requestId: 'r1' })).toBe(false);
+      expect(isSocketClientFrame({ type: 'request', request: { message: 'Hi' } })).toBe(false);
+      expect(isSocketClientFrame({ type: 'cancel' })).toBe(false);
+      expect(isSocketClientFrame({ type: 'event', requestId: 'r1', event: { type: 'done' } })).toBe(false);
+      expect(isSocketClientFrame(null)).toBe(false);
+    });
+  });
+
+  describe('isSocketServerFrame', () => {
+    it('should accept event and ping frames', () => {
+      expect(isSocketServerFrame({ type: 'event', requestId: 'r1', event: { type: 'token', token: 'Hi' } })).toBe(true);
+      expect(isSocketServerFrame({ type: 'ping', ts: 1 })).toBe(true);
+      expect(isSocketServerFrame({ type: 'pong', ts: 1 })).toBe(true);
+    });
+
+    it('should reject frames with invalid events', () => {
+      expect(isSocketServerFrame({ type: 'event', requestId: 'r1', event: { type: 'unknown' } })).toBe(false);
+      expect(isSocketServerFrame({ type: 'event', event: { type: 'done' } })).toBe(false);
+      expect(isSocketServerFrame({ type: 'request', requestId: 'r1', request: { message: 'Hi' } })).toBe(false);
+    });
+  });
 });
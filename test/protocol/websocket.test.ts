@@ -0,0 +1,388 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { serveLiveLLMSocket, connectLiveLLMSocket } from '../../src/protocol/websocket';
+import type { LiveLLMSocket } from '../../src/protocol/websocket';
+import type { StreamWriter } from '../../src/protocol/server';
+import type { StreamRendererLike } from '../../src/protocol/client';
+
+// ─── In-memory socket pair ──────────────────────────────────
+
+type Listener = (event: any) => void;
+
+interface MemorySocket extends LiveLLMSocket {
+  /** Frames this end sent, parsed. */
+  sent: any[];
+  closeCode?: number;
+  closeReason?: string;
+}
+
+/**
+ * Two connected sockets standing in for a WebSocket connection. Messages
+ * arrive asynchronously, as on a real socket; both ends start connecting
+ * until `open()` is called.
+ */
+function createSocketPair(): { client: MemorySocket; server: MemorySocket; open(): void } {
+  const create = (): MemorySocket & { peer?: MemorySocket; emit(type: string, event?: any): void } => {
+    const listeners: Record<string, Listener[]> = { open: [], message: [], close: [] };
+    const socket = {
+      readyState: 0,
+      sent: [] as any[],
+      peer: undefined as any,
+      closeCode: undefined as number | undefined,
+      closeReason: undefined as string | undefined,
+      send(data: string) {
+        if (socket.readyState !== 1) throw new Error('Socket is not open');
+        try {
+          socket.sent.push(JSON.parse(data));
+        } catch {
+          socket.sent.push(data);
+        }
+        queueMicrotask(() => socket.peer.emit('message', { data }));
+      },
+      close(code?: number, reason?: string) {
+        if (socket.readyState >= 2) return;
+        socket.closeCode = code;
+        socket.closeReason = reason;
+        [socket, socket.peer].forEach((end) => {
+          end.readyState = 3;
+          queueMicrotask(() => end.emit('close', { code, reason }));
+        });
+      },
+      addEventListener(type: string, listener: Listener) {
+        listeners[type]?.push(listener);
+      },
+      emit(type: string, event: any = {}) {
+        listeners[type]?.forEach((listener) => listener(event));
+      },
+    };
+    return socket;
+  };
+
+  const client = create();
+  const server = create();
+  client.peer = server;
+  server.peer = client;
+
+  return {
+    client,
+    server,
+    open() {
+      [client, server].forEach((end) => {
+        end.readyState = 1;
+        end.emit('open');
+      });
+    },
+  };
+}
+
+function createOpenPair(): { client: MemorySocket; server: MemorySocket } {
+  const pair = createSocketPair();
+  pair.open();
+  return pair;
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 20; i++) await Promise.resolve();
+}
+
+function createMockStreamRenderer(): StreamRendererLike & { tokens: string[]; ended: number; aborted: number } {
+  return {
+    tokens: [],
+    ended: 0,
+    aborted: 0,
+    push(token: string) {
+      this.tokens.push(token);
+    },
+    end() {
+      this.ended++;
+    },
+    abort() {
+      this.aborted++;
+    },
+  };
+}
+
+// ─── Streaming ──────────────────────────────────────────────
+
+describe('LiveLLM WebSocket transport', () => {
+  it('should stream a response into the renderer', async () => {
+    const { client, server } = createOpenPair();
+    const onRequest = vi.fn((request, writer: StreamWriter) => {
+      writer.metadata({ model: 'gpt-4o' });
+      writer.token('Hello');
+      writer.token(' world');
+      writer.done();
+    });
+    serveLiveLLMSocket(server, { onRequest });
+
+    const sr = createMockStreamRenderer();
+    const onMetadata = vi.fn();
+    const onDone = vi.fn();
+    await connectLiveLLMSocket(client).stream({ message: 'Hi', requestId: 'r1' }, sr, { onMetadata, onDone });
+
+    expect(onRequest.mock.calls[0][0]).toEqual({ message: 'Hi', requestId: 'r1' });
+    expect(sr.tokens).toEqual(['Hello', ' world']);
+    expect(sr.ended).toBe(1);
+    expect(onMetadata).toHaveBeenCalledWith({ type: 'metadata', model: 'gpt-4o' });
+    expect(onDone).toHaveBeenCalledOnce();
+    expect(server.sent.every((frame) => frame.type === 'event' && frame.requestId === 'r1')).toBe(true);
+  });
+
+  it('should multiplex concurrent responses by request id', async () => {
+    const { client, server } = createOpenPair();
+    const writers = new Map<string, StreamWriter>();
+    const connection = serveLiveLLMSocket(server, {
+      onRequest(request, writer) {
+        writers.set(request.message, writer);
+      },
+    });
+
+    const socket = connectLiveLLMSocket(client);
+    const srA = createMockStreamRenderer();
+    const srB = createMockStreamRenderer();
+    const a = socket.stream({ message: 'a' }, srA, { requestId: 'a' });
+    const b = socket.stream({ message: 'b' }, srB, { requestId: 'b' });
+    await flush();
+
+    expect(connection.active).toEqual(['a', 'b']);
+    expect(socket.active).toEqual(['a', 'b']);
+
+    writers.get('a')!.token('A1');
+    writers.get('b')!.token('B1');
+    writers.get('a')!.token('A2');
+    writers.get('b')!.done();
+    await b;
+    writers.get('a')!.done();
+    await a;
+
+    expect(srA.tokens).toEqual(['A1', 'A2']);
+    expect(srB.tokens).toEqual(['B1']);
+    expect(connection.active).toEqual([]);
+    expect(socket.active).toEqual([]);
+  });
+
+  it('should generate a request id when none is given', async () => {
+    const { client, server } = createOpenPair();
+    const onRequest = vi.fn((request, writer: StreamWriter) => writer.done());
+    serveLiveLLMSocket(server, { onRequest });
+
+    await connectLiveLLMSocket(client).stream({ message: 'Hi' }, createMockStreamRenderer());
+
+    const frame = client.sent[0];
+    expect(frame.type).toBe('request');
+    expect(frame.requestId).toMatch(/\w+/);
+    expect(onRequest.mock.calls[0][0].requestId).toBe(frame.requestId);
+  });
+
+  it('should ignore a second request with a streaming request id', async () => {
+    const { client, server } = createOpenPair();
+    const onRequest = vi.fn();
+    serveLiveLLMSocket(server, { onRequest });
+
+    const socket = connectLiveLLMSocket(client);
+    socket.stream({ message: 'one' }, createMockStreamRenderer(), { requestId: 'r1' });
+    client.send(JSON.stringify({ type: 'request', requestId: 'r1', request: { message: 'two' } }));
+    await flush();
+
+    expect(onRequest).toHaveBeenCalledOnce();
+    expect(onRequest.mock.calls[0][0].message).toBe('one');
+  });
+
+  it('should queue frames until the socket opens', async () => {
+    const pair = createSocketPair();
+    const onRequest = vi.fn((request, writer: StreamWriter) => writer.done());
+    serveLiveLLMSocket(pair.server, { onRequest });
+
+    const promise = connectLiveLLMSocket(pair.client).stream({ message: 'Hi' }, createMockStreamRenderer());
+    await flush();
+    expect(onRequest).not.toHaveBeenCalled();
+
+    pair.open();
+    await promise;
+    expect(onRequest).toHaveBeenCalledOnce();
+  });
+
+  // ─── Actions ────────────────────────────────────────────────
+
+  it('should pass actions to onRequest as formatted messages', async () => {
+    const { client, server } = createOpenPair();
+    const onRequest = vi.fn((request, writer: StreamWriter) => writer.done());
+    serveLiveLLMSocket(server, { onRequest });
+
+    const action = {
+      type: 'livellm:action' as const,
+      component: 'choice',
+      action: 'select',
+      value: { label: 'Option A' },
+      label: 'Option A',
+      timestamp: 1,
+    };
+    const history = [{ role: 'user' as const, content: 'Pick one' }];
+    await connectLiveLLMSocket(client).sendAction(action, createMockStreamRenderer(), { requestId: 'act-1', history });
+
+    expect(client.sent[0]).toEqual({ type: 'action', requestId: 'act-1', action, history });
+    const request = onRequest.mock.calls[0][0];
+    expect(request.message).toBe('User selected: Option A');
+    expect(request.action).toEqual(action);
+    expect(request.history).toEqual(history);
+    expect(request.requestId).toBe('act-1');
+  });
+
+  it('should use onAction when given', async () => {
+    const { client, server } = createOpenPair();
+    const onRequest = vi.fn();
+    const onAction = vi.fn((action, writer: StreamWriter) => {
+      writer.token(`Got ${action.label}`);
+      writer.done();
+    });
+    serveLiveLLMSocket(server, { onRequest, onAction });
+
+    const sr = createMockStreamRenderer();
+    await connectLiveLLMSocket(client).sendAction(
+      { type: 'livellm:action', component: 'confirm', action: 'confirm', value: true, label: 'Yes', timestamp: 1 },
+      sr
+    );
+
+    expect(onRequest).not.toHaveBeenCalled();
+    expect(onAction).toHaveBeenCalledOnce();
+    expect(sr.tokens).toEqual(['Got Yes']);
+  });
+
+  // ─── Errors & cancellation ──────────────────────────────────
+
+  it('should send handler errors as non-recoverable error events', async () => {
+    const { client, server } = createOpenPair();
+    const connection = serveLiveLLMSocket(server, {
+      onRequest() {
+        throw new Error('Provider down');
+      },
+    });
+
+    const sr = createMockStreamRenderer();
+    const onError = vi.fn();
+    await connectLiveLLMSocket(client).stream({ message: 'Hi' }, sr, { onError });
+
+    expect(onError).toHaveBeenCalledWith({
+      type: 'error',
+      code: 'unknown',
+      message: 'Provider down',
+      recoverable: false,
+    });
+    expect(sr.ended).toBe(1);
+    expect(connection.active).toEqual([]);
+  });
+
+  it('should cancel the server response when the signal aborts', async () => {
+    const { client, server } = createOpenPair();
+    let writer!: StreamWriter;
+    serveLiveLLMSocket(server, {
+      onRequest(request, w) {
+        writer = w;
+        w.token('Hel');
+      },
+    });
+
+    const sr = createMockStreamRenderer();
+    const controller = new AbortController();
+    const promise = connectLiveLLMSocket(client).stream({ message: 'Hi' }, sr, { requestId: 'r1', signal: controller.signal });
+    await flush();
+
+    controller.abort();
+    await promise;
+    await flush();
+
+    expect(sr.tokens).toEqual(['Hel']);
+    expect(sr.aborted).toBe(1);
+    expect(client.sent.at(-1)).toEqual({ type: 'cancel', requestId: 'r1' });
+    expect(writer.signal.aborted).toBe(true);
+    expect(writer.closed).toBe(true);
+    expect(server.sent.at(-1)).toEqual({ type: 'event', requestId: 'r1', event: { type: 'cancelled' } });
+  });
+
+  it('should resolve with a cancelled event after cancel()', async () => {
+    const { client, server } = createOpenPair();
+    serveLiveLLMSocket(server, { onRequest() {} });
+
+    const socket = connectLiveLLMSocket(client);
+    const sr = createMockStreamRenderer();
+    const onCancelled = vi.fn();
+    const promise = socket.stream({ message: 'Hi' }, sr, { requestId: 'r1', onCancelled });
+    await flush();
+
+    socket.cancel('r1', 'user');
+    await promise;
+
+    expect(onCancelled).toHaveBeenCalledWith({ type: 'cancelled', reason: 'user' });
+    expect(sr.aborted).toBe(1);
+  });
+
+  it('should end pending streams and abort server responses when the socket closes', async () => {
+    const { client, server } = createOpenPair();
+    let writer!: StreamWriter;
+    serveLiveLLMSocket(server, {
+      onRequest(request, w) {
+        writer = w;
+      },
+    });
+
+    const socket = connectLiveLLMSocket(client);
+    const sr = createMockStreamRenderer();
+    const promise = socket.stream({ message: 'Hi' }, sr);
+    await flush();
+
+    socket.close();
+    await expect(promise).rejects.toThrow('Socket closed before the done event');
+    expect(sr.ended).toBe(1);
+    expect(writer.signal.aborted).toBe(true);
+    expect(client.closeCode).toBe(1000);
+
+    await expect(socket.stream({ message: 'Again' }, createMockStreamRenderer())).rejects.toThrow('Socket is closed');
+  });
+
+  it('should ignore malformed frames', async () => {
+    const { client, server } = createOpenPair();
+    const onRequest = vi.fn();
+    serveLiveLLMSocket(server, { onRequest });
+
+    client.send('not json');
+    client.send(JSON.stringify({ type: 'request', requestId: 'r1' }));
+    await flush();
+
+    expect(onRequest).not.toHaveBeenCalled();
+  });
+
+  // ─── Ping / pong ────────────────────────────────────────────
+
+  describe('keep-alive', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should answer pings with pongs', async () => {
+      vi.useFakeTimers();
+      const { client, server } = createOpenPair();
+      serveLiveLLMSocket(server, { onRequest() {} });
+      connectLiveLLMSocket(client, { pingInterval: 1000 });
+
+      vi.advanceTimersByTime(1000);
+      await flush();
+
+      expect(client.sent).toEqual([{ type: 'ping', ts: Date.now() }]);
+      expect(server.sent).toEqual([{ type: 'pong', ts: Date.now() }]);
+      expect(client.readyState).toBe(1);
+    });
+
+    it('should close the socket when the peer stops answering', async () => {
+      vi.useFakeTimers();
+      const { client } = createOpenPair();
+      connectLiveLLMSocket(client, { pingInterval: 1000 });
+
+      vi.advanceTimersByTime(1000);
+      expect(client.readyState).toBe(1);
+      vi.advanceTimersByTime(1000);
+
+      expect(client.readyState).toBe(3);
+      expect(client.closeCode).toBe(4000);
+      expect(client.closeReason).toBe('Ping timeout');
+    });
+  });
+});